@@ -18,6 +18,7 @@ import BusinessDashboard from "@/pages/business-dashboard";
 import InfluencerDashboard from "@/pages/influencer-dashboard";
 import MetricsDetail from "@/pages/metrics-detail";
 import OfferDetail from "@/pages/offer-detail";
+import OfferApplicants from "@/pages/offer-applicants";
 import DealDetail from "@/pages/deal-detail";
 import TestRegisterPage from "@/pages/test-register";
 import Marketplace from "@/pages/marketplace";
@@ -32,6 +33,7 @@ import AdminOffers from "@/pages/admin/offers";
 import AdminReports from "@/pages/admin/reports";
 import AdminSettings from "@/pages/admin/settings";
 import AdminLogs from "@/pages/admin/logs";
+import AdminJobs from "@/pages/admin/jobs";
 import AdminLogin from "@/pages/admin/login";
 import { AdminEntry } from "@/components/admin/admin-entry";
 
@@ -109,6 +111,7 @@ function Router() {
       <ProtectedRoute path="/influencer-dashboard" component={InfluencerDashboard} />
       <ProtectedRoute path="/influencer" component={InfluencerDashboard} /> {/* For backward compatibility */}
       <ProtectedRoute path="/metrics/:type" component={MetricsDetail} />
+      <ProtectedRoute path="/offers/:id/applicants" component={OfferApplicants} />
       <ProtectedRoute path="/offers/:id" component={OfferDetail} />
       <ProtectedRoute path="/deals/:id" component={DealDetail} />
       <Route path="/marketplace" component={Marketplace} />
@@ -123,6 +126,7 @@ function Router() {
       <ProtectedRoute path="/admin/reports" component={AdminReports} adminOnly={true} />
       <ProtectedRoute path="/admin/settings" component={AdminSettings} superAdminOnly={true} />
       <ProtectedRoute path="/admin/logs" component={AdminLogs} adminOnly={true} />
+      <ProtectedRoute path="/admin/jobs" component={AdminJobs} adminOnly={true} />
       <Route path="/admin" component={AdminEntry} />
       
       <Route path="/" component={DefaultRoute} />
@@ -9,6 +9,7 @@ import {
   Flag,
   Settings,
   ClipboardList,
+  ListRestart,
   LogOut,
   Menu,
   X,
@@ -90,6 +91,12 @@ export function AdminLayout({ children }: AdminLayoutProps) {
       icon: <ClipboardList className="h-5 w-5" />,
       current: location === "/admin/logs",
     },
+    {
+      name: "Jobs",
+      href: "/admin/jobs",
+      icon: <ListRestart className="h-5 w-5" />,
+      current: location === "/admin/jobs",
+    },
   ];
 
   const filteredNavItems = navItems.filter(
@@ -0,0 +1,245 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { RotateCcw, Save } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MATCH_FACTORS,
+  MATCH_FACTOR_LABELS,
+  type MatchingProfile,
+  type MatchingProfileInput,
+  type MatchingRules,
+} from "@shared/matching-profile";
+
+interface MatchingProfileResponse {
+  profile: MatchingProfile;
+  defaults: MatchingProfile;
+}
+
+type RuleGroup = keyof MatchingRules;
+
+// Numeric rule fields shown in the editor, per group
+const RULE_FIELDS: { group: RuleGroup; title: string; fields: { key: string; label: string; step: number }[] }[] = [
+  {
+    group: "metrics",
+    title: "Metrics",
+    fields: [
+      { key: "idealFollowerMultiple", label: "Ideal followers (× minimum)", step: 0.5 },
+      { key: "oversizePenalty", label: "Penalty per multiple above ideal", step: 0.05 },
+      { key: "oversizeFloor", label: "Lowest oversize multiplier", step: 0.05 },
+      { key: "followerShare", label: "Follower share", step: 0.05 },
+      { key: "engagementShare", label: "Engagement share", step: 0.05 },
+      { key: "maxEngagementMultiple", label: "Engagement cap (× minimum)", step: 0.5 },
+    ],
+  },
+  {
+    group: "location",
+    title: "Location",
+    fields: [
+      { key: "decayKm", label: "Distance that halves the score (km)", step: 5 },
+      { key: "outsideRadius", label: "Outside the offer's radius", step: 1 },
+      { key: "exact", label: "Same place", step: 1 },
+      { key: "partial", label: "Partial match", step: 1 },
+      { key: "mismatch", label: "Different location", step: 1 },
+      { key: "missing", label: "No location", step: 1 },
+    ],
+  },
+  {
+    group: "niche",
+    title: "Niche",
+    fields: [
+      { key: "category", label: "Category match", step: 1 },
+      { key: "tag", label: "Tag match", step: 1 },
+      { key: "mismatch", label: "Different niche", step: 1 },
+      { key: "missing", label: "No niche", step: 1 },
+      { key: "similarityFloor", label: "Content similarity scored as different", step: 0.05 },
+      { key: "similarityCeiling", label: "Content similarity scored as a match", step: 0.05 },
+    ],
+  },
+  {
+    group: "audience",
+    title: "Audience",
+    fields: [
+      { key: "fullOverlapShare", label: "Target share for full marks (%)", step: 5 },
+      { key: "untargeted", label: "Offer targets no audience", step: 1 },
+      { key: "unknown", label: "Audience not described", step: 1 },
+    ],
+  },
+  {
+    group: "contentType",
+    title: "Content Type",
+    fields: [
+      { key: "preferred", label: "Platform built for it", step: 1 },
+      { key: "supported", label: "Platform supports it", step: 1 },
+      { key: "missing", label: "Unknown", step: 1 },
+    ],
+  },
+];
+
+/**
+ * Admin editor for the weights and rule scores used in match scoring
+ */
+export function MatchingProfileEditor() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<MatchingProfileInput | null>(null);
+
+  const { data, isLoading } = useQuery<MatchingProfileResponse>({
+    queryKey: ["/api/admin/matching-profile"],
+  });
+
+  useEffect(() => {
+    if (data) {
+      setDraft({ weights: data.profile.weights, rules: data.profile.rules });
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (profile: MatchingProfileInput) => {
+      const res = await apiRequest("PUT", "/api/admin/matching-profile", profile);
+      return (await res.json()) as { profile: MatchingProfile };
+    },
+    onSuccess: ({ profile }) => {
+      toast({
+        title: "Matching profile saved",
+        description: `Match scores now use version ${profile.version}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/matching-profile"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !data || !draft) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">Loading matching profile...</CardContent>
+      </Card>
+    );
+  }
+
+  const totalWeight = MATCH_FACTORS.reduce((sum, factor) => sum + draft.weights[factor], 0);
+
+  const setRule = (group: RuleGroup, key: string, value: number | boolean) => {
+    setDraft({
+      ...draft,
+      rules: { ...draft.rules, [group]: { ...draft.rules[group], [key]: value } },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Matching Profile
+          <Badge variant="outline">v{data.profile.version}</Badge>
+        </CardTitle>
+        <CardDescription>
+          How influencers are scored against offers. Saving creates a new version; businesses can still set their own weights on individual offers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <h3 className="font-medium">Factor Weights</h3>
+          {MATCH_FACTORS.map((factor) => (
+            <div key={factor} className="grid gap-2">
+              <div className="flex items-center justify-between">
+                <Label>{MATCH_FACTOR_LABELS[factor]}</Label>
+                <span className="text-sm text-muted-foreground">
+                  {draft.weights[factor]}
+                  {totalWeight > 0 && ` (${Math.round((draft.weights[factor] / totalWeight) * 100)}% of the score)`}
+                </span>
+              </div>
+              <Slider
+                min={0}
+                max={100}
+                step={1}
+                value={[draft.weights[factor]]}
+                onValueChange={([value]) => setDraft({ ...draft, weights: { ...draft.weights, [factor]: value } })}
+              />
+            </div>
+          ))}
+          {totalWeight === 0 && (
+            <p className="text-sm text-destructive">At least one weight must be above zero.</p>
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-6">
+          <h3 className="font-medium">Rule Scores</h3>
+          {RULE_FIELDS.map(({ group, title, fields }) => (
+            <div key={group} className="space-y-3">
+              <h4 className="text-sm font-medium">{title}</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {fields.map((field) => (
+                  <div key={field.key} className="grid gap-1">
+                    <Label className="text-xs text-muted-foreground">{field.label}</Label>
+                    <Input
+                      type="number"
+                      step={field.step}
+                      value={(draft.rules[group] as Record<string, number | boolean>)[field.key] as number}
+                      onChange={(e) => setRule(group, field.key, parseFloat(e.target.value) || 0)}
+                    />
+                  </div>
+                ))}
+              </div>
+              {group === "location" && (
+                <div className="flex items-center justify-between rounded-md border p-3">
+                  <Label className="text-sm">Count overlapping place names as a partial match</Label>
+                  <Switch
+                    checked={draft.rules.location.allowPartial}
+                    onCheckedChange={(checked) => setRule("location", "allowPartial", checked)}
+                  />
+                </div>
+              )}
+              {group === "niche" && (
+                <div className="flex items-center justify-between rounded-md border p-3">
+                  <Label className="text-sm">Match the niche against offer tags</Label>
+                  <Switch
+                    checked={draft.rules.niche.matchTags}
+                    onCheckedChange={(checked) => setRule("niche", "matchTags", checked)}
+                  />
+                </div>
+              )}
+              {group === "niche" && (
+                <div className="flex items-center justify-between rounded-md border p-3">
+                  <Label className="text-sm">Compare bios and posts with offer descriptions</Label>
+                  <Switch
+                    checked={draft.rules.niche.semantic}
+                    onCheckedChange={(checked) => setRule("niche", "semantic", checked)}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        <Button
+          variant="outline"
+          onClick={() => setDraft({ weights: data.defaults.weights, rules: data.defaults.rules })}
+        >
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Restore Defaults
+        </Button>
+        <Button
+          onClick={() => saveMutation.mutate(draft)}
+          disabled={saveMutation.isPending || totalWeight === 0}
+        >
+          <Save className="mr-2 h-4 w-4" />
+          {saveMutation.isPending ? "Saving..." : "Save as New Version"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -32,6 +32,8 @@ import {
 import { SmartBudgetOptimizer, BudgetOptimization } from "@/components/smart-budget-optimizer";
 import { PerformanceForecaster, CampaignForecast } from "@/components/performance-forecaster";
 import { InfluencerMatcher, InfluencerMatch } from "@/components/influencer-matcher";
+import { AudienceTargetingFields } from "@/components/ui/audience-fields";
+import { hasAudienceTargeting, type AudienceRequirements } from "@shared/audience-demographics";
 
 interface AIEnhancedOfferWizardProps {
   initialData?: any;
@@ -57,7 +59,8 @@ export function AIEnhancedOfferWizard({
     category: initialData?.category || "fashion",
     contentType: initialData?.contentType || "image",
     location: initialData?.location || "",
-    tags: initialData?.tags || []
+    tags: initialData?.tags || [],
+    audienceRequirements: (initialData?.audienceRequirements ?? {}) as AudienceRequirements
   });
   
   const [selectedSuggestions, setSelectedSuggestions] = useState<string[]>([]);
@@ -79,7 +82,7 @@ export function AIEnhancedOfferWizard({
     formData.minFollowers * 5, // estimate potential reach
     formData.contentType
   );
-  const contentBrief = useContentBrief(formData.category, formData.contentType);
+  const contentBrief = useContentBrief(formData.category, formData.contentType, 'instagram', formData.location);
   const campaignObjectives = useCampaignObjectives();
   const { generateMatchPreview, isGenerating } = useMatchPreview();
   
@@ -125,7 +128,7 @@ export function AIEnhancedOfferWizard({
     }));
     
     // Reset match preview when criteria change
-    if (['minFollowers', 'minEngagement', 'category', 'contentType', 'location'].includes(field)) {
+    if (['minFollowers', 'minEngagement', 'category', 'contentType', 'location', 'audienceRequirements'].includes(field)) {
       setMatchPreviewData(null);
     }
   };
@@ -148,7 +151,8 @@ export function AIEnhancedOfferWizard({
         category: formData.category,
         contentType: formData.contentType,
         location: formData.location,
-        tags: formData.tags
+        tags: formData.tags,
+        audienceRequirements: formData.audienceRequirements
       });
       
       setMatchPreviewData(preview);
@@ -227,7 +231,8 @@ export function AIEnhancedOfferWizard({
       ...formData,
       description: combineDescription(),
       // Add tags based on content type and category if none provided
-      tags: formData.tags.length > 0 ? formData.tags : [formData.category, formData.contentType]
+      tags: formData.tags.length > 0 ? formData.tags : [formData.category, formData.contentType],
+      audienceRequirements: hasAudienceTargeting(formData.audienceRequirements) ? formData.audienceRequirements : null
     };
     
     onComplete(finalData);
@@ -447,6 +452,17 @@ export function AIEnhancedOfferWizard({
             </div>
           </div>
           
+          {/* Sponsorship disclosure rules for the offer location */}
+          <div className="p-3 border border-amber-300 bg-amber-50 rounded-md space-y-1 mb-2">
+            <h3 className="font-medium text-sm flex items-center gap-1">
+              <AlertTriangle className="h-4 w-4 text-amber-600" />
+              Disclosure Requirements
+            </h3>
+            {contentBrief.data.disclosureGuidance.map((guidance, i) => (
+              <p key={i} className="text-xs text-muted-foreground">{guidance}</p>
+            ))}
+          </div>
+          
           {/* Key Messages */}
           {contentBrief.data.keyMessages.map((suggestion, index) => (
             <div 
@@ -736,6 +752,22 @@ export function AIEnhancedOfferWizard({
         </div>
       </div>
       
+      <div className="space-y-3 rounded-lg border p-4">
+        <div>
+          <h3 className="font-medium flex items-center gap-2">
+            <Target className="h-4 w-4 text-primary" />
+            Target Audience
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Creators whose followers match these rank higher. Leave anything blank to not target it.
+          </p>
+        </div>
+        <AudienceTargetingFields
+          value={formData.audienceRequirements}
+          onChange={(value) => handleChange('audienceRequirements', value)}
+        />
+      </div>
+      
       <div className="mt-6">
         <Card>
           <CardHeader className="pb-2">
@@ -0,0 +1,356 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getAuthToken } from "@/lib/queryClient";
+import { DollarSign, Clock, Wallet, CheckCircle, Download, Loader2, FileText } from 'lucide-react';
+
+// All amounts returned by the earnings API are in cents
+interface EarningsReport {
+  summary: {
+    currency: string;
+    lifetime: number;
+    pending: number;
+    paid: number;
+    processing: number;
+    available: number;
+  };
+  claims: Array<{
+    claimId: number;
+    offerId: number;
+    offerTitle: string;
+    amount: number;
+    status: 'pending' | 'earned' | 'refunded';
+    heldAt: string | null;
+    releasedAt: string | null;
+  }>;
+  months: Array<{ month: string; earned: number; pending: number; paid: number }>;
+}
+
+interface PayoutsResponse {
+  payouts: Array<{
+    id: number;
+    amount: number;
+    currency: string;
+    status: string;
+    failureReason: string | null;
+    requestedAt: string | null;
+    processedAt: string | null;
+  }>;
+  minimumAmount: number;
+  availableBalance: number;
+  currency: string;
+}
+
+const formatMoney = (cents: number) =>
+  `$${(cents / 100).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleDateString() : '—';
+
+const claimStatusVariant = (status: string): "default" | "secondary" | "destructive" | "outline" => {
+  if (status === 'earned' || status === 'paid') return 'default';
+  if (status === 'refunded' || status === 'rejected' || status === 'failed') return 'destructive';
+  return 'secondary';
+};
+
+// Statements are fetched with the auth token so they work for token-based sessions too
+async function downloadStatement(month: string, format: 'csv' | 'pdf') {
+  const headers: Record<string, string> = {};
+  const authToken = await getAuthToken();
+  if (authToken) {
+    headers["Authorization"] = `Bearer ${authToken}`;
+  }
+
+  const res = await fetch(`/api/influencer/earnings/statements/${month}?format=${format}`, {
+    credentials: "include",
+    headers
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to download statement (${res.status})`);
+  }
+
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `somie-statement-${month}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function EarningsOverview() {
+  const { toast } = useToast();
+  const [payoutAmount, setPayoutAmount] = useState('');
+
+  const { data: earnings, isLoading: earningsLoading } = useQuery<EarningsReport>({
+    queryKey: ["/api/influencer/earnings"],
+  });
+
+  const { data: payoutData, isLoading: payoutsLoading } = useQuery<PayoutsResponse>({
+    queryKey: ["/api/influencer/payouts"],
+  });
+
+  const payoutMutation = useMutation({
+    mutationFn: async (amount: number) => {
+      const res = await apiRequest("POST", "/api/influencer/payouts", { amount });
+      return res.json();
+    },
+    onSuccess: () => {
+      setPayoutAmount('');
+      queryClient.invalidateQueries({ queryKey: ["/api/influencer/earnings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/influencer/payouts"] });
+      toast({
+        title: "Payout requested",
+        description: "Your payout request has been submitted for review.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Payout request failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDownload = async (month: string, format: 'csv' | 'pdf') => {
+    try {
+      await downloadStatement(month, format);
+    } catch (error: any) {
+      toast({
+        title: "Download failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (earningsLoading || payoutsLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const summary = earnings?.summary;
+  const available = payoutData?.availableBalance ?? summary?.available ?? 0;
+  const minimumAmount = payoutData?.minimumAmount ?? 0;
+  const requestedCents = Math.round(parseFloat(payoutAmount || '0') * 100);
+  const canRequest = requestedCents >= minimumAmount && requestedCents <= available && requestedCents > 0;
+  const currentMonth = new Date().toISOString().slice(0, 7);
+  const statementMonths = earnings?.months.length
+    ? earnings.months.map(month => month.month)
+    : [currentMonth];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">Lifetime Earned</p>
+              <DollarSign className="h-4 w-4 text-muted-foreground" />
+            </div>
+            <h3 className="text-2xl font-semibold mt-2">{formatMoney(summary?.lifetime || 0)}</h3>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">Pending (in escrow)</p>
+              <Clock className="h-4 w-4 text-muted-foreground" />
+            </div>
+            <h3 className="text-2xl font-semibold mt-2">{formatMoney(summary?.pending || 0)}</h3>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">Available</p>
+              <Wallet className="h-4 w-4 text-muted-foreground" />
+            </div>
+            <h3 className="text-2xl font-semibold mt-2">{formatMoney(available)}</h3>
+            {(summary?.processing || 0) > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                {formatMoney(summary!.processing)} processing
+              </p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">Paid Out</p>
+              <CheckCircle className="h-4 w-4 text-muted-foreground" />
+            </div>
+            <h3 className="text-2xl font-semibold mt-2">{formatMoney(summary?.paid || 0)}</h3>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Wallet className="mr-2 h-5 w-5" />
+            Request a Payout
+          </CardTitle>
+          <CardDescription>
+            Withdraw your available balance. The minimum payout is {formatMoney(minimumAmount)}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="flex flex-col sm:flex-row gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (canRequest) {
+                payoutMutation.mutate(requestedCents);
+              }
+            }}
+          >
+            <Input
+              type="number"
+              min={minimumAmount / 100}
+              max={available / 100}
+              step="0.01"
+              placeholder={`Amount (max ${formatMoney(available)})`}
+              value={payoutAmount}
+              onChange={(e) => setPayoutAmount(e.target.value)}
+              className="sm:max-w-xs"
+            />
+            <Button type="submit" disabled={!canRequest || payoutMutation.isPending}>
+              {payoutMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Request Payout
+            </Button>
+          </form>
+          {available < minimumAmount && (
+            <p className="text-sm text-muted-foreground mt-2">
+              You need at least {formatMoney(minimumAmount)} available to request a payout.
+            </p>
+          )}
+
+          {payoutData && payoutData.payouts.length > 0 && (
+            <Table className="mt-4">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Processed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payoutData.payouts.map(payout => (
+                  <TableRow key={payout.id}>
+                    <TableCell>{formatDate(payout.requestedAt)}</TableCell>
+                    <TableCell>{formatMoney(payout.amount)}</TableCell>
+                    <TableCell>
+                      <Badge variant={claimStatusVariant(payout.status)} title={payout.failureReason || undefined}>
+                        {payout.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{formatDate(payout.processedAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <FileText className="mr-2 h-5 w-5" />
+            Monthly Statements
+          </CardTitle>
+          <CardDescription>Earnings, payouts and balance movements per month</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Month</TableHead>
+                <TableHead>Earned</TableHead>
+                <TableHead>Pending</TableHead>
+                <TableHead>Paid Out</TableHead>
+                <TableHead className="text-right">Statement</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {statementMonths.map(month => {
+                const totals = earnings?.months.find(m => m.month === month);
+                return (
+                  <TableRow key={month}>
+                    <TableCell className="font-medium">{month}</TableCell>
+                    <TableCell>{formatMoney(totals?.earned || 0)}</TableCell>
+                    <TableCell>{formatMoney(totals?.pending || 0)}</TableCell>
+                    <TableCell>{formatMoney(totals?.paid || 0)}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => handleDownload(month, 'csv')}>
+                        <Download className="mr-1 h-3 w-3" />
+                        CSV
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleDownload(month, 'pdf')}>
+                        <Download className="mr-1 h-3 w-3" />
+                        PDF
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <DollarSign className="mr-2 h-5 w-5" />
+            Earnings by Deal
+          </CardTitle>
+          <CardDescription>Escrowed rewards for each claimed offer</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {earnings && earnings.claims.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Offer</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Funded</TableHead>
+                  <TableHead>Released</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {earnings.claims.map(claim => (
+                  <TableRow key={claim.claimId}>
+                    <TableCell className="font-medium">{claim.offerTitle}</TableCell>
+                    <TableCell>{formatMoney(claim.amount)}</TableCell>
+                    <TableCell>
+                      <Badge variant={claimStatusVariant(claim.status)}>{claim.status}</Badge>
+                    </TableCell>
+                    <TableCell>{formatDate(claim.heldAt)}</TableCell>
+                    <TableCell>{formatDate(claim.releasedAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No earnings yet. Complete deals with brands to start earning.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,438 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Flag, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CAMPAIGN_KPI_LABELS,
+  CAMPAIGN_KPI_METRICS,
+  CAMPAIGN_OBJECTIVES,
+  CAMPAIGN_OBJECTIVE_IDS,
+  DEFAULT_PACING_THRESHOLD,
+  MIN_PACING_THRESHOLD,
+  type CampaignKpiMetric,
+  type CampaignObjectiveId,
+  type CampaignPacingStatus,
+  type CampaignRollup
+} from "@shared/campaigns";
+
+const CAMPAIGNS_KEY = ["/api/business/campaigns"];
+const BUSINESS_OFFERS_KEY = ["/api/business/offers?limit=50"];
+
+const PACING_LABELS: Record<CampaignPacingStatus, string> = {
+  on_track: "On track",
+  near_cap: "Offers paused",
+  capped: "Budget spent",
+};
+
+const formatDollars = (cents: number) => `$${Math.round(cents / 100).toLocaleString()}`;
+
+const toDateInput = (value: string) => value.slice(0, 10);
+
+interface CampaignFormState {
+  name: string;
+  description: string;
+  objective: CampaignObjectiveId;
+  budget: string;
+  pacingThreshold: string;
+  startsAt: string;
+  endsAt: string;
+  kpiTargets: Record<CampaignKpiMetric, string>;
+}
+
+const emptyForm = (): CampaignFormState => ({
+  name: "",
+  description: "",
+  objective: "brand_awareness",
+  budget: "",
+  pacingThreshold: String(DEFAULT_PACING_THRESHOLD),
+  startsAt: new Date().toISOString().slice(0, 10),
+  endsAt: "",
+  kpiTargets: { creators: "", posts: "", reach: "" },
+});
+
+const formFromCampaign = (campaign: CampaignRollup): CampaignFormState => ({
+  name: campaign.name,
+  description: campaign.description ?? "",
+  objective: campaign.objectiveId,
+  budget: String(campaign.budget),
+  pacingThreshold: String(campaign.pacingThreshold),
+  startsAt: toDateInput(campaign.startsAt),
+  endsAt: toDateInput(campaign.endsAt),
+  kpiTargets: {
+    creators: campaign.kpis.find(kpi => kpi.metric === "creators")?.target?.toString() ?? "",
+    posts: campaign.kpis.find(kpi => kpi.metric === "posts")?.target?.toString() ?? "",
+    reach: campaign.kpis.find(kpi => kpi.metric === "reach")?.target?.toString() ?? "",
+  },
+});
+
+interface CampaignDialogProps {
+  open: boolean;
+  // The campaign being edited; null creates a new one
+  campaign: CampaignRollup | null;
+  onClose: () => void;
+}
+
+function CampaignDialog({ open, campaign, onClose }: CampaignDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<CampaignFormState>(emptyForm);
+
+  useEffect(() => {
+    if (open) setForm(campaign ? formFromCampaign(campaign) : emptyForm());
+  }, [open, campaign]);
+
+  const objective = CAMPAIGN_OBJECTIVES[form.objective];
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const kpiTargets: Partial<Record<CampaignKpiMetric, number>> = {};
+      for (const metric of CAMPAIGN_KPI_METRICS) {
+        if (form.kpiTargets[metric]) kpiTargets[metric] = parseInt(form.kpiTargets[metric]);
+      }
+      const body = {
+        name: form.name,
+        description: form.description.trim() || null,
+        objective: form.objective,
+        budget: parseInt(form.budget),
+        pacingThreshold: parseInt(form.pacingThreshold),
+        startsAt: form.startsAt,
+        endsAt: form.endsAt,
+        kpiTargets,
+      };
+      return campaign
+        ? apiRequest("PUT", `/api/business/campaigns/${campaign.id}`, body)
+        : apiRequest("POST", "/api/business/campaigns", body);
+    },
+    onSuccess: () => {
+      toast({ title: campaign ? "Campaign updated" : "Campaign created" });
+      queryClient.invalidateQueries({ queryKey: CAMPAIGNS_KEY });
+      queryClient.invalidateQueries({ queryKey: BUSINESS_OFFERS_KEY });
+      onClose();
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to save campaign", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onClose(); }}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{campaign ? "Edit Campaign" : "New Campaign"}</DialogTitle>
+          <DialogDescription>
+            Group offers under one budget. Offers pause when spend reaches the pacing threshold.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="campaign-name">Name</Label>
+            <Input
+              id="campaign-name"
+              placeholder="e.g. Spring product launch"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Objective</Label>
+            <Select value={form.objective} onValueChange={(value) => setForm({ ...form, objective: value as CampaignObjectiveId })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CAMPAIGN_OBJECTIVE_IDS.map(id => (
+                  <SelectItem key={id} value={id}>{CAMPAIGN_OBJECTIVES[id].name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {objective.description}. Usually measured by {objective.recommendedKPIs.join(", ")}.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="campaign-budget">Budget ($)</Label>
+              <Input
+                id="campaign-budget"
+                type="number"
+                min={1}
+                value={form.budget}
+                onChange={(e) => setForm({ ...form, budget: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-pacing">Pause offers at (% spent)</Label>
+              <Input
+                id="campaign-pacing"
+                type="number"
+                min={MIN_PACING_THRESHOLD}
+                max={100}
+                value={form.pacingThreshold}
+                onChange={(e) => setForm({ ...form, pacingThreshold: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-starts">Starts</Label>
+              <Input
+                id="campaign-starts"
+                type="date"
+                value={form.startsAt}
+                onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-ends">Ends</Label>
+              <Input
+                id="campaign-ends"
+                type="date"
+                value={form.endsAt}
+                onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>KPI targets (optional)</Label>
+            <div className="grid grid-cols-3 gap-3">
+              {CAMPAIGN_KPI_METRICS.map(metric => (
+                <Input
+                  key={metric}
+                  type="number"
+                  min={1}
+                  placeholder={CAMPAIGN_KPI_LABELS[metric]}
+                  aria-label={`${CAMPAIGN_KPI_LABELS[metric]} target`}
+                  value={form.kpiTargets[metric]}
+                  onChange={(e) => setForm({ ...form, kpiTargets: { ...form.kpiTargets, [metric]: e.target.value } })}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="campaign-description">Description</Label>
+            <Textarea
+              id="campaign-description"
+              placeholder="What the campaign is for (optional)"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!form.name.trim() || !form.budget || !form.startsAt || !form.endsAt || saveMutation.isPending}
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {campaign ? "Save Changes" : "Create Campaign"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * The business's campaigns with budget spend, pacing and KPI progress rolled up across their offers
+ */
+export function CampaignsPanel() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<CampaignRollup | null>(null);
+
+  const { data: campaigns = [], isLoading } = useQuery<CampaignRollup[]>({
+    queryKey: CAMPAIGNS_KEY,
+  });
+
+  const { data: businessOffers } = useQuery<{ offers: { id: number; title: string; status: string; campaignId: number | null }[] }>({
+    queryKey: BUSINESS_OFFERS_KEY,
+  });
+  const unassignedOffers = businessOffers?.offers.filter(offer => offer.campaignId === null) ?? [];
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: CAMPAIGNS_KEY });
+    queryClient.invalidateQueries({ queryKey: BUSINESS_OFFERS_KEY });
+  };
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to update campaign",
+      variant: "destructive",
+    });
+  };
+
+  const offerMutation = useMutation({
+    mutationFn: async ({ campaignId, offerId, remove }: { campaignId: number; offerId: number; remove?: boolean }) =>
+      apiRequest(remove ? "DELETE" : "PUT", `/api/business/campaigns/${campaignId}/offers/${offerId}`),
+    onSuccess,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (campaignId: number) => apiRequest("DELETE", `/api/business/campaigns/${campaignId}`),
+    onSuccess: () => {
+      toast({ title: "Campaign deleted" });
+      onSuccess();
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5" />
+            Campaigns
+          </CardTitle>
+          <CardDescription>Budget, pacing and results across groups of offers</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => { setEditing(null); setDialogOpen(true); }}>
+          <Plus className="mr-1 h-4 w-4" />
+          New Campaign
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : campaigns.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Create a campaign to run several offers, such as one per platform, from a shared budget.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {campaigns.map(campaign => {
+              const budgetCents = campaign.budget * 100;
+              const percentSpent = budgetCents > 0 ? Math.min(100, campaign.spend.total / budgetCents * 100) : 0;
+
+              return (
+                <div key={campaign.id} className="rounded-lg border p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="font-medium flex items-center gap-2">
+                        <span className="truncate">{campaign.name}</span>
+                        <Badge variant="secondary">{campaign.objective.name}</Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(campaign.startsAt).toLocaleDateString()} – {new Date(campaign.endsAt).toLocaleDateString()}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Badge variant={campaign.pacingStatus === "on_track" ? "outline" : "destructive"}>
+                        {PACING_LABELS[campaign.pacingStatus]}
+                      </Badge>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Edit campaign"
+                        onClick={() => { setEditing(campaign); setDialogOpen(true); }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Delete campaign"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => {
+                          if (window.confirm(`Delete "${campaign.name}"? Its offers keep running on their own.`)) {
+                            deleteMutation.mutate(campaign.id);
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div>
+                    <Progress value={percentSpent} />
+                    <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                      <span>
+                        {formatDollars(campaign.spend.total)} of ${campaign.budget.toLocaleString()} committed
+                        {campaign.spend.released > 0 && ` · ${formatDollars(campaign.spend.released)} paid out`}
+                      </span>
+                      <span>Pauses at {campaign.pacingThreshold}%</span>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-2 text-sm">
+                    {campaign.kpis.map(kpi => (
+                      <div key={kpi.metric} className="rounded-md bg-muted p-2">
+                        <div className="text-xs text-muted-foreground">{CAMPAIGN_KPI_LABELS[kpi.metric]}</div>
+                        <div className="font-medium">
+                          {kpi.actual.toLocaleString()}
+                          {kpi.target !== null && (
+                            <span className="text-muted-foreground font-normal"> / {kpi.target.toLocaleString()}</span>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="space-y-1">
+                    {campaign.offers.map(offer => (
+                      <div key={offer.id} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate">{offer.title}</span>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <span className="text-xs text-muted-foreground">{formatDollars(offer.spent)}</span>
+                          <Badge variant={offer.status === "active" ? "default" : "outline"} className="capitalize">
+                            {offer.status}
+                          </Badge>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            aria-label={`Remove ${offer.title} from campaign`}
+                            disabled={offerMutation.isPending}
+                            onClick={() => offerMutation.mutate({ campaignId: campaign.id, offerId: offer.id, remove: true })}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                    {unassignedOffers.length > 0 && (
+                      <Select
+                        value=""
+                        onValueChange={(value) => offerMutation.mutate({ campaignId: campaign.id, offerId: parseInt(value) })}
+                      >
+                        <SelectTrigger className="h-8 text-sm">
+                          <SelectValue placeholder="Add an offer to this campaign" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {unassignedOffers.map(offer => (
+                            <SelectItem key={offer.id} value={String(offer.id)}>{offer.title}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <CampaignDialog open={dialogOpen} campaign={editing} onClose={() => setDialogOpen(false)} />
+    </Card>
+  );
+}
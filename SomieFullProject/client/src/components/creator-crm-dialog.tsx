@@ -0,0 +1,335 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, MessageSquare, Send, Star } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CLAIM_STATUS_LABELS } from "@shared/claim-lifecycle";
+import { MAX_CREATOR_TAGS, type CreatorNotesInput, type CreatorRelationship } from "@shared/creator-crm";
+import {
+  DEFAULT_INVITATION_EXPIRY_DAYS,
+  INVITATION_EXPIRY_OPTIONS,
+  MAX_INVITATION_MESSAGE_LENGTH
+} from "@shared/offer-invitations";
+
+interface CreatorCrmDialogProps {
+  // The creator to show; null closes the dialog
+  creator: { id: number; displayName: string } | null;
+  onClose: () => void;
+}
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleDateString() : "—";
+
+/**
+ * A business's private notes, tags and rating for a creator, their history
+ * together, and inviting the creator to one of the business's offers
+ */
+export function CreatorCrmDialog({ creator, onClose }: CreatorCrmDialogProps) {
+  const { toast } = useToast();
+  const relationshipKey = [`/api/business/creators/${creator?.id}`];
+
+  const { data: relationship, isLoading } = useQuery<CreatorRelationship>({
+    queryKey: relationshipKey,
+    enabled: !!creator,
+  });
+
+  const { data: businessOffers } = useQuery<{ offers: { id: number; title: string; status: string; visibility: string }[] }>({
+    queryKey: ["/api/business/offers?limit=50"],
+    enabled: !!creator,
+  });
+  const activeOffers = businessOffers?.offers.filter(offer => offer.status === "active") ?? [];
+
+  const [notes, setNotes] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagDraft, setTagDraft] = useState("");
+  const [rating, setRating] = useState<number | null>(null);
+  const [inviteOfferId, setInviteOfferId] = useState<string>("");
+  const [inviteMessage, setInviteMessage] = useState("");
+  const [inviteExpiryDays, setInviteExpiryDays] = useState(DEFAULT_INVITATION_EXPIRY_DAYS);
+
+  // Start from what was saved each time a creator is opened
+  useEffect(() => {
+    if (!relationship) return;
+    setNotes(relationship.notes ?? "");
+    setTags(relationship.tags);
+    setRating(relationship.rating);
+  }, [relationship]);
+
+  useEffect(() => {
+    setInviteOfferId("");
+    setInviteMessage("");
+    setInviteExpiryDays(DEFAULT_INVITATION_EXPIRY_DAYS);
+  }, [creator?.id]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (input: CreatorNotesInput) =>
+      apiRequest("PUT", `/api/business/creators/${creator?.id}/notes`, input),
+    onSuccess: () => {
+      toast({ title: "Notes saved" });
+      queryClient.invalidateQueries({ queryKey: relationshipKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/business/shortlists"] });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to save notes", variant: "destructive" });
+    },
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/business/creators/${creator?.id}/invitations`, {
+      offerId: parseInt(inviteOfferId),
+      message: inviteMessage.trim() || null,
+      expiresInDays: inviteExpiryDays,
+    }),
+    onSuccess: () => {
+      toast({ title: "Invitation sent", description: `${creator?.displayName} has been notified and has ${inviteExpiryDays} days to answer.` });
+      setInviteOfferId("");
+      setInviteMessage("");
+      queryClient.invalidateQueries({ queryKey: relationshipKey });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to send invitation", variant: "destructive" });
+    },
+  });
+
+  const addTag = () => {
+    const tag = tagDraft.trim().toLowerCase();
+    if (tag && !tags.includes(tag) && tags.length < MAX_CREATOR_TAGS) {
+      setTags([...tags, tag]);
+    }
+    setTagDraft("");
+  };
+
+  return (
+    <Dialog open={!!creator} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{creator?.displayName}</DialogTitle>
+          <DialogDescription>
+            {relationship
+              ? `${relationship.creator.followerCount.toLocaleString()} followers · ${relationship.creator.engagementRate}% engagement${relationship.creator.niche ? ` · ${relationship.creator.niche}` : ""}`
+              : "Only your team can see notes, tags and ratings."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !relationship ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Tabs defaultValue="notes">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="notes">Notes</TabsTrigger>
+              <TabsTrigger value="history">
+                History ({relationship.stats.totalClaims})
+              </TabsTrigger>
+              <TabsTrigger value="invite">Invite to Offer</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="notes" className="space-y-4 pt-2">
+              <div className="space-y-2">
+                <Label>Your rating</Label>
+                <div className="flex items-center gap-1">
+                  {[1, 2, 3, 4, 5].map(value => (
+                    <button
+                      key={value}
+                      type="button"
+                      aria-label={`${value} star${value > 1 ? "s" : ""}`}
+                      onClick={() => setRating(rating === value ? null : value)}
+                    >
+                      <Star className={`h-5 w-5 ${rating && value <= rating ? "fill-amber-400 text-amber-400" : "text-muted-foreground"}`} />
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="creator-tags">Tags</Label>
+                <div className="flex flex-wrap gap-1">
+                  {tags.map(tag => (
+                    <Badge key={tag} variant="secondary" className="flex items-center gap-1">
+                      {tag}
+                      <button
+                        className="h-3 w-3 rounded-full text-muted-foreground hover:text-foreground"
+                        onClick={() => setTags(tags.filter(t => t !== tag))}
+                      >
+                        ×
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+                <Input
+                  id="creator-tags"
+                  placeholder="Add a tag and press Enter"
+                  value={tagDraft}
+                  onChange={(e) => setTagDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      addTag();
+                    }
+                  }}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="creator-notes">Private notes</Label>
+                <Textarea
+                  id="creator-notes"
+                  rows={5}
+                  placeholder="Rates, past feedback, what they're great at..."
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => saveMutation.mutate({ notes: notes.trim() || null, tags, rating })}
+                  disabled={saveMutation.isPending}
+                >
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="history" className="space-y-4 pt-2 max-h-[55vh] overflow-y-auto">
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="rounded-md border p-2">
+                  <div className="text-lg font-semibold">{relationship.stats.totalClaims}</div>
+                  <div className="text-xs text-muted-foreground">Claims</div>
+                </div>
+                <div className="rounded-md border p-2">
+                  <div className="text-lg font-semibold">{relationship.stats.completedClaims}</div>
+                  <div className="text-xs text-muted-foreground">Completed</div>
+                </div>
+                <div className="rounded-md border p-2">
+                  <div className="text-lg font-semibold">{relationship.stats.totalMessages}</div>
+                  <div className="text-xs text-muted-foreground">Messages</div>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Past claims</h4>
+                {relationship.claims.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No claims on your offers yet.</p>
+                ) : relationship.claims.map(claim => (
+                  <div key={claim.claimId} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                    <div>
+                      <div className="font-medium">{claim.offerTitle}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Claimed {formatDate(claim.createdAt)}
+                        {claim.completedAt && ` · completed ${formatDate(claim.completedAt)}`}
+                        {claim.messageCount > 0 && ` · ${claim.messageCount} messages`}
+                      </div>
+                    </div>
+                    <Badge variant="outline">{CLAIM_STATUS_LABELS[claim.status]}</Badge>
+                  </div>
+                ))}
+              </div>
+
+              {relationship.invitations.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Invitations</h4>
+                  {relationship.invitations.map(invitation => (
+                    <div key={invitation.id} className="flex items-center justify-between text-sm">
+                      <span>{invitation.offerTitle}</span>
+                      <span className="text-xs text-muted-foreground capitalize">
+                        {invitation.status} · sent {formatDate(invitation.createdAt)}
+                        {invitation.status === "pending" && invitation.expiresAt && ` · expires ${formatDate(invitation.expiresAt)}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Recent messages</h4>
+                {relationship.recentMessages.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No messages yet.</p>
+                ) : relationship.recentMessages.map(message => (
+                  <div key={message.id} className="rounded-md bg-muted/50 p-2 text-sm">
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+                      <MessageSquare className="h-3 w-3" />
+                      {message.fromBusiness ? "You" : creator?.displayName} · {message.offerTitle} · {formatDate(message.sentAt)}
+                    </div>
+                    <p className="line-clamp-3">{message.content}</p>
+                  </div>
+                ))}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="invite" className="space-y-4 pt-2">
+              {activeOffers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">You have no active offers to invite creators to.</p>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <Label>Offer</Label>
+                    <Select value={inviteOfferId} onValueChange={setInviteOfferId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose an offer" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {activeOffers.map(offer => (
+                          <SelectItem key={offer.id} value={String(offer.id)}>
+                            {offer.title}{offer.visibility === "invite_only" ? " (invite only)" : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Expires after</Label>
+                    <Select value={String(inviteExpiryDays)} onValueChange={(value) => setInviteExpiryDays(parseInt(value))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {INVITATION_EXPIRY_OPTIONS.map(days => (
+                          <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Sooner if the offer stops taking creators first
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="invite-message">Message (optional)</Label>
+                    <Textarea
+                      id="invite-message"
+                      rows={3}
+                      maxLength={MAX_INVITATION_MESSAGE_LENGTH}
+                      placeholder="Why you think they'd be a great fit"
+                      value={inviteMessage}
+                      onChange={(e) => setInviteMessage(e.target.value)}
+                    />
+                  </div>
+                  <div className="flex justify-end">
+                    <Button
+                      onClick={() => inviteMutation.mutate()}
+                      disabled={!inviteOfferId || inviteMutation.isPending}
+                    >
+                      {inviteMutation.isPending
+                        ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        : <Send className="h-4 w-4 mr-2" />}
+                      Send Invitation
+                    </Button>
+                  </div>
+                </>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Calculator, Check, Handshake, Loader2, Undo2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MAX_NEGOTIATED_POSTS,
+  MAX_NEGOTIATED_TIMEFRAME_DAYS,
+  MAX_PROPOSAL_NOTE_LENGTH,
+  OPEN_PROPOSAL_STATUSES,
+  type DealParty,
+  type DealProposalInput,
+  type DealProposalStatus,
+  type DealProposalView,
+  type NegotiationView
+} from "@shared/deal-terms";
+
+interface DealNegotiationPanelProps {
+  claimId: number;
+  // The viewer's side of the deal; admins see the thread without taking part
+  party: DealParty | null;
+}
+
+const PARTY_LABELS: Record<DealParty, string> = {
+  influencer: "Creator",
+  business: "Business",
+};
+
+const PROPOSAL_STATUS_LABELS: Record<DealProposalStatus, string> = {
+  pending: "Awaiting reply",
+  accepting: "Being accepted",
+  accepted: "Accepted",
+  countered: "Countered",
+  declined: "Declined",
+  withdrawn: "Withdrawn",
+};
+
+const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: "currency", currency, maximumFractionDigits: 0 }).format(amount);
+
+// The terms a proposal changes, e.g. "$250 · 3 posts · 14 days"
+const describeProposal = (proposal: DealProposalView) => [
+  proposal.reward ?? (proposal.rewardAmount !== null ? `$${proposal.rewardAmount}` : null),
+  proposal.postsRequired !== null ? `${proposal.postsRequired} post${proposal.postsRequired === 1 ? "" : "s"}` : null,
+  proposal.timeframe !== null ? `${proposal.timeframe} days` : null,
+].filter(Boolean).join(" · ");
+
+/**
+ * Current deal terms, the proposal thread and a form to propose or counter
+ */
+export function DealNegotiationPanel({ claimId, party }: DealNegotiationPanelProps) {
+  const { toast } = useToast();
+  const negotiationKey = [`/api/offers/claims/${claimId}/negotiation`];
+
+  const { data: negotiation, isLoading } = useQuery<NegotiationView>({
+    queryKey: negotiationKey,
+  });
+
+  const [rewardAmount, setRewardAmount] = useState("");
+  const [postsRequired, setPostsRequired] = useState("");
+  const [timeframe, setTimeframe] = useState("");
+  const [note, setNote] = useState("");
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: negotiationKey });
+    // The claim's deadline and timeframe follow the agreed terms
+    queryClient.invalidateQueries({ queryKey: [`/api/offers/claims/${claimId}`] });
+  };
+
+  const proposeMutation = useMutation({
+    mutationFn: async (input: DealProposalInput) =>
+      apiRequest("POST", `/api/offers/claims/${claimId}/negotiation/proposals`, input),
+    onSuccess: () => {
+      toast({ title: "Proposal sent", description: "The other side has been notified." });
+      setRewardAmount("");
+      setPostsRequired("");
+      setTimeframe("");
+      setNote("");
+      refresh();
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to send proposal", variant: "destructive" });
+    },
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ proposalId, action }: { proposalId: number; action: "accept" | "decline" | "withdraw" }) =>
+      apiRequest("POST", `/api/offers/claims/${claimId}/negotiation/proposals/${proposalId}/${action}`),
+    onSuccess: (_, { action }) => {
+      if (action === "accept") {
+        toast({ title: "Terms agreed", description: "The deal now runs on the new terms." });
+      }
+      refresh();
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to answer proposal", variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !negotiation) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { terms, proposals, rateReference } = negotiation;
+  const pending = proposals.find(proposal => OPEN_PROPOSAL_STATUSES.includes(proposal.status));
+  const isMonetary = terms.rewardType === "monetary";
+  const canPropose = negotiation.open && !!party && pending?.proposedBy !== party;
+
+  const submitProposal = () => {
+    const input: DealProposalInput = { note: note.trim() || null };
+    if (isMonetary && rewardAmount) input.rewardAmount = parseInt(rewardAmount);
+    if (postsRequired) input.postsRequired = parseInt(postsRequired);
+    if (timeframe) input.timeframe = parseInt(timeframe);
+    proposeMutation.mutate(input);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Handshake className="h-5 w-5" />
+          Deal Terms
+        </CardTitle>
+        <CardDescription>
+          Version {terms.version}
+          {terms.agreedAt && ` · agreed ${new Date(terms.agreedAt).toLocaleDateString()}`}
+          {!negotiation.open && " · locked once work started"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          <div className="rounded-lg border p-3">
+            <div className="text-muted-foreground">Reward</div>
+            <div className="font-medium">{terms.reward}</div>
+          </div>
+          <div className="rounded-lg border p-3">
+            <div className="text-muted-foreground">Posts</div>
+            <div className="font-medium">{terms.postsRequired}</div>
+          </div>
+          <div className="rounded-lg border p-3">
+            <div className="text-muted-foreground">Timeframe</div>
+            <div className="font-medium">{terms.timeframe} days</div>
+          </div>
+        </div>
+
+        {rateReference && (
+          <div className="flex items-start gap-3 rounded-lg bg-muted p-3 text-sm">
+            <Calculator className="h-4 w-4 mt-0.5 text-muted-foreground" />
+            <div>
+              <div className="font-medium">
+                Recommended rate: {formatMoney(rateReference.minRate, rateReference.currency)}–{formatMoney(rateReference.maxRate, rateReference.currency)} per post
+              </div>
+              <div className="text-muted-foreground">
+                Around {formatMoney(rateReference.idealTotal, rateReference.currency)} for {terms.postsRequired} post{terms.postsRequired === 1 ? "" : "s"}, based on the creator's {rateReference.platform} audience
+              </div>
+            </div>
+          </div>
+        )}
+
+        {proposals.length > 0 && (
+          <div className="space-y-2">
+            {proposals.map(proposal => (
+              <div key={proposal.id} className="rounded-lg border p-3 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">
+                    {proposal.proposedBy === party ? "You" : PARTY_LABELS[proposal.proposedBy]} proposed {describeProposal(proposal)}
+                  </span>
+                  <Badge variant={proposal.status === "accepted" ? "default" : proposal.status === "pending" ? "secondary" : "outline"}>
+                    {PROPOSAL_STATUS_LABELS[proposal.status]}
+                  </Badge>
+                </div>
+                {proposal.note && <p className="mt-1 text-muted-foreground">{proposal.note}</p>}
+                {proposal.createdAt && (
+                  <div className="mt-1 text-xs text-muted-foreground">{new Date(proposal.createdAt).toLocaleString()}</div>
+                )}
+                {proposal.status === "pending" && negotiation.open && party && (
+                  <div className="mt-2 flex gap-2">
+                    {proposal.proposedBy === party ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={respondMutation.isPending}
+                        onClick={() => respondMutation.mutate({ proposalId: proposal.id, action: "withdraw" })}
+                      >
+                        <Undo2 className="mr-1 h-4 w-4" />
+                        Withdraw
+                      </Button>
+                    ) : (
+                      <>
+                        <Button
+                          size="sm"
+                          disabled={respondMutation.isPending}
+                          onClick={() => respondMutation.mutate({ proposalId: proposal.id, action: "accept" })}
+                        >
+                          <Check className="mr-1 h-4 w-4" />
+                          Accept
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={respondMutation.isPending}
+                          onClick={() => respondMutation.mutate({ proposalId: proposal.id, action: "decline" })}
+                        >
+                          <X className="mr-1 h-4 w-4" />
+                          Decline
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canPropose && (
+          <div className="space-y-3 border-t pt-4">
+            <div className="font-medium text-sm">{pending ? "Counter with different terms" : "Propose different terms"}</div>
+            <div className="grid grid-cols-3 gap-2">
+              {isMonetary && (
+                <div className="space-y-1">
+                  <Label htmlFor="proposal-reward">Reward ($)</Label>
+                  <Input
+                    id="proposal-reward"
+                    type="number"
+                    min={1}
+                    placeholder={terms.rewardAmount?.toString() ?? ""}
+                    value={rewardAmount}
+                    onChange={(e) => setRewardAmount(e.target.value)}
+                  />
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label htmlFor="proposal-posts">Posts</Label>
+                <Input
+                  id="proposal-posts"
+                  type="number"
+                  min={1}
+                  max={MAX_NEGOTIATED_POSTS}
+                  placeholder={terms.postsRequired.toString()}
+                  value={postsRequired}
+                  onChange={(e) => setPostsRequired(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="proposal-timeframe">Days</Label>
+                <Input
+                  id="proposal-timeframe"
+                  type="number"
+                  min={1}
+                  max={MAX_NEGOTIATED_TIMEFRAME_DAYS}
+                  placeholder={terms.timeframe.toString()}
+                  value={timeframe}
+                  onChange={(e) => setTimeframe(e.target.value)}
+                />
+              </div>
+            </div>
+            <Textarea
+              placeholder="Explain your proposal (optional)"
+              maxLength={MAX_PROPOSAL_NOTE_LENGTH}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <Button
+              onClick={submitProposal}
+              disabled={(!rewardAmount && !postsRequired && !timeframe) || proposeMutation.isPending}
+            >
+              {proposeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pending ? "Send Counter-offer" : "Send Proposal"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
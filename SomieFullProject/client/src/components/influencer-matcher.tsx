@@ -39,7 +39,6 @@ import {
   Filter,
   Check,
   Users,
-  Instagram,
   Image,
   BarChart2,
   MapPin,
@@ -50,6 +49,8 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { PlatformIcon } from "@/components/ui/platform-icon";
+import { PLATFORMS, PLATFORM_IDS, type PlatformId } from "@shared/platforms";
 
 interface InfluencerMatcherProps {
   onInfluencerSelected?: (influencer: InfluencerMatch) => void;
@@ -77,7 +78,7 @@ export interface InfluencerMatch {
   id: string;
   name: string;
   handle: string;
-  platform: 'instagram' | 'tiktok' | 'youtube';
+  platform: PlatformId;
   followers: number;
   engagementRate: number;
   location: string;
@@ -118,7 +119,7 @@ export function InfluencerMatcher({
   const [selectedInfluencer, setSelectedInfluencer] = useState<InfluencerMatch | null>(null);
   const [filters, setFilters] = useState({
     minMatchScore: 70,
-    platforms: ["instagram", "tiktok", "youtube"],
+    platforms: [...PLATFORM_IDS] as string[],
     minFollowers: offerCriteria.minFollowers || 1000,
     maxFollowers: 100000,
     minEngagement: offerCriteria.minEngagement || 2,
@@ -450,18 +451,7 @@ export function InfluencerMatcher({
   };
   
   // Get platform icon
-  const getPlatformIcon = (platform: 'instagram' | 'tiktok' | 'youtube') => {
-    switch (platform) {
-      case 'instagram':
-        return <Instagram className="h-4 w-4 text-pink-500" />;
-      case 'tiktok':
-        return <span className="text-black dark:text-white font-bold text-xs">TT</span>;
-      case 'youtube':
-        return <span className="text-red-500 font-bold text-xs">YT</span>;
-      default:
-        return null;
-    }
-  };
+  const getPlatformIcon = (platform: PlatformId) => <PlatformIcon platform={platform} className="h-4 w-4" />;
   
   useEffect(() => {
     // Run search when component mounts with initial criteria
@@ -507,8 +497,8 @@ export function InfluencerMatcher({
               
               <div className="space-y-1">
                 <Label htmlFor="platforms" className="text-xs">Platforms</Label>
-                <div className="flex gap-1">
-                  {['instagram', 'tiktok', 'youtube'].map(platform => (
+                <div className="flex flex-wrap gap-1">
+                  {PLATFORM_IDS.map(platform => (
                     <Button 
                       key={platform}
                       type="button"
@@ -526,10 +516,8 @@ export function InfluencerMatcher({
                         }
                       }}
                     >
-                      {platform === 'instagram' && <Instagram className="h-3 w-3 mr-1" />}
-                      {platform === 'tiktok' && <span className="font-bold text-xs mr-1">TT</span>}
-                      {platform === 'youtube' && <span className="text-red-500 font-bold text-xs mr-1">YT</span>}
-                      {platform.charAt(0).toUpperCase() + platform.slice(1)}
+                      <PlatformIcon platform={platform} className="h-3 w-3 mr-1" colored={false} />
+                      {PLATFORMS[platform].label}
                     </Button>
                   ))}
                 </div>
@@ -699,7 +687,7 @@ export function InfluencerMatcher({
                             <h4 className="font-medium">{influencer.name}</h4>
                             <Badge variant="outline" className="text-xs py-0 px-2 gap-1 w-fit">
                               {getPlatformIcon(influencer.platform)}
-                              <span>{influencer.platform} creator</span>
+                              <span>{PLATFORMS[influencer.platform].label} creator</span>
                             </Badge>
                           </div>
                           
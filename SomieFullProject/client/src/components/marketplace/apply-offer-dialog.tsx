@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+
+// Matches the minimum pitch length enforced by POST /api/offers/:offerId/claims
+const MIN_PITCH_LENGTH = 20;
+
+interface ApplyOfferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  offerTitle: string;
+  isPending: boolean;
+  onSubmit: (pitch: string) => void;
+}
+
+export function ApplyOfferDialog({
+  open,
+  onOpenChange,
+  offerTitle,
+  isPending,
+  onSubmit,
+}: ApplyOfferDialogProps) {
+  const [pitch, setPitch] = useState('');
+
+  // Start each application with an empty pitch
+  useEffect(() => {
+    if (open) setPitch('');
+  }, [open]);
+
+  const trimmedLength = pitch.trim().length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Apply to {offerTitle}</DialogTitle>
+          <DialogDescription>
+            This brand reviews every creator before the deal starts. Tell them why you're a great fit.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="pitch">Your pitch</Label>
+          <Textarea
+            id="pitch"
+            rows={6}
+            maxLength={2000}
+            placeholder="Share your content ideas, audience and past brand work..."
+            value={pitch}
+            onChange={(e) => setPitch(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            {trimmedLength < MIN_PITCH_LENGTH
+              ? `At least ${MIN_PITCH_LENGTH - trimmedLength} more characters`
+              : `${pitch.length}/2000`}
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onSubmit(pitch.trim())}
+            disabled={trimmedLength < MIN_PITCH_LENGTH || isPending}
+          >
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Submit Application
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
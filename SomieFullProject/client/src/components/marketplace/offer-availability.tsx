@@ -0,0 +1,56 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { CalendarClock, Users } from 'lucide-react';
+import { format } from 'date-fns';
+import type { OfferAvailability } from '@shared/offer-availability';
+
+interface OfferAvailabilityInfoProps {
+  availability?: OfferAvailability;
+  maxClaims?: number | null;
+  endsAt?: string | null;
+  applicationDeadline?: string | null;
+  className?: string;
+}
+
+/**
+ * Remaining slots and key dates for an offer card
+ */
+export function OfferAvailabilityInfo({
+  availability,
+  maxClaims,
+  endsAt,
+  applicationDeadline,
+  className = '',
+}: OfferAvailabilityInfoProps) {
+  if (!availability) return null;
+
+  const slotsLow = availability.remainingSlots !== null && maxClaims
+    && availability.remainingSlots <= Math.max(1, Math.ceil(maxClaims * 0.2));
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 text-xs text-muted-foreground ${className}`}>
+      {availability.open ? (
+        availability.remainingSlots !== null && maxClaims ? (
+          <Badge variant={slotsLow ? 'destructive' : 'secondary'} className="gap-1">
+            <Users className="h-3 w-3" />
+            {availability.remainingSlots} of {maxClaims} slots left
+          </Badge>
+        ) : null
+      ) : (
+        <Badge variant="outline">{availability.message}</Badge>
+      )}
+      {availability.open && applicationDeadline && (
+        <span className="flex items-center gap-1">
+          <CalendarClock className="h-3 w-3" />
+          Join by {format(new Date(applicationDeadline), 'MMM d, yyyy')}
+        </span>
+      )}
+      {availability.open && !applicationDeadline && endsAt && (
+        <span className="flex items-center gap-1">
+          <CalendarClock className="h-3 w-3" />
+          Ends {format(new Date(endsAt), 'MMM d, yyyy')}
+        </span>
+      )}
+    </div>
+  );
+}
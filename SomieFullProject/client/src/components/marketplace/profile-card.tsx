@@ -23,7 +23,7 @@ import {
   CheckCircle
 } from 'lucide-react';
 
-function MatchQualityBadge({ matchScore }: { matchScore: number }) {
+export function MatchQualityBadge({ matchScore }: { matchScore: number }) {
   let label = '';
   let colorClass = '';
   
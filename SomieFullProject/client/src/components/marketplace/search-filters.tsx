@@ -4,6 +4,7 @@ import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Select,
   SelectContent,
@@ -34,34 +35,68 @@ import {
 } from '@/components/ui/command';
 import { CheckIcon, Plus } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { FacetCount, FollowerTier, MarketplaceSort, OfferFacetName } from '@shared/marketplace-search';
+
+// Slider ends; a slider left at its maximum doesn't cap the results
+export const MAX_ENGAGEMENT_FILTER = 20;
+export const MAX_FOLLOWER_FILTER = 1000000;
+
+export interface MarketplaceFilters {
+  category: string[];
+  platform: string[];
+  tier: FollowerTier[];
+  location: string;
+  minEngagementRate: number;
+  maxEngagementRate: number;
+  minFollowers: number;
+  maxFollowers: number;
+  rewardType: string[]; // for influencers searching offers
+  sortBy: MarketplaceSort;
+  tags: string[];
+}
+
+export const DEFAULT_MARKETPLACE_FILTERS: MarketplaceFilters = {
+  category: [],
+  platform: [],
+  tier: [],
+  location: '',
+  minEngagementRate: 0,
+  maxEngagementRate: MAX_ENGAGEMENT_FILTER,
+  minFollowers: 0,
+  maxFollowers: MAX_FOLLOWER_FILTER,
+  rewardType: [],
+  sortBy: 'relevance',
+  tags: [],
+};
 
 interface SearchFiltersProps {
   userType: 'business' | 'influencer';
-  filters: {
-    query: string;
-    category: string[];
-    location: string;
-    minEngagementRate: number;
-    maxEngagementRate: number;
-    minFollowers: number;
-    maxFollowers: number;
-    rewardType?: 'monetary' | 'product' | 'both'; // for influencers searching businesses
-    sortBy: 'relevance' | 'engagement' | 'followers' | 'rating';
-    tags: string[];
-  };
-  onFilterChange: (key: string, value: any) => void;
-  availableCategories: string[];
-  availableTags: string[];
+  filters: MarketplaceFilters;
+  onFilterChange: <K extends keyof MarketplaceFilters>(key: K, value: MarketplaceFilters[K]) => void;
+  // Counts from the last search; lists fall back to the available values without counts
+  facets?: Partial<Record<OfferFacetName, FacetCount[]>>;
+  availableCategories?: string[];
+  availableTags?: string[];
 }
 
-export function SearchFilters({ 
-  userType, 
-  filters, 
+const toFacets = (values: string[] = []): FacetCount[] =>
+  values.filter(value => value !== 'All').map(value => ({ value, label: value, count: 0 }));
+
+// Label for a selected value, which may not be among the current facet counts
+const facetLabel = (facets: FacetCount[], value: string) =>
+  facets.find(facet => facet.value === value)?.label ?? value;
+
+export function SearchFilters({
+  userType,
+  filters,
   onFilterChange,
+  facets = {},
   availableCategories,
   availableTags
 }: SearchFiltersProps) {
-  
+  const categoryFacets = facets.category ?? toFacets(availableCategories);
+  const tagFacets = facets.tags ?? toFacets(availableTags);
+
   // Format follower count in a readable way
   const formatFollowerCount = (count: number): string => {
     if (count >= 1000000) {
@@ -71,15 +106,112 @@ export function SearchFilters({
     }
     return count.toString();
   };
-  
+
   // Format percentage
   const formatPercentage = (value: number): string => {
     return `${value}%`;
   };
-  
+
+  const toggle = (key: 'category' | 'platform' | 'tier' | 'rewardType' | 'tags', value: string) => {
+    const selected = filters[key] as string[];
+    onFilterChange(key, (selected.includes(value)
+      ? selected.filter(item => item !== value)
+      : [...selected, value]) as MarketplaceFilters[typeof key]);
+  };
+
+  // Checkbox list with a count beside each value
+  const renderFacetOptions = (key: 'platform' | 'tier' | 'rewardType', options: FacetCount[] = []) => (
+    options.length === 0 ? (
+      <p className="text-xs text-muted-foreground">Search to see options</p>
+    ) : (
+      <div className="space-y-2">
+        {options.map(option => (
+          <label key={option.value} className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox
+              checked={(filters[key] as string[]).includes(option.value)}
+              onCheckedChange={() => toggle(key, option.value)}
+            />
+            <span className="flex-1">{option.label}</span>
+            <span className="text-xs text-muted-foreground">{option.count}</span>
+          </label>
+        ))}
+      </div>
+    )
+  );
+
+  // Searchable multi-select for long lists such as categories and tags
+  const renderFacetPicker = (key: 'category' | 'tags', options: FacetCount[], noun: string, prefix = '') => (
+    <div className="space-y-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="w-full justify-between">
+            {filters[key].length === 0
+              ? `Select ${noun}...`
+              : `${filters[key].length} selected`}
+            <Plus className="h-4 w-4 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[220px] p-0" align="start">
+          <Command>
+            <CommandInput placeholder={`Search ${noun}...`} />
+            <CommandList>
+              <CommandEmpty>No {noun} found</CommandEmpty>
+              <CommandGroup>
+                {options.map((option) => {
+                  const isSelected = filters[key].includes(option.value);
+                  return (
+                    <CommandItem
+                      key={option.value}
+                      value={option.label}
+                      onSelect={() => toggle(key, option.value)}
+                    >
+                      <div
+                        className={cn(
+                          "mr-2 flex h-4 w-4 items-center justify-center rounded-sm border border-primary",
+                          isSelected
+                            ? "bg-primary text-primary-foreground"
+                            : "opacity-50 [&_svg]:invisible"
+                        )}
+                      >
+                        <CheckIcon className="h-4 w-4" />
+                      </div>
+                      <span className="flex-1">{prefix}{option.label}</span>
+                      {option.count > 0 && (
+                        <span className="text-xs text-muted-foreground">{option.count}</span>
+                      )}
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {filters[key].length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {filters[key].map((value) => (
+            <Badge
+              key={value}
+              variant={key === 'tags' ? 'outline' : 'secondary'}
+              className="flex items-center gap-1"
+            >
+              {prefix}{facetLabel(options, value)}
+              <button
+                className="h-3 w-3 rounded-full text-muted-foreground hover:text-foreground"
+                onClick={() => toggle(key, value)}
+              >
+                ×
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div className="space-y-6">
-      <Accordion type="multiple" defaultValue={['location', 'categories', 'engagement', 'followers', 'sort', 'tags']}>
+      <Accordion type="multiple" defaultValue={['location', 'categories', 'platforms', 'tiers', 'engagement', 'followers', 'rewardType', 'sort', 'tags']}>
         {/* Location Filter */}
         <AccordionItem value="location">
           <AccordionTrigger>Location</AccordionTrigger>
@@ -92,175 +224,123 @@ export function SearchFilters({
                 value={filters.location}
                 onChange={(e) => onFilterChange('location', e.target.value)}
               />
+              {facets.location && facets.location.length > 0 && (
+                <div className="flex flex-wrap gap-1 pt-1">
+                  {facets.location.slice(0, 6).map(location => (
+                    <Badge
+                      key={location.value}
+                      variant="outline"
+                      className="cursor-pointer text-xs"
+                      onClick={() => onFilterChange('location', location.label)}
+                    >
+                      {location.label} ({location.count})
+                    </Badge>
+                  ))}
+                </div>
+              )}
             </div>
           </AccordionContent>
         </AccordionItem>
-        
+
         {/* Categories Filter */}
         <AccordionItem value="categories">
           <AccordionTrigger>Categories</AccordionTrigger>
           <AccordionContent>
-            <div className="space-y-2">
-              <Popover>
-                <PopoverTrigger asChild>
-                  <Button variant="outline" className="w-full justify-between">
-                    {filters.category.length === 0 
-                      ? "Select categories..." 
-                      : `${filters.category.length} selected`}
-                    <Plus className="h-4 w-4 opacity-50" />
-                  </Button>
-                </PopoverTrigger>
-                <PopoverContent className="w-[200px] p-0" align="start">
-                  <Command>
-                    <CommandInput placeholder="Search categories..." />
-                    <CommandList>
-                      <CommandEmpty>No categories found</CommandEmpty>
-                      <CommandGroup>
-                        {availableCategories.map((category) => {
-                          const isSelected = filters.category.includes(category);
-                          return (
-                            <CommandItem
-                              key={category}
-                              value={category}
-                              onSelect={(currentValue) => {
-                                const selected = filters.category.includes(currentValue);
-                                const newCategories = selected
-                                  ? filters.category.filter((s) => s !== currentValue)
-                                  : [...filters.category, currentValue];
-                                onFilterChange('category', newCategories);
-                              }}
-                            >
-                              <div
-                                className={cn(
-                                  "mr-2 flex h-4 w-4 items-center justify-center rounded-sm border border-primary",
-                                  isSelected
-                                    ? "bg-primary text-primary-foreground"
-                                    : "opacity-50 [&_svg]:invisible"
-                                )}
-                              >
-                                <CheckIcon className="h-4 w-4" />
-                              </div>
-                              <span>{category}</span>
-                            </CommandItem>
-                          );
-                        })}
-                      </CommandGroup>
-                    </CommandList>
-                  </Command>
-                </PopoverContent>
-              </Popover>
-              {filters.category.length > 0 && (
-                <div className="flex flex-wrap gap-1 mt-2">
-                  {filters.category.map((cat) => (
-                    <Badge 
-                      key={cat} 
-                      variant="secondary"
-                      className="flex items-center gap-1"
-                    >
-                      {cat}
-                      <button
-                        className="h-3 w-3 rounded-full text-muted-foreground hover:text-foreground"
-                        onClick={() => onFilterChange('category', filters.category.filter(c => c !== cat))}
-                      >
-                        ×
-                      </button>
-                    </Badge>
-                  ))}
-                </div>
-              )}
-            </div>
+            {renderFacetPicker('category', categoryFacets, 'categories')}
           </AccordionContent>
         </AccordionItem>
-        
-        {/* Engagement Rate Filter */}
-        <AccordionItem value="engagement">
-          <AccordionTrigger>Engagement Rate</AccordionTrigger>
+
+        {/* Platforms Filter */}
+        <AccordionItem value="platforms">
+          <AccordionTrigger>Platforms</AccordionTrigger>
           <AccordionContent>
-            <div className="space-y-4">
-              <div>
-                <div className="mb-2 flex items-center justify-between">
-                  <Label>Min-Max Engagement</Label>
-                  <span className="text-xs text-muted-foreground">
-                    {formatPercentage(filters.minEngagementRate)} - {formatPercentage(filters.maxEngagementRate)}
-                  </span>
-                </div>
-                <div className="pt-1">
-                  <Slider
-                    min={0}
-                    max={20}
-                    step={0.5}
-                    defaultValue={[filters.minEngagementRate, filters.maxEngagementRate]}
-                    value={[filters.minEngagementRate, filters.maxEngagementRate]}
-                    onValueChange={(value) => {
-                      onFilterChange('minEngagementRate', value[0]);
-                      onFilterChange('maxEngagementRate', value[1]);
-                    }}
-                    className="my-4"
-                  />
-                </div>
-              </div>
-            </div>
+            {renderFacetOptions('platform', facets.platform)}
           </AccordionContent>
         </AccordionItem>
-        
-        {/* Followers Filter */}
-        <AccordionItem value="followers">
-          <AccordionTrigger>Followers</AccordionTrigger>
+
+        {/* Follower Tier Filter - for offers, the tier of the follower minimum */}
+        <AccordionItem value="tiers">
+          <AccordionTrigger>{userType === 'business' ? 'Follower Tier' : 'Creator Tier'}</AccordionTrigger>
           <AccordionContent>
-            <div className="space-y-4">
-              <div>
-                <div className="mb-2 flex items-center justify-between">
-                  <Label>Follower Range</Label>
-                  <span className="text-xs text-muted-foreground">
-                    {formatFollowerCount(filters.minFollowers)} - {formatFollowerCount(filters.maxFollowers)}
-                  </span>
+            {renderFacetOptions('tier', facets.tier)}
+          </AccordionContent>
+        </AccordionItem>
+
+        {/* Engagement and follower ranges - Only for businesses searching influencers */}
+        {userType === 'business' && (
+          <AccordionItem value="engagement">
+            <AccordionTrigger>Engagement Rate</AccordionTrigger>
+            <AccordionContent>
+              <div className="space-y-4">
+                <div>
+                  <div className="mb-2 flex items-center justify-between">
+                    <Label>Min-Max Engagement</Label>
+                    <span className="text-xs text-muted-foreground">
+                      {formatPercentage(filters.minEngagementRate)} - {formatPercentage(filters.maxEngagementRate)}
+                      {filters.maxEngagementRate === MAX_ENGAGEMENT_FILTER && '+'}
+                    </span>
+                  </div>
+                  <div className="pt-1">
+                    <Slider
+                      min={0}
+                      max={MAX_ENGAGEMENT_FILTER}
+                      step={0.5}
+                      value={[filters.minEngagementRate, filters.maxEngagementRate]}
+                      onValueChange={(value) => {
+                        onFilterChange('minEngagementRate', value[0]);
+                        onFilterChange('maxEngagementRate', value[1]);
+                      }}
+                      className="my-4"
+                    />
+                  </div>
                 </div>
-                <div className="pt-1">
-                  <Slider
-                    min={0}
-                    max={1000000}
-                    step={1000}
-                    defaultValue={[filters.minFollowers, filters.maxFollowers]}
-                    value={[filters.minFollowers, filters.maxFollowers]}
-                    onValueChange={(value) => {
-                      onFilterChange('minFollowers', value[0]);
-                      onFilterChange('maxFollowers', value[1]);
-                    }}
-                    className="my-4"
-                  />
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+        )}
+
+        {userType === 'business' && (
+          <AccordionItem value="followers">
+            <AccordionTrigger>Followers</AccordionTrigger>
+            <AccordionContent>
+              <div className="space-y-4">
+                <div>
+                  <div className="mb-2 flex items-center justify-between">
+                    <Label>Follower Range</Label>
+                    <span className="text-xs text-muted-foreground">
+                      {formatFollowerCount(filters.minFollowers)} - {formatFollowerCount(filters.maxFollowers)}
+                      {filters.maxFollowers === MAX_FOLLOWER_FILTER && '+'}
+                    </span>
+                  </div>
+                  <div className="pt-1">
+                    <Slider
+                      min={0}
+                      max={MAX_FOLLOWER_FILTER}
+                      step={1000}
+                      value={[filters.minFollowers, filters.maxFollowers]}
+                      onValueChange={(value) => {
+                        onFilterChange('minFollowers', value[0]);
+                        onFilterChange('maxFollowers', value[1]);
+                      }}
+                      className="my-4"
+                    />
+                  </div>
                 </div>
               </div>
-            </div>
-          </AccordionContent>
-        </AccordionItem>
-        
-        {/* Reward Type Filter - Only for influencers searching businesses */}
+            </AccordionContent>
+          </AccordionItem>
+        )}
+
+        {/* Reward Type Filter - Only for influencers searching offers */}
         {userType === 'influencer' && (
           <AccordionItem value="rewardType">
             <AccordionTrigger>Reward Type</AccordionTrigger>
             <AccordionContent>
-              <div className="space-y-2">
-                <Select
-                  value={filters.rewardType}
-                  onValueChange={(value) => onFilterChange('rewardType', value as 'monetary' | 'product' | 'both')}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Any reward type" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectGroup>
-                      <SelectLabel>Reward Types</SelectLabel>
-                      <SelectItem value="monetary">Cash/Monetary</SelectItem>
-                      <SelectItem value="product">Products/Services</SelectItem>
-                      <SelectItem value="both">Mixed Rewards</SelectItem>
-                    </SelectGroup>
-                  </SelectContent>
-                </Select>
-              </div>
+              {renderFacetOptions('rewardType', facets.rewardType)}
             </AccordionContent>
           </AccordionItem>
         )}
-        
+
         {/* Sort By */}
         <AccordionItem value="sort">
           <AccordionTrigger>Sort Results</AccordionTrigger>
@@ -268,7 +348,7 @@ export function SearchFilters({
             <div className="space-y-2">
               <Select
                 value={filters.sortBy}
-                onValueChange={(value) => onFilterChange('sortBy', value as 'relevance' | 'engagement' | 'followers' | 'rating')}
+                onValueChange={(value) => onFilterChange('sortBy', value as MarketplaceSort)}
               >
                 <SelectTrigger>
                   <SelectValue placeholder="Sort by..." />
@@ -281,92 +361,28 @@ export function SearchFilters({
                       {userType === 'business' ? 'Highest Engagement' : 'Highest Reward Value'}
                     </SelectItem>
                     <SelectItem value="followers">
-                      {userType === 'business' ? 'Most Followers' : 'Most Reviews'}
+                      {userType === 'business' ? 'Most Followers' : 'Lowest Follower Minimum'}
+                    </SelectItem>
+                    <SelectItem value="rating">
+                      {userType === 'business' ? 'Highest Credibility' : 'Newest'}
                     </SelectItem>
-                    <SelectItem value="rating">Highest Rating</SelectItem>
                   </SelectGroup>
                 </SelectContent>
               </Select>
             </div>
           </AccordionContent>
         </AccordionItem>
-        
-        {/* Tags Filter */}
-        <AccordionItem value="tags">
-          <AccordionTrigger>Tags</AccordionTrigger>
-          <AccordionContent>
-            <div className="space-y-2">
-              <Popover>
-                <PopoverTrigger asChild>
-                  <Button variant="outline" className="w-full justify-between">
-                    {filters.tags.length === 0 
-                      ? "Select tags..." 
-                      : `${filters.tags.length} selected`}
-                    <Plus className="h-4 w-4 opacity-50" />
-                  </Button>
-                </PopoverTrigger>
-                <PopoverContent className="w-[200px] p-0" align="start">
-                  <Command>
-                    <CommandInput placeholder="Search tags..." />
-                    <CommandList>
-                      <CommandEmpty>No tags found</CommandEmpty>
-                      <CommandGroup>
-                        {availableTags.map((tag) => {
-                          const isSelected = filters.tags.includes(tag);
-                          return (
-                            <CommandItem
-                              key={tag}
-                              value={tag}
-                              onSelect={(currentValue) => {
-                                const selected = filters.tags.includes(currentValue);
-                                const newTags = selected
-                                  ? filters.tags.filter((s) => s !== currentValue)
-                                  : [...filters.tags, currentValue];
-                                onFilterChange('tags', newTags);
-                              }}
-                            >
-                              <div
-                                className={cn(
-                                  "mr-2 flex h-4 w-4 items-center justify-center rounded-sm border border-primary",
-                                  isSelected
-                                    ? "bg-primary text-primary-foreground"
-                                    : "opacity-50 [&_svg]:invisible"
-                                )}
-                              >
-                                <CheckIcon className="h-4 w-4" />
-                              </div>
-                              <span>{tag}</span>
-                            </CommandItem>
-                          );
-                        })}
-                      </CommandGroup>
-                    </CommandList>
-                  </Command>
-                </PopoverContent>
-              </Popover>
-              {filters.tags.length > 0 && (
-                <div className="flex flex-wrap gap-1 mt-2">
-                  {filters.tags.map((tag) => (
-                    <Badge 
-                      key={tag} 
-                      variant="outline"
-                      className="flex items-center gap-1"
-                    >
-                      #{tag}
-                      <button
-                        className="h-3 w-3 rounded-full text-muted-foreground hover:text-foreground"
-                        onClick={() => onFilterChange('tags', filters.tags.filter(t => t !== tag))}
-                      >
-                        ×
-                      </button>
-                    </Badge>
-                  ))}
-                </div>
-              )}
-            </div>
-          </AccordionContent>
-        </AccordionItem>
+
+        {/* Tags Filter - Only offers are tagged */}
+        {userType === 'influencer' && (
+          <AccordionItem value="tags">
+            <AccordionTrigger>Tags</AccordionTrigger>
+            <AccordionContent>
+              {renderFacetPicker('tags', tagFacets, 'tags', '#')}
+            </AccordionContent>
+          </AccordionItem>
+        )}
       </Accordion>
     </div>
   );
-}
\ No newline at end of file
+}
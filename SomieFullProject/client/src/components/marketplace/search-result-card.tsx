@@ -0,0 +1,224 @@
+import React from 'react';
+import { useLocation } from 'wouter';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import {
+  MapPin,
+  Award,
+  TrendingUp,
+  Users,
+  DollarSign,
+  Package,
+  Gift,
+  CheckCircle,
+  Layers
+} from 'lucide-react';
+import { MatchQualityBadge } from './profile-card';
+import { ShortlistButton } from './shortlist-button';
+import { getPlatform } from '@shared/platforms';
+import { FOLLOWER_TIERS, type InfluencerSearchResult, type OfferSearchResult } from '@shared/marketplace-search';
+
+function formatNumber(num: number): string {
+  if (num >= 1000000) {
+    return (num / 1000000).toFixed(1) + 'M';
+  } else if (num >= 1000) {
+    return (num / 1000).toFixed(1) + 'K';
+  }
+  return num.toString();
+}
+
+/**
+ * Influencer found by a business's marketplace search
+ */
+export function InfluencerResultCard({
+  influencer,
+  onFindSimilar,
+  onOpenCrm
+}: {
+  influencer: InfluencerSearchResult;
+  onFindSimilar?: (influencer: InfluencerSearchResult) => void;
+  // Open the business's notes and history for this creator; also shows the shortlist control
+  onOpenCrm?: (influencer: InfluencerSearchResult) => void;
+}) {
+  const tier = FOLLOWER_TIERS.find(candidate => candidate.id === influencer.followerTier);
+
+  return (
+    <Card className="overflow-hidden h-full flex flex-col shadow-md hover:shadow-lg transition-shadow">
+      <CardHeader className="pb-2">
+        <div className="flex items-center gap-3">
+          <Avatar className="h-12 w-12">
+            <AvatarFallback className="bg-primary/10">
+              {influencer.displayName.substring(0, 2).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+
+          <div>
+            <CardTitle className="text-lg flex items-center">
+              {influencer.displayName}
+              {influencer.verified && <CheckCircle className="h-4 w-4 ml-1 text-primary" />}
+            </CardTitle>
+            <CardDescription className="flex items-center text-xs">
+              <span className="mr-3">
+                {influencer.platforms.map(platform => getPlatform(platform)?.label ?? platform).join(', ')}
+                {influencer.niche && ` • ${influencer.niche}`}
+              </span>
+              {influencer.location && (
+                <span className="flex items-center">
+                  <MapPin className="h-3 w-3 mr-1" />
+                  {influencer.location}
+                </span>
+              )}
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="pb-2 pt-1 flex-grow">
+        {influencer.bio && <p className="text-sm mb-3 line-clamp-3">{influencer.bio}</p>}
+
+        <div className="grid grid-cols-2 gap-x-4 gap-y-2 mb-3">
+          <div className="flex items-center text-sm">
+            <div className="w-5 h-5 mr-2 flex justify-center items-center">
+              <Users className="h-4 w-4 text-blue-500" />
+            </div>
+            <span>{formatNumber(influencer.followerCount)} followers</span>
+          </div>
+
+          <div className="flex items-center text-sm">
+            <div className="w-5 h-5 mr-2 flex justify-center items-center">
+              <TrendingUp className="h-4 w-4 text-green-500" />
+            </div>
+            <span>{influencer.engagementRate.toFixed(1)}% engagement</span>
+          </div>
+
+          <div className="flex items-center text-sm">
+            <div className="w-5 h-5 mr-2 flex justify-center items-center">
+              <Layers className="h-4 w-4 text-amber-500" />
+            </div>
+            <span>{tier?.label ?? influencer.followerTier}</span>
+          </div>
+
+          <div className="flex items-center text-sm">
+            <div className="w-5 h-5 mr-2 flex justify-center items-center">
+              <Award className="h-4 w-4 text-purple-500" />
+            </div>
+            <span>{influencer.credibilityScore} credibility</span>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-1 mb-1">
+          {influencer.contentTypes.slice(0, 3).map(contentType => (
+            <Badge key={contentType} variant="outline" className="text-xs">
+              {contentType}
+            </Badge>
+          ))}
+          {influencer.contentTypes.length > 3 && (
+            <Badge variant="outline" className="text-xs">
+              +{influencer.contentTypes.length - 3} more
+            </Badge>
+          )}
+        </div>
+      </CardContent>
+
+      {(onFindSimilar || onOpenCrm) && (
+        <CardFooter className="pt-2 gap-2">
+          {onOpenCrm && (
+            <Button className="flex-1" onClick={() => onOpenCrm(influencer)}>
+              Notes & History
+            </Button>
+          )}
+          {onFindSimilar && (
+            <Button variant="outline" className="flex-1" onClick={() => onFindSimilar(influencer)}>
+              Similar creators
+            </Button>
+          )}
+          {onOpenCrm && <ShortlistButton influencerId={influencer.id} />}
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
+
+/**
+ * Offer found by a marketplace search
+ */
+export function OfferResultCard({ offer }: { offer: OfferSearchResult }) {
+  const [_, navigate] = useLocation();
+
+  return (
+    <Card className="overflow-hidden h-full flex flex-col shadow-md hover:shadow-lg transition-shadow">
+      <CardHeader className="pb-2 relative">
+        {offer.matchScore !== null && (
+          <div className="absolute top-2 right-2">
+            <MatchQualityBadge matchScore={offer.matchScore} />
+          </div>
+        )}
+
+        <div className="pr-28">
+          <CardTitle className="text-lg">{offer.title}</CardTitle>
+          <CardDescription className="flex items-center text-xs">
+            <span className="mr-3">
+              {offer.business?.businessName ?? 'Business'} • {offer.category}
+            </span>
+            {offer.location && (
+              <span className="flex items-center">
+                <MapPin className="h-3 w-3 mr-1" />
+                {offer.location}
+              </span>
+            )}
+          </CardDescription>
+        </div>
+      </CardHeader>
+
+      <CardContent className="pb-2 pt-1 flex-grow">
+        <p className="text-sm mb-3 line-clamp-3">{offer.description}</p>
+
+        <div className="grid grid-cols-2 gap-x-4 gap-y-2 mb-3">
+          <div className="flex items-center text-sm">
+            <div className="w-5 h-5 mr-2 flex justify-center items-center">
+              {offer.rewardType === 'monetary' && <DollarSign className="h-4 w-4 text-green-500" />}
+              {offer.rewardType === 'product' && <Package className="h-4 w-4 text-blue-500" />}
+              {offer.rewardType !== 'monetary' && offer.rewardType !== 'product' && <Gift className="h-4 w-4 text-purple-500" />}
+            </div>
+            <span className="line-clamp-1">{offer.reward}</span>
+          </div>
+
+          <div className="flex items-center text-sm">
+            <div className="w-5 h-5 mr-2 flex justify-center items-center">
+              <Users className="h-4 w-4 text-blue-500" />
+            </div>
+            <span>{formatNumber(offer.minFollowers)}+ followers</span>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-1 mb-1">
+          {offer.tags.slice(0, 3).map(tag => (
+            <Badge key={tag} variant="outline" className="text-xs">
+              #{tag}
+            </Badge>
+          ))}
+          {offer.tags.length > 3 && (
+            <Badge variant="outline" className="text-xs">
+              +{offer.tags.length - 3} more
+            </Badge>
+          )}
+        </div>
+      </CardContent>
+
+      <CardFooter className="pt-2">
+        <Button className="w-full" onClick={() => navigate(`/offers/${offer.id}`)}>
+          View Offer
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
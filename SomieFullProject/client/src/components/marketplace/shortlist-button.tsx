@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Bookmark, BookmarkCheck, Loader2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { ShortlistSummary } from '@shared/creator-crm';
+
+/**
+ * Save a creator to one or more of the business's shortlists, or start a new list
+ */
+export function ShortlistButton({ influencerId }: { influencerId: number }) {
+  const { toast } = useToast();
+  const [newListName, setNewListName] = useState('');
+
+  const { data: shortlists = [], isLoading } = useQuery<ShortlistSummary[]>({
+    queryKey: ['/api/business/shortlists'],
+  });
+  const saved = shortlists.some(list => list.influencerIds.includes(influencerId));
+
+  const onError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : 'Failed to update shortlist',
+      variant: 'destructive',
+    });
+  };
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ shortlistId, add }: { shortlistId: number; add: boolean }) =>
+      apiRequest(add ? 'PUT' : 'DELETE', `/api/business/shortlists/${shortlistId}/members/${influencerId}`),
+    onSuccess: (_, { shortlistId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/business/shortlists'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/business/shortlists/${shortlistId}/members`] });
+    },
+    onError,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest('POST', '/api/business/shortlists', { name });
+      const shortlist = await res.json();
+      await apiRequest('PUT', `/api/business/shortlists/${shortlist.id}/members/${influencerId}`);
+    },
+    onSuccess: () => {
+      setNewListName('');
+      queryClient.invalidateQueries({ queryKey: ['/api/business/shortlists'] });
+    },
+    onError,
+  });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" aria-label="Save to shortlist">
+          {saved ? <BookmarkCheck className="h-4 w-4 text-primary" /> : <Bookmark className="h-4 w-4" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end">
+        <p className="text-sm font-medium">Save to shortlist</p>
+
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-primary" />
+        ) : shortlists.length === 0 ? (
+          <p className="text-xs text-muted-foreground">You don't have any lists yet.</p>
+        ) : (
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {shortlists.map(list => (
+              <label key={list.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={list.influencerIds.includes(influencerId)}
+                  disabled={toggleMutation.isPending}
+                  onCheckedChange={(checked) => toggleMutation.mutate({ shortlistId: list.id, add: checked === true })}
+                />
+                <span className="truncate">{list.name}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (newListName.trim()) createMutation.mutate(newListName.trim());
+          }}
+        >
+          <Input
+            placeholder="New list"
+            className="h-8"
+            value={newListName}
+            onChange={(e) => setNewListName(e.target.value)}
+          />
+          <Button type="submit" size="sm" className="h-8" disabled={!newListName.trim() || createMutation.isPending}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -13,6 +13,7 @@ import {
   Heart, 
   Info 
 } from "lucide-react";
+import { MATCH_FACTOR_LABELS, type MatchExplanation } from "@shared/matching-profile";
 
 interface MatchScoreDisplayProps {
   score: number;
@@ -24,14 +25,49 @@ interface MatchScoreDisplayProps {
     audienceMatch?: number;
     brandAlignmentScore?: number;
   };
+  // Rules behind the score, as returned by the matching service
+  explanation?: MatchExplanation;
   size?: "sm" | "md" | "lg";
   showDetails?: boolean;
   className?: string;
 }
 
+/**
+ * Each factor's share of a match score and the rules that set it
+ */
+export function MatchExplanationList({ explanation, className = "" }: { explanation: MatchExplanation; className?: string }) {
+  return (
+    <div className={`space-y-2 text-xs ${className}`}>
+      {explanation.factors.map((factor) => (
+        <div key={factor.factor}>
+          <div className="flex justify-between font-medium">
+            <span>{MATCH_FACTOR_LABELS[factor.factor]}</span>
+            <span>+{factor.points.toFixed(1)} pts</span>
+          </div>
+          <div className="text-muted-foreground">
+            Scored {factor.score}/100, weighted at {factor.weight}%
+          </div>
+          <ul className="mt-0.5 list-disc pl-4 text-muted-foreground">
+            {explanation.rules
+              .filter((rule) => rule.factor === factor.factor)
+              .map((rule) => (
+                <li key={rule.rule}>{rule.detail}</li>
+              ))}
+          </ul>
+        </div>
+      ))}
+      <p className="text-muted-foreground pt-1 border-t">
+        {explanation.weightSource === "offer" ? "Weights set by the business for this offer" : "Platform default weights"}
+        {" "}· matching profile v{explanation.profileVersion}
+      </p>
+    </div>
+  );
+}
+
 export function MatchScoreDisplay({
   score,
   factors,
+  explanation,
   size = "md",
   showDetails = true,
   className = "",
@@ -320,6 +356,17 @@ export function MatchScoreDisplay({
           </div>
         </div>
       )}
+      
+      {/* Why the score is what it is */}
+      {showDetails && explanation && isExpanded && (
+        <div className="mt-2 w-full max-w-[240px] bg-muted/30 rounded-md p-2">
+          <h4 className="font-medium mb-2 text-center text-xs flex items-center justify-center gap-1">
+            <Info className="h-3 w-3" />
+            Why this score
+          </h4>
+          <MatchExplanationList explanation={explanation} />
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
-import { Check, ChevronsRight, Lightbulb, MessageCircle, DollarSign, BarChart3 } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Check, ChevronsRight, Lightbulb, MessageCircle, DollarSign, BarChart3, MapPin, Lock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -9,6 +10,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { DEFAULT_MATCHING_PROFILE, MATCH_FACTORS, MATCH_FACTOR_LABELS, type MatchWeights } from "@shared/matching-profile";
+import { MAX_OFFER_RADIUS_KM } from "@shared/geo";
+import { hasAudienceTargeting, type AudienceRequirements } from "@shared/audience-demographics";
+import { AudienceTargetingFields } from "@/components/ui/audience-fields";
+import type { BusinessProfile } from "@shared/schema";
 
 interface OfferCreationWizardProps {
   initialData?: any;
@@ -26,6 +34,9 @@ export function OfferCreationWizard({
   calculateEstimatedReach
 }: OfferCreationWizardProps) {
   const [step, setStep] = useState(1);
+  // Radius targeting is only offered to businesses with a physical location
+  const { data: businessProfile } = useQuery<BusinessProfile>({ queryKey: ["/api/business-profile"] });
+  const canTargetRadius = businessProfile?.businessType === "physical_location";
   const [formData, setFormData] = useState({
     title: initialData?.title || "",
     description: initialData?.description || "",
@@ -38,7 +49,24 @@ export function OfferCreationWizard({
     category: initialData?.category || "fashion",
     contentType: initialData?.contentType || "image",
     location: initialData?.location || "",
-    tags: initialData?.tags || []
+    radiusKm: initialData?.radiusKm ?? null,
+    audienceRequirements: (initialData?.audienceRequirements ?? {}) as AudienceRequirements,
+    tags: initialData?.tags || [],
+    claimMode: initialData?.claimMode || "instant",
+    visibility: initialData?.visibility || "public",
+    maxAcceptedCreators: initialData?.maxAcceptedCreators ?? null,
+    maxClaims: initialData?.maxClaims ?? null,
+    startsAt: initialData?.startsAt || "",
+    endsAt: initialData?.endsAt || "",
+    applicationDeadline: initialData?.applicationDeadline || "",
+    requiredHashtags: initialData?.verificationRequirements?.hashtags?.join(", ") || "",
+    requiredMentions: initialData?.verificationRequirements?.mentions?.join(", ") || "",
+    disclosureTags: initialData?.verificationRequirements?.disclosureTags?.join(", ") ?? "#ad, #sponsored",
+    linkInBio: initialData?.verificationRequirements?.linkInBio || "",
+    minVideoSeconds: initialData?.verificationRequirements?.minVideoSeconds ?? null,
+    brandName: initialData?.verificationRequirements?.brandName || "",
+    customMatchWeights: !!initialData?.matchWeights,
+    matchWeights: { ...DEFAULT_MATCHING_PROFILE.weights, ...initialData?.matchWeights } as MatchWeights
   });
   
   const [contentSuggestions, setContentSuggestions] = useState<string[]>([]);
@@ -100,14 +128,58 @@ export function OfferCreationWizard({
     return finalDescription.trim();
   };
   
+  // Split a comma or space separated list of tags
+  const parseTagList = (value: string): string[] =>
+    value.split(/[\s,]+/).map(tag => tag.trim()).filter(Boolean);
+  
+  // Build the checks run automatically against every submitted post
+  const buildVerificationRequirements = () => {
+    const requirements = {
+      hashtags: parseTagList(formData.requiredHashtags),
+      mentions: parseTagList(formData.requiredMentions),
+      disclosureTags: parseTagList(formData.disclosureTags),
+      linkInBio: formData.linkInBio.trim() || null,
+      minVideoSeconds: formData.contentType === 'video' ? formData.minVideoSeconds : null,
+      brandName: formData.brandName.trim() || null
+    };
+    const hasRequirements = requirements.hashtags.length > 0
+      || requirements.mentions.length > 0
+      || requirements.disclosureTags.length > 0
+      || requirements.linkInBio
+      || requirements.minVideoSeconds
+      || requirements.brandName;
+    return hasRequirements ? requirements : null;
+  };
+  
   // Handle wizard completion
   const handleComplete = () => {
+    const {
+      requiredHashtags,
+      requiredMentions,
+      disclosureTags,
+      linkInBio,
+      minVideoSeconds,
+      brandName,
+      customMatchWeights,
+      matchWeights,
+      ...offerFields
+    } = formData;
+    
     // Combine the description with selected content suggestions
     const finalData = {
-      ...formData,
+      ...offerFields,
       description: combineDescription(),
       // Add tags based on content type and category if none provided
-      tags: formData.tags.length > 0 ? formData.tags : [formData.category, formData.contentType]
+      tags: formData.tags.length > 0 ? formData.tags : [formData.category, formData.contentType],
+      // Unset dates are sent as null so the offer has no schedule limit
+      startsAt: formData.startsAt || null,
+      endsAt: formData.endsAt || null,
+      applicationDeadline: formData.applicationDeadline || null,
+      verificationRequirements: buildVerificationRequirements(),
+      // Without custom weights the offer follows the platform's matching profile
+      matchWeights: customMatchWeights ? matchWeights : null,
+      radiusKm: canTargetRadius ? formData.radiusKm : null,
+      audienceRequirements: hasAudienceTargeting(formData.audienceRequirements) ? formData.audienceRequirements : null
     };
     
     onComplete(finalData);
@@ -328,6 +400,86 @@ export function OfferCreationWizard({
           </p>
         )}
       </div>
+      
+      <Separator className="my-6" />
+      
+      <div className="space-y-4">
+        <div>
+          <h4 className="font-medium">Automatic Post Checks</h4>
+          <p className="text-sm text-muted-foreground">
+            Every submitted post is checked against these before it is approved. Posts that miss one are sent back to the creator.
+          </p>
+        </div>
+        
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="requiredHashtags">Required Hashtags</Label>
+            <Input 
+              id="requiredHashtags" 
+              placeholder="#YourBrand, #Launch" 
+              value={formData.requiredHashtags}
+              onChange={(e) => handleChange('requiredHashtags', e.target.value)}
+            />
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="requiredMentions">Required Mentions</Label>
+            <Input 
+              id="requiredMentions" 
+              placeholder="@yourbrand" 
+              value={formData.requiredMentions}
+              onChange={(e) => handleChange('requiredMentions', e.target.value)}
+            />
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="disclosureTags">Disclosure Tags</Label>
+            <Input 
+              id="disclosureTags" 
+              placeholder="#ad, #sponsored" 
+              value={formData.disclosureTags}
+              onChange={(e) => handleChange('disclosureTags', e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Any one of these counts as disclosing the partnership
+            </p>
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="brandName">Brand Name in Caption</Label>
+            <Input 
+              id="brandName" 
+              placeholder="Your Brand" 
+              value={formData.brandName}
+              onChange={(e) => handleChange('brandName', e.target.value)}
+            />
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="linkInBio">Link in Bio</Label>
+            <Input 
+              id="linkInBio" 
+              placeholder="yourbrand.com/promo" 
+              value={formData.linkInBio}
+              onChange={(e) => handleChange('linkInBio', e.target.value)}
+            />
+          </div>
+          
+          {formData.contentType === 'video' && (
+            <div className="space-y-2">
+              <Label htmlFor="minVideoSeconds">Minimum Video Length (seconds)</Label>
+              <Input 
+                id="minVideoSeconds" 
+                type="number"
+                min={1}
+                placeholder="No minimum" 
+                value={formData.minVideoSeconds ?? ''}
+                onChange={(e) => handleChange('minVideoSeconds', e.target.value ? Math.max(1, parseInt(e.target.value) || 1) : null)}
+              />
+            </div>
+          )}
+        </div>
+      </div>
     </div>
   );
   
@@ -393,6 +545,203 @@ export function OfferCreationWizard({
         </div>
       </div>
       
+      <div className="space-y-3 rounded-md border p-4">
+        <div>
+          <Label>Target audience</Label>
+          <p className="text-xs text-muted-foreground">
+            Creators whose followers match these rank higher. Leave anything blank to not target it.
+          </p>
+        </div>
+        <AudienceTargetingFields
+          value={formData.audienceRequirements}
+          onChange={(value) => handleChange('audienceRequirements', value)}
+        />
+      </div>
+      
+      {canTargetRadius && (
+        <div className="space-y-3 rounded-md border p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="radius-targeting" className="flex items-center gap-2">
+                <MapPin className="h-4 w-4" />
+                Only creators near your business
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Creators further away than this won't see the offer
+              </p>
+            </div>
+            <Switch
+              id="radius-targeting"
+              checked={formData.radiusKm !== null}
+              onCheckedChange={(checked) => handleChange('radiusKm', checked ? 25 : null)}
+            />
+          </div>
+          {formData.radiusKm !== null && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span>Radius</span>
+                <span className="text-muted-foreground">{formData.radiusKm} km</span>
+              </div>
+              <Slider
+                min={1}
+                max={MAX_OFFER_RADIUS_KM}
+                step={1}
+                value={[formData.radiusKm]}
+                onValueChange={([value]) => handleChange('radiusKm', value)}
+              />
+            </div>
+          )}
+        </div>
+      )}
+      
+      <div className="space-y-4 mt-6">
+        <Label>Who can join?</Label>
+        <RadioGroup 
+          value={formData.claimMode} 
+          onValueChange={(value) => handleChange('claimMode', value)}
+          className="grid grid-cols-1 md:grid-cols-2 gap-2"
+        >
+          <Label 
+            htmlFor="claim-instant" 
+            className={`flex items-center gap-2 p-4 border rounded-md cursor-pointer ${formData.claimMode === 'instant' ? 'bg-primary/10 border-primary' : 'hover:bg-muted'}`}>
+            <RadioGroupItem value="instant" id="claim-instant" />
+            <div>
+              <p className="font-medium">Open</p>
+              <p className="text-xs text-muted-foreground">Any qualifying creator can claim instantly</p>
+            </div>
+          </Label>
+          
+          <Label 
+            htmlFor="claim-application" 
+            className={`flex items-center gap-2 p-4 border rounded-md cursor-pointer ${formData.claimMode === 'application' ? 'bg-primary/10 border-primary' : 'hover:bg-muted'}`}>
+            <RadioGroupItem value="application" id="claim-application" />
+            <div>
+              <p className="font-medium">By application</p>
+              <p className="text-xs text-muted-foreground">Creators pitch and you approve each one</p>
+            </div>
+          </Label>
+        </RadioGroup>
+
+        <div className="flex items-center justify-between rounded-md border p-4">
+          <div>
+            <Label htmlFor="invite-only" className="flex items-center gap-2">
+              <Lock className="h-4 w-4" />
+              Invite only
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              Hide the offer from matching and search; only creators you invite can see and join it
+            </p>
+          </div>
+          <Switch
+            id="invite-only"
+            checked={formData.visibility === 'invite_only'}
+            onCheckedChange={(checked) => handleChange('visibility', checked ? 'invite_only' : 'public')}
+          />
+        </div>
+        
+        <div className="space-y-2">
+          <Label htmlFor="maxAcceptedCreators">Maximum Creators (optional)</Label>
+          <Input 
+            id="maxAcceptedCreators" 
+            type="number"
+            min={1}
+            placeholder="No limit" 
+            value={formData.maxAcceptedCreators ?? ''}
+            onChange={(e) => handleChange('maxAcceptedCreators', e.target.value ? Math.max(1, parseInt(e.target.value) || 1) : null)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Once this many creators are accepted, no one else can join
+          </p>
+        </div>
+        
+        <div className="space-y-2">
+          <Label htmlFor="maxClaims">Total Slots (optional)</Label>
+          <Input 
+            id="maxClaims" 
+            type="number"
+            min={1}
+            placeholder="No limit" 
+            value={formData.maxClaims ?? ''}
+            onChange={(e) => handleChange('maxClaims', e.target.value ? Math.max(1, parseInt(e.target.value) || 1) : null)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Claims and open applications both take a slot. The offer closes when all slots are taken.
+          </p>
+        </div>
+        
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="startsAt">Start Date (optional)</Label>
+            <Input 
+              id="startsAt" 
+              type="date"
+              value={formData.startsAt}
+              onChange={(e) => handleChange('startsAt', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="applicationDeadline">Join By (optional)</Label>
+            <Input 
+              id="applicationDeadline" 
+              type="date"
+              min={formData.startsAt || undefined}
+              max={formData.endsAt || undefined}
+              value={formData.applicationDeadline}
+              onChange={(e) => handleChange('applicationDeadline', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="endsAt">End Date (optional)</Label>
+            <Input 
+              id="endsAt" 
+              type="date"
+              min={formData.startsAt || undefined}
+              value={formData.endsAt}
+              onChange={(e) => handleChange('endsAt', e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+      
+      <div className="space-y-4 mt-6">
+        <div className="flex items-center justify-between rounded-md border p-4">
+          <div>
+            <Label htmlFor="customMatchWeights">Set your own match priorities</Label>
+            <p className="text-xs text-muted-foreground">
+              Choose what matters most when creators are ranked for this offer
+            </p>
+          </div>
+          <Switch
+            id="customMatchWeights"
+            checked={formData.customMatchWeights}
+            onCheckedChange={(checked) => handleChange('customMatchWeights', checked)}
+          />
+        </div>
+        
+        {formData.customMatchWeights && (
+          <div className="space-y-3 rounded-md border p-4">
+            {MATCH_FACTORS.map((factor) => (
+              <div key={factor} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <Label>{MATCH_FACTOR_LABELS[factor]}</Label>
+                  <span className="text-muted-foreground">{formData.matchWeights[factor]}</span>
+                </div>
+                <Slider
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={[formData.matchWeights[factor]]}
+                  onValueChange={([value]) => handleChange('matchWeights', { ...formData.matchWeights, [factor]: value })}
+                />
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Weights are relative: a factor at 40 counts twice as much as one at 20.
+            </p>
+          </div>
+        )}
+      </div>
+      
       <div className="mt-6">
         <Card>
           <CardHeader className="pb-2">
@@ -23,6 +23,7 @@ import { Progress } from "@/components/ui/progress";
 import { BusinessPersonalizationForm, InfluencerPersonalizationForm } from "./onboarding/personalization-forms";
 import { BusinessSuccessCards, InfluencerSuccessCards } from "./onboarding/success-cards";
 import { useOnboarding } from "@/hooks/use-onboarding";
+import { apiRequest } from "@/lib/queryClient";
 
 interface OnboardingStep {
   title: string;
@@ -91,6 +92,10 @@ export function OnboardingModal({ isOpen, onClose, userType }: OnboardingModalPr
       customContent: <InfluencerPersonalizationForm onSubmit={(data) => {
         setInfluencerData(data);
         saveInfluencerData(data);
+        // Without a profile yet this fails quietly; the dashboard offers the saved answers again
+        if (data.audience) {
+          apiRequest("PUT", "/api/influencer-profile/audience", data.audience).catch(() => {});
+        }
         setCurrentStep(currentStep + 1);
       }} />,
       timeEstimate: 30
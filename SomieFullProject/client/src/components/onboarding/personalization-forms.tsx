@@ -5,6 +5,8 @@ import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { SiInstagram, SiTiktok, SiYoutube } from "react-icons/si";
+import { AudienceDataFields, compactAudienceData } from "@/components/ui/audience-fields";
+import type { AudienceData } from "@shared/audience-demographics";
 
 export interface BusinessPersonalizationData {
   industry: string;
@@ -14,6 +16,8 @@ export interface BusinessPersonalizationData {
 export interface InfluencerPersonalizationData {
   primaryPlatform: string;
   contentNiche: string;
+  // Optional; saved to the profile so offers can be matched on audience overlap
+  audience?: AudienceData;
 }
 
 interface BusinessPersonalizationFormProps {
@@ -125,14 +129,16 @@ export function InfluencerPersonalizationForm({ onSubmit }: InfluencerPersonaliz
     primaryPlatform: "",
     contentNiche: ""
   });
+  const [showAudience, setShowAudience] = useState(false);
+  const [audience, setAudience] = useState<AudienceData>({});
 
-  const handleChange = (field: keyof InfluencerPersonalizationData, value: string) => {
+  const handleChange = (field: "primaryPlatform" | "contentNiche", value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
+    onSubmit(showAudience ? { ...formData, audience: compactAudienceData(audience) } : formData);
   };
 
   const contentNiches = [
@@ -212,6 +218,22 @@ export function InfluencerPersonalizationForm({ onSubmit }: InfluencerPersonaliz
         </Select>
       </div>
 
+      <div className="pt-2">
+        {showAudience ? (
+          <div className="space-y-2">
+            <Label className="text-base font-medium">Who follows you?</Label>
+            <p className="text-xs text-muted-foreground">
+              Copy these from your platform's analytics. Leave anything you don't know blank.
+            </p>
+            <AudienceDataFields value={audience} onChange={setAudience} />
+          </div>
+        ) : (
+          <Button type="button" variant="link" className="px-0" onClick={() => setShowAudience(true)}>
+            Add your audience demographics (optional)
+          </Button>
+        )}
+      </div>
+
       <Button 
         type="submit" 
         className="w-full mt-6"
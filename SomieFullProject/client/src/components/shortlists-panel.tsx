@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Bookmark, Loader2, Star, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CreatorCrmDialog } from "@/components/creator-crm-dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ShortlistMemberView, ShortlistSummary } from "@shared/creator-crm";
+
+/**
+ * The business's saved creator lists, with each creator's tags and rating
+ */
+export function ShortlistsPanel() {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [crmCreator, setCrmCreator] = useState<{ id: number; displayName: string } | null>(null);
+
+  const { data: shortlists = [], isLoading } = useQuery<ShortlistSummary[]>({
+    queryKey: ["/api/business/shortlists"],
+  });
+
+  // Fall back to the most recently changed list when the selection goes away
+  useEffect(() => {
+    if (!shortlists.some(list => list.id === selectedId)) {
+      setSelectedId(shortlists[0]?.id ?? null);
+    }
+  }, [shortlists, selectedId]);
+
+  const selected = shortlists.find(list => list.id === selectedId);
+
+  const membersKey = [`/api/business/shortlists/${selectedId}/members`];
+  const { data: members = [], isLoading: membersLoading } = useQuery<ShortlistMemberView[]>({
+    queryKey: membersKey,
+    enabled: selectedId !== null,
+  });
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to update shortlist",
+      variant: "destructive",
+    });
+  };
+
+  const removeMutation = useMutation({
+    mutationFn: async (influencerId: number) =>
+      apiRequest("DELETE", `/api/business/shortlists/${selectedId}/members/${influencerId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/business/shortlists"] });
+      queryClient.invalidateQueries({ queryKey: membersKey });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (shortlistId: number) => apiRequest("DELETE", `/api/business/shortlists/${shortlistId}`),
+    onSuccess: () => {
+      toast({ title: "List deleted" });
+      queryClient.invalidateQueries({ queryKey: ["/api/business/shortlists"] });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Bookmark className="h-5 w-5" />
+            Shortlists
+          </CardTitle>
+          <CardDescription>Creators you've saved from the marketplace</CardDescription>
+        </div>
+        {shortlists.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Select value={selectedId ? String(selectedId) : ""} onValueChange={(value) => setSelectedId(parseInt(value))}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Choose a list" />
+              </SelectTrigger>
+              <SelectContent>
+                {shortlists.map(list => (
+                  <SelectItem key={list.id} value={String(list.id)}>
+                    {list.name} ({list.influencerIds.length})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selected && (
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Delete list"
+                disabled={deleteMutation.isPending}
+                onClick={() => {
+                  if (window.confirm(`Delete "${selected.name}"? Your notes on these creators are kept.`)) {
+                    deleteMutation.mutate(selected.id);
+                  }
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading || membersLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : shortlists.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Save creators to a list from the <Link href="/marketplace" className="underline">marketplace</Link> to compare and invite them later.
+          </p>
+        ) : members.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This list is empty.</p>
+        ) : (
+          <div className="divide-y">
+            {members.map(({ creator, tags, rating }) => (
+              <div key={creator.id} className="flex items-center justify-between gap-3 py-3">
+                <button
+                  className="text-left min-w-0"
+                  onClick={() => setCrmCreator({ id: creator.id, displayName: creator.displayName })}
+                >
+                  <div className="font-medium flex items-center gap-2">
+                    {creator.displayName}
+                    {rating && (
+                      <span className="flex items-center text-xs text-amber-500">
+                        <Star className="h-3 w-3 mr-0.5 fill-amber-400" />
+                        {rating}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {creator.followerCount.toLocaleString()} followers · {creator.engagementRate}% engagement
+                    {creator.niche ? ` · ${creator.niche}` : ""}
+                  </div>
+                  {tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {tags.map(tag => (
+                        <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove ${creator.displayName}`}
+                  disabled={removeMutation.isPending}
+                  onClick={() => removeMutation.mutate(creator.id)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <CreatorCrmDialog
+        creator={crmCreator}
+        onClose={() => {
+          setCrmCreator(null);
+          // Tags or rating may have changed
+          queryClient.invalidateQueries({ queryKey: membersKey });
+        }}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, MapPin } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface SimilarCreator {
+  influencer: {
+    id: number;
+    displayName: string;
+    followerCount: number;
+    engagementRate: number | string;
+    platform: string | null;
+    niche: string | null;
+    location: string | null;
+    bio: string | null;
+  };
+  similarity: number;
+}
+
+interface SimilarCreatorsDialogProps {
+  // The creator to compare against; null closes the dialog
+  creator: { id: number; displayName: string } | null;
+  onClose: () => void;
+}
+
+/**
+ * Creators whose bios, niches and posts read most like the given creator's
+ */
+export function SimilarCreatorsDialog({ creator, onClose }: SimilarCreatorsDialogProps) {
+  const { data: similar, isLoading } = useQuery<SimilarCreator[]>({
+    queryKey: [`/api/influencers/${creator?.id}/similar`],
+    enabled: !!creator,
+  });
+
+  return (
+    <Dialog open={!!creator} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Creators like {creator?.displayName}</DialogTitle>
+          <DialogDescription>
+            Ranked by how closely their bio, niche and recent posts match.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : similar && similar.length > 0 ? (
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {similar.map(({ influencer, similarity }) => (
+              <div key={influencer.id} className="rounded-md border p-3 space-y-1">
+                <div className="flex justify-between items-start gap-2">
+                  <div>
+                    <div className="font-medium">{influencer.displayName}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {influencer.followerCount.toLocaleString()} followers · {influencer.engagementRate}% engagement
+                      {influencer.platform ? ` · ${influencer.platform}` : ""}
+                    </div>
+                  </div>
+                  <Badge variant="secondary">{Math.round(similarity * 100)}% similar</Badge>
+                </div>
+                <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                  {influencer.niche && <Badge variant="outline">{influencer.niche}</Badge>}
+                  {influencer.location && (
+                    <span className="flex items-center gap-1">
+                      <MapPin className="h-3 w-3" />
+                      {influencer.location}
+                    </span>
+                  )}
+                </div>
+                {influencer.bio && (
+                  <p className="text-sm text-muted-foreground line-clamp-2">{influencer.bio}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground py-4">
+            No similar creators yet. Creators are compared once they've added a bio, niche or posts.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
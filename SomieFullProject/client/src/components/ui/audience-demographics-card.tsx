@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, Save } from "lucide-react";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AudienceDataFields, compactAudienceData } from "@/components/ui/audience-fields";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { parseAudienceData, type AudienceData } from "@shared/audience-demographics";
+
+interface AudienceDemographicsCardProps {
+  audienceData?: AudienceData | null;
+  // Used when the profile has no audience data yet, e.g. what was entered during onboarding
+  fallback?: AudienceData | null;
+  className?: string;
+}
+
+/**
+ * Lets creators describe their audience so brands targeting it rank them higher
+ */
+export function AudienceDemographicsCard({ audienceData, fallback, className = '' }: AudienceDemographicsCardProps) {
+  const { toast } = useToast();
+  const [audience, setAudience] = useState<AudienceData>(
+    () => parseAudienceData(audienceData) ?? fallback ?? {}
+  );
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: AudienceData) => apiRequest("PUT", "/api/influencer-profile/audience", compactAudienceData(data)),
+    onSuccess: () => {
+      toast({ title: "Audience saved", description: "Offers targeting your audience will now rank higher for you." });
+      queryClient.invalidateQueries({ queryKey: ["/api/influencer-profile"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/offers"] });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to save audience", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Your Audience</CardTitle>
+        <CardDescription>
+          Who follows you, from your platforms' analytics. Brands target offers by age, gender, location and interests.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <AudienceDataFields value={audience} onChange={setAudience} />
+      </CardContent>
+      <CardFooter className="justify-end">
+        <Button onClick={() => saveMutation.mutate(audience)} disabled={saveMutation.isPending}>
+          {saveMutation.isPending
+            ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            : <Save className="h-4 w-4 mr-2" />}
+          Save Audience
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  AGE_BUCKETS,
+  AUDIENCE_GENDERS,
+  AUDIENCE_GENDER_LABELS,
+  type AudienceData,
+  type AudienceRequirements,
+} from "@shared/audience-demographics";
+
+type PlaceShare = { name: string; share: number };
+
+// Split a comma separated list, dropping blanks
+const parseList = (text: string): string[] =>
+  text.split(",").map(item => item.trim()).filter(Boolean);
+
+const parseShare = (text: string): number | undefined => {
+  const value = parseFloat(text);
+  return Number.isFinite(value) ? Math.max(0, Math.min(100, value)) : undefined;
+};
+
+const sumShares = (values: (number | undefined)[]) =>
+  values.reduce<number>((sum, value) => sum + (value ?? 0), 0);
+
+/**
+ * Drop unfinished rows and empty sections before audience data is saved
+ */
+export function compactAudienceData(value: AudienceData): AudienceData {
+  const places = (list: PlaceShare[] | undefined) => list?.filter(place => place.name.trim());
+  return {
+    ...value,
+    topCountries: places(value.topCountries),
+    topCities: places(value.topCities),
+    interests: value.interests?.length ? value.interests : undefined,
+  };
+}
+
+/**
+ * Text input for a list of values, kept as typed until it's parsed
+ */
+function ListInput({ id, value, onChange, placeholder }: {
+  id: string;
+  value: string[] | undefined;
+  onChange: (values: string[]) => void;
+  placeholder?: string;
+}) {
+  const [text, setText] = useState((value ?? []).join(", "));
+  return (
+    <Input
+      id={id}
+      value={text}
+      placeholder={placeholder}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseList(e.target.value));
+      }}
+    />
+  );
+}
+
+function PlaceShareList({ label, places, onChange, placeholder }: {
+  label: string;
+  places: PlaceShare[];
+  onChange: (places: PlaceShare[]) => void;
+  placeholder: string;
+}) {
+  const update = (index: number, place: PlaceShare) =>
+    onChange(places.map((existing, i) => (i === index ? place : existing)));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>{label}</Label>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() => onChange([...places, { name: "", share: 0 }])}
+          disabled={places.length >= 10}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </div>
+      {places.map((place, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            value={place.name}
+            placeholder={placeholder}
+            onChange={(e) => update(index, { ...place, name: e.target.value })}
+          />
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            className="w-24"
+            value={place.share}
+            onChange={(e) => update(index, { ...place, share: parseShare(e.target.value) ?? 0 })}
+          />
+          <span className="text-sm text-muted-foreground">%</span>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            onClick={() => onChange(places.filter((_, i) => i !== index))}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface AudienceDataFieldsProps {
+  value: AudienceData;
+  onChange: (value: AudienceData) => void;
+}
+
+/**
+ * Inputs for an influencer's audience breakdown, as percentages of their followers
+ */
+export function AudienceDataFields({ value, onChange }: AudienceDataFieldsProps) {
+  const ageTotal = sumShares(Object.values(value.ageBuckets ?? {}));
+  const genderTotal = sumShares(Object.values(value.genderSplit ?? {}));
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Age (% of followers)</Label>
+          <span className={`text-xs ${ageTotal > 100 ? "text-destructive" : "text-muted-foreground"}`}>{ageTotal}% total</span>
+        </div>
+        <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+          {AGE_BUCKETS.map((bucket) => (
+            <div key={bucket} className="space-y-1">
+              <Label htmlFor={`age-${bucket}`} className="text-xs text-muted-foreground">{bucket}</Label>
+              <Input
+                id={`age-${bucket}`}
+                type="number"
+                min={0}
+                max={100}
+                value={value.ageBuckets?.[bucket] ?? ""}
+                onChange={(e) => onChange({
+                  ...value,
+                  ageBuckets: { ...value.ageBuckets, [bucket]: parseShare(e.target.value) },
+                })}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Gender (% of followers)</Label>
+          <span className={`text-xs ${genderTotal > 100 ? "text-destructive" : "text-muted-foreground"}`}>{genderTotal}% total</span>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {AUDIENCE_GENDERS.map((gender) => (
+            <div key={gender} className="space-y-1">
+              <Label htmlFor={`gender-${gender}`} className="text-xs text-muted-foreground">{AUDIENCE_GENDER_LABELS[gender]}</Label>
+              <Input
+                id={`gender-${gender}`}
+                type="number"
+                min={0}
+                max={100}
+                value={value.genderSplit?.[gender] ?? ""}
+                onChange={(e) => onChange({
+                  ...value,
+                  genderSplit: { ...value.genderSplit, [gender]: parseShare(e.target.value) },
+                })}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <PlaceShareList
+        label="Top countries"
+        placeholder="United States"
+        places={value.topCountries ?? []}
+        onChange={(topCountries) => onChange({ ...value, topCountries })}
+      />
+
+      <PlaceShareList
+        label="Top cities"
+        placeholder="Austin"
+        places={value.topCities ?? []}
+        onChange={(topCities) => onChange({ ...value, topCities })}
+      />
+
+      <div className="space-y-2">
+        <Label htmlFor="audience-interests">Audience interests</Label>
+        <ListInput
+          id="audience-interests"
+          value={value.interests}
+          placeholder="fitness, skincare, travel"
+          onChange={(interests) => onChange({ ...value, interests })}
+        />
+      </div>
+    </div>
+  );
+}
+
+interface AudienceTargetingFieldsProps {
+  value: AudienceRequirements;
+  onChange: (value: AudienceRequirements) => void;
+}
+
+/**
+ * Inputs for the audience an offer wants to reach; anything left empty isn't targeted
+ */
+export function AudienceTargetingFields({ value, onChange }: AudienceTargetingFieldsProps) {
+  const toggle = <T extends string>(values: T[] | undefined, item: T): T[] =>
+    values?.includes(item) ? values.filter(existing => existing !== item) : [...(values ?? []), item];
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Age groups</Label>
+        <div className="flex flex-wrap gap-2">
+          {AGE_BUCKETS.map((bucket) => (
+            <Badge
+              key={bucket}
+              variant={value.ageBuckets?.includes(bucket) ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => onChange({ ...value, ageBuckets: toggle(value.ageBuckets, bucket) })}
+            >
+              {bucket}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Gender</Label>
+        <div className="flex flex-wrap gap-2">
+          {AUDIENCE_GENDERS.map((gender) => (
+            <Badge
+              key={gender}
+              variant={value.genders?.includes(gender) ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => onChange({ ...value, genders: toggle(value.genders, gender) })}
+            >
+              {AUDIENCE_GENDER_LABELS[gender]}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="target-countries">Countries</Label>
+          <ListInput
+            id="target-countries"
+            value={value.countries}
+            placeholder="United States, Canada"
+            onChange={(countries) => onChange({ ...value, countries })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="target-cities">Cities</Label>
+          <ListInput
+            id="target-cities"
+            value={value.cities}
+            placeholder="Austin, Houston"
+            onChange={(cities) => onChange({ ...value, cities })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="target-interests">Interests</Label>
+        <ListInput
+          id="target-interests"
+          value={value.interests}
+          placeholder="fitness, healthy eating"
+          onChange={(interests) => onChange({ ...value, interests })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import type { IconType } from "react-icons";
+import { SiInstagram, SiLinkedin, SiPinterest, SiSnapchat, SiTiktok, SiTwitch, SiX, SiYoutube } from "react-icons/si";
+import { getPlatform } from "@shared/platforms";
+
+// Keyed by the icon names in the platform registry
+const ICONS: Record<string, IconType> = {
+  SiInstagram,
+  SiTiktok,
+  SiYoutube,
+  SiTwitch,
+  SiX,
+  SiPinterest,
+  SiLinkedin,
+  SiSnapchat,
+};
+
+interface PlatformIconProps {
+  platform: string;
+  className?: string;
+  // Use the platform's brand color (on by default)
+  colored?: boolean;
+}
+
+export function PlatformIcon({ platform, className = "h-5 w-5", colored = true }: PlatformIconProps) {
+  const definition = getPlatform(platform);
+  const Icon = definition ? ICONS[definition.icon] : undefined;
+  if (!definition || !Icon) return null;
+
+  return <Icon className={colored ? `${className} ${definition.color}` : className} />;
+}
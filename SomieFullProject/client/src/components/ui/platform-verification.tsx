@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { BadgeCheck, Copy, Link2, Loader2, Unlink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { PlatformIcon } from "@/components/ui/platform-icon";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getPlatform } from "@shared/platforms";
+import type { PublicSocialPlatform } from "@shared/schema";
+
+interface LinkOption {
+  platform: string;
+  oauth: boolean;
+  bioCode: boolean;
+}
+
+interface PlatformVerificationProps {
+  platforms: PublicSocialPlatform[];
+  // Called after any platform's verification changes so the list can be refetched
+  onChanged: () => void;
+  className?: string;
+}
+
+/**
+ * Lets creators prove they own each saved platform, by linking the account
+ * through the platform's login or by placing a one-time code in their bio.
+ */
+export function PlatformVerification({ platforms, onChanged, className = '' }: PlatformVerificationProps) {
+  const { toast } = useToast();
+  const [linkingPlatform, setLinkingPlatform] = useState<string | null>(null);
+
+  const { data: linkOptions = [] } = useQuery<LinkOption[]>({
+    queryKey: ['/api/social-platforms/link-options'],
+  });
+
+  // The OAuth popup posts its result back to this window
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin) return;
+      const { type, platform, handle, error } = event.data || {};
+      if (type !== 'PLATFORM_LINK_SUCCESS' && type !== 'PLATFORM_LINK_ERROR') return;
+
+      setLinkingPlatform(null);
+      const label = getPlatform(platform)?.label ?? platform;
+      if (type === 'PLATFORM_LINK_SUCCESS') {
+        toast({ title: "Account linked", description: `@${handle} on ${label} is now verified.` });
+        onChanged();
+      } else {
+        toast({ title: "Linking failed", description: error || `Couldn't link your ${label} account`, variant: "destructive" });
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [onChanged, toast]);
+
+  const startLinkMutation = useMutation({
+    mutationFn: async (platform: string) => {
+      const res = await apiRequest("POST", `/api/social-platforms/oauth/${platform}/start`);
+      return (await res.json()) as { authorizeUrl: string };
+    },
+    onSuccess: ({ authorizeUrl }, platform) => {
+      setLinkingPlatform(platform);
+      window.open(authorizeUrl, 'somie-link-account', 'width=600,height=720');
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to start linking", variant: "destructive" });
+    },
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: async (platformId: number) => apiRequest("DELETE", `/api/social-platforms/${platformId}/link`),
+    onSuccess: () => {
+      toast({ title: "Account unlinked", description: "The account is no longer verified." });
+      onChanged();
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to unlink account", variant: "destructive" });
+    },
+  });
+
+  const issueBioCodeMutation = useMutation({
+    mutationFn: async (platformId: number) => apiRequest("POST", `/api/social-platforms/${platformId}/bio-code`),
+    onSuccess: () => onChanged(),
+    onError: (error) => {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to create a code", variant: "destructive" });
+    },
+  });
+
+  const verifyBioCodeMutation = useMutation({
+    mutationFn: async (platformId: number) => apiRequest("POST", `/api/social-platforms/${platformId}/bio-code/verify`),
+    onSuccess: () => {
+      toast({ title: "Account verified", description: "We found the code in your bio. You can remove it now." });
+      onChanged();
+    },
+    onError: (error) => {
+      toast({ title: "Not verified yet", description: error instanceof Error ? error.message : "Couldn't check your bio", variant: "destructive" });
+    },
+  });
+
+  const copyCode = async (code: string) => {
+    await navigator.clipboard.writeText(code);
+    toast({ title: "Copied", description: `${code} copied to your clipboard.` });
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {platforms.map((platform) => {
+        const definition = getPlatform(platform.platform);
+        const label = definition?.label ?? platform.platform;
+        const canOAuth = linkOptions.find(option => option.platform === definition?.id)?.oauth ?? false;
+        const hasLiveCode = !!platform.bioCode && !!platform.bioCodeExpiresAt && new Date(platform.bioCodeExpiresAt) > new Date();
+
+        return (
+          <div key={platform.id} className="rounded-md border p-3 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <PlatformIcon platform={platform.platform} className="h-5 w-5" />
+                <span className="font-medium">@{platform.handle}</span>
+                {platform.isVerified ? (
+                  <Badge variant="secondary" className="bg-green-50 text-green-700">
+                    <BadgeCheck className="h-3 w-3 mr-1" />
+                    {platform.verificationMethod === 'oauth' ? 'Linked' : 'Verified by bio code'}
+                  </Badge>
+                ) : (
+                  <Badge variant="outline">Unverified</Badge>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                {canOAuth && platform.verificationMethod !== 'oauth' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => startLinkMutation.mutate(platform.platform)}
+                    disabled={startLinkMutation.isPending || linkingPlatform === platform.platform}
+                  >
+                    {linkingPlatform === platform.platform
+                      ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      : <Link2 className="h-4 w-4 mr-2" />}
+                    Connect {label}
+                  </Button>
+                )}
+                {platform.isVerified && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => unlinkMutation.mutate(platform.id)}
+                    disabled={unlinkMutation.isPending}
+                  >
+                    <Unlink className="h-4 w-4 mr-2" />
+                    Unlink
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {!platform.isVerified && (
+              hasLiveCode ? (
+                <div className="rounded-md bg-muted p-3 space-y-2">
+                  <p className="text-sm">
+                    Add this code anywhere in your {label} bio, then check it. You can remove it once you're verified.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <code className="rounded bg-background px-2 py-1 font-mono text-sm">{platform.bioCode}</code>
+                    <Button size="sm" variant="ghost" onClick={() => copyCode(platform.bioCode!)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="ml-auto"
+                      onClick={() => verifyBioCodeMutation.mutate(platform.id)}
+                      disabled={verifyBioCodeMutation.isPending}
+                    >
+                      {verifyBioCodeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Check my bio
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Expires {new Date(platform.bioCodeExpiresAt!).toLocaleString()}
+                  </p>
+                </div>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="link"
+                  className="px-0"
+                  onClick={() => issueBioCodeMutation.mutate(platform.id)}
+                  disabled={issueBioCodeMutation.isPending}
+                >
+                  Verify with a code in your bio instead
+                </Button>
+              )
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -17,6 +17,8 @@ import {
   TabsList,
   TabsTrigger,
 } from "@/components/ui/tabs";
+import { PlatformIcon } from "@/components/ui/platform-icon";
+import type { PlatformId } from "@shared/platforms";
 
 interface RateRecommendation {
   minRate: number;
@@ -44,9 +46,32 @@ interface RateRecommendation {
   };
 }
 
+// Package rate for posting on every platform, priced on the combined audience
+interface AggregateRate {
+  totalReach: number;
+  uniqueAudience: number;
+  weightedEngagementRate: number;
+  platformCount: number;
+  minRate: number;
+  maxRate: number;
+  idealRate: number;
+  rateCurrency: string;
+  platformRates: {
+    platformId: number;
+    platform: PlatformId;
+    handle: string;
+    idealRate: number;
+  }[];
+}
+
+interface PlatformRatesResponse {
+  platforms: [string, RateRecommendation][];
+  aggregate: AggregateRate | null;
+}
+
 interface SocialPlatform {
   id: string;
-  platform: 'instagram' | 'tiktok' | 'youtube';
+  platform: PlatformId;
   handle: string;
   url: string;
   followers?: number;
@@ -94,7 +119,7 @@ export function RateCalculator({ platforms, niche, className = "" }: RateCalcula
   });
   
   // Rate calculation for all platforms
-  const { data: rateData, isLoading: isLoadingRates, isError, refetch } = useQuery<[string, RateRecommendation][]>({
+  const { data: rateData, isLoading: isLoadingRates, isError, refetch } = useQuery<PlatformRatesResponse>({
     queryKey: ['/api/rate-calculator/social-platforms'],
     enabled: platforms.length > 0 && platforms.some(p => p.followers && p.engagementRate),
     refetchOnWindowFocus: false
@@ -118,8 +143,7 @@ export function RateCalculator({ platforms, niche, className = "" }: RateCalcula
   const getSelectedPlatformData = () => {
     if (!selectedPlatform || !rateData) return null;
     
-    // Ensure rateData is an array
-    const rateDataArray = Array.isArray(rateData) ? rateData : [];
+    const rateDataArray = rateData.platforms;
     if (rateDataArray.length === 0) return null;
     
     // Find the rate data for the selected platform
@@ -152,18 +176,11 @@ export function RateCalculator({ platforms, niche, className = "" }: RateCalcula
   };
   
   // Helper to get platform icon
-  const getPlatformIcon = (platformType: 'instagram' | 'tiktok' | 'youtube') => {
-    switch (platformType) {
-      case 'instagram':
-        return <div className="h-6 w-6 rounded-full bg-gradient-to-tr from-purple-600 to-pink-500 flex items-center justify-center text-white text-xs">In</div>;
-      case 'tiktok':
-        return <div className="h-6 w-6 rounded-full bg-black flex items-center justify-center text-white text-xs">Tt</div>;
-      case 'youtube':
-        return <div className="h-6 w-6 rounded-full bg-red-600 flex items-center justify-center text-white text-xs">Yt</div>;
-      default:
-        return <div className="h-6 w-6 rounded-full bg-gray-200 flex items-center justify-center text-gray-500 text-xs">?</div>;
-    }
-  };
+  const getPlatformIcon = (platformType: PlatformId) => (
+    <div className="h-6 w-6 rounded-full bg-gray-100 flex items-center justify-center">
+      <PlatformIcon platform={platformType} className="h-3.5 w-3.5" />
+    </div>
+  );
   
   return (
     <div className={className}>
@@ -210,7 +227,7 @@ export function RateCalculator({ platforms, niche, className = "" }: RateCalcula
                 Try Again
               </Button>
             </div>
-          ) : !rateData || rateData.length === 0 ? (
+          ) : !rateData || rateData.platforms.length === 0 ? (
             <div className="text-center py-6">
               <p className="text-muted-foreground mb-2">No rate data available</p>
               <p className="text-sm text-muted-foreground mb-4">
@@ -222,6 +239,36 @@ export function RateCalculator({ platforms, niche, className = "" }: RateCalcula
             </div>
           ) : (
             <div className="space-y-6">
+              {/* Package across every platform, once there is more than one */}
+              {rateData.aggregate && rateData.aggregate.platformCount > 1 && (
+                <div className="rounded-lg border bg-primary/5 border-primary/30 p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center">
+                      <BarChart3 className="h-5 w-5 mr-2 text-primary" />
+                      <h3 className="font-medium">All Platforms Package</h3>
+                    </div>
+                    <div className="text-2xl font-bold text-primary">
+                      {formatCurrency(rateData.aggregate.idealRate)}
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    One post on each of your {rateData.aggregate.platformCount} platforms reaches an estimated{' '}
+                    {rateData.aggregate.uniqueAudience.toLocaleString()} people
+                    ({rateData.aggregate.totalReach.toLocaleString()} followers in total) at a combined{' '}
+                    {rateData.aggregate.weightedEngagementRate}% engagement rate.
+                    Range: {formatCurrency(rateData.aggregate.minRate)} – {formatCurrency(rateData.aggregate.maxRate)}.
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {rateData.aggregate.platformRates.map(platform => (
+                      <Badge key={platform.platformId} variant="outline" className="flex items-center gap-1 bg-background">
+                        <PlatformIcon platform={platform.platform} className="h-3 w-3" />
+                        {platform.handle}: {formatCurrency(platform.idealRate)}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+              
               {/* Platform selector */}
               <div className="flex flex-wrap gap-2">
                 {platforms.map(platform => (
@@ -1,12 +1,13 @@
 import { useCallback, useEffect, useState } from "react";
 import { Check, Loader2, RefreshCw } from "lucide-react";
-import { SiInstagram, SiTiktok, SiYoutube } from "react-icons/si";
+import { PlatformIcon } from "@/components/ui/platform-icon";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { getPlatform, type PlatformId } from "@shared/platforms";
 
 interface SocialHandleInputProps {
-  platform: 'instagram' | 'tiktok' | 'youtube';
+  platform: PlatformId;
   onMetricsFound: (metrics: any) => void;
   className?: string;
   value?: string;
@@ -37,16 +38,7 @@ export function SocialHandleInput({
     }
     
     // Otherwise, construct URL based on platform
-    switch (platform) {
-      case 'instagram':
-        return `https://instagram.com/${cleanHandle}`;
-      case 'tiktok':
-        return `https://tiktok.com/@${cleanHandle}`;
-      case 'youtube':
-        return `https://youtube.com/@${cleanHandle}`;
-      default:
-        return cleanHandle;
-    }
+    return getPlatform(platform)?.profileUrl(cleanHandle) ?? cleanHandle;
   };
   
   // Define fetchMetrics before using it in useEffect
@@ -110,7 +102,7 @@ export function SocialHandleInput({
         
         toast({
           title: "Profile found!",
-          description: `We found your ${platform} profile and imported your metrics.`,
+          description: `We found your ${getPlatform(platform)?.label ?? platform} profile and imported your metrics.`,
         });
       }
     } catch (error) {
@@ -168,18 +160,7 @@ export function SocialHandleInput({
     };
   }, [debouncedHandle, platform, fetchMetrics, isVerified]);
 
-  const getPlatformIcon = () => {
-    switch (platform) {
-      case 'instagram':
-        return <SiInstagram className="h-5 w-5 text-pink-500" />;
-      case 'tiktok':
-        return <SiTiktok className="h-5 w-5 text-black" />;
-      case 'youtube':
-        return <SiYoutube className="h-5 w-5 text-red-500" />;
-      default:
-        return null;
-    }
-  };
+  const getPlatformIcon = () => <PlatformIcon platform={platform} className="h-5 w-5" />;
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value;
@@ -198,7 +179,7 @@ export function SocialHandleInput({
           value={handle}
           onChange={handleChange}
           className="pl-10 pr-20"
-          placeholder={`Enter your ${platform} handle (without @)`}
+          placeholder={`Enter your ${getPlatform(platform)?.label ?? platform} handle (without @)`}
           disabled={isLoading}
         />
         {isVerified && (
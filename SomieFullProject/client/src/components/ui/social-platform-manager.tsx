@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { PlusCircle, Trash2, Check, Loader2, RefreshCw } from "lucide-react";
-import { SiInstagram, SiTiktok, SiYoutube } from "react-icons/si";
+import { PlatformIcon } from "@/components/ui/platform-icon";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -8,10 +8,11 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
+import { PLATFORM_IDS, getPlatform, type PlatformId } from "@shared/platforms";
 
 export interface SocialPlatform {
   id: string;
-  platform: 'instagram' | 'tiktok' | 'youtube';
+  platform: PlatformId;
   handle: string;
   url: string;
   followers?: number;
@@ -35,15 +36,14 @@ export function SocialPlatformManager({
   maxPlatforms = 3,
   className = ''
 }: SocialPlatformManagerProps) {
-  const [availablePlatforms, setAvailablePlatforms] = useState<('instagram' | 'tiktok' | 'youtube')[]>([]);
+  const [availablePlatforms, setAvailablePlatforms] = useState<PlatformId[]>([]);
   const { toast } = useToast();
   const [verifyingPlatform, setVerifyingPlatform] = useState<string | null>(null);
 
   // Update available platforms when the current platforms change
   useEffect(() => {
-    const allPlatforms: ('instagram' | 'tiktok' | 'youtube')[] = ['instagram', 'tiktok', 'youtube'];
     const usedPlatforms = platforms.map(p => p.platform);
-    setAvailablePlatforms(allPlatforms.filter(p => !usedPlatforms.includes(p)));
+    setAvailablePlatforms(PLATFORM_IDS.filter(p => !usedPlatforms.includes(p)));
   }, [platforms]);
 
   // Generate a unique ID for new platforms
@@ -137,18 +137,7 @@ export function SocialPlatformManager({
         : platform.handle;
 
       // Construct URL based on platform
-      let profileUrl = '';
-      switch (platform.platform) {
-        case 'instagram':
-          profileUrl = `https://instagram.com/${handle}`;
-          break;
-        case 'tiktok':
-          profileUrl = `https://tiktok.com/@${handle}`;
-          break;
-        case 'youtube':
-          profileUrl = `https://youtube.com/@${handle}`;
-          break;
-      }
+      const profileUrl = getPlatform(platform.platform)?.profileUrl(handle) ?? '';
 
       // Call the API to verify the platform
       const response = await fetch('/api/social-metrics/url', {
@@ -193,18 +182,10 @@ export function SocialPlatformManager({
   };
 
   // Helper to get platform icon
-  const getPlatformIcon = (platform: string) => {
-    switch (platform) {
-      case 'instagram':
-        return <SiInstagram className="h-5 w-5 text-pink-500" />;
-      case 'tiktok':
-        return <SiTiktok className="h-5 w-5 text-black" />;
-      case 'youtube':
-        return <SiYoutube className="h-5 w-5 text-red-500" />;
-      default:
-        return null;
-    }
-  };
+  const getPlatformIcon = (platform: string) => <PlatformIcon platform={platform} className="h-5 w-5" />;
+
+  // Helper to get platform display name
+  const getPlatformLabel = (platform: string) => getPlatform(platform)?.label ?? platform;
 
   return (
     <div className={`space-y-4 ${className}`}>
@@ -215,7 +196,7 @@ export function SocialPlatformManager({
               <div className="flex items-center gap-2">
                 {getPlatformIcon(platform.platform)}
                 <CardTitle className="text-base">
-                  {platform.platform.charAt(0).toUpperCase() + platform.platform.slice(1)}
+                  {getPlatformLabel(platform.platform)}
                 </CardTitle>
                 {platform.isPrimary && (
                   <Badge variant="secondary" className="ml-2">Primary</Badge>
@@ -252,7 +233,7 @@ export function SocialPlatformManager({
                   value={platform.platform}
                   onValueChange={(value) => 
                     updatePlatform(platform.id, { 
-                      platform: value as 'instagram' | 'tiktok' | 'youtube',
+                      platform: value as PlatformId,
                       isVerified: false,
                       handle: '', // Reset handle when platform changes
                       url: '',    // Reset URL when platform changes
@@ -264,11 +245,11 @@ export function SocialPlatformManager({
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value={platform.platform}>
-                      {platform.platform.charAt(0).toUpperCase() + platform.platform.slice(1)}
+                      {getPlatformLabel(platform.platform)}
                     </SelectItem>
                     {availablePlatforms.map(p => (
                       <SelectItem key={p} value={p}>
-                        {p.charAt(0).toUpperCase() + p.slice(1)}
+                        {getPlatformLabel(p)}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -277,7 +258,7 @@ export function SocialPlatformManager({
 
               <div className="space-y-1">
                 <Label>
-                  {platform.platform} handle
+                  {getPlatformLabel(platform.platform)} handle
                 </Label>
                 <div className="relative">
                   <div className="absolute left-3 top-1/2 -translate-y-1/2">
@@ -290,7 +271,7 @@ export function SocialPlatformManager({
                       isVerified: false // Reset verification when handle changes
                     })}
                     className="pl-10 pr-20"
-                    placeholder={`Enter ${platform.platform} handle (without @)`}
+                    placeholder={`Enter ${getPlatformLabel(platform.platform)} handle (without @)`}
                     disabled={verifyingPlatform === platform.id}
                   />
                   {platform.isVerified && (
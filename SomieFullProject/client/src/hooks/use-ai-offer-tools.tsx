@@ -2,6 +2,8 @@ import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import type { AudienceRequirements } from "@shared/audience-demographics";
+import type { CampaignObjective } from "@shared/campaigns";
 
 // Define types for the API responses
 export interface IndustryTemplate {
@@ -53,6 +55,7 @@ export interface ContentBriefSuggestion {
   };
   platformSpecificTips: string[];
   exampleCaptions: string[];
+  disclosureGuidance: string[];
   estimatedPerformance: {
     expectedEngagementRate: string;
     viewsEstimate: string;
@@ -60,15 +63,7 @@ export interface ContentBriefSuggestion {
   };
 }
 
-export interface CampaignObjective {
-  name: string;
-  description: string;
-  suitableFor: string[];
-  recommendedKPIs: string[];
-  suggestedContentTypes: string[];
-  suggestedPlatforms: string[];
-  timeframeRecommendation: number;
-}
+export type { CampaignObjective };
 
 export type OfferDraft = {
   minFollowers?: number;
@@ -77,6 +72,7 @@ export type OfferDraft = {
   contentType?: string;
   location?: string;
   tags?: string[];
+  audienceRequirements?: AudienceRequirements | null;
 };
 
 /**
@@ -146,12 +142,12 @@ export function useAIOfferTools() {
   };
   
   // Get content brief suggestions
-  const useContentBrief = (category: string, contentType: string, platform: string = 'instagram') => {
+  const useContentBrief = (category: string, contentType: string, platform: string = 'instagram', location: string = '') => {
     return useQuery<ContentBriefSuggestion, Error>({
-      queryKey: ['/api/offers/content-brief', category, contentType, platform],
+      queryKey: ['/api/offers/content-brief', category, contentType, platform, location],
       queryFn: async () => {
         const response = await apiRequest('GET', 
-          `/api/offers/content-brief?category=${category}&contentType=${contentType}&platform=${platform}`
+          `/api/offers/content-brief?category=${category}&contentType=${contentType}&platform=${platform}&location=${encodeURIComponent(location)}`
         );
         if (!response.ok) {
           throw new Error('Failed to fetch content brief');
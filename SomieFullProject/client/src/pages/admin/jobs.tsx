@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { AdminLayout } from "@/components/admin/admin-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, Clock, Loader2, RotateCcw } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Job, JobSchedule } from "@shared/schema";
+
+interface JobsResponse {
+  counts: Record<string, number>;
+  jobs: Job[];
+  schedules: JobSchedule[];
+}
+
+const STATUS_TABS = [
+  { value: "failed", label: "Failed" },
+  { value: "queued", label: "Queued" },
+  { value: "running", label: "Running" },
+  { value: "dead", label: "Dead" },
+  { value: "completed", label: "Completed" },
+];
+
+const JobsPage = () => {
+  const [status, setStatus] = useState("failed");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery<JobsResponse>({
+    queryKey: [`/api/admin/jobs?status=${status}`],
+    refetchInterval: 10000,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      const res = await apiRequest("POST", `/api/admin/jobs/${jobId}/retry`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Job requeued",
+        description: "The job will run on the next worker poll.",
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/jobs"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDate = (date: string | Date | null) =>
+    date ? format(new Date(date), "MMM d, h:mm:ss a") : "—";
+
+  const getStatusBadge = (job: Job) => {
+    switch (job.status) {
+      case "completed":
+        return <Badge variant="secondary">Completed</Badge>;
+      case "running":
+        return <Badge variant="default">Running</Badge>;
+      case "dead":
+        return <Badge variant="destructive">Dead</Badge>;
+      default:
+        return job.lastError
+          ? <Badge variant="outline" className="text-amber-600 border-amber-600">Retrying</Badge>
+          : <Badge variant="outline">Queued</Badge>;
+    }
+  };
+
+  const counts = data?.counts || {};
+  const jobs = data?.jobs || [];
+
+  return (
+    <AdminLayout>
+      <div className="flex flex-col space-y-6">
+        <div className="flex flex-col space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">Background Jobs</h1>
+          <p className="text-muted-foreground">
+            Queued, failed and recurring work run by the server
+          </p>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-4">
+          {["queued", "running", "dead", "completed"].map((key) => (
+            <Card key={key}>
+              <CardHeader className="pb-2">
+                <CardDescription className="capitalize">{key}</CardDescription>
+                <CardTitle className="text-2xl">{counts[key] || 0}</CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+
+        <Tabs value={status} onValueChange={setStatus}>
+          <TabsList>
+            {STATUS_TABS.map((tab) => (
+              <TabsTrigger key={tab.value} value={tab.value}>
+                {tab.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : error ? (
+              <div className="flex flex-col items-center justify-center py-8 text-center">
+                <AlertCircle className="h-8 w-8 text-red-500 mb-2" />
+                <p>Failed to load jobs. Please try again later.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Job</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead className="hidden md:table-cell">Run At</TableHead>
+                    <TableHead>Last Error</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {jobs.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                        No jobs in this state
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    jobs.map((job) => (
+                      <TableRow key={job.id}>
+                        <TableCell>
+                          <div className="font-medium">{job.type}</div>
+                          <div className="text-xs text-muted-foreground">
+                            #{job.id}{job.scheduleName ? ` · ${job.scheduleName}` : ""}
+                          </div>
+                        </TableCell>
+                        <TableCell>{getStatusBadge(job)}</TableCell>
+                        <TableCell>{job.attempts}/{job.maxAttempts}</TableCell>
+                        <TableCell className="hidden md:table-cell">{formatDate(job.runAt)}</TableCell>
+                        <TableCell className="max-w-xs truncate text-sm text-muted-foreground" title={job.lastError || ""}>
+                          {job.lastError || "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {job.status === "dead" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={retryMutation.isPending}
+                              onClick={() => retryMutation.mutate(job.id)}
+                            >
+                              <RotateCcw className="mr-2 h-4 w-4" />
+                              Retry
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Recurring Schedules
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Cron</TableHead>
+                  <TableHead>Last Run</TableHead>
+                  <TableHead>Next Run</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(data?.schedules || []).map((schedule) => (
+                  <TableRow key={schedule.id}>
+                    <TableCell>
+                      <div className="font-medium">{schedule.name}</div>
+                      <div className="text-xs text-muted-foreground">{schedule.jobType}</div>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{schedule.cron}</TableCell>
+                    <TableCell>{formatDate(schedule.lastRunAt)}</TableCell>
+                    <TableCell>{schedule.enabled ? formatDate(schedule.nextRunAt) : "Disabled"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default JobsPage;
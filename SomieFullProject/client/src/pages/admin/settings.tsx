@@ -10,9 +10,10 @@ import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Separator } from "@/components/ui/separator";
 import { Textarea } from "@/components/ui/textarea";
-import { AlertCircle, Save, Settings2, Shield, Database, Globe, BellRing, MailCheck, Zap } from "lucide-react";
+import { AlertCircle, Save, Settings2, Shield, Database, Globe, BellRing, MailCheck, Zap, Target } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { MatchingProfileEditor } from "@/components/admin/matching-profile-editor";
 
 interface SystemSetting {
   id: string;
@@ -243,7 +244,7 @@ const SettingsPage = () => {
             </div>
 
             <Tabs defaultValue="general" className="space-y-4">
-              <TabsList className="grid grid-cols-3 md:grid-cols-6 lg:w-auto">
+              <TabsList className="grid grid-cols-4 md:grid-cols-7 lg:w-auto">
                 <TabsTrigger value="general" className="gap-2">
                   <Settings2 className="h-4 w-4" />
                   <span className="hidden md:inline">General</span>
@@ -268,6 +269,10 @@ const SettingsPage = () => {
                   <Zap className="h-4 w-4" />
                   <span className="hidden md:inline">Performance</span>
                 </TabsTrigger>
+                <TabsTrigger value="matching" className="gap-2">
+                  <Target className="h-4 w-4" />
+                  <span className="hidden md:inline">Matching</span>
+                </TabsTrigger>
               </TabsList>
 
               {/* General Settings */}
@@ -420,6 +425,11 @@ const SettingsPage = () => {
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              {/* Matching Profile */}
+              <TabsContent value="matching">
+                <MatchingProfileEditor />
+              </TabsContent>
             </Tabs>
           </>
         )}
@@ -10,9 +10,22 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, XCircle, Edit, User, Trash2, Search, ChevronLeft, ChevronRight, AlertCircle } from "lucide-react";
+import { CheckCircle, XCircle, Edit, User, Trash2, Search, ChevronLeft, ChevronRight, AlertCircle, ShieldAlert, RefreshCw } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { SIGNAL_FLAG_THRESHOLD, type CredibilitySignal } from "@shared/audience-authenticity";
+
+interface FlaggedAccount {
+  id: number;
+  userId: number;
+  displayName: string;
+  platform: string;
+  followerCount: number;
+  engagementRate: string;
+  credibilityScore: number;
+  credibilitySignals: CredibilitySignal[];
+  credibilityAssessedAt: string | null;
+}
 
 const UsersPage = () => {
   const [searchQuery, setSearchQuery] = useState("");
@@ -29,6 +42,32 @@ const UsersPage = () => {
     retry: false,
   });
 
+  const { data: flaggedData, isLoading: isFlaggedLoading } = useQuery<{ accounts: FlaggedAccount[] }>({
+    queryKey: ["/api/admin/flagged-accounts"],
+    retry: false,
+  });
+
+  const rescoreMutation = useMutation({
+    mutationFn: async (profileId: number) => {
+      const res = await apiRequest("POST", `/api/admin/influencers/${profileId}/credibility`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Credibility rescored",
+        description: "The account was scored against its latest metrics.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/flagged-accounts"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Rescore failed",
+        description: error.message || "There was an error scoring the account.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Update user role mutation
   const updateUserMutation = useMutation({
     mutationFn: async (data: { userId: number; role: string; permissions?: string[] }) => {
@@ -81,6 +120,7 @@ const UsersPage = () => {
   };
 
   const users = usersData?.users || [];
+  const flaggedAccounts = flaggedData?.accounts || [];
   const totalPages = usersData?.pagination?.totalPages || 1;
 
   return (
@@ -126,6 +166,9 @@ const UsersPage = () => {
             <TabsTrigger value="all">All Users</TabsTrigger>
             <TabsTrigger value="active">Active</TabsTrigger>
             <TabsTrigger value="reported">Reported</TabsTrigger>
+            <TabsTrigger value="flagged">
+              Flagged{flaggedAccounts.length > 0 ? ` (${flaggedAccounts.length})` : ""}
+            </TabsTrigger>
           </TabsList>
           <TabsContent value="all" className="space-y-4">
             <Card>
@@ -270,6 +313,94 @@ const UsersPage = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="flagged" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Flagged Accounts</CardTitle>
+                <CardDescription>
+                  Influencers whose follower and engagement patterns suggest fake followers or bought engagement
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                {isFlaggedLoading ? (
+                  <div className="flex justify-center py-8">
+                    <p>Loading flagged accounts...</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Influencer</TableHead>
+                        <TableHead>Credibility</TableHead>
+                        <TableHead>Signals</TableHead>
+                        <TableHead className="hidden md:table-cell">Last Scored</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {flaggedAccounts.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={5} className="text-center py-8">
+                            No accounts are flagged.
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        flaggedAccounts.map((account) => (
+                          <TableRow key={account.id}>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <div className="rounded-full bg-red-100 p-1">
+                                  <ShieldAlert className="h-4 w-4 text-red-600" />
+                                </div>
+                                <div>
+                                  <p className="font-medium">{account.displayName}</p>
+                                  <p className="text-xs text-muted-foreground">
+                                    {account.platform} · {account.followerCount.toLocaleString()} followers · {account.engagementRate}% engagement
+                                  </p>
+                                </div>
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="destructive">{account.credibilityScore}/100</Badge>
+                            </TableCell>
+                            <TableCell>
+                              <ul className="space-y-1 text-sm">
+                                {account.credibilitySignals
+                                  .filter(signal => signal.score !== null && signal.score < 100)
+                                  .map(signal => (
+                                    <li key={signal.key}>
+                                      <span className={signal.score! <= SIGNAL_FLAG_THRESHOLD ? "font-medium text-red-600" : "font-medium"}>
+                                        {signal.label} ({signal.score})
+                                      </span>
+                                      <span className="text-muted-foreground">: {signal.detail}</span>
+                                    </li>
+                                  ))}
+                              </ul>
+                            </TableCell>
+                            <TableCell className="hidden md:table-cell">
+                              {account.credibilityAssessedAt ? formatDate(account.credibilityAssessedAt) : 'N/A'}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => rescoreMutation.mutate(account.id)}
+                                disabled={rescoreMutation.isPending}
+                              >
+                                <RefreshCw className="h-4 w-4" />
+                                <span className="sr-only">Rescore</span>
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
 
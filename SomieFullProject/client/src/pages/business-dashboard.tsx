@@ -12,6 +12,10 @@ import { apiRequest, queryClient, getAuthToken } from "@/lib/queryClient";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { MascotSettings } from "@/components/mascot-settings";
+import { ShortlistsPanel } from "@/components/shortlists-panel";
+import { CampaignsPanel } from "@/components/campaigns-panel";
+import type { VerificationRequirements } from "@shared/verification-requirements";
+import type { OfferVisibility } from "@shared/offer-invitations";
 import { 
   Dialog,
   DialogContent,
@@ -60,6 +64,14 @@ type OfferFormData = {
   contentType: string;
   location: string;
   tags: string[];
+  claimMode: "instant" | "application";
+  visibility: OfferVisibility;
+  maxAcceptedCreators: number | null;
+  maxClaims: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  applicationDeadline: string | null;
+  verificationRequirements: VerificationRequirements | null;
 };
 
 // Main component - all hooks at top level to avoid React hook errors
@@ -122,7 +134,15 @@ export default function BusinessDashboard() {
     category: "fashion",
     contentType: "image",
     location: "",
-    tags: []
+    tags: [],
+    claimMode: "instant",
+    visibility: "public",
+    maxAcceptedCreators: null,
+    maxClaims: null,
+    startsAt: null,
+    endsAt: null,
+    applicationDeadline: null,
+    verificationRequirements: null
   });
   
   // Check for business profile
@@ -702,7 +722,15 @@ function BusinessProfileForm() {
       category: "fashion",
       contentType: "image",
       location: "",
-      tags: []
+      tags: [],
+      claimMode: "instant",
+      visibility: "public",
+      maxAcceptedCreators: null,
+      maxClaims: null,
+      startsAt: null,
+      endsAt: null,
+      applicationDeadline: null,
+      verificationRequirements: null
     });
     setOptimizedParams(null);
     
@@ -1117,8 +1145,18 @@ function BusinessProfileForm() {
                         <CardHeader className="p-4 pb-2 bg-slate-50/50">
                           <CardTitle className="text-md flex justify-between items-center">
                             <span className="truncate">{offer.title}</span>
-                            <div className="text-xs font-normal text-muted-foreground flex items-center ml-2 shrink-0">
-                              {isNew ? (
+                            <div className="text-xs font-normal text-muted-foreground flex items-center gap-1 ml-2 shrink-0">
+                              {offer.visibility === 'invite_only' && (
+                                <span className="bg-slate-100 text-slate-700 rounded-full px-2 py-0.5">
+                                  Invite only
+                                </span>
+                              )}
+                              {offer.status === 'paused' ? (
+                                <span className="bg-amber-100 text-amber-800 rounded-full px-2 py-0.5 flex items-center">
+                                  <span className="h-1.5 w-1.5 rounded-full bg-amber-500 mr-1.5"></span>
+                                  Paused (campaign)
+                                </span>
+                              ) : isNew ? (
                                 <span className="bg-blue-100 text-blue-800 rounded-full px-2 py-0.5 flex items-center">
                                   <span className="h-1.5 w-1.5 rounded-full bg-blue-500 mr-1.5"></span>
                                   New
@@ -1274,6 +1312,21 @@ function BusinessProfileForm() {
                                 </Tooltip>
                               </TooltipProvider>
                               
+                              {offer.claimMode === 'application' && (
+                                <Button 
+                                  variant="outline" 
+                                  size="sm" 
+                                  className="h-7 text-xs"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    navigate(`/offers/${offer.id}/applicants`);
+                                  }}
+                                >
+                                  <Users className="h-3.5 w-3.5 mr-1.5" />
+                                  Applicants
+                                </Button>
+                              )}
+                              
                               <Button 
                                 variant="outline" 
                                 size="sm" 
@@ -1294,6 +1347,10 @@ function BusinessProfileForm() {
               </CardContent>
             </Card>
           ) : null}
+
+          <CampaignsPanel />
+
+          <ShortlistsPanel />
         </div>
       );
     }
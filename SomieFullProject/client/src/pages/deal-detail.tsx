@@ -14,7 +14,9 @@ import {
   Calendar,
   CheckCircle2,
   Clock,
-  Loader2
+  Loader2,
+  AlertTriangle,
+  ShieldCheck
 } from "lucide-react";
 import { SiTiktok } from "react-icons/si";
 import { Drawer, DrawerContent, DrawerHeader, DrawerTitle, DrawerTrigger } from "@/components/ui/drawer";
@@ -22,6 +24,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { useState, useEffect } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CLAIM_STATUS_LABELS, type ClaimStatus } from "@shared/claim-lifecycle";
+import type { RuleResult } from "@shared/verification-requirements";
+import { DISCLOSURE_STATUS_LABELS, type DisclosureStatus } from "@shared/disclosure-compliance";
+import { DealNegotiationPanel } from "@/components/deal-negotiation-panel";
 
 interface Business {
   id: number;
@@ -45,10 +52,15 @@ interface Offer {
 
 interface Deal {
   id: number;
-  status: string;
+  status: ClaimStatus;
   createdAt: string;
   completedAt: string | null;
-  deadline: string;
+  flaggedAt: string | null;
+  flagReason: string | null;
+  disclosureStatus: DisclosureStatus;
+  disclosureOverrideReason: string | null;
+  disclosureOverriddenAt: string | null;
+  deadline: string | null; // null until the application is accepted
   timeframe: number;
   offer: Offer;
 }
@@ -60,6 +72,76 @@ interface Message {
   timestamp: string;
 }
 
+interface ClaimEvent {
+  id: number;
+  fromStatus: ClaimStatus | null;
+  toStatus: ClaimStatus;
+  actorType: "influencer" | "business" | "admin" | "system";
+  reason: string | null;
+  createdAt: string;
+}
+
+interface ClaimTimeline {
+  claimId: number;
+  status: ClaimStatus;
+  allowedTransitions: ClaimStatus[];
+  events: ClaimEvent[];
+}
+
+interface VerificationSnapshot {
+  id: number;
+  status: "live" | "removed" | "edited" | "unreachable";
+  missingHashtags: string[];
+  missingMentions: string[];
+  details: string | null;
+  checkedAt: string;
+}
+
+interface MonitoredPost {
+  id: number;
+  postUrl: string;
+  platform: string;
+  lastVerified: string | null;
+  verificationDetails: string | null;
+  snapshots: VerificationSnapshot[];
+}
+
+// Older submissions stored plain text details without a rule report
+const getRuleResults = (verificationDetails: string | null): RuleResult[] => {
+  if (!verificationDetails) return [];
+  try {
+    const parsed = JSON.parse(verificationDetails);
+    return Array.isArray(parsed?.rules) ? parsed.rules : [];
+  } catch {
+    return [];
+  }
+};
+
+const SNAPSHOT_LABELS: Record<VerificationSnapshot["status"], string> = {
+  live: "Live",
+  removed: "Removed",
+  edited: "Edited",
+  unreachable: "Couldn't check",
+};
+
+// Labels for the status changes a participant can make from the deal page
+const TRANSITION_ACTIONS: Partial<Record<ClaimStatus, string>> = {
+  accepted: "Accept",
+  in_progress: "Start Work",
+  under_review: "Start Review",
+  revision_requested: "Request Revision",
+  completed: "Mark Completed",
+  rejected: "Reject",
+  cancelled: "Cancel Deal",
+};
+
+const ACTOR_LABELS: Record<ClaimEvent["actorType"], string> = {
+  influencer: "Influencer",
+  business: "Business",
+  admin: "Admin",
+  system: "Somie",
+};
+
 interface Deliverable {
   id: number;
   description: string;
@@ -73,8 +155,10 @@ function DealDetailContent() {
   // Initialize all hooks at the top
   const [message, setMessage] = useState("");
   const [submissionUrl, setSubmissionUrl] = useState("");
+  const [overrideReason, setOverrideReason] = useState("");
   const params = useParams<{ id?: string }>();
   const [, setLocation] = useLocation();
+  const { toast } = useToast();
   const parsedId = params.id ? parseInt(params.id) : null;
 
   // Authentication check
@@ -102,6 +186,58 @@ function DealDetailContent() {
     retry: false
   });
 
+  const { data: timeline } = useQuery<ClaimTimeline>({
+    queryKey: [`/api/offers/claims/${parsedId}/timeline`],
+    enabled: !!user && !!deal && !!parsedId && !isNaN(parsedId),
+    retry: false
+  });
+
+  const { data: monitoredPosts = [] } = useQuery<MonitoredPost[]>({
+    queryKey: [`/api/offers/claims/${parsedId}/posts/history`],
+    enabled: !!user && !!deal && !!parsedId && !isNaN(parsedId),
+    retry: false
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: async (status: ClaimStatus) => {
+      const res = await apiRequest("PATCH", `/api/offers/claims/${parsedId}`, { status });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/offers/claims/${parsedId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/offers/claims/${parsedId}/timeline`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not update deal",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const overrideDisclosureMutation = useMutation({
+    mutationFn: async (reason: string) => {
+      const res = await apiRequest("POST", `/api/offers/claims/${parsedId}/disclosure/override`, { reason });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/offers/claims/${parsedId}`] });
+      setOverrideReason("");
+      toast({
+        title: "Disclosure check overridden",
+        description: "The deal can now be completed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not override the disclosure check",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Authentication effect
   useEffect(() => {
     if (!userLoading && !user) {
@@ -143,6 +279,13 @@ function DealDetailContent() {
     );
   }
 
+  // Only the business (or an admin) can accept a post that failed the disclosure check
+  const userRole = (user as { role?: string }).role;
+  const canOverrideDisclosure = userRole === "business" || userRole === "admin" || userRole === "super_admin";
+  const negotiationParty = userRole === "influencer" || userRole === "business" ? userRole : null;
+  const disclosureBlocksCompletion = deal.disclosureStatus === "failed"
+    || (deal.disclosureStatus === "pending" && (deal.status === "submitted" || deal.status === "under_review"));
+
   // Calculate progress safely
   const progress = deliverables.length > 0
     ? (deliverables.filter(d => d.status === "approved").length / deliverables.length) * 100
@@ -197,12 +340,87 @@ function DealDetailContent() {
               <span>{deal.offer.business.location}</span>
             </div>
           </div>
-          <Badge className="text-lg" variant={deal.status === "completed" ? "default" : "secondary"}>
-            {deal.status}
-          </Badge>
+          <div className="flex flex-col items-end gap-2">
+            <Badge className="text-lg" variant={deal.status === "completed" ? "default" : "secondary"}>
+              {CLAIM_STATUS_LABELS[deal.status] || deal.status}
+            </Badge>
+            <div className="flex gap-2">
+              {timeline?.allowedTransitions
+                .filter((status) => TRANSITION_ACTIONS[status])
+                .map((status) => (
+                  <Button
+                    key={status}
+                    size="sm"
+                    variant={status === "rejected" || status === "cancelled" ? "outline" : "default"}
+                    disabled={transitionMutation.isPending}
+                    onClick={() => transitionMutation.mutate(status)}
+                  >
+                    {TRANSITION_ACTIONS[status]}
+                  </Button>
+                ))}
+            </div>
+          </div>
         </div>
       </div>
 
+      {deal.flaggedAt && (
+        <div className="mb-6 flex items-start gap-3 rounded-lg border border-destructive/50 bg-destructive/10 p-4">
+          <AlertTriangle className="h-5 w-5 text-destructive mt-0.5" />
+          <div>
+            <div className="font-medium">Sponsored post flagged</div>
+            <div className="text-sm text-muted-foreground">
+              {deal.flagReason} · {new Date(deal.flaggedAt).toLocaleString()}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {disclosureBlocksCompletion && (
+        <div className="mb-6 rounded-lg border border-amber-400 bg-amber-50 p-4 space-y-3">
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5" />
+            <div>
+              <div className="font-medium">{DISCLOSURE_STATUS_LABELS[deal.disclosureStatus]}</div>
+              <div className="text-sm text-muted-foreground">
+                {deal.disclosureStatus === "failed"
+                  ? "The post must clearly disclose the sponsorship before this deal can be completed."
+                  : "The post could not be checked for a sponsorship disclosure yet."}
+                {canOverrideDisclosure && " If the post is acceptable, you can approve it with a reason."}
+              </div>
+            </div>
+          </div>
+          {canOverrideDisclosure && (
+            <div className="flex gap-2">
+              <Input
+                placeholder="Why is this post acceptable? e.g. Disclosed with the platform's paid partnership label"
+                value={overrideReason}
+                onChange={(e) => setOverrideReason(e.target.value)}
+              />
+              <Button
+                variant="outline"
+                disabled={overrideReason.trim().length < 10 || overrideDisclosureMutation.isPending}
+                onClick={() => overrideDisclosureMutation.mutate(overrideReason.trim())}
+              >
+                Override
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {deal.disclosureStatus === "overridden" && deal.disclosureOverrideReason && (
+        <div className="mb-6 flex items-start gap-3 rounded-lg border p-4">
+          <ShieldCheck className="h-5 w-5 text-muted-foreground mt-0.5" />
+          <div>
+            <div className="font-medium">{DISCLOSURE_STATUS_LABELS.overridden}</div>
+            <div className="text-sm text-muted-foreground">
+              {deal.disclosureOverrideReason}
+              {deal.disclosureOverriddenAt && ` · ${new Date(deal.disclosureOverriddenAt).toLocaleString()}`}
+            </div>
+          </div>
+        </div>
+      )}
+
       <div className="grid gap-6 md:grid-cols-2">
         <div className="space-y-6">
           <Card>
@@ -273,6 +491,8 @@ function DealDetailContent() {
             </CardContent>
           </Card>
 
+          <DealNegotiationPanel claimId={deal.id} party={negotiationParty} />
+
           <Card>
             <CardHeader>
               <CardTitle>Campaign Timeline</CardTitle>
@@ -285,11 +505,92 @@ function DealDetailContent() {
                 </div>
                 <div className="flex items-center gap-2">
                   <Clock className="h-4 w-4 text-muted-foreground" />
-                  <span>Due by {new Date(deal.deadline).toLocaleDateString()}</span>
+                  <span>
+                    {deal.deadline
+                      ? `Due by ${new Date(deal.deadline).toLocaleDateString()}`
+                      : `Due ${deal.timeframe} days after acceptance`}
+                  </span>
                 </div>
+                {timeline && timeline.events.length > 0 && (
+                  <div className="border-l-2 border-muted pl-4 space-y-3 mt-2">
+                    {timeline.events.map((event) => (
+                      <div key={event.id} className="relative">
+                        <CheckCircle2 className="h-4 w-4 text-primary absolute -left-[1.45rem] top-0.5 bg-background" />
+                        <div className="font-medium">{CLAIM_STATUS_LABELS[event.toStatus]}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {ACTOR_LABELS[event.actorType]} · {new Date(event.createdAt).toLocaleString()}
+                        </div>
+                        {event.reason && (
+                          <div className="text-sm mt-1">{event.reason}</div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
+
+          {monitoredPosts.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Post Monitoring</CardTitle>
+                <CardDescription>Posts are re-checked regularly while the campaign runs</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {monitoredPosts.map((post) => {
+                    const latest = post.snapshots[post.snapshots.length - 1];
+                    return (
+                      <div key={post.id} className="border rounded-lg p-4 space-y-2">
+                        <div className="flex justify-between items-start gap-2">
+                          <a
+                            href={post.postUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-medium truncate hover:underline"
+                          >
+                            {post.postUrl}
+                          </a>
+                          {latest && (
+                            <Badge variant={latest.status === "live" ? "secondary" : latest.status === "unreachable" ? "outline" : "destructive"}>
+                              {SNAPSHOT_LABELS[latest.status]}
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="text-sm text-muted-foreground flex items-center gap-2">
+                          <ShieldCheck className="h-4 w-4" />
+                          {post.lastVerified
+                            ? `Last checked ${new Date(post.lastVerified).toLocaleString()}`
+                            : "Not checked yet"}
+                        </div>
+                        {getRuleResults(post.verificationDetails).map((result) => (
+                          <div key={result.rule} className="text-sm flex items-start gap-2">
+                            {result.passed === true ? (
+                              <CheckCircle2 className="h-4 w-4 text-green-600 mt-0.5" />
+                            ) : result.passed === false ? (
+                              <AlertTriangle className="h-4 w-4 text-red-600 mt-0.5" />
+                            ) : (
+                              <Clock className="h-4 w-4 text-muted-foreground mt-0.5" />
+                            )}
+                            <span>
+                              <span className="font-medium">{result.label}:</span> {result.detail}
+                            </span>
+                          </div>
+                        ))}
+                        {post.snapshots.filter((snapshot) => snapshot.details).map((snapshot) => (
+                          <div key={snapshot.id} className="text-sm">
+                            <span className="text-muted-foreground">{new Date(snapshot.checkedAt).toLocaleDateString()}:</span>{" "}
+                            {snapshot.details}
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         <div className="space-y-6">
@@ -3,6 +3,11 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { insertInfluencerProfileSchema, insertPostSubmissionSchema } from "@shared/schema";
+import { ACTIVE_CLAIM_STATUSES, AWAITING_REVIEW_CLAIM_STATUSES, CLAIM_STATUS_LABELS, type ClaimStatus } from "@shared/claim-lifecycle";
+import type { OfferAvailability } from "@shared/offer-availability";
+import type { MetricGrowth, MetricHistory } from "@shared/metric-history";
+import type { CredibilitySignal } from "@shared/audience-authenticity";
+import type { AudienceData } from "@shared/audience-demographics";
 import { Button } from "@/components/ui/button";
 import { MetricInfo } from "@/components/ui/metric-info";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
@@ -14,9 +19,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Loader2, Inbox, Trophy, Link as LinkIcon, PlusCircle, Trash2, BarChart, Search, RefreshCw, Filter, Briefcase, TrendingUp, Users, ThumbsUp, Tag, BarChart3, CheckCircle, AlertCircle, DollarSign, MessageSquare } from "lucide-react";
-import { SearchFilters } from "@/components/marketplace/search-filters";
+import { Loader2, Inbox, Trophy, Link as LinkIcon, PlusCircle, Trash2, BarChart, Search, RefreshCw, Filter, Briefcase, TrendingUp, Users, ThumbsUp, Tag, BarChart3, CheckCircle, AlertCircle, DollarSign, MessageSquare, Mail } from "lucide-react";
+import { SearchFilters, DEFAULT_MARKETPLACE_FILTERS } from "@/components/marketplace/search-filters";
 import { ProfileCard } from "@/components/marketplace/profile-card";
+import { ApplyOfferDialog } from "@/components/marketplace/apply-offer-dialog";
+import { OfferAvailabilityInfo } from "@/components/marketplace/offer-availability";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "wouter";
@@ -26,10 +33,17 @@ import { useOnboarding } from "@/hooks/use-onboarding";
 import { OnboardingModal } from "@/components/onboarding-modal";
 import { SocialHandleInput } from "@/components/ui/social-handle-input";
 import { SocialPlatformManager, SocialPlatform } from "@/components/ui/social-platform-manager";
+import { PlatformVerification } from "@/components/ui/platform-verification";
+import { AudienceDemographicsCard } from "@/components/ui/audience-demographics-card";
 import { RateCalculator } from "@/components/ui/rate-calculator";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { MatchExplanationList } from "@/components/match-score-display";
+import type { MatchExplanation } from "@shared/matching-profile";
 import { MetricsDashboard } from "@/components/analytics/metrics-dashboard";
+import { EarningsOverview } from "@/components/analytics/earnings-overview";
 import { NavigationBar } from "@/components/ui/navigation-bar";
 import { SiInstagram, SiTiktok, SiYoutube } from "react-icons/si";
+import { PLATFORM_LIST, type PlatformId } from "@shared/platforms";
 import { Label } from "@/components/ui/label";
 import { MascotSettings } from "@/components/mascot-settings";
 
@@ -39,12 +53,14 @@ type InfluencerProfile = {
   followerCount: number;
   engagementRate: number;
   credibilityScore: number;
+  credibilitySignals?: CredibilitySignal[] | null;
   strikes: number;
   platform?: string;
   socialUrl: string;
   niche?: string;
   location?: string;
   bio?: string;
+  audienceData?: AudienceData | null;
 };
 
 type Offer = {
@@ -56,6 +72,19 @@ type Offer = {
   timeframe: number;
   category: string;
   tags: string[];
+  claimMode?: "instant" | "application";
+  maxAcceptedCreators?: number | null;
+  maxClaims?: number | null;
+  endsAt?: string | null;
+  applicationDeadline?: string | null;
+  availability?: OfferAvailability;
+  // Set when the business invited this creator directly
+  invitation?: {
+    id: number;
+    message: string | null;
+    createdAt: string;
+    expiresAt: string | null;
+  } | null;
   business?: {
     businessName: string;
     industry: string;
@@ -66,7 +95,7 @@ type Offer = {
 type OfferClaim = {
   id: number;
   offerId: number;
-  status: "pending" | "approved" | "completed" | "rejected";
+  status: ClaimStatus;
   createdAt: string;
 };
 
@@ -84,7 +113,7 @@ function ProfileCreationForm() {
   const { user } = useAuth();
   const [socialPlatforms, setSocialPlatforms] = useState<SocialPlatform[]>([{
     id: 'primary_platform',
-    platform: 'instagram' as 'instagram' | 'tiktok' | 'youtube',
+    platform: 'instagram' as PlatformId,
     handle: '',
     url: '',
     isVerified: false,
@@ -104,7 +133,7 @@ function ProfileCreationForm() {
       displayName: "",
       followerCount: 0,
       engagementRate: 0,
-      platform: 'instagram' as 'instagram' | 'tiktok' | 'youtube',
+      platform: 'instagram' as PlatformId,
       socialUrl: "",
       socialHandle: "",
       bio: "",
@@ -538,13 +567,12 @@ function ClaimCard({ claim }: { claim: OfferClaim & { offer: Offer | null } }) {
             variant={
               claim.status === "completed"
                 ? "default"
-                : claim.status === "approved"
+                : ACTIVE_CLAIM_STATUSES.includes(claim.status)
                 ? "secondary"
                 : "outline"
             }
-            className="capitalize"
           >
-            {claim.status}
+            {CLAIM_STATUS_LABELS[claim.status]}
           </Badge>
         </div>
         <CardDescription>
@@ -593,7 +621,7 @@ function ClaimCard({ claim }: { claim: OfferClaim & { offer: Offer | null } }) {
             </div>
           </div>
 
-          {claim.status === "approved" && (
+          {(ACTIVE_CLAIM_STATUSES.includes(claim.status) || claim.status === "submitted") && (
             <>
               <div className="border-t pt-4">
                 <h4 className="font-medium mb-2">Submit Posts</h4>
@@ -636,9 +664,9 @@ function ClaimCard({ claim }: { claim: OfferClaim & { offer: Offer | null } }) {
                                 </SelectTrigger>
                               </FormControl>
                               <SelectContent>
-                                <SelectItem value="instagram">Instagram</SelectItem>
-                                <SelectItem value="tiktok">TikTok</SelectItem>
-                                <SelectItem value="youtube">YouTube</SelectItem>
+                                {PLATFORM_LIST.map(platform => (
+                                  <SelectItem key={platform.id} value={platform.id}>{platform.label}</SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                             <FormMessage />
@@ -707,42 +735,39 @@ function ClaimCard({ claim }: { claim: OfferClaim & { offer: Offer | null } }) {
 // Component to display influencer metrics with clickable cards
 function InfluencerMetrics({ profile }: { profile: InfluencerProfile }) {
   const [location, navigate] = useLocation();
-  const { toast } = useToast();
   
   // Modal states for each metric
   const [showFollowersModal, setShowFollowersModal] = useState(false);
   const [showEngagementModal, setShowEngagementModal] = useState(false);
   const [showCredibilityModal, setShowCredibilityModal] = useState(false);
 
-  // Sample historical data (would come from API in production)
-  const followerHistory = [
-    { date: '2025-01-01', value: Math.round(profile.followerCount * 0.85) },
-    { date: '2025-01-15', value: Math.round(profile.followerCount * 0.90) },
-    { date: '2025-02-01', value: Math.round(profile.followerCount * 0.95) },
-    { date: '2025-02-15', value: profile.followerCount },
-  ];
+  // Weekly readings over the last 90 days, fetched when a modal is opened
+  const { data: followerHistory } = useQuery<MetricHistory>({
+    queryKey: ['/api/metrics/followers/history?range=90d&granularity=week'],
+    enabled: showFollowersModal,
+  });
 
-  const engagementHistory = [
-    { date: '2025-01-01', value: parseFloat((profile.engagementRate * 0.9).toFixed(1)) },
-    { date: '2025-01-15', value: parseFloat((profile.engagementRate * 0.95).toFixed(1)) },
-    { date: '2025-02-01', value: parseFloat((profile.engagementRate * 1.05).toFixed(1)) },
-    { date: '2025-02-15', value: profile.engagementRate },
-  ];
+  const { data: engagementHistory } = useQuery<MetricHistory>({
+    queryKey: ['/api/metrics/engagement/history?range=90d&granularity=week'],
+    enabled: showEngagementModal,
+  });
 
-  const credibilityHistory = [
-    { date: '2025-01-01', value: 30, reason: 'Account created' },
-    { date: '2025-01-15', value: 40, reason: 'First campaign completed' },
-    { date: '2025-02-01', value: 45, reason: 'Consistent engagement' },
-    { date: '2025-02-15', value: profile.credibilityScore, reason: 'Regular posting' },
-  ];
+  const followerPoints = followerHistory?.points ?? [];
+  const engagementPoints = engagementHistory?.points ?? [];
+  const maxFollowers = Math.max(1, ...followerPoints.map(point => point.value));
+  const maxEngagement = Math.max(1, ...engagementPoints.map(point => point.value));
 
-  const goToMetricsDetail = () => {
-    // In the future, this could navigate to a detailed metrics page
-    // navigate("/metrics-detail");
-    toast({
-      title: "Coming Soon!",
-      description: "Detailed analytics will be available in the next update.",
-    });
+  const describeGrowth = (growth: MetricGrowth | null | undefined, unit: string) => {
+    if (!growth) return null;
+    const sign = growth.change >= 0 ? '+' : '';
+    const percent = growth.percentChange !== null ? ` (${sign}${growth.percentChange}%)` : '';
+    return `${sign}${growth.change.toLocaleString()}${unit}${percent} over the last ${growth.days} days`;
+  };
+
+  const credibilitySignals = profile.credibilitySignals ?? [];
+
+  const goToMetricsDetail = (metric: string) => {
+    navigate(`/metrics/${metric}`);
   };
   
   return (
@@ -821,12 +846,15 @@ function InfluencerMetrics({ profile }: { profile: InfluencerProfile }) {
                   {/* Placeholder for chart - in a real implementation, use Recharts or similar */}
                   <div className="flex flex-col h-full justify-end">
                     <div className="flex items-end justify-between h-[150px]">
-                      {followerHistory.map((item, i) => (
+                      {followerPoints.length === 0 && (
+                        <p className="text-sm text-gray-500 m-auto">No follower readings recorded yet.</p>
+                      )}
+                      {followerPoints.map((item, i) => (
                         <div key={i} className="flex flex-col items-center">
                           <div 
                             className="bg-orange-500 w-8 rounded-t-md" 
                             style={{ 
-                              height: `${(item.value / profile.followerCount) * 150}px`,
+                              height: `${(item.value / maxFollowers) * 150}px`,
                             }}
                           />
                           <p className="text-xs mt-1">{new Date(item.date).toLocaleDateString('en-US', {month: 'short', day: 'numeric'})}</p>
@@ -839,16 +867,18 @@ function InfluencerMetrics({ profile }: { profile: InfluencerProfile }) {
                 <div className="space-y-2">
                   <h4 className="font-medium text-sm">Growth Insights</h4>
                   <p className="text-sm text-gray-500">
-                    Your follower count has grown by approximately {Math.round(profile.followerCount * 0.15)} followers (15%) in the last 45 days. This is a healthy growth rate that indicates your content is resonating with your audience.
+                    {followerHistory?.growth
+                      ? `Your followers changed by ${describeGrowth(followerHistory.growth, '')}, about ${followerHistory.growth.dailyChange.toLocaleString()} a day.`
+                      : 'Growth will show here once your metrics have been refreshed a few times.'}
                   </p>
                   <p className="text-sm text-gray-500">
-                    Keep posting consistently to maintain and accelerate this growth trend.
+                    Keep posting consistently to maintain and accelerate your growth.
                   </p>
                 </div>
               </div>
             </div>
             <DialogFooter>
-              <Button onClick={() => goToMetricsDetail()}>
+              <Button onClick={() => goToMetricsDetail("followers")}>
                 View Detailed Analytics
               </Button>
             </DialogFooter>
@@ -871,12 +901,15 @@ function InfluencerMetrics({ profile }: { profile: InfluencerProfile }) {
                   {/* Placeholder for chart */}
                   <div className="flex flex-col h-full justify-end">
                     <div className="flex items-end justify-between h-[150px]">
-                      {engagementHistory.map((item, i) => (
+                      {engagementPoints.length === 0 && (
+                        <p className="text-sm text-gray-500 m-auto">No engagement readings recorded yet.</p>
+                      )}
+                      {engagementPoints.map((item, i) => (
                         <div key={i} className="flex flex-col items-center">
                           <div 
                             className="bg-orange-500 w-8 rounded-t-md" 
                             style={{ 
-                              height: `${(item.value / 5) * 150}px`,
+                              height: `${(item.value / maxEngagement) * 150}px`,
                             }}
                           />
                           <p className="text-xs mt-1">{new Date(item.date).toLocaleDateString('en-US', {month: 'short', day: 'numeric'})}</p>
@@ -889,8 +922,13 @@ function InfluencerMetrics({ profile }: { profile: InfluencerProfile }) {
                 <div className="space-y-2">
                   <h4 className="font-medium text-sm">Engagement Insights</h4>
                   <p className="text-sm text-gray-500">
-                    Your current engagement rate of {profile.engagementRate}% is above the industry average of 2.8% for your content category and follower count range.
+                    Your current engagement rate of {profile.engagementRate}% is {profile.engagementRate >= 2.8 ? 'above' : 'below'} the industry average of 2.8% for your content category and follower count range.
                   </p>
+                  {engagementHistory?.growth && (
+                    <p className="text-sm text-gray-500">
+                      Your engagement rate changed by {describeGrowth(engagementHistory.growth, ' points')}.
+                    </p>
+                  )}
                   <p className="text-sm text-gray-500">
                     High engagement rates indicate that your audience is genuinely connected with your content - this is highly valuable to brands!
                   </p>
@@ -898,7 +936,7 @@ function InfluencerMetrics({ profile }: { profile: InfluencerProfile }) {
               </div>
             </div>
             <DialogFooter>
-              <Button onClick={() => goToMetricsDetail()}>
+              <Button onClick={() => goToMetricsDetail("engagement")}>
                 View Detailed Analytics
               </Button>
             </DialogFooter>
@@ -912,56 +950,46 @@ function InfluencerMetrics({ profile }: { profile: InfluencerProfile }) {
             <DialogHeader>
               <DialogTitle>Credibility Score</DialogTitle>
               <DialogDescription>
-                How your credibility has developed over time.
+                How authentic your audience looks, based on your follower and engagement history.
               </DialogDescription>
             </DialogHeader>
             <div className="py-4">
               <div className="space-y-4">
-                <div className="h-[200px] w-full bg-slate-50 rounded-md p-4">
-                  {/* Placeholder for chart */}
-                  <div className="flex flex-col h-full justify-end">
-                    <div className="flex items-end justify-between h-[150px]">
-                      {credibilityHistory.map((item, i) => (
-                        <div key={i} className="flex flex-col items-center">
-                          <div 
-                            className="bg-orange-500 w-8 rounded-t-md" 
-                            style={{ 
-                              height: `${(item.value / 100) * 150}px`,
-                            }}
-                          />
-                          <p className="text-xs mt-1">{new Date(item.date).toLocaleDateString('en-US', {month: 'short', day: 'numeric'})}</p>
+                <div className="space-y-2">
+                  <h4 className="font-medium text-sm">What Affects Your Score</h4>
+                  {credibilitySignals.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      Your score will be calculated the next time your metrics are refreshed.
+                    </p>
+                  ) : (
+                    <div className="space-y-3">
+                      {credibilitySignals.map(signal => (
+                        <div key={signal.key} className="space-y-1">
+                          <div className="flex justify-between items-center text-sm">
+                            <span>{signal.label}</span>
+                            <span className="font-medium">{signal.score === null ? 'Not enough data' : `${signal.score}/100`}</span>
+                          </div>
+                          {signal.score !== null && <Progress value={signal.score} className="h-2" />}
+                          <p className="text-xs text-gray-500">{signal.detail}</p>
                         </div>
                       ))}
                     </div>
-                  </div>
-                </div>
-                
-                <div className="space-y-2">
-                  <h4 className="font-medium text-sm">Credibility Milestones</h4>
-                  <div className="space-y-2">
-                    {credibilityHistory.map((item, i) => (
-                      <div key={i} className="flex justify-between items-center text-sm">
-                        <span>{new Date(item.date).toLocaleDateString()}</span>
-                        <span className="text-gray-500">{item.reason}</span>
-                        <span className="font-medium">{item.value}/100</span>
-                      </div>
-                    ))}
-                  </div>
+                  )}
                 </div>
                 
                 <div className="space-y-2">
                   <h4 className="font-medium text-sm">How to Improve</h4>
                   <ul className="text-sm text-gray-500 space-y-1 list-disc pl-5">
-                    <li>Complete brand partnerships successfully</li>
-                    <li>Maintain consistent posting frequency</li>
-                    <li>Deliver content that exceeds brand expectations</li>
-                    <li>Grow your engagement rate over time</li>
+                    <li>Grow your audience organically rather than buying followers or likes</li>
+                    <li>Avoid engagement pods and follow-for-follow schemes</li>
+                    <li>Keep your audience engaged as it grows</li>
+                    <li>Encourage real conversation in your comments</li>
                   </ul>
                 </div>
               </div>
             </div>
             <DialogFooter>
-              <Button onClick={() => goToMetricsDetail()}>
+              <Button onClick={() => goToMetricsDetail("credibility")}>
                 View Detailed Analytics
               </Button>
             </DialogFooter>
@@ -984,6 +1012,7 @@ function DashboardContent({
 }) {
   const { toast } = useToast();
   const { logoutMutation } = useAuth();
+  const { influencerData } = useOnboarding();
   const [showPlatformModal, setShowPlatformModal] = useState(false);
   
   // Query to fetch user's social platforms
@@ -991,6 +1020,11 @@ function DashboardContent({
     queryKey: ['/api/social-platforms'],
     enabled: true,
   });
+
+  // Ledger-backed earnings summary used by the analytics overview
+  const { data: earnings } = useQuery<{ summary: { lifetime: number } }>({
+    queryKey: ['/api/influencer/earnings'],
+  });
   
   // Mutation to set a platform as primary
   const setPrimaryMutation = useMutation({
@@ -1060,7 +1094,7 @@ function DashboardContent({
   const formatPlatformsForUI = (platforms: any[]): SocialPlatform[] => {
     return platforms.map(p => ({
       id: p.id.toString(),
-      platform: p.platform as 'instagram' | 'tiktok' | 'youtube',
+      platform: p.platform as PlatformId,
       handle: p.handle,
       url: p.url,
       followers: p.followers,
@@ -1075,21 +1109,52 @@ function DashboardContent({
     setPrimaryMutation.mutate(parseInt(platform.id));
   };
   
+  // Offer currently open in the application dialog
+  const [applyingOffer, setApplyingOffer] = useState<Offer | null>(null);
+
   const claimOfferMutation = useMutation({
-    mutationFn: async (offerId: number) => {
-      const res = await apiRequest("POST", `/api/offers/${offerId}/claims`);
+    mutationFn: async ({ offerId, pitch }: { offerId: number; pitch?: string }) => {
+      const res = await apiRequest("POST", `/api/offers/${offerId}/claims`, pitch ? { pitch } : undefined);
       if (!res.ok) {
         const error = await res.json();
         throw new Error(error.message || "Failed to claim offer");
       }
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_, { pitch }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/offers/claims/influencer"] });
       queryClient.invalidateQueries({ queryKey: ["/api/offers"] });
+      setApplyingOffer(null);
       toast({
         title: "Success",
-        description: "Offer claimed successfully!",
+        description: pitch
+          ? "Application sent! The brand will review it shortly."
+          : "Offer claimed successfully!",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Accepting an invitation claims the offer without an application
+  const respondToInvitationMutation = useMutation({
+    mutationFn: async ({ invitationId, action }: { invitationId: number; action: "accept" | "decline" }) => {
+      const res = await apiRequest("POST", `/api/influencer/invitations/${invitationId}/${action}`);
+      return res.json();
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/offers/claims/influencer"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/offers"] });
+      toast({
+        title: action === "accept" ? "Invitation accepted" : "Invitation declined",
+        description: action === "accept"
+          ? "The offer is now in your active claims."
+          : "We've let the brand know.",
       });
     },
     onError: (error) => {
@@ -1100,6 +1165,15 @@ function DashboardContent({
       });
     },
   });
+
+  // Application-mode offers collect a pitch first; others are claimed right away
+  const handleClaimOffer = (offer: Offer) => {
+    if (offer.claimMode === "application") {
+      setApplyingOffer(offer);
+    } else {
+      claimOfferMutation.mutate({ offerId: offer.id });
+    }
+  };
   
   return (
     <div className="container mx-auto p-6">
@@ -1194,21 +1268,14 @@ function DashboardContent({
             metrics={{
               totalEngagements: claims?.length || 0,
               successfulEngagements: claims?.filter(claim => claim.status === 'completed').length || 0,
-              pendingEngagements: claims?.filter(claim => claim.status === 'pending' || claim.status === 'approved').length || 0,
-              totalIncentives: claims?.filter(claim => claim.status === 'completed')
-                .reduce((total, claim) => {
-                  // Extract reward value from reward string or use 0
-                  const rewardString = claim.offer?.reward || '';
-                  const rewardMatch = rewardString.match(/\$(\d+)/);
-                  const rewardAmount = rewardMatch ? parseInt(rewardMatch[1], 10) : 0;
-                  return total + rewardAmount;
-                }, 0) || 0,
+              pendingEngagements: claims?.filter(claim => ACTIVE_CLAIM_STATUSES.includes(claim.status) || AWAITING_REVIEW_CLAIM_STATUSES.includes(claim.status)).length || 0,
+              totalIncentives: (earnings?.summary.lifetime || 0) / 100, // ledger amounts are in cents
               avgEngagementRate: profile?.engagementRate || 0,
               audienceReach: profile?.followerCount || 0,
               engagementMilestones: {
                 completed: claims?.filter(claim => claim.status === 'completed').length || 0,
-                inProgress: claims?.filter(claim => claim.status === 'approved').length || 0,
-                upcoming: claims?.filter(claim => claim.status === 'pending').length || 0,
+                inProgress: claims?.filter(claim => ACTIVE_CLAIM_STATUSES.includes(claim.status)).length || 0,
+                upcoming: claims?.filter(claim => AWAITING_REVIEW_CLAIM_STATUSES.includes(claim.status)).length || 0,
               },
               topPerformingContent: [
                 'Instagram post about eco-friendly products received 3.2k likes',
@@ -1352,57 +1419,7 @@ function DashboardContent({
 
         {/* Earnings Tab */}
         <TabsContent value="earnings" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center">
-                <DollarSign className="mr-2 h-5 w-5" />
-                Your Earnings
-              </CardTitle>
-              <CardDescription>
-                Track your monetization and payment history
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="pt-4 flex flex-col items-center justify-center min-h-80">
-              <div className="text-center space-y-4 max-w-md">
-                <div className="rounded-full bg-primary/10 p-3 w-16 h-16 mx-auto flex items-center justify-center">
-                  <DollarSign className="h-8 w-8 text-primary/80" />
-                </div>
-                <h3 className="text-xl font-medium">No earnings yet</h3>
-                <p className="text-muted-foreground">
-                  Complete deals with brands to start earning. Your payment history and analytics will appear here.
-                </p>
-                
-                <div className="grid grid-cols-2 gap-4 mt-4">
-                  <div className="bg-primary/5 p-4 rounded-lg text-center">
-                    <h4 className="text-2xl font-semibold">$0</h4>
-                    <p className="text-sm text-muted-foreground">Total Earned</p>
-                  </div>
-                  <div className="bg-primary/5 p-4 rounded-lg text-center">
-                    <h4 className="text-2xl font-semibold">0</h4>
-                    <p className="text-sm text-muted-foreground">Completed Deals</p>
-                  </div>
-                </div>
-                
-                <div className="bg-muted/50 p-4 rounded-lg mt-4">
-                  <h4 className="font-medium mb-2 text-sm">🚀 Earning Potential</h4>
-                  <p className="text-sm text-muted-foreground mb-2">
-                    With your current metrics ({profile?.followerCount?.toLocaleString() || 0} followers, {profile?.engagementRate || 0}% engagement), you could earn approximately:
-                  </p>
-                  <div className="flex justify-between text-sm font-medium">
-                    <span>Per Post:</span>
-                    <span className="text-primary">${Math.round((profile?.followerCount || 0) * 0.02) || 0}</span>
-                  </div>
-                </div>
-                
-                <div className="flex justify-center mt-4">
-                  <Button variant="outline" onClick={() => setLocation("/influencer-dashboard")}>
-                    <Search className="mr-2 h-4 w-4" />
-                    Find Opportunities
-                  </Button>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+          <EarningsOverview />
         </TabsContent>
         
         <TabsContent value="available" className="space-y-4">
@@ -1419,18 +1436,7 @@ function DashboardContent({
                 <CardContent>
                   <SearchFilters 
                     userType="influencer"
-                    filters={{
-                      query: '',
-                      category: [],
-                      location: '',
-                      minEngagementRate: 0,
-                      maxEngagementRate: 20,
-                      minFollowers: 0,
-                      maxFollowers: 1000000,
-                      rewardType: undefined,
-                      sortBy: 'relevance',
-                      tags: [],
-                    }}
+                    filters={DEFAULT_MARKETPLACE_FILTERS}
                     onFilterChange={() => {}}
                     availableCategories={['All', 'Fashion', 'Beauty', 'Health', 'Tech', 'Food', 'Lifestyle', 'Travel', 'Fitness']}
                     availableTags={[
@@ -1550,7 +1556,36 @@ function DashboardContent({
                                       matchQuality === 'good' ? 'Good Match' : 
                                       matchQuality === 'fair' ? 'Fair Match' : 'Low Match'} ({matchScore}%)</span>
                                 </div>
+                                {(offer as any).matchExplanation && (
+                                  <HoverCard>
+                                    <HoverCardTrigger asChild>
+                                      <Button variant="link" size="sm" className="h-auto px-2 text-xs">
+                                        Why?
+                                      </Button>
+                                    </HoverCardTrigger>
+                                    <HoverCardContent className="w-72">
+                                      <MatchExplanationList explanation={(offer as any).matchExplanation as MatchExplanation} />
+                                    </HoverCardContent>
+                                  </HoverCard>
+                                )}
                               </div>
+
+                              {offer.invitation && (
+                                <div className="mb-2 rounded-md border border-primary/20 bg-primary/5 p-2 text-sm">
+                                  <div className="flex items-center font-medium text-primary">
+                                    <Mail className="h-4 w-4 mr-1" />
+                                    {offer.business?.businessName ?? "The business"} invited you
+                                  </div>
+                                  {offer.invitation.message && (
+                                    <p className="mt-1 text-gray-600 line-clamp-3">{offer.invitation.message}</p>
+                                  )}
+                                  {offer.invitation.expiresAt && (
+                                    <p className="mt-1 text-xs text-muted-foreground">
+                                      Expires {new Date(offer.invitation.expiresAt).toLocaleDateString()}
+                                    </p>
+                                  )}
+                                </div>
+                              )}
                               
                               <CardDescription>
                                 <div>
@@ -1617,17 +1652,46 @@ function DashboardContent({
                                     )}
                                   </div>
                                 )}
+
+                                <OfferAvailabilityInfo
+                                  availability={offer.availability}
+                                  maxClaims={offer.maxClaims}
+                                  endsAt={offer.endsAt}
+                                  applicationDeadline={offer.applicationDeadline}
+                                />
                                 
-                                <Button
-                                  className="w-full"
-                                  onClick={() => claimOfferMutation.mutate(offer.id)}
-                                  disabled={claimOfferMutation.isPending}
-                                >
-                                  {claimOfferMutation.isPending && (
-                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                  )}
-                                  Claim Offer
-                                </Button>
+                                {offer.invitation ? (
+                                  <div className="flex gap-2">
+                                    <Button
+                                      className="flex-1"
+                                      onClick={() => respondToInvitationMutation.mutate({ invitationId: offer.invitation!.id, action: "accept" })}
+                                      disabled={respondToInvitationMutation.isPending || offer.availability?.open === false}
+                                    >
+                                      {respondToInvitationMutation.isPending && (
+                                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                      )}
+                                      Accept Invitation
+                                    </Button>
+                                    <Button
+                                      variant="outline"
+                                      onClick={() => respondToInvitationMutation.mutate({ invitationId: offer.invitation!.id, action: "decline" })}
+                                      disabled={respondToInvitationMutation.isPending}
+                                    >
+                                      Decline
+                                    </Button>
+                                  </div>
+                                ) : (
+                                  <Button
+                                    className="w-full"
+                                    onClick={() => handleClaimOffer(offer)}
+                                    disabled={claimOfferMutation.isPending || offer.availability?.open === false}
+                                  >
+                                    {claimOfferMutation.isPending && (
+                                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    )}
+                                    {offer.claimMode === "application" ? "Apply" : "Claim Offer"}
+                                  </Button>
+                                )}
                               </div>
                             </CardContent>
                           </Card>
@@ -1705,15 +1769,21 @@ function DashboardContent({
                                   </span>
                                 </div>
                               </div>
+                              <OfferAvailabilityInfo
+                                availability={offer.availability}
+                                maxClaims={offer.maxClaims}
+                                endsAt={offer.endsAt}
+                                applicationDeadline={offer.applicationDeadline}
+                              />
                               <Button
                                 className="w-full"
-                                onClick={() => claimOfferMutation.mutate(offer.id)}
-                                disabled={claimOfferMutation.isPending}
+                                onClick={() => handleClaimOffer(offer)}
+                                disabled={claimOfferMutation.isPending || offer.availability?.open === false}
                               >
                                 {claimOfferMutation.isPending && (
                                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                                 )}
-                                Claim Offer
+                                {offer.claimMode === "application" ? "Apply" : "Claim Offer"}
                               </Button>
                             </div>
                           </CardContent>
@@ -1796,6 +1866,24 @@ function DashboardContent({
               )}
             </CardContent>
           </Card>
+
+          {/* Account ownership: OAuth linking or a code in the bio */}
+          {socialPlatforms.length > 0 && (
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Verify Your Accounts</CardTitle>
+                <CardDescription>
+                  Verified accounts show a badge to businesses and keep your metrics up to date.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PlatformVerification platforms={socialPlatforms} onChanged={refetchPlatforms} />
+              </CardContent>
+            </Card>
+          )}
+          
+          {/* Audience demographics, matched against the audience offers target */}
+          <AudienceDemographicsCard audienceData={profile.audienceData} fallback={influencerData?.audience} className="mt-6" />
           
           {/* Rate Calculator */}
           {socialPlatforms.length > 0 && (
@@ -1806,6 +1894,15 @@ function DashboardContent({
             />
           )}
           
+          {/* Application pitch for offers that require business approval */}
+          <ApplyOfferDialog
+            open={!!applyingOffer}
+            onOpenChange={(open) => !open && setApplyingOffer(null)}
+            offerTitle={applyingOffer?.title || ""}
+            isPending={claimOfferMutation.isPending}
+            onSubmit={(pitch) => applyingOffer && claimOfferMutation.mutate({ offerId: applyingOffer.id, pitch })}
+          />
+
           {/* Platform add/edit modal */}
           <Dialog open={showPlatformModal} onOpenChange={setShowPlatformModal}>
             <DialogContent className="sm:max-w-[425px]">
@@ -1823,9 +1920,9 @@ function DashboardContent({
                       <SelectValue placeholder="Select platform" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="instagram">Instagram</SelectItem>
-                      <SelectItem value="tiktok">TikTok</SelectItem>
-                      <SelectItem value="youtube">YouTube</SelectItem>
+                      {PLATFORM_LIST.map(platform => (
+                        <SelectItem key={platform.id} value={platform.id}>{platform.label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -1875,8 +1972,7 @@ function DashboardContent({
                       const platformData = {
                         platform: platformType,
                         handle,
-                        url,
-                        isVerified: false,
+                        profileUrl: url,
                         isPrimary: socialPlatforms.length === 0
                       };
                       
@@ -1,8 +1,9 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useLocation, Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ArrowLeft, TrendingUp, AlertTriangle, Star, Activity, Users, BarChart3 } from "lucide-react";
+import { ArrowLeft, TrendingUp, AlertTriangle, Star, Activity, Users, BarChart3, UserPlus } from "lucide-react";
 import {
   LineChart,
   Line,
@@ -12,23 +13,39 @@ import {
   Tooltip,
   ResponsiveContainer,
 } from "recharts";
+import { HISTORY_METRICS, HistoryRange, MetricHistory } from "@shared/metric-history";
 
-interface MetricHistoryEntry {
-  date: string;
-  value: number;
-  reason?: string;
-}
+const RANGE_OPTIONS: { value: HistoryRange; label: string }[] = [
+  { value: "7d", label: "7 days" },
+  { value: "30d", label: "30 days" },
+  { value: "90d", label: "90 days" },
+  { value: "1y", label: "1 year" },
+  { value: "all", label: "All time" },
+];
 
 export default function MetricsDetail() {
   const [location] = useLocation();
-  const metricType = location.split("/").pop(); // e.g., "credibility" or "strikes"
+  const metricType = location.split("/").pop(); // e.g., "followers" or "engagement"
+  const [range, setRange] = useState<HistoryRange>("30d");
 
-  const { data: metricHistory } = useQuery<MetricHistoryEntry[]>({
-    queryKey: [`/api/metrics/${metricType}/history`],
+  // Only follower and engagement history is recorded so far
+  const hasHistory = HISTORY_METRICS.some(metric => metric === metricType);
+  const granularity = range === "1y" || range === "all" ? "week" : "day";
+
+  const { data: metricHistory, isLoading } = useQuery<MetricHistory>({
+    queryKey: [`/api/metrics/${metricType}/history?range=${range}&granularity=${granularity}`],
+    enabled: hasHistory,
   });
 
   const getMetricInfo = () => {
     switch (metricType) {
+      case "followers":
+        return {
+          title: "Follower History",
+          description: "Total followers across your connected accounts, recorded each time your metrics are refreshed.",
+          icon: UserPlus,
+          color: "text-green-500",
+        };
       case "credibility":
         return {
           title: "Credibility Score History",
@@ -77,12 +94,10 @@ export default function MetricsDetail() {
   const info = getMetricInfo();
   const Icon = info.icon;
 
-  // Generate mock data if no real data is available yet
-  const mockData = !metricHistory ? Array.from({ length: 10 }, (_, i) => ({
-    date: new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString(),
-    value: Math.floor(Math.random() * (metricType === 'strikes' ? 3 : 100)),
-    reason: `Sample ${info.title} update ${i + 1}`,
-  })).reverse() : metricHistory;
+  const points = metricHistory?.points ?? [];
+  const growth = metricHistory?.growth ?? null;
+  const unit = metricType === "engagement" ? "%" : "";
+  const formatValue = (value: number) => `${value.toLocaleString()}${unit}`;
 
   return (
     <div className="container mx-auto p-6">
@@ -100,57 +115,115 @@ export default function MetricsDetail() {
         <p className="text-muted-foreground mt-2">{info.description}</p>
       </div>
 
+      {hasHistory && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {RANGE_OPTIONS.map(option => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={range === option.value ? "default" : "outline"}
+              onClick={() => setRange(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {growth && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-sm text-muted-foreground">Current</div>
+              <div className="text-2xl font-bold">{formatValue(growth.endValue)}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-sm text-muted-foreground">Change over {growth.days} days</div>
+              <div className={`text-2xl font-bold ${growth.change < 0 ? "text-red-500" : "text-green-600"}`}>
+                {growth.change > 0 ? "+" : ""}{formatValue(growth.change)}
+                {growth.percentChange !== null && (
+                  <span className="text-sm font-normal ml-2">
+                    ({growth.percentChange > 0 ? "+" : ""}{growth.percentChange}%)
+                  </span>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-sm text-muted-foreground">Average per day</div>
+              <div className="text-2xl font-bold">
+                {growth.dailyChange > 0 ? "+" : ""}{formatValue(growth.dailyChange)}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Trend Analysis</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="h-[400px]">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={mockData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis
-                  dataKey="date"
-                  tickFormatter={(date) => new Date(date).toLocaleDateString()}
-                />
-                <YAxis />
-                <Tooltip
-                  labelFormatter={(date) => new Date(date).toLocaleDateString()}
-                  formatter={(value) => [value, info.title.split(" ")[0]]}
-                />
-                <Line
-                  type="monotone"
-                  dataKey="value"
-                  stroke="hsl(var(--primary))"
-                  strokeWidth={2}
-                  dot={{ fill: "hsl(var(--primary))" }}
-                />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
+          {points.length === 0 ? (
+            <div className="h-[200px] flex items-center justify-center text-center text-muted-foreground">
+              {isLoading
+                ? "Loading history..."
+                : hasHistory
+                  ? "No history recorded for this period yet. Readings are taken each time your metrics refresh."
+                  : "History for this metric is not available yet."}
+            </div>
+          ) : (
+            <div className="h-[400px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={points}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="date"
+                    tickFormatter={(date) => new Date(date).toLocaleDateString()}
+                  />
+                  <YAxis />
+                  <Tooltip
+                    labelFormatter={(date) => new Date(date).toLocaleDateString()}
+                    formatter={(value: number) => [formatValue(value), info.title.split(" ")[0]]}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="value"
+                    stroke="hsl(var(--primary))"
+                    strokeWidth={2}
+                    dot={{ fill: "hsl(var(--primary))" }}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
         </CardContent>
       </Card>
 
-      <div className="mt-6">
-        <h2 className="text-xl font-semibold mb-4">History Log</h2>
-        <div className="space-y-4">
-          {mockData.map((entry, index) => (
-            <Card key={index}>
-              <CardContent className="pt-6">
-                <div className="flex justify-between items-start">
-                  <div>
-                    <div className="text-sm text-muted-foreground">
-                      {new Date(entry.date).toLocaleDateString()}
+      {points.length > 0 && (
+        <div className="mt-6">
+          <h2 className="text-xl font-semibold mb-4">History Log</h2>
+          <div className="space-y-4">
+            {[...points].reverse().map((entry, index) => (
+              <Card key={index}>
+                <CardContent className="pt-6">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <div className="text-sm text-muted-foreground">
+                        {new Date(entry.date).toLocaleDateString()}
+                      </div>
                     </div>
-                    <div className="font-medium">{entry.reason}</div>
+                    <div className="text-xl font-bold">{formatValue(entry.value)}</div>
                   </div>
-                  <div className="text-xl font-bold">{entry.value}</div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
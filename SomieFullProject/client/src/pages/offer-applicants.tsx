@@ -0,0 +1,273 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useParams, Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, Check, Loader2, Sparkles, Users, X } from "lucide-react";
+import { useState } from "react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CLAIM_STATUS_LABELS, type ClaimStatus } from "@shared/claim-lifecycle";
+import { MATCH_FACTORS, MATCH_FACTOR_LABELS, type MatchExplanation, type MatchFactor } from "@shared/matching-profile";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { MatchExplanationList } from "@/components/match-score-display";
+import { SimilarCreatorsDialog } from "@/components/similar-creators-dialog";
+
+interface Applicant {
+  claim: {
+    id: number;
+    status: ClaimStatus;
+    pitch: string | null;
+    createdAt: string;
+  };
+  influencer: {
+    id: number;
+    displayName: string;
+    followerCount: number;
+    engagementRate: number;
+    platform: string | null;
+    niche: string | null;
+    location: string | null;
+  };
+  match: {
+    score: number;
+    matchFactors: Record<MatchFactor, number>;
+    explanation: MatchExplanation;
+  };
+}
+
+interface ApplicantReview {
+  offerId: number;
+  claimMode: string;
+  maxAcceptedCreators: number | null;
+  acceptedCount: number;
+  remainingSlots: number | null;
+  applicants: Applicant[];
+}
+
+type Decision = { applicant: Applicant; action: "accept" | "reject" };
+
+export default function OfferApplicants() {
+  const { id } = useParams();
+  const { toast } = useToast();
+  const [decision, setDecision] = useState<Decision | null>(null);
+  const [reason, setReason] = useState("");
+  const [similarTo, setSimilarTo] = useState<Applicant["influencer"] | null>(null);
+
+  const { data: review, isLoading } = useQuery<ApplicantReview>({
+    queryKey: [`/api/business/offers/${id}/applicants`],
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({ applicant, action }: Decision) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/business/offers/${id}/applicants/${applicant.claim.id}/${action}`,
+        reason.trim() ? { reason: reason.trim() } : {}
+      );
+      return res.json();
+    },
+    onSuccess: (_, { applicant, action }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/business/offers/${id}/applicants`] });
+      toast({
+        title: action === "accept" ? "Creator accepted" : "Application rejected",
+        description: `${applicant.influencer.displayName} has been notified.`,
+      });
+      setDecision(null);
+      setReason("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!review) return null;
+
+  const pending = review.applicants.filter((a) => a.claim.status === "applied");
+  const decided = review.applicants.filter((a) => a.claim.status !== "applied");
+  const slotsFull = review.remainingSlots === 0;
+
+  const renderApplicant = (applicant: Applicant) => (
+    <Card key={applicant.claim.id} className="flex flex-col">
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="text-lg">{applicant.influencer.displayName}</CardTitle>
+            <CardDescription>
+              {applicant.influencer.followerCount.toLocaleString()} followers · {applicant.influencer.engagementRate}% engagement
+              {applicant.influencer.platform ? ` · ${applicant.influencer.platform}` : ""}
+            </CardDescription>
+          </div>
+          <div className="text-right">
+            <div className={`text-2xl font-bold ${applicant.match.score >= 80 ? "text-green-600" : applicant.match.score >= 60 ? "text-amber-600" : "text-muted-foreground"}`}>
+              {applicant.match.score}%
+            </div>
+            <div className="text-xs text-muted-foreground">match</div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="flex-1 space-y-4">
+        <div className="space-y-2">
+          {MATCH_FACTORS.map((factor) => (
+            <div key={factor}>
+              <div className="flex justify-between text-xs mb-1">
+                <span>{MATCH_FACTOR_LABELS[factor]}</span>
+                <span>{applicant.match.matchFactors[factor]}%</span>
+              </div>
+              <Progress value={applicant.match.matchFactors[factor]} className="h-1.5" />
+            </div>
+          ))}
+          <HoverCard>
+            <HoverCardTrigger asChild>
+              <Button variant="link" size="sm" className="h-auto px-0 text-xs">
+                Why this score?
+              </Button>
+            </HoverCardTrigger>
+            <HoverCardContent className="w-80">
+              <MatchExplanationList explanation={applicant.match.explanation} />
+            </HoverCardContent>
+          </HoverCard>
+        </div>
+        {applicant.claim.pitch && (
+          <div className="bg-muted p-3 rounded text-sm whitespace-pre-line">
+            {applicant.claim.pitch}
+          </div>
+        )}
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>Applied {new Date(applicant.claim.createdAt).toLocaleDateString()}</span>
+          <Button variant="link" size="sm" className="h-auto px-0 text-xs" onClick={() => setSimilarTo(applicant.influencer)}>
+            <Sparkles className="mr-1 h-3 w-3" />
+            Similar creators
+          </Button>
+        </div>
+      </CardContent>
+      <CardFooter className="flex gap-2">
+        {applicant.claim.status === "applied" ? (
+          <>
+            <Button
+              className="flex-1"
+              disabled={slotsFull}
+              onClick={() => setDecision({ applicant, action: "accept" })}
+            >
+              <Check className="mr-2 h-4 w-4" />
+              Accept
+            </Button>
+            <Button
+              className="flex-1"
+              variant="outline"
+              onClick={() => setDecision({ applicant, action: "reject" })}
+            >
+              <X className="mr-2 h-4 w-4" />
+              Reject
+            </Button>
+          </>
+        ) : (
+          <Badge variant={applicant.claim.status === "rejected" ? "destructive" : "secondary"}>
+            {CLAIM_STATUS_LABELS[applicant.claim.status]}
+          </Badge>
+        )}
+      </CardFooter>
+    </Card>
+  );
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="mb-6">
+        <Link href="/business-dashboard">
+          <Button variant="ghost" className="mb-4">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </Link>
+        <div className="flex justify-between items-start">
+          <h1 className="text-3xl font-bold">Applicants</h1>
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Users className="h-4 w-4" />
+            <span>
+              {review.acceptedCount} accepted
+              {review.maxAcceptedCreators ? ` of ${review.maxAcceptedCreators}` : ""}
+            </span>
+          </div>
+        </div>
+        {slotsFull && (
+          <p className="text-sm text-amber-600 mt-2">
+            All creator slots are filled. Remaining applications can only be rejected.
+          </p>
+        )}
+      </div>
+
+      <h2 className="text-xl font-semibold mb-4">Awaiting review ({pending.length})</h2>
+      {pending.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-8">
+          {pending.map(renderApplicant)}
+        </div>
+      ) : (
+        <p className="text-muted-foreground mb-8">No applications waiting for review.</p>
+      )}
+
+      {decided.length > 0 && (
+        <>
+          <h2 className="text-xl font-semibold mb-4">Reviewed</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {decided.map(renderApplicant)}
+          </div>
+        </>
+      )}
+
+      <SimilarCreatorsDialog creator={similarTo} onClose={() => setSimilarTo(null)} />
+
+      <Dialog open={!!decision} onOpenChange={(open) => { if (!open) { setDecision(null); setReason(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {decision?.action === "accept" ? "Accept" : "Reject"} {decision?.applicant.influencer.displayName}
+            </DialogTitle>
+            <DialogDescription>
+              {decision?.action === "accept"
+                ? "The creator can start working on the deal right away. Add an optional note."
+                : "Let the creator know why their application wasn't a fit."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reason">{decision?.action === "accept" ? "Note" : "Reason"}</Label>
+            <Textarea
+              id="reason"
+              value={reason}
+              maxLength={1000}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDecision(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={decision?.action === "reject" ? "destructive" : "default"}
+              disabled={decisionMutation.isPending || (decision?.action === "reject" && !reason.trim())}
+              onClick={() => decision && decisionMutation.mutate(decision)}
+            >
+              {decisionMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {decision?.action === "accept" ? "Accept Creator" : "Reject Application"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -10,6 +10,10 @@ import { Textarea } from "@/components/ui/textarea";
 import { useState } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { ApplyOfferDialog } from "@/components/marketplace/apply-offer-dialog";
+import { OfferAvailabilityInfo } from "@/components/marketplace/offer-availability";
+import type { OfferAvailability } from "@shared/offer-availability";
+import { hasVerificationRequirements, type VerificationRequirements } from "@shared/verification-requirements";
 
 interface Offer {
   id: number;
@@ -23,6 +27,14 @@ interface Offer {
   category: string;
   tags: string[];
   status: string;
+  claimMode: "instant" | "application";
+  maxAcceptedCreators: number | null;
+  maxClaims: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  applicationDeadline: string | null;
+  verificationRequirements: VerificationRequirements | null;
+  availability: OfferAvailability;
   business: {
     id: number;
     businessName: string;
@@ -41,24 +53,27 @@ export default function OfferDetail() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [message, setMessage] = useState("");
+  const [applyOpen, setApplyOpen] = useState(false);
 
   const { data: offer, isLoading } = useQuery<Offer>({
     queryKey: [`/api/offers/${id}`],
   });
 
   const claimOfferMutation = useMutation({
-    mutationFn: async () => {
-      const res = await apiRequest("POST", `/api/offers/${id}/claims`);
+    mutationFn: async (pitch?: string) => {
+      const res = await apiRequest("POST", `/api/offers/${id}/claims`, pitch ? { pitch } : undefined);
       if (!res.ok) {
         const error = await res.json();
         throw new Error(error.message || "Failed to claim offer");
       }
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_, pitch) => {
       toast({
         title: "Success",
-        description: "Offer claimed successfully!",
+        description: pitch
+          ? "Application sent! The brand will review it shortly."
+          : "Offer claimed successfully!",
       });
       setLocation("/");
     },
@@ -95,6 +110,13 @@ export default function OfferDetail() {
           <MapPin className="h-4 w-4" />
           <span>{offer.business.location}</span>
         </div>
+        <OfferAvailabilityInfo
+          className="mt-3"
+          availability={offer.availability}
+          maxClaims={offer.maxClaims}
+          endsAt={offer.endsAt}
+          applicationDeadline={offer.applicationDeadline}
+        />
       </div>
 
       <div className="grid gap-6 md:grid-cols-2">
@@ -130,6 +152,32 @@ export default function OfferDetail() {
                     <h3 className="font-medium">Timeframe</h3>
                     <p className="text-muted-foreground">{offer.timeframe} days</p>
                   </div>
+                  {offer.startsAt && (
+                    <div>
+                      <h3 className="font-medium">Starts</h3>
+                      <p className="text-muted-foreground">{new Date(offer.startsAt).toLocaleDateString()}</p>
+                    </div>
+                  )}
+                  {offer.endsAt && (
+                    <div>
+                      <h3 className="font-medium">Ends</h3>
+                      <p className="text-muted-foreground">{new Date(offer.endsAt).toLocaleDateString()}</p>
+                    </div>
+                  )}
+                  {offer.applicationDeadline && (
+                    <div>
+                      <h3 className="font-medium">Join By</h3>
+                      <p className="text-muted-foreground">{new Date(offer.applicationDeadline).toLocaleDateString()}</p>
+                    </div>
+                  )}
+                  {offer.maxClaims && (
+                    <div>
+                      <h3 className="font-medium">Creator Slots</h3>
+                      <p className="text-muted-foreground">
+                        {offer.availability.remainingSlots} of {offer.maxClaims} left
+                      </p>
+                    </div>
+                  )}
                 </div>
 
                 <div className="flex flex-wrap gap-2 mt-2">
@@ -140,6 +188,35 @@ export default function OfferDetail() {
                     </Badge>
                   ))}
                 </div>
+
+                {offer.verificationRequirements && hasVerificationRequirements(offer.verificationRequirements) && (
+                  <div className="border rounded-md p-4 space-y-2">
+                    <h3 className="font-medium">Post Requirements</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Your post is checked for these automatically when you submit it
+                    </p>
+                    <ul className="text-sm space-y-1">
+                      {offer.verificationRequirements.hashtags.length > 0 && (
+                        <li>Hashtags: {offer.verificationRequirements.hashtags.join(", ")}</li>
+                      )}
+                      {offer.verificationRequirements.mentions.length > 0 && (
+                        <li>Mention: {offer.verificationRequirements.mentions.join(", ")}</li>
+                      )}
+                      {offer.verificationRequirements.disclosureTags.length > 0 && (
+                        <li>Disclose the partnership with one of: {offer.verificationRequirements.disclosureTags.join(", ")}</li>
+                      )}
+                      {offer.verificationRequirements.brandName && (
+                        <li>Name {offer.verificationRequirements.brandName} in the caption</li>
+                      )}
+                      {offer.verificationRequirements.linkInBio && (
+                        <li>Link to {offer.verificationRequirements.linkInBio} in your bio</li>
+                      )}
+                      {offer.verificationRequirements.minVideoSeconds && (
+                        <li>Video at least {offer.verificationRequirements.minVideoSeconds} seconds long</li>
+                      )}
+                    </ul>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -227,14 +304,31 @@ export default function OfferDetail() {
 
           <Button
             className="w-full"
-            onClick={() => claimOfferMutation.mutate()}
-            disabled={claimOfferMutation.isPending}
+            onClick={() => offer.claimMode === "application" ? setApplyOpen(true) : claimOfferMutation.mutate(undefined)}
+            disabled={claimOfferMutation.isPending || !offer.availability.open}
           >
             {claimOfferMutation.isPending && (
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
             )}
-            Claim This Offer
+            {offer.claimMode === "application" ? "Apply to This Offer" : "Claim This Offer"}
           </Button>
+          {!offer.availability.open && (
+            <p className="text-sm text-muted-foreground text-center">{offer.availability.message}</p>
+          )}
+          {offer.availability.open && offer.claimMode === "application" && (
+            <p className="text-sm text-muted-foreground text-center">
+              The brand reviews applications
+              {offer.maxAcceptedCreators ? ` and is accepting up to ${offer.maxAcceptedCreators} creators` : ""}.
+            </p>
+          )}
+
+          <ApplyOfferDialog
+            open={applyOpen}
+            onOpenChange={setApplyOpen}
+            offerTitle={offer.title}
+            isPending={claimOfferMutation.isPending}
+            onSubmit={(pitch) => claimOfferMutation.mutate(pitch)}
+          />
         </div>
       </div>
     </div>
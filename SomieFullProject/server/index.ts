@@ -1,6 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { settingsService } from "./services/settings";
+import { claimLifecycleService } from "./services/claim-lifecycle";
+import { jobQueueService } from "./services/job-queue";
+import { registerJobs } from "./jobs";
 import path from "path";
 
 const app = express();
@@ -76,6 +80,10 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Make sure configurable settings exist so admins can edit them
+  await settingsService.ensureDefaults();
+  await claimLifecycleService.migrateLegacyStatuses();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -101,4 +109,8 @@ app.use((req, res, next) => {
   server.listen(PORT, "0.0.0.0", () => {
     log(`serving on port ${PORT}`);
   });
+
+  // Background jobs: post verification, escrow expiry, offer scheduling and metrics refresh
+  registerJobs();
+  await jobQueueService.start();
 })();
@@ -0,0 +1,126 @@
+/**
+ * Background job types and recurring schedules
+ *
+ * Every job handler the server runs is registered here so the admin jobs page
+ * and the worker agree on the full list of job types.
+ */
+import { jobQueueService } from "./services/job-queue";
+import { escrowService } from "./services/escrow";
+import { offerScheduleService } from "./services/offer-schedule";
+import { verificationService } from "./services/verification";
+import { metricsRefreshService } from "./services/metrics-refresh";
+import { platformLinkingService } from "./services/platform-linking";
+import { geolocationService } from "./services/geolocation";
+import { embeddingService } from "./services/embeddings";
+import { offerInvitationService } from "./services/offer-invitations";
+import { campaignService } from "./services/campaigns";
+import { storage } from "./storage";
+
+export const JOB_TYPES = {
+  verifyPost: 'verification.verify_post',
+  recheckPosts: 'verification.recheck_posts',
+  recheckPost: 'verification.recheck_post',
+  expireClaims: 'escrow.expire_claims',
+  settleClaims: 'escrow.settle_claims',
+  updateOfferStatuses: 'offers.update_statuses',
+  refreshAllMetrics: 'metrics.refresh_all',
+  refreshProfileMetrics: 'metrics.refresh_profile',
+  refreshPlatformTokens: 'platforms.refresh_tokens',
+  geocodeProfiles: 'geo.geocode_profiles',
+  refreshEmbeddings: 'embeddings.refresh',
+  expireInvitations: 'invitations.expire',
+  paceCampaigns: 'campaigns.pace',
+  cleanupJobs: 'jobs.cleanup',
+} as const;
+
+// Completed jobs are kept this long for the admin jobs page
+const COMPLETED_JOB_RETENTION_DAYS = 14;
+
+export function registerJobs() {
+  // Transient scrape failures are retried; the last attempt settles the post either way
+  jobQueueService.register(JOB_TYPES.verifyPost, async ({ submissionId }, job) => {
+    await verificationService.verifyPost(submissionId, job.attempts < job.maxAttempts);
+  });
+
+  // Posts stay monitored for their offer's timeframe; each check is its own job
+  jobQueueService.register(JOB_TYPES.recheckPosts, async () => {
+    const submissions = await verificationService.getSubmissionsDueForRecheck();
+    for (const submission of submissions) {
+      await jobQueueService.enqueue(JOB_TYPES.recheckPost, { submissionId: submission.id }, { maxAttempts: 3 });
+    }
+  });
+
+  jobQueueService.register(JOB_TYPES.recheckPost, async ({ submissionId }) => {
+    await verificationService.recheckPost(submissionId);
+  });
+
+  // Refund escrow holds for claims that ran past their offer timeframe
+  jobQueueService.register(JOB_TYPES.expireClaims, async () => {
+    await escrowService.expireOverdueClaims();
+  });
+
+  // Retry escrow settlements that failed when a claim finished
+  jobQueueService.register(JOB_TYPES.settleClaims, async () => {
+    await escrowService.settleFinishedClaims();
+  });
+
+  // Close, reopen and expire offers according to their schedule and slots
+  jobQueueService.register(JOB_TYPES.updateOfferStatuses, async () => {
+    await offerScheduleService.updateOfferStatuses();
+  });
+
+  // Fan out one job per profile so a failing account only retries itself
+  jobQueueService.register(JOB_TYPES.refreshAllMetrics, async () => {
+    const profileIds = await metricsRefreshService.getRefreshableProfileIds();
+    for (const profileId of profileIds) {
+      await jobQueueService.enqueue(JOB_TYPES.refreshProfileMetrics, { profileId }, { maxAttempts: 3 });
+    }
+  });
+
+  jobQueueService.register(JOB_TYPES.refreshProfileMetrics, async ({ profileId }) => {
+    await metricsRefreshService.refreshProfile(profileId);
+  });
+
+  // Renew OAuth tokens before they lapse, and drop link requests nobody finished
+  jobQueueService.register(JOB_TYPES.refreshPlatformTokens, async () => {
+    await platformLinkingService.refreshExpiringTokens();
+    await platformLinkingService.deleteExpiredLinkStates();
+  });
+
+  // Pick up profiles that were never geocoded; failed lookups are not retried
+  jobQueueService.register(JOB_TYPES.geocodeProfiles, async () => {
+    await geolocationService.geocodeMissing();
+  });
+
+  // Embed new profiles and offers, and pick up new post captions and provider changes
+  jobQueueService.register(JOB_TYPES.refreshEmbeddings, async () => {
+    await embeddingService.refreshStale();
+  });
+
+  jobQueueService.register(JOB_TYPES.expireInvitations, async () => {
+    await offerInvitationService.expireInvitations();
+  });
+
+  // Pause campaign offers nearing their budget cap and reopen them after refunds
+  jobQueueService.register(JOB_TYPES.paceCampaigns, async () => {
+    await campaignService.paceCampaigns();
+  });
+
+  jobQueueService.register(JOB_TYPES.cleanupJobs, async () => {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - COMPLETED_JOB_RETENTION_DAYS);
+    await storage.deleteCompletedJobsBefore(cutoff);
+  });
+
+  jobQueueService.schedule('expire-overdue-claims', '0 * * * *', JOB_TYPES.expireClaims);
+  jobQueueService.schedule('settle-finished-claims', '*/15 * * * *', JOB_TYPES.settleClaims);
+  jobQueueService.schedule('recheck-submitted-posts', '15 * * * *', JOB_TYPES.recheckPosts);
+  jobQueueService.schedule('update-offer-statuses', '*/5 * * * *', JOB_TYPES.updateOfferStatuses);
+  jobQueueService.schedule('refresh-influencer-metrics', '0 3 * * *', JOB_TYPES.refreshAllMetrics);
+  jobQueueService.schedule('refresh-platform-tokens', '45 * * * *', JOB_TYPES.refreshPlatformTokens);
+  jobQueueService.schedule('geocode-profiles', '20 * * * *', JOB_TYPES.geocodeProfiles);
+  jobQueueService.schedule('refresh-embeddings', '40 * * * *', JOB_TYPES.refreshEmbeddings);
+  jobQueueService.schedule('expire-offer-invitations', '10 * * * *', JOB_TYPES.expireInvitations);
+  jobQueueService.schedule('pace-campaigns', '*/5 * * * *', JOB_TYPES.paceCampaigns);
+  jobQueueService.schedule('cleanup-completed-jobs', '30 4 * * *', JOB_TYPES.cleanupJobs);
+}
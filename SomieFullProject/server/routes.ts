@@ -2,13 +2,29 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth, ensureAuthenticated, generateAuthToken, validateAuthToken, ensureAuthenticatedWithToken } from "./auth";
 import { storage } from "./storage";
+import { escrowService, EscrowError } from "./services/escrow";
+import { claimLifecycleService, ClaimTransitionError, SYSTEM_ACTOR } from "./services/claim-lifecycle";
+import { CLAIM_STATUSES, ACTIVE_CLAIM_STATUSES, ACCEPTED_CLAIM_STATUSES, AWAITING_REVIEW_CLAIM_STATUSES } from "@shared/claim-lifecycle";
+import { DEFAULT_CREDIBILITY_SCORE } from "@shared/audience-authenticity";
+import { PLATFORM_IDS, getProfileUrl } from "@shared/platforms";
+import { aggregatePlatformMetrics } from "@shared/platform-aggregate";
+import { matchWeightsOverrideSchema } from "@shared/matching-profile";
+import { audienceDataSchema, audienceRequirementsSchema } from "@shared/audience-demographics";
+import { applicationService } from "./services/applications";
+import { offerScheduleService } from "./services/offer-schedule";
+import { offerInvitationService } from "./services/offer-invitations";
+import { dealNegotiationService } from "./services/deal-negotiation";
+import { jobQueueService } from "./services/job-queue";
 import { verificationService } from "./services/verification";
+import { JOB_TYPES } from "./jobs";
 import { z } from "zod";
 import {
   insertBusinessProfileSchema,
   insertInfluencerProfileSchema,
   insertOfferSchema,
   insertPostSubmissionSchema,
+  insertSocialPlatformSchema,
+  updateSocialPlatformSchema,
   type OfferClaim,
   type BusinessProfile,
   type Offer,
@@ -16,12 +32,26 @@ import {
 } from "@shared/schema";
 import axios from "axios";
 import { testInstagramToken, socialMetricsService } from "./services/social-metrics";
+import { credibilityService } from "./services/credibility";
+import { platformLinkingService } from "./services/platform-linking";
+import { platformAggregationService } from "./services/platform-aggregation";
 import { geolocationService } from "./services/geolocation";
+import { embeddingService } from "./services/embeddings";
 import { rateCalculatorService } from "./services/rate-calculator";
 import { randomBytes } from "crypto";
 import { promisify } from "util";
 import { offerCreationService } from "./services/offer-creation";
 import { registerAdminRoutes } from "./routes/admin";
+import { registerEarningsRoutes } from "./routes/earnings";
+import { registerMetricsRoutes } from "./routes/metrics";
+import { registerPlatformLinkingRoutes } from "./routes/platform-linking";
+import { registerApplicationRoutes } from "./routes/applications";
+import { registerDiscoveryRoutes } from "./routes/discovery";
+import { registerMarketplaceRoutes } from "./routes/marketplace";
+import { registerCreatorCrmRoutes } from "./routes/creator-crm";
+import { registerOfferInvitationRoutes } from "./routes/offer-invitations";
+import { registerDealNegotiationRoutes } from "./routes/deal-negotiation";
+import { registerCampaignRoutes } from "./routes/campaigns";
 import path from "path";
 import { setupWebSocketServer } from "./websocket";
 import syncRoutes from "./routes/sync";
@@ -29,6 +59,10 @@ import { registerWebSocketRoute } from "./routes/websocket-route";
 
 const randomBytesAsync = promisify(randomBytes);
 
+// Businesses cannot complete a claim before every post in the deal terms is in
+const missingPostsMessage = (missing: number) =>
+  `${missing} more post${missing === 1 ? " is" : "s are"} due under the deal terms before this claim can be completed`;
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Serve projections files
   app.get('/revenue-projections', (req, res) => {
@@ -540,9 +574,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       console.log('Profile created successfully:', profile);
+
+      // Coordinates are only needed for matching, so a failed lookup doesn't fail the signup
+      let located = profile;
+      try {
+        located = await geolocationService.refreshBusinessCoordinates(profile);
+      } catch (geocodingError) {
+        console.error('Error geocoding business profile:', geocodingError);
+      }
       
       // Return the created profile
-      res.status(201).json(profile);
+      res.status(201).json(located);
     } catch (error) {
       console.error('Error creating profile:', error);
       res.status(500).json({ message: "Failed to create business profile", error: String(error) });
@@ -640,20 +682,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // If follower count or engagement rate is not provided (or is 0), try to fetch from social media
       if (!followerCount || !engagementRate || followerCount === 0 || engagementRate === 0) {
         // Try to get the URL from the appropriate platform field
-        let socialUrl = null;
-        if (result.data.platform === 'instagram' && result.data.instagramUrl) {
-          socialUrl = result.data.instagramUrl;
-        } else if (result.data.platform === 'tiktok' && result.data.tiktokUrl) {
-          socialUrl = result.data.tiktokUrl;
-        } else if (result.data.platform === 'youtube' && result.data.youtubeUrl) {
-          socialUrl = result.data.youtubeUrl;
-        }
+        const socialUrl = getProfileUrl(result.data);
         
         console.log('Fetching social media metrics for URL:', socialUrl);
         
         if (socialUrl) {
           try {
-            const metrics = await socialMetricsService.getMetricsFromUrl(socialUrl);
+            const metrics = await socialMetricsService.getMetricsFromUrl(socialUrl, {
+              source: 'connect',
+              influencerId: existingProfile?.id
+            });
             
             if (metrics) {
               console.log('Successfully fetched social media metrics:', metrics);
@@ -681,7 +719,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId: userId, // Use the resolved userId from above
         followerCount: followerCount || 0,
         engagementRate: engagementRate || 0,
-        credibilityScore: 50,
+        // Credibility is recomputed below, so keep the last assessment until then
+        credibilityScore: existingProfile?.credibilityScore ?? DEFAULT_CREDIBILITY_SCORE,
+        credibilitySignals: existingProfile?.credibilitySignals ?? null,
+        credibilityFlagged: existingProfile?.credibilityFlagged ?? false,
+        credibilityAssessedAt: existingProfile?.credibilityAssessedAt ?? null,
         strikes: 0,
         isTest: false,
       };
@@ -695,6 +737,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log('Created new influencer profile with metrics:', profile);
       }
 
+      try {
+        profile = await credibilityService.assessProfile(profile) ?? profile;
+      } catch (credibilityError) {
+        console.error('Error scoring influencer credibility:', credibilityError);
+      }
+
+      if (!profile.geocodedAt || profile.location !== existingProfile?.location) {
+        try {
+          profile = await geolocationService.refreshInfluencerCoordinates(profile);
+        } catch (geocodingError) {
+          console.error('Error geocoding influencer location:', geocodingError);
+        }
+      }
+
+      try {
+        await embeddingService.refreshInfluencer(profile);
+      } catch (embeddingError) {
+        console.error('Error embedding influencer profile:', embeddingError);
+      }
+
       res.status(201).json(profile);
     } catch (error) {
       console.error('Error managing influencer profile:', error);
@@ -758,7 +820,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`Found ${offers.length} offers for business ID ${businessProfile.id}`);
         
         return res.json({
-          offers,
+          offers: await offerScheduleService.withAvailability(offers),
           pagination: {
             total: String(totalOffers),
             page: "1",
@@ -782,17 +844,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const { matchingService } = await import('./services/matching');
         
         // Get offers with optimized ranking from storage
-        const offers = await storage.getMatchingOffers(influencerProfile);
-        console.log(`Found ${offers.length} matching offers with intelligent algorithm`);
+        const matchingOffers = await storage.getMatchingOffers(influencerProfile);
+        console.log(`Found ${matchingOffers.length} matching offers with intelligent algorithm`);
+
+        // Offers a business invited the creator to come first, even ones they don't match
+        const invitations = await storage.getPendingOfferInvitationsByInfluencerId(influencerProfile.id);
+        const invitationsByOffer = new Map(invitations.map(({ invitation, offer }) => [offer.id, invitation]));
+        const offers = [
+          ...invitations.map(({ offer }) => offer),
+          ...matchingOffers.filter(offer => !invitationsByOffer.has(offer.id))
+        ];
+
+        // Remaining slots and schedule state for the offer cards
+        const offersWithAvailability = await offerScheduleService.withAvailability(offers);
+        const matchingProfile = await matchingService.getProfile();
+        const similarities = await embeddingService.getOfferSimilarities(influencerProfile, offers.map(offer => offer.id));
 
         // Fetch business details for each offer and calculate match scores
         const offersWithBusinessAndScores = await Promise.all(
-          offers.map(async (offer) => {
+          offersWithAvailability.map(async (offer) => {
             try {
               const business = await storage.getBusinessProfileById(offer.businessId);
               
               // Calculate detailed match score for UI display
-              const matchScore = matchingService.calculateMatchScore(influencerProfile, offer);
+              const matchScore = matchingService.calculateMatchScore(influencerProfile, offer, matchingProfile, similarities.get(offer.id));
+              const invitation = invitationsByOffer.get(offer.id);
             
               return {
                 ...offer,
@@ -809,7 +885,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 } : null,
                 // Include match score details for the UI
                 matchScore: matchScore.score,
-                matchFactors: matchScore.matchFactors
+                matchFactors: matchScore.matchFactors,
+                matchExplanation: matchScore.explanation,
+                invitation: invitation ? {
+                  id: invitation.id,
+                  message: invitation.message,
+                  createdAt: invitation.createdAt,
+                  expiresAt: invitation.expiresAt
+                } : null
               };
             } catch (error) {
               console.error('Error fetching business details for offer:', offer.id, error);
@@ -830,6 +913,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Single offer with its business and remaining slots; numeric ids only so
+  // named routes such as /api/offers/template are not shadowed
+  app.get("/api/offers/:id(\\d+)", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const offer = await storage.getOfferById(parseInt(req.params.id));
+      if (!offer) return res.status(404).json({ message: "Offer not found" });
+
+      // Invite-only offers are hidden from creators who weren't invited
+      if (req.user.userType === 'influencer') {
+        const influencerProfile = await storage.getInfluencerProfileByUserId(req.user.id);
+        if (!influencerProfile || !(await offerInvitationService.canView(offer, influencerProfile.id))) {
+          return res.status(404).json({ message: "Offer not found" });
+        }
+      }
+
+      const business = await storage.getBusinessProfileById(offer.businessId);
+      const availability = await offerScheduleService.getAvailability(offer);
+
+      res.json({
+        ...offer,
+        business: business ? {
+          id: business.id,
+          businessName: business.businessName,
+          industry: business.industry,
+          location: business.location,
+          description: business.description,
+          website: business.website
+        } : null,
+        availability
+      });
+    } catch (error) {
+      console.error('Error fetching offer:', error);
+      res.status(500).json({ message: "Failed to fetch offer" });
+    }
+  });
+
+  // Influencers describe who follows them so offers can be matched on audience overlap
+  app.put("/api/influencer-profile/audience", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    const result = audienceDataSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: result.error.errors[0]?.message ?? "Invalid audience data" });
+    }
+
+    try {
+      const profile = await storage.getInfluencerProfileByUserId(req.user.id);
+      if (!profile) {
+        return res.status(404).json({ message: "Influencer profile not found" });
+      }
+
+      const updated = await storage.updateInfluencerAudienceData(profile.id, result.data);
+
+      // Audience interests are part of the profile's embedding
+      if (updated) {
+        try {
+          await embeddingService.refreshInfluencer(updated);
+        } catch (embeddingError) {
+          console.error('Error embedding influencer profile:', embeddingError);
+        }
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error('Error saving audience data:', error);
+      res.status(500).json({ message: "Failed to save audience data" });
+    }
+  });
+
   app.get("/api/influencer-profile/:id", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
@@ -877,7 +1027,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json(result.error);
     }
 
+    const { startsAt, endsAt, applicationDeadline } = result.data;
+    if (startsAt && endsAt && endsAt <= startsAt) {
+      return res.status(400).json({ message: "The end date must be after the start date" });
+    }
+    if (applicationDeadline && endsAt && applicationDeadline > endsAt) {
+      return res.status(400).json({ message: "The application deadline must be before the end date" });
+    }
+    if (result.data.radiusKm && businessProfile.businessType !== 'physical_location') {
+      return res.status(400).json({ message: "Radius targeting is only available for businesses with a physical location" });
+    }
+
     try {
+      const target = await geolocationService.locateOffer(businessProfile, result.data.location || null);
+      if (result.data.radiusKm && !target) {
+        return res.status(400).json({ message: "We couldn't find your business address on the map, so the offer can't be targeted by radius" });
+      }
+
       // Create a properly typed offer object with all required fields
       const offerData = {
         ...result.data,
@@ -888,12 +1054,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Default values for nullable fields
         location: result.data.location || null,
         rewardAmount: result.data.rewardAmount || null,
-        audienceRequirements: null,
-        optimizationData: null
+        audienceRequirements: result.data.audienceRequirements ?? null,
+        optimizationData: null,
+        claimMode: result.data.claimMode || "instant",
+        maxAcceptedCreators: result.data.maxAcceptedCreators ?? null,
+        maxClaims: result.data.maxClaims ?? null,
+        startsAt: startsAt ?? null,
+        endsAt: endsAt ?? null,
+        applicationDeadline: applicationDeadline ?? null,
+        verificationRequirements: result.data.verificationRequirements ?? null,
+        matchWeights: result.data.matchWeights ?? null,
+        latitude: target?.latitude ?? null,
+        longitude: target?.longitude ?? null,
+        radiusKm: result.data.radiusKm ?? null,
+        // Offers join a campaign from the campaign itself
+        campaignId: null
       };
       
       const offer = await storage.createOffer(offerData);
       console.log('Offer created successfully:', offer);
+
+      try {
+        await embeddingService.refreshOffer(offer);
+      } catch (embeddingError) {
+        console.error('Error embedding offer:', embeddingError);
+      }
+
       res.status(201).json(offer);
     } catch (error) {
       console.error('Error creating offer:', error);
@@ -960,13 +1146,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       console.log('Generating match preview for offer criteria:', req.body);
       
+      // Weight overrides are optional in a draft; malformed ones preview with the defaults
+      const parsedMatchWeights = matchWeightsOverrideSchema.safeParse(req.body.matchWeights ?? {});
+      const parsedAudience = audienceRequirementsSchema.safeParse(req.body.audienceRequirements ?? {});
+
+      // Preview against the same point the offer would be targeted at once saved
+      const businessProfile = await storage.getBusinessProfileByUserId(req.user.id);
+      const target = businessProfile
+        ? await geolocationService.locateOffer(businessProfile, req.body.location || null)
+        : null;
+      const radiusKm = Number(req.body.radiusKm);
+      
       const matchPreview = await offerCreationService.generateMatchPreview({
         minFollowers: req.body.minFollowers,
         minEngagement: req.body.minEngagement,
         category: req.body.category,
         contentType: req.body.contentType,
         location: req.body.location,
-        tags: req.body.tags
+        tags: req.body.tags,
+        matchWeights: parsedMatchWeights.success ? parsedMatchWeights.data : null,
+        audienceRequirements: parsedAudience.success ? parsedAudience.data : null,
+        target,
+        radiusKm: businessProfile?.businessType === 'physical_location' && radiusKm > 0 ? radiusKm : null
       });
       
       console.log('Generated match preview with potential matches:', matchPreview.potentialMatches);
@@ -983,13 +1184,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const category = req.query.category as string || 'general';
       const contentType = req.query.contentType as string || 'image';
       const platform = req.query.platform as string || 'instagram';
+      const location = req.query.location as string || null;
       
-      console.log('Generating content brief suggestions:', { category, contentType, platform });
+      console.log('Generating content brief suggestions:', { category, contentType, platform, location });
       
-      const contentBrief = offerCreationService.generateContentBriefSuggestions(
+      const contentBrief = await offerCreationService.generateContentBrief(
         category,
         contentType,
-        platform
+        platform,
+        location
       );
       
       console.log('Generated content brief suggestions');
@@ -1034,9 +1237,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const influencerProfile = await storage.getInfluencerProfileByUserId(req.user.id);
     if (!influencerProfile) return res.sendStatus(403);
 
-    // Check if offer exists
+    // Check if offer exists; invite-only offers need an open invitation
     const offer = await storage.getOfferById(parseInt(req.params.offerId));
-    if (!offer) return res.status(404).json({ message: "Offer not found" });
+    if (!offer || !(await offerInvitationService.canClaim(offer, influencerProfile.id))) {
+      return res.status(404).json({ message: "Offer not found" });
+    }
 
     // Check if already claimed
     const existingClaim = await storage.getOfferClaimByInfluencerAndOffer(
@@ -1048,15 +1253,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json({ message: "Offer already claimed" });
     }
 
+    // Friendly reasons up front; createOfferClaim re-checks atomically
+    const availability = await offerScheduleService.getAvailability(offer);
+    if (!availability.open) {
+      return res.status(409).json({ message: availability.message });
+    }
+
+    // Application-mode offers need a pitch and wait for the business to decide
+    if (offer.claimMode === "application") {
+      const result = z.object({
+        pitch: z.string().trim().min(20, "Tell the business a bit more about why you're a good fit").max(2000),
+      }).safeParse(req.body || {});
+
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+
+      try {
+        const claim = await applicationService.apply(offer, influencerProfile, req.user.id, result.data.pitch);
+        return res.status(201).json(claim);
+      } catch (error) {
+        if (error instanceof ClaimTransitionError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error('Error submitting application:', error);
+        return res.status(500).json({ message: "Failed to submit application" });
+      }
+    }
+
+    if (offer.maxAcceptedCreators) {
+      const acceptedCount = await storage.countClaimsByOfferAndStatuses(offer.id, ACCEPTED_CLAIM_STATUSES);
+      if (acceptedCount >= offer.maxAcceptedCreators) {
+        return res.status(409).json({ message: "This offer has no creator slots left" });
+      }
+    }
+
     try {
       // Create the claim
       const claim = await storage.createOfferClaim({
         offerId: parseInt(req.params.offerId),
         influencerId: influencerProfile.id,
-        status: "incomplete",
+        status: "accepted",
         completedAt: null,
+      }, {
+        actorType: "influencer",
+        actorUserId: req.user.id,
+        reason: null,
       });
 
+      // Another creator took the last slot or the offer closed in the meantime
+      if (!claim) {
+        return res.status(409).json({ message: "This offer is no longer accepting creators" });
+      }
+
+      // Fund the escrow hold for monetary offers before notifying the business
+      try {
+        await escrowService.fundClaim(claim, offer);
+      } catch (error) {
+        if (error instanceof EscrowError) {
+          await claimLifecycleService.transition(claim.id, "cancelled", SYSTEM_ACTOR, error.message);
+          return res.status(402).json({ message: "The business could not fund this offer right now" });
+        }
+        throw error;
+      }
+
       // Create notification for business
       await storage.createNotification({
         businessId: offer.businessId,
@@ -1090,11 +1350,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
-      // Update the claim status to pending
-      await storage.updateOfferClaimStatus(
-        parseInt(req.params.claimId),
-        "pending"
-      );
+      const claim = await storage.getOfferClaimById(parseInt(req.params.claimId));
+      if (!claim) return res.status(404).json({ message: "Claim not found" });
+
+      const actor = await claimLifecycleService.resolveActor(req.user, claim);
+      if (!actor || actor.type === "business") return res.sendStatus(403);
+
+      // The first post moves the claim into review; further posts for
+      // multi-post deals can be added while earlier ones are being reviewed
+      if (ACTIVE_CLAIM_STATUSES.includes(claim.status)) {
+        await claimLifecycleService.transition(claim.id, "submitted", actor);
+      } else if (!AWAITING_REVIEW_CLAIM_STATUSES.includes(claim.status)) {
+        return res.status(409).json({ message: `Posts cannot be submitted for a ${claim.status} claim` });
+      }
 
       // Create the submission
       const submission = await storage.createPostSubmission({
@@ -1104,11 +1372,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         lastVerified: null,
       });
 
-      // Trigger verification asynchronously
-      verificationService.verifyPost(submission.id).catch(console.error);
+      // Verify in the background; failed attempts are retried by the job queue
+      await jobQueueService.enqueue(JOB_TYPES.verifyPost, { submissionId: submission.id }, { maxAttempts: 3 });
 
       res.status(201).json(submission);
     } catch (error) {
+      if (error instanceof ClaimTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Error creating post submission:', error);
       res.status(500).json({ message: 'Failed to create post submission' });
     }
@@ -1195,23 +1466,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     const result = z.object({
-      status: z.enum(["approved", "rejected", "completed"]),
-      submissionUrl: z.string().optional(),
-      verificationStatus: z.enum(["pending", "verified", "failed"]).optional(),
-      verificationDetails: z.string().optional(),
+      status: z.enum(CLAIM_STATUSES),
+      reason: z.string().optional(),
     }).safeParse(req.body);
 
     if (!result.success) {
       return res.status(400).json(result.error);
     }
 
-    const claim = await storage.updateOfferClaimStatus(
-      parseInt(req.params.claimId),
-      result.data.status
-    );
+    try {
+      const existing = await storage.getOfferClaimById(parseInt(req.params.claimId));
+      if (!existing) return res.sendStatus(404);
+
+      const actor = await claimLifecycleService.resolveActor(req.user, existing);
+      if (!actor) return res.sendStatus(403);
+
+      // Acceptance also funds escrow, so it goes through the application flow
+      if (result.data.status === "accepted") {
+        const accepted = await applicationService.accept(existing.id, actor, result.data.reason);
+        return res.json(accepted);
+      }
+
+      if (result.data.status === "completed" && actor.type === "business") {
+        const missing = await verificationService.getMissingPostCount(existing);
+        if (missing > 0) return res.status(409).json({ message: missingPostsMessage(missing) });
+      }
+
+      const claim = await claimLifecycleService.transition(
+        existing.id,
+        result.data.status,
+        actor,
+        result.data.reason
+      );
+
+      try {
+        await escrowService.handleClaimStatusChange(claim);
+      } catch (error) {
+        // The claim has already moved on; the settlement sweep retries the hold
+        console.error('Error settling escrow for claim:', error);
+      }
+
+      res.json(claim);
+    } catch (error) {
+      if (error instanceof ClaimTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error updating claim status:', error);
+      res.status(500).json({ message: "Failed to update claim status" });
+    }
+  });
+
+  // Status history of a claim, with the transitions available to the viewer
+  app.get("/api/offers/claims/:id/timeline", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const claim = await storage.getOfferClaimById(parseInt(req.params.id));
+      if (!claim) return res.status(404).json({ message: "Claim not found" });
 
-    if (!claim) return res.sendStatus(404);
-    res.json(claim);
+      const actor = await claimLifecycleService.resolveActor(req.user, claim);
+      if (!actor) return res.sendStatus(403);
+
+      const timeline = await claimLifecycleService.getTimeline(claim, actor);
+      res.json(timeline);
+    } catch (error) {
+      console.error('Error fetching claim timeline:', error);
+      res.status(500).json({ message: "Failed to fetch claim timeline" });
+    }
   });
 
   app.get("/api/offers/claims/:id", async (req, res) => {
@@ -1240,9 +1561,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Business not found" });
       }
 
-      // Calculate deadline based on offer timeframe
-      const deadline = new Date();
-      deadline.setDate(deadline.getDate() + offer.timeframe);
+      // Due the agreed number of days after acceptance, as the expiry job counts it
+      const terms = await dealNegotiationService.getTerms(claim, offer);
+      const deadline = await claimLifecycleService.getDeadline(claim, terms.timeframe);
 
       // Combine all the data
       const response = {
@@ -1250,8 +1571,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status: claim.status,
         createdAt: claim.createdAt ? claim.createdAt.toISOString() : new Date().toISOString(),
         completedAt: claim.completedAt ? claim.completedAt.toISOString() : null,
-        deadline: deadline.toISOString(),
-        timeframe: offer.timeframe,
+        flaggedAt: claim.flaggedAt ? claim.flaggedAt.toISOString() : null,
+        flagReason: claim.flagReason,
+        disclosureStatus: claim.disclosureStatus,
+        disclosureOverrideReason: claim.disclosureOverrideReason,
+        disclosureOverriddenAt: claim.disclosureOverriddenAt ? claim.disclosureOverriddenAt.toISOString() : null,
+        deadline: deadline ? deadline.toISOString() : null,
+        timeframe: terms.timeframe,
+        terms,
         offer: {
           ...offer,
           business: business,
@@ -1275,6 +1602,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
 
+  // Submitted posts with every verification snapshot taken while they were monitored
+  app.get("/api/offers/claims/:claimId/posts/history", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const claim = await storage.getOfferClaimById(parseInt(req.params.claimId));
+      if (!claim) return res.status(404).json({ message: "Claim not found" });
+
+      const actor = await claimLifecycleService.resolveActor(req.user, claim);
+      if (!actor) return res.sendStatus(403);
+
+      const submissions = await storage.getPostSubmissionsByClaim(claim.id);
+      const history = await Promise.all(submissions.map(async (submission) => ({
+        ...submission,
+        snapshots: await storage.getPostVerificationSnapshots(submission.id)
+      })));
+      res.json(history);
+    } catch (error) {
+      console.error('Error fetching post verification history:', error);
+      res.status(500).json({ message: "Failed to fetch post verification history" });
+    }
+  });
+
   app.patch("/api/offers/claims/:claimId/verify", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
@@ -1290,13 +1640,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json(result.error);
     }
 
-    const claim = await storage.updateOfferClaimStatus(
-      parseInt(req.params.claimId),
-      result.data.status === "completed" ? "completed" : "changes_needed"
-    );
+    try {
+      const existing = await storage.getOfferClaimById(parseInt(req.params.claimId));
+      if (!existing) return res.sendStatus(404);
+
+      const actor = await claimLifecycleService.resolveActor(req.user, existing);
+      if (!actor || actor.type === "influencer") return res.sendStatus(403);
+
+      if (result.data.status === "completed" && actor.type === "business") {
+        const missing = await verificationService.getMissingPostCount(existing);
+        if (missing > 0) return res.status(409).json({ message: missingPostsMessage(missing) });
+      }
+
+      const claim = await claimLifecycleService.transition(
+        existing.id,
+        result.data.status === "completed" ? "completed" : "revision_requested",
+        actor,
+        result.data.feedback
+      );
+
+      try {
+        await escrowService.handleClaimStatusChange(claim);
+      } catch (error) {
+        // The claim has already moved on; the settlement sweep retries the hold
+        console.error('Error settling escrow for claim:', error);
+      }
+
+      res.json(claim);
+    } catch (error) {
+      if (error instanceof ClaimTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error verifying claim:', error);
+      res.status(500).json({ message: "Failed to verify claim" });
+    }
+  });
+
+  // Approve a post that failed the disclosure check; the reason is kept on the claim
+  app.post("/api/offers/claims/:claimId/disclosure/override", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const result = z.object({
+      reason: z.string().trim().min(10, "Please explain why the post is acceptable").max(1000),
+    }).safeParse(req.body);
 
-    if (!claim) return res.sendStatus(404);
-    res.json(claim);
+    if (!result.success) {
+      return res.status(400).json({ message: result.error.errors[0].message });
+    }
+
+    try {
+      const existing = await storage.getOfferClaimById(parseInt(req.params.claimId));
+      if (!existing) return res.sendStatus(404);
+
+      const actor = await claimLifecycleService.resolveActor(req.user, existing);
+      if (!actor) return res.sendStatus(403);
+
+      const claim = await claimLifecycleService.overrideDisclosure(existing, actor, result.data.reason);
+      res.json(claim);
+    } catch (error) {
+      if (error instanceof ClaimTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error overriding disclosure check:', error);
+      res.status(500).json({ message: "Failed to override disclosure check" });
+    }
+  });
+
+  // Escrow status for a claim
+  app.get("/api/offers/claims/:claimId/escrow", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const claim = await storage.getOfferClaimById(parseInt(req.params.claimId));
+      if (!claim) return res.status(404).json({ message: "Claim not found" });
+
+      // Only the creator, the offer's business and admins can see the money behind a claim
+      const actor = await claimLifecycleService.resolveActor(req.user, claim);
+      if (!actor) return res.sendStatus(403);
+
+      const hold = await storage.getEscrowHoldByClaimId(claim.id);
+      if (!hold) {
+        return res.status(404).json({ message: "No escrow hold for this claim" });
+      }
+      res.json(hold);
+    } catch (error) {
+      console.error('Error fetching escrow hold:', error);
+      res.status(500).json({ message: "Failed to fetch escrow hold" });
+    }
   });
 
   // Get claims for an influencer (influencer view)
@@ -1318,17 +1748,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const business = await storage.getBusinessProfileById(offer.businessId);
           if (!business) return null;
 
-          // Calculate deadline
-          const deadline = new Date();
-          deadline.setDate(deadline.getDate() + offer.timeframe);
+          // Due the agreed number of days after acceptance, as the expiry job counts it
+          const terms = await dealNegotiationService.getTerms(claim, offer);
+          const deadline = await claimLifecycleService.getDeadline(claim, terms.timeframe);
 
           return {
             id: claim.id,
             status: claim.status,
             createdAt: claim.createdAt ? claim.createdAt.toISOString() : new Date().toISOString(),
             completedAt: claim.completedAt ? claim.completedAt.toISOString() : null,
-            deadline: deadline.toISOString(),
-            timeframe: offer.timeframe,
+            deadline: deadline ? deadline.toISOString() : null,
+            timeframe: terms.timeframe,
+            terms,
             offer: {
               ...offer,
               business,
@@ -1446,79 +1877,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Instagram OAuth callback route
-  app.get("/api/auth/callback/instagram", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
-    const { code } = req.query;
-    if (!code) {
-      return res.status(400).json({ message: "No auth code provided" });
-    }
-
-    try {
-      // Exchange code for access token
-      const tokenResponse = await axios.get(
-        "https://graph.facebook.com/v19.0/oauth/access_token",
-        {
-          params: {
-            client_id: process.env.FACEBOOK_APP_ID,
-            client_secret: process.env.FACEBOOK_APP_SECRET,
-            redirect_uri: `${req.protocol}://${req.get("host")}/api/auth/callback/instagram`,
-            code,
-          },
-        }
-      );
-
-      const { access_token } = tokenResponse.data;
-
-      // Get Instagram business account ID
-      const accountResponse = await axios.get(
-        "https://graph.facebook.com/v19.0/me/accounts",
-        {
-          params: {
-            access_token,
-            fields: "instagram_business_account",
-          },
-        }
-      );
-
-      const instagramAccountId = accountResponse.data.data[0]?.instagram_business_account?.id;
-      if (!instagramAccountId) {
-        throw new Error("No Instagram business account found");
-      }
-
-      // Update user's influencer profile with Instagram connection
-      await storage.updateInfluencerProfile(req.user.id, {
-        instagramAccountId,
-        instagramAccessToken: access_token,
-      });
-
-      // Return success to the client
-      res.send(`
-        <script>
-          window.opener.postMessage(
-            { type: "INSTAGRAM_AUTH_SUCCESS" },
-            "${req.protocol}://${req.get("host")}"
-          );
-          window.close();
-        </script>
-      `);
-    } catch (error) {
-      console.error("Instagram auth error:", error);
-      res.send(`
-        <script>
-          window.opener.postMessage(
-            { type: "INSTAGRAM_AUTH_ERROR", error: "Failed to connect Instagram account" },
-            "${req.protocol}://${req.get("host")}"
-          );
-          window.close();
-        </script>
-      `);
-    }
-  });
-
   // Test endpoint for Instagram connection
   app.get("/api/instagram/test-connection", async (req, res) => {
     if (!req.isAuthenticated()) {
@@ -1678,6 +2036,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
+      // Let the AI rewrite the copy from everything we found; the scraped
+      // values stay in place for any field it leaves empty
+      const copy = await offerCreationService.suggestOfferCopy({
+        businessName: result.data.businessName,
+        industry: result.data.industry,
+        description: result.data.description,
+        pageDescription: contentSuggestion.description || undefined
+      });
+      if (copy?.title) contentSuggestion.title = copy.title;
+      if (copy?.description) contentSuggestion.description = copy.description;
+      
       // If we didn't get content from URL, use provided business info
       if (!contentSuggestion.description && result.data.description) {
         contentSuggestion.description = result.data.description;
@@ -1705,7 +2074,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log('Requesting social media metrics by platform and username:', req.body);
     
     const result = z.object({
-      platform: z.enum(["instagram", "tiktok", "youtube"]),
+      platform: z.enum(PLATFORM_IDS),
       username: z.string().min(1)
     }).safeParse(req.body);
     
@@ -1838,7 +2207,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Get all social platforms for this influencer
       const platforms = await storage.getSocialPlatformsByInfluencerId(influencerProfile.id);
-      res.json(platforms);
+      res.json(platforms.map(platform => platformLinkingService.toPublic(platform)));
     } catch (error) {
       console.error('Error fetching social platforms:', error);
       res.status(500).json({ message: "Error fetching social platforms" });
@@ -1859,15 +2228,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Influencer profile not found" });
       }
       
-      // Validate the platform data
-      const platformData = {
+      // Validate the platform data; unknown fields such as isVerified are dropped
+      const result = insertSocialPlatformSchema.safeParse({
         ...req.body,
         influencerId: influencerProfile.id
-      };
+      });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid platform data", errors: result.error.format() });
+      }
       
       // Create the new platform
-      const newPlatform = await storage.createSocialPlatform(platformData);
-      res.status(201).json(newPlatform);
+      const newPlatform = await storage.createSocialPlatform(result.data);
+      await platformAggregationService.recomputeQuietly(influencerProfile.id);
+      res.status(201).json(platformLinkingService.toPublic(newPlatform));
     } catch (error) {
       console.error('Error creating social platform:', error);
       res.status(500).json({ message: "Error creating social platform" });
@@ -1896,9 +2269,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Social platform not found or unauthorized" });
       }
       
+      const result = updateSocialPlatformSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid platform data", errors: result.error.format() });
+      }
+      
+      // A new handle hasn't been proven, so it starts unverified
+      const handleChanged = result.data.handle !== undefined && result.data.handle !== platform.handle;
+      if (handleChanged && platform.accessToken) {
+        return res.status(400).json({ message: "Unlink this account before changing its handle" });
+      }
+      
       // Update the platform
-      const updatedPlatform = await storage.updateSocialPlatform(platformId, req.body);
-      res.json(updatedPlatform);
+      const updatedPlatform = await storage.updateSocialPlatform(platformId, {
+        ...result.data,
+        ...(handleChanged ? { isVerified: false, verificationMethod: null, bioCode: null, bioCodeExpiresAt: null } : {})
+      });
+      await platformAggregationService.recomputeQuietly(influencerProfile.id);
+      res.json(updatedPlatform && platformLinkingService.toPublic(updatedPlatform));
     } catch (error) {
       console.error('Error updating social platform:', error);
       res.status(500).json({ message: "Error updating social platform" });
@@ -1929,6 +2317,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Delete the platform
       await storage.deleteSocialPlatform(platformId);
+      await platformAggregationService.recomputeQuietly(influencerProfile.id);
       res.status(204).send();
     } catch (error) {
       console.error('Error deleting social platform:', error);
@@ -1960,10 +2349,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Set this platform as primary
       await storage.setPrimaryPlatform(platformId, influencerProfile.id);
+      await platformAggregationService.recomputeQuietly(influencerProfile.id);
       
       // Get all platforms after the update
       const platforms = await storage.getSocialPlatformsByInfluencerId(influencerProfile.id);
-      res.json(platforms);
+      res.json(platforms.map(platform => platformLinkingService.toPublic(platform)));
     } catch (error) {
       console.error('Error setting primary platform:', error);
       res.status(500).json({ message: "Error setting primary platform" });
@@ -2187,14 +2577,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
         )
       );
       
+      // Price the combined audience from the same platform list, so the package
+      // can't disagree with the per-platform cards
+      const aggregateRate = rateCalculatorService.calculateAggregateRate(
+        aggregatePlatformMetrics(platforms),
+        influencerProfile.niche || undefined
+      );
+      
       console.log('Rate calculations complete for all platforms');
-      res.json(rateRecommendations);
+      res.json({ platforms: rateRecommendations, aggregate: aggregateRate });
     } catch (error) {
       console.error('Error calculating rates for platforms:', error);
       res.status(500).json({ message: "Failed to calculate rates for platforms" });
     }
   });
 
+  // Register earnings and payout routes
+  registerEarningsRoutes(app);
+
+  // Register offer application review routes
+  registerApplicationRoutes(app);
+
+  // Register similar creator search
+  registerDiscoveryRoutes(app);
+
+  // Register marketplace search routes
+  registerMarketplaceRoutes(app);
+
+  // Register shortlist and creator CRM routes
+  registerCreatorCrmRoutes(app);
+
+  // Register routes for creators answering offer invitations
+  registerOfferInvitationRoutes(app);
+
+  // Register claim negotiation routes
+  registerDealNegotiationRoutes(app);
+
+  // Register campaign routes
+  registerCampaignRoutes(app);
+
+  // Register metric history routes
+  registerMetricsRoutes(app);
+
+  // Register social account linking routes
+  registerPlatformLinkingRoutes(app);
+
   // Register admin routes
   registerAdminRoutes(app, storage);
 
@@ -8,9 +8,17 @@ import { Express, Request, Response, NextFunction } from "express";
 import { eq, and, like, desc, asc, sql, count, isNull } from "drizzle-orm";
 import { 
   users, userRoleEnum, BusinessProfile, InfluencerProfile, 
-  Offer, OfferClaim, adminLogs, systemSettings, reportedContent
+  Offer, OfferClaim, adminLogs, systemSettings, reportedContent,
+  JOB_STATUSES, JobStatus
 } from "../../shared/schema";
 import { IStorage } from "../types";
+import { earningsService, PayoutError } from "../services/earnings";
+import { jobQueueService, JobQueueError } from "../services/job-queue";
+import { aiService } from "../services/ai";
+import { credibilityService } from "../services/credibility";
+import { matchingService } from "../services/matching";
+import { MATCHING_PROFILE_SETTING } from "../services/settings";
+import { DEFAULT_MATCHING_PROFILE, matchingProfileInputSchema } from "../../shared/matching-profile";
 
 /**
  * Middleware to ensure the user has admin privileges
@@ -280,6 +288,59 @@ export function registerAdminRoutes(app: Express, storage: IStorage) {
     }
   });
 
+  /**
+   * Flagged Account Routes
+   * Influencers whose audience authenticity signals look bought or inflated
+   */
+  app.get('/api/admin/flagged-accounts', requireAdmin, async (req: any, res) => {
+    try {
+      const profiles = await credibilityService.getFlaggedProfiles(Math.min(Number(req.query.limit) || 100, 500));
+      res.json({
+        accounts: profiles.map(profile => ({
+          id: profile.id,
+          userId: profile.userId,
+          displayName: profile.displayName,
+          platform: profile.platform,
+          followerCount: profile.followerCount,
+          engagementRate: profile.engagementRate,
+          credibilityScore: profile.credibilityScore,
+          credibilitySignals: profile.credibilitySignals ?? [],
+          credibilityAssessedAt: profile.credibilityAssessedAt
+        }))
+      });
+    } catch (error) {
+      console.error("Error fetching flagged accounts:", error);
+      res.status(500).json({ message: "Failed to fetch flagged accounts" });
+    }
+  });
+
+  app.post('/api/admin/influencers/:id/credibility', requireAdmin, async (req: any, res) => {
+    const { id } = req.params;
+
+    try {
+      const profile = await storage.getInfluencerProfileById(Number(id));
+      if (!profile) {
+        return res.status(404).json({ message: "Influencer profile not found" });
+      }
+
+      const updated = await credibilityService.assessProfile(profile);
+      res.json({ profile: updated });
+
+      await logAdminAction(
+        storage,
+        req.user.id,
+        "rescore_credibility",
+        "influencer_profile",
+        Number(id),
+        { credibilityScore: updated?.credibilityScore, flagged: updated?.credibilityFlagged },
+        req
+      );
+    } catch (error) {
+      console.error("Error scoring credibility:", error);
+      res.status(500).json({ message: "Failed to score credibility" });
+    }
+  });
+
   /**
    * Offer Management Routes
    */
@@ -497,6 +558,139 @@ export function registerAdminRoutes(app: Express, storage: IStorage) {
     }
   });
 
+  /**
+   * Payout Management Routes
+   */
+  app.get('/api/admin/payouts', requireAdmin, async (req: any, res) => {
+    try {
+      const { status = 'requested' } = req.query;
+
+      const payouts = await earningsService.listPayoutsByStatus(status);
+      res.json({ payouts });
+    } catch (error) {
+      console.error("Error fetching payouts:", error);
+      res.status(500).json({ message: "Failed to fetch payouts" });
+    }
+  });
+
+  app.post('/api/admin/payouts/:id/approve', requireAdmin, async (req: any, res) => {
+    const { id } = req.params;
+
+    try {
+      const payout = await earningsService.processPayout(Number(id), req.user.id);
+      res.json({ payout });
+
+      await logAdminAction(
+        storage,
+        req.user.id,
+        "approve_payout",
+        "payout",
+        Number(id),
+        { status: payout.status, amount: payout.amount },
+        req
+      );
+    } catch (error) {
+      if (error instanceof PayoutError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error processing payout:", error);
+      res.status(500).json({ message: "Failed to process payout" });
+    }
+  });
+
+  app.post('/api/admin/payouts/:id/reject', requireAdmin, async (req: any, res) => {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    try {
+      if (!reason) {
+        return res.status(400).json({ message: "Reason is required" });
+      }
+
+      const payout = await earningsService.rejectPayout(Number(id), req.user.id, reason);
+      res.json({ payout });
+
+      await logAdminAction(
+        storage,
+        req.user.id,
+        "reject_payout",
+        "payout",
+        Number(id),
+        { reason },
+        req
+      );
+    } catch (error) {
+      if (error instanceof PayoutError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error rejecting payout:", error);
+      res.status(500).json({ message: "Failed to reject payout" });
+    }
+  });
+
+  /**
+   * Background Job Routes
+   */
+  app.get('/api/admin/jobs', requireAdmin, async (req: any, res) => {
+    try {
+      const { status = 'failed', limit = 100 } = req.query;
+
+      // "failed" covers dead jobs and queued jobs waiting to retry after an error
+      const statuses: JobStatus[] = status === 'failed'
+        ? ['dead', 'queued']
+        : JOB_STATUSES.includes(status) ? [status] : [...JOB_STATUSES];
+
+      const summary = await jobQueueService.getSummary(
+        statuses,
+        Math.min(Number(limit) || 100, 500),
+        status === 'failed'
+      );
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      res.status(500).json({ message: "Failed to fetch jobs" });
+    }
+  });
+
+  app.post('/api/admin/jobs/:id/retry', requireAdmin, async (req: any, res) => {
+    const { id } = req.params;
+
+    try {
+      const job = await jobQueueService.retry(Number(id));
+      res.json({ job });
+
+      await logAdminAction(
+        storage,
+        req.user.id,
+        "retry_job",
+        "job",
+        Number(id),
+        { type: job.type },
+        req
+      );
+    } catch (error) {
+      if (error instanceof JobQueueError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error retrying job:", error);
+      res.status(500).json({ message: "Failed to retry job" });
+    }
+  });
+
+  /**
+   * AI Usage Routes
+   */
+  app.get('/api/admin/ai-usage', requireAdmin, async (req: any, res) => {
+    try {
+      const days = Math.min(Math.max(Number(req.query.days) || 30, 1), 365);
+      const summary = await aiService.getUsageSummary(days);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching AI usage:", error);
+      res.status(500).json({ message: "Failed to fetch AI usage" });
+    }
+  });
+
   /**
    * System Settings Routes
    */
@@ -537,6 +731,10 @@ export function registerAdminRoutes(app: Express, storage: IStorage) {
       if (value === undefined) {
         return res.status(400).json({ message: "Value is required" });
       }
+      // The matching profile is validated and versioned by its own endpoint
+      if (key === MATCHING_PROFILE_SETTING) {
+        return res.status(400).json({ message: "Use /api/admin/matching-profile to change the matching profile" });
+      }
       
       // Check if setting exists
       const existingSetting = await storage.db.select()
@@ -573,6 +771,45 @@ export function registerAdminRoutes(app: Express, storage: IStorage) {
     }
   });
 
+  /**
+   * Matching Profile Routes
+   */
+  app.get('/api/admin/matching-profile', requireAdmin, async (req: any, res) => {
+    try {
+      const profile = await matchingService.getProfile();
+      res.json({ profile, defaults: DEFAULT_MATCHING_PROFILE });
+    } catch (error) {
+      console.error("Error fetching matching profile:", error);
+      res.status(500).json({ message: "Failed to fetch matching profile" });
+    }
+  });
+
+  app.put('/api/admin/matching-profile', requireAdmin, async (req: any, res) => {
+    const result = matchingProfileInputSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid matching profile", errors: result.error.format() });
+    }
+
+    try {
+      const { profile, previous } = await matchingService.saveProfile(result.data, req.user.id);
+      res.json({ profile });
+
+      // The previous version is kept in the log so a change can be rolled back
+      await logAdminAction(
+        storage,
+        req.user.id,
+        "update_matching_profile",
+        "setting",
+        undefined,
+        { version: profile.version, previous },
+        req
+      );
+    } catch (error) {
+      console.error("Error updating matching profile:", error);
+      res.status(500).json({ message: "Failed to update matching profile" });
+    }
+  });
+
   /**
    * Admin Logs Routes
    */
@@ -0,0 +1,110 @@
+/**
+ * Applicant review routes for application-mode offers
+ */
+import { Express } from "express";
+import { z } from "zod";
+import { ensureAuthenticatedWithToken } from "../auth";
+import { storage } from "../storage";
+import { applicationService } from "../services/applications";
+import { ClaimTransitionError } from "../services/claim-lifecycle";
+
+export function registerApplicationRoutes(app: Express) {
+  // Resolve an offer owned by the current business user or send an error response
+  const getOwnedOffer = async (req: any, res: any) => {
+    const businessProfile = await storage.getBusinessProfileByUserId(req.user.id);
+    if (!businessProfile) {
+      res.status(403).json({ message: "Business profile required" });
+      return undefined;
+    }
+
+    const offer = await storage.getOfferById(parseInt(req.params.offerId));
+    if (!offer || offer.businessId !== businessProfile.id) {
+      res.status(404).json({ message: "Offer not found" });
+      return undefined;
+    }
+    return offer;
+  };
+
+  // Resolve an applicant claim that belongs to the offer in the URL
+  const getApplicantClaim = async (req: any, res: any, offerId: number) => {
+    const claim = await storage.getOfferClaimById(parseInt(req.params.claimId));
+    if (!claim || claim.offerId !== offerId) {
+      res.status(404).json({ message: "Applicant not found" });
+      return undefined;
+    }
+    return claim;
+  };
+
+  app.get("/api/business/offers/:offerId/applicants", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const offer = await getOwnedOffer(req, res);
+      if (!offer) return;
+
+      const review = await applicationService.getApplicantReview(offer);
+      res.json(review);
+    } catch (error) {
+      console.error('Error fetching applicants:', error);
+      res.status(500).json({ message: "Failed to fetch applicants" });
+    }
+  });
+
+  app.post("/api/business/offers/:offerId/applicants/:claimId/accept", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    const result = z.object({
+      reason: z.string().max(1000).optional(),
+    }).safeParse(req.body || {});
+
+    if (!result.success) {
+      return res.status(400).json(result.error);
+    }
+
+    try {
+      const offer = await getOwnedOffer(req, res);
+      if (!offer) return;
+      const claim = await getApplicantClaim(req, res, offer.id);
+      if (!claim) return;
+
+      const accepted = await applicationService.accept(
+        claim.id,
+        { type: 'business', userId: req.user.id },
+        result.data.reason
+      );
+      res.json(accepted);
+    } catch (error) {
+      if (error instanceof ClaimTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error accepting applicant:', error);
+      res.status(500).json({ message: "Failed to accept applicant" });
+    }
+  });
+
+  app.post("/api/business/offers/:offerId/applicants/:claimId/reject", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    const result = z.object({
+      reason: z.string().trim().min(1, "A reason is required").max(1000),
+    }).safeParse(req.body || {});
+
+    if (!result.success) {
+      return res.status(400).json({ message: result.error.errors[0].message });
+    }
+
+    try {
+      const offer = await getOwnedOffer(req, res);
+      if (!offer) return;
+      const claim = await getApplicantClaim(req, res, offer.id);
+      if (!claim) return;
+
+      const rejected = await applicationService.reject(
+        claim.id,
+        { type: 'business', userId: req.user.id },
+        result.data.reason
+      );
+      res.json(rejected);
+    } catch (error) {
+      if (error instanceof ClaimTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error rejecting applicant:', error);
+      res.status(500).json({ message: "Failed to reject applicant" });
+    }
+  });
+}
@@ -0,0 +1,114 @@
+/**
+ * Business campaign routes
+ */
+import { Express } from "express";
+import { ensureAuthenticatedWithToken } from "../auth";
+import { storage } from "../storage";
+import { campaignService, CampaignError } from "../services/campaigns";
+import { campaignInputSchema } from "@shared/campaigns";
+
+export function registerCampaignRoutes(app: Express) {
+  // Resolve the business profile for the current user or send an error response
+  const getBusinessProfile = async (req: any, res: any) => {
+    const businessProfile = await storage.getBusinessProfileByUserId(req.user.id);
+    if (!businessProfile) {
+      res.status(403).json({ message: "Business profile required" });
+      return undefined;
+    }
+    return businessProfile;
+  };
+
+  const sendError = (res: any, error: unknown, action: string) => {
+    if (error instanceof CampaignError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error(`Error trying to ${action}:`, error);
+    res.status(500).json({ message: `Failed to ${action}` });
+  };
+
+  app.get("/api/business/campaigns", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const businessProfile = await getBusinessProfile(req, res);
+      if (!businessProfile) return;
+
+      res.json(await campaignService.getCampaigns(businessProfile));
+    } catch (error) {
+      sendError(res, error, "fetch campaigns");
+    }
+  });
+
+  app.post("/api/business/campaigns", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    const result = campaignInputSchema.safeParse(req.body || {});
+    if (!result.success) {
+      return res.status(400).json({ message: result.error.errors[0].message });
+    }
+
+    try {
+      const businessProfile = await getBusinessProfile(req, res);
+      if (!businessProfile) return;
+
+      res.status(201).json(await campaignService.createCampaign(businessProfile, result.data));
+    } catch (error) {
+      sendError(res, error, "create campaign");
+    }
+  });
+
+  app.put("/api/business/campaigns/:campaignId", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    const result = campaignInputSchema.safeParse(req.body || {});
+    if (!result.success) {
+      return res.status(400).json({ message: result.error.errors[0].message });
+    }
+
+    try {
+      const businessProfile = await getBusinessProfile(req, res);
+      if (!businessProfile) return;
+
+      res.json(await campaignService.updateCampaign(businessProfile, parseInt(req.params.campaignId), result.data));
+    } catch (error) {
+      sendError(res, error, "update campaign");
+    }
+  });
+
+  app.delete("/api/business/campaigns/:campaignId", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const businessProfile = await getBusinessProfile(req, res);
+      if (!businessProfile) return;
+
+      await campaignService.deleteCampaign(businessProfile, parseInt(req.params.campaignId));
+      res.sendStatus(204);
+    } catch (error) {
+      sendError(res, error, "delete campaign");
+    }
+  });
+
+  // Adding or removing an offer returns the campaign's updated rollup
+  app.put("/api/business/campaigns/:campaignId/offers/:offerId", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const businessProfile = await getBusinessProfile(req, res);
+      if (!businessProfile) return;
+
+      res.json(await campaignService.addOffer(
+        businessProfile,
+        parseInt(req.params.campaignId),
+        parseInt(req.params.offerId)
+      ));
+    } catch (error) {
+      sendError(res, error, "add offer to campaign");
+    }
+  });
+
+  app.delete("/api/business/campaigns/:campaignId/offers/:offerId", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const businessProfile = await getBusinessProfile(req, res);
+      if (!businessProfile) return;
+
+      res.json(await campaignService.removeOffer(
+        businessProfile,
+        parseInt(req.params.campaignId),
+        parseInt(req.params.offerId)
+      ));
+    } catch (error) {
+      sendError(res, error, "remove offer from campaign");
+    }
+  });
+}
@@ -0,0 +1,179 @@
+/**
+ * Business shortlist, creator notes and invitation routes
+ */
+import { Express } from "express";
+import { ensureAuthenticatedWithToken } from "../auth";
+import { storage } from "../storage";
+import { creatorCrmService, CreatorCrmError } from "../services/creator-crm";
+import { offerInvitationService, OfferInvitationError } from "../services/offer-invitations";
+import { creatorNotesInputSchema, shortlistInputSchema } from "@shared/creator-crm";
+import { offerInvitationInputSchema } from "@shared/offer-invitations";
+
+export function registerCreatorCrmRoutes(app: Express) {
+  // Resolve the business profile for the current user or send an error response
+  const getBusinessProfile = async (req: any, res: any) => {
+    const businessProfile = await storage.getBusinessProfileByUserId(req.user.id);
+    if (!businessProfile) {
+      res.status(403).json({ message: "Business profile required" });
+      return undefined;
+    }
+    return businessProfile;
+  };
+
+  // Send CRM and invitation errors with their status and anything else as a 500
+  const sendError = (res: any, error: unknown, action: string) => {
+    if (error instanceof CreatorCrmError || error instanceof OfferInvitationError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error(`Error trying to ${action}:`, error);
+    res.status(500).json({ message: `Failed to ${action}` });
+  };
+
+  app.get("/api/business/shortlists", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const businessProfile = await getBusinessProfile(req, res);
+      if (!businessProfile) return;
+
+      res.json(await creatorCrmService.getShortlists(businessProfile));
+    } catch (error) {
+      sendError(res, error, "fetch shortlists");
+    }
+  });
+
+  app.post("/api/business/shortlists", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    const result = shortlistInputSchema.safeParse(req.body || {});
+    if (!result.success) {
+      return res.status(400).json({ message: result.error.errors[0].message });
+    }
+
+    try {
+      const businessProfile = await getBusinessProfile(req, res);
+      if (!businessProfile) return;
+
+      res.status(201).json(await creatorCrmService.createShortlist(businessProfile, result.data));
+    } catch (error) {
+      sendError(res, error, "create shortlist");
+    }
+  });
+
+  app.put("/api/business/shortlists/:shortlistId", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    const result = shortlistInputSchema.safeParse(req.body || {});
+    if (!result.success) {
+      return res.status(400).json({ message: result.error.errors[0].message });
+    }
+
+    try {
+      const businessProfile = await getBusinessProfile(req, res);
+      if (!businessProfile) return;
+
+      res.json(await creatorCrmService.updateShortlist(businessProfile, parseInt(req.params.shortlistId), result.data));
+    } catch (error) {
+      sendError(res, error, "update shortlist");
+    }
+  });
+
+  app.delete("/api/business/shortlists/:shortlistId", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const businessProfile = await getBusinessProfile(req, res);
+      if (!businessProfile) return;
+
+      await creatorCrmService.deleteShortlist(businessProfile, parseInt(req.params.shortlistId));
+      res.sendStatus(204);
+    } catch (error) {
+      sendError(res, error, "delete shortlist");
+    }
+  });
+
+  app.get("/api/business/shortlists/:shortlistId/members", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const businessProfile = await getBusinessProfile(req, res);
+      if (!businessProfile) return;
+
+      res.json(await creatorCrmService.getShortlistMembers(businessProfile, parseInt(req.params.shortlistId)));
+    } catch (error) {
+      sendError(res, error, "fetch shortlist");
+    }
+  });
+
+  // Adding a creator who is already on the list is a no-op
+  app.put("/api/business/shortlists/:shortlistId/members/:influencerId", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const businessProfile = await getBusinessProfile(req, res);
+      if (!businessProfile) return;
+
+      await creatorCrmService.addToShortlist(
+        businessProfile,
+        parseInt(req.params.shortlistId),
+        parseInt(req.params.influencerId)
+      );
+      res.sendStatus(204);
+    } catch (error) {
+      sendError(res, error, "add creator to shortlist");
+    }
+  });
+
+  app.delete("/api/business/shortlists/:shortlistId/members/:influencerId", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const businessProfile = await getBusinessProfile(req, res);
+      if (!businessProfile) return;
+
+      await creatorCrmService.removeFromShortlist(
+        businessProfile,
+        parseInt(req.params.shortlistId),
+        parseInt(req.params.influencerId)
+      );
+      res.sendStatus(204);
+    } catch (error) {
+      sendError(res, error, "remove creator from shortlist");
+    }
+  });
+
+  // Notes, tags, rating and history of past work with a creator
+  app.get("/api/business/creators/:influencerId", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const businessProfile = await getBusinessProfile(req, res);
+      if (!businessProfile) return;
+
+      res.json(await creatorCrmService.getRelationship(businessProfile, parseInt(req.params.influencerId)));
+    } catch (error) {
+      sendError(res, error, "fetch creator history");
+    }
+  });
+
+  app.put("/api/business/creators/:influencerId/notes", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    const result = creatorNotesInputSchema.safeParse(req.body || {});
+    if (!result.success) {
+      return res.status(400).json({ message: result.error.errors[0].message });
+    }
+
+    try {
+      const businessProfile = await getBusinessProfile(req, res);
+      if (!businessProfile) return;
+
+      res.json(await creatorCrmService.saveNotes(businessProfile, parseInt(req.params.influencerId), result.data));
+    } catch (error) {
+      sendError(res, error, "save notes");
+    }
+  });
+
+  app.post("/api/business/creators/:influencerId/invitations", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    const result = offerInvitationInputSchema.safeParse(req.body || {});
+    if (!result.success) {
+      return res.status(400).json({ message: result.error.errors[0].message });
+    }
+
+    try {
+      const businessProfile = await getBusinessProfile(req, res);
+      if (!businessProfile) return;
+
+      const invitation = await offerInvitationService.invite(
+        businessProfile,
+        parseInt(req.params.influencerId),
+        result.data
+      );
+      res.status(201).json(invitation);
+    } catch (error) {
+      sendError(res, error, "invite creator");
+    }
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * Routes for negotiating a claim's deal terms
+ */
+import { Express } from "express";
+import { ensureAuthenticatedWithToken } from "../auth";
+import { storage } from "../storage";
+import { claimLifecycleService } from "../services/claim-lifecycle";
+import { dealNegotiationService, DealNegotiationError } from "../services/deal-negotiation";
+import { dealProposalInputSchema } from "@shared/deal-terms";
+
+export function registerDealNegotiationRoutes(app: Express) {
+  // Resolve the claim and how the current user takes part in it, or send an error response
+  const getParticipant = async (req: any, res: any) => {
+    const claim = await storage.getOfferClaimById(parseInt(req.params.claimId));
+    if (!claim) {
+      res.status(404).json({ message: "Claim not found" });
+      return undefined;
+    }
+
+    const actor = await claimLifecycleService.resolveActor(req.user, claim);
+    if (!actor) {
+      res.sendStatus(403);
+      return undefined;
+    }
+    return { claim, actor };
+  };
+
+  const sendError = (res: any, error: unknown, action: string) => {
+    if (error instanceof DealNegotiationError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error(`Error trying to ${action}:`, error);
+    res.status(500).json({ message: `Failed to ${action}` });
+  };
+
+  app.get("/api/offers/claims/:claimId/negotiation", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const participant = await getParticipant(req, res);
+      if (!participant) return;
+
+      res.json(await dealNegotiationService.getNegotiation(participant.claim));
+    } catch (error) {
+      sendError(res, error, "fetch negotiation");
+    }
+  });
+
+  // Proposing while the other side's proposal is open counters it
+  app.post("/api/offers/claims/:claimId/negotiation/proposals", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    const result = dealProposalInputSchema.safeParse(req.body || {});
+    if (!result.success) {
+      return res.status(400).json({ message: result.error.errors[0].message });
+    }
+
+    try {
+      const participant = await getParticipant(req, res);
+      if (!participant) return;
+
+      const proposal = await dealNegotiationService.propose(participant.claim, participant.actor, result.data);
+      res.status(201).json(proposal);
+    } catch (error) {
+      sendError(res, error, "propose terms");
+    }
+  });
+
+  // Accepting returns the newly agreed terms version
+  app.post("/api/offers/claims/:claimId/negotiation/proposals/:proposalId/accept", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const participant = await getParticipant(req, res);
+      if (!participant) return;
+
+      res.json(await dealNegotiationService.accept(participant.claim, participant.actor, parseInt(req.params.proposalId)));
+    } catch (error) {
+      sendError(res, error, "accept proposal");
+    }
+  });
+
+  app.post("/api/offers/claims/:claimId/negotiation/proposals/:proposalId/decline", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const participant = await getParticipant(req, res);
+      if (!participant) return;
+
+      res.json(await dealNegotiationService.decline(participant.claim, participant.actor, parseInt(req.params.proposalId)));
+    } catch (error) {
+      sendError(res, error, "decline proposal");
+    }
+  });
+
+  app.post("/api/offers/claims/:claimId/negotiation/proposals/:proposalId/withdraw", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const participant = await getParticipant(req, res);
+      if (!participant) return;
+
+      res.json(await dealNegotiationService.withdraw(participant.claim, participant.actor, parseInt(req.params.proposalId)));
+    } catch (error) {
+      sendError(res, error, "withdraw proposal");
+    }
+  });
+}
@@ -0,0 +1,42 @@
+/**
+ * Creator discovery routes for businesses
+ */
+import { Express } from "express";
+import { z } from "zod";
+import { ensureAuthenticatedWithToken } from "../auth";
+import { storage } from "../storage";
+import { embeddingService } from "../services/embeddings";
+
+export function registerDiscoveryRoutes(app: Express) {
+  // Creators whose bios, niches and posts are closest to the given creator's
+  app.get("/api/influencers/:influencerId/similar", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    const result = z.object({
+      limit: z.coerce.number().int().min(1).max(50).default(12),
+    }).safeParse(req.query);
+
+    if (!result.success) {
+      return res.status(400).json(result.error);
+    }
+
+    try {
+      const businessProfile = await storage.getBusinessProfileByUserId(req.user.id);
+      if (!businessProfile) {
+        return res.status(403).json({ message: "Business profile required" });
+      }
+
+      const influencer = await storage.getInfluencerProfileById(parseInt(req.params.influencerId));
+      if (!influencer) {
+        return res.status(404).json({ message: "Influencer not found" });
+      }
+
+      const similar = await embeddingService.findSimilarInfluencers(influencer, result.data.limit);
+      res.json(similar.map(({ profile, similarity }) => ({
+        influencer: profile,
+        similarity: Math.round(similarity * 100) / 100
+      })));
+    } catch (error) {
+      console.error('Error finding similar influencers:', error);
+      res.status(500).json({ message: "Failed to find similar influencers" });
+    }
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * Influencer earnings and payout routes
+ */
+import { Express } from "express";
+import { z } from "zod";
+import { ensureAuthenticatedWithToken } from "../auth";
+import { storage } from "../storage";
+import { earningsService, PayoutError } from "../services/earnings";
+
+export function registerEarningsRoutes(app: Express) {
+  // Resolve the influencer profile for the current user or send an error response
+  const getInfluencerProfile = async (req: any, res: any) => {
+    const influencerProfile = await storage.getInfluencerProfileByUserId(req.user.id);
+    if (!influencerProfile) {
+      res.status(403).json({ message: "Influencer profile required" });
+      return undefined;
+    }
+    return influencerProfile;
+  };
+
+  app.get("/api/influencer/earnings", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const influencerProfile = await getInfluencerProfile(req, res);
+      if (!influencerProfile) return;
+
+      const earnings = await earningsService.getEarnings(influencerProfile.id);
+      res.json(earnings);
+    } catch (error) {
+      console.error('Error fetching earnings:', error);
+      res.status(500).json({ message: "Failed to fetch earnings" });
+    }
+  });
+
+  // Download a monthly statement as CSV (default) or PDF
+  app.get("/api/influencer/earnings/statements/:month", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const influencerProfile = await getInfluencerProfile(req, res);
+      if (!influencerProfile) return;
+
+      const format = (req.query.format as string || 'csv').toLowerCase();
+      if (format !== 'csv' && format !== 'pdf') {
+        return res.status(400).json({ message: "Format must be csv or pdf" });
+      }
+
+      const statement = await earningsService.getStatement(influencerProfile.id, req.params.month);
+      const filename = `somie-statement-${statement.month}.${format}`;
+
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      if (format === 'pdf') {
+        res.type('application/pdf').send(earningsService.statementToPdf(statement));
+      } else {
+        res.type('text/csv').send(earningsService.statementToCsv(statement));
+      }
+    } catch (error) {
+      if (error instanceof PayoutError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error generating statement:', error);
+      res.status(500).json({ message: "Failed to generate statement" });
+    }
+  });
+
+  app.get("/api/influencer/payouts", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const influencerProfile = await getInfluencerProfile(req, res);
+      if (!influencerProfile) return;
+
+      const payouts = await earningsService.getPayouts(influencerProfile.id);
+      res.json(payouts);
+    } catch (error) {
+      console.error('Error fetching payouts:', error);
+      res.status(500).json({ message: "Failed to fetch payouts" });
+    }
+  });
+
+  app.post("/api/influencer/payouts", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    const result = z.object({
+      amount: z.number().int().positive(), // cents
+    }).safeParse(req.body);
+
+    if (!result.success) {
+      return res.status(400).json(result.error);
+    }
+
+    try {
+      const influencerProfile = await getInfluencerProfile(req, res);
+      if (!influencerProfile) return;
+
+      const payout = await earningsService.requestPayout(influencerProfile.id, result.data.amount);
+      res.status(201).json(payout);
+    } catch (error) {
+      if (error instanceof PayoutError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error requesting payout:', error);
+      res.status(500).json({ message: "Failed to request payout" });
+    }
+  });
+}
@@ -0,0 +1,55 @@
+/**
+ * Marketplace search routes
+ */
+import { Express } from "express";
+import { ensureAuthenticatedWithToken } from "../auth";
+import { storage } from "../storage";
+import { marketplaceService, MarketplaceSearchError } from "../services/marketplace";
+import { influencerSearchQuerySchema, offerSearchQuerySchema } from "@shared/marketplace-search";
+
+export function registerMarketplaceRoutes(app: Express) {
+  // Influencer profiles matching the search, for businesses looking for creators
+  app.get("/api/marketplace/influencers", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    const result = influencerSearchQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json(result.error);
+    }
+
+    try {
+      const businessProfile = await storage.getBusinessProfileByUserId(req.user.id);
+      if (!businessProfile) {
+        return res.status(403).json({ message: "Business profile required" });
+      }
+
+      res.json(await marketplaceService.searchInfluencers(result.data));
+    } catch (error) {
+      if (error instanceof MarketplaceSearchError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error searching influencers:', error);
+      res.status(500).json({ message: "Failed to search influencers" });
+    }
+  });
+
+  // Active offers matching the search; influencers also get their match score
+  app.get("/api/marketplace/offers", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    const result = offerSearchQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json(result.error);
+    }
+
+    try {
+      const influencerProfile = req.user.userType === 'influencer'
+        ? await storage.getInfluencerProfileByUserId(req.user.id)
+        : undefined;
+
+      res.json(await marketplaceService.searchOffers(result.data, influencerProfile));
+    } catch (error) {
+      if (error instanceof MarketplaceSearchError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error searching offers:', error);
+      res.status(500).json({ message: "Failed to search offers" });
+    }
+  });
+}
@@ -0,0 +1,78 @@
+/**
+ * Influencer metric history routes
+ */
+import { Express } from "express";
+import { z } from "zod";
+import { ensureAuthenticatedWithToken } from "../auth";
+import { storage } from "../storage";
+import { metricHistoryService } from "../services/metric-history";
+import { metricsRefreshService } from "../services/metrics-refresh";
+import { HISTORY_GRANULARITIES, HISTORY_METRICS, HISTORY_RANGES } from "@shared/metric-history";
+
+const historyQuerySchema = z.object({
+  range: z.enum(HISTORY_RANGES).default('30d'),
+  granularity: z.enum(HISTORY_GRANULARITIES).default('day'),
+  // Lets businesses and admins chart a creator's history; defaults to the caller's own profile
+  influencerId: z.coerce.number().int().positive().optional(),
+});
+
+export function registerMetricsRoutes(app: Express) {
+  app.get("/api/metrics/:type/history", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    const metric = HISTORY_METRICS.find(type => type === req.params.type);
+    if (!metric) {
+      return res.status(404).json({ message: `No history is recorded for ${req.params.type}` });
+    }
+
+    const query = historyQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "Invalid history parameters", errors: query.error.format() });
+    }
+
+    try {
+      const profile = query.data.influencerId
+        ? await storage.getInfluencerProfileById(query.data.influencerId)
+        : await storage.getInfluencerProfileByUserId(req.user.id);
+      if (!profile) {
+        return res.status(404).json({ message: "Influencer profile not found" });
+      }
+
+      // Other creators' history is only for businesses and admins
+      if (profile.userId !== req.user.id && !['admin', 'super_admin'].includes(req.user.role)) {
+        const businessProfile = await storage.getBusinessProfileByUserId(req.user.id);
+        if (!businessProfile) {
+          return res.status(403).json({ message: "Business profile required" });
+        }
+      }
+
+      const history = await metricHistoryService.getHistory(
+        profile,
+        metric,
+        query.data.range,
+        query.data.granularity
+      );
+      res.json(history);
+    } catch (error) {
+      console.error('Error fetching metric history:', error);
+      res.status(500).json({ message: "Failed to fetch metric history" });
+    }
+  });
+
+  // Fetch fresh metrics for the caller's main account now instead of waiting for the nightly refresh
+  app.post("/api/influencer/metrics/refresh", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const profile = await storage.getInfluencerProfileByUserId(req.user.id);
+      if (!profile) {
+        return res.status(403).json({ message: "Influencer profile required" });
+      }
+
+      const updated = await metricsRefreshService.refreshProfile(profile.id, 'refresh');
+      if (!updated) {
+        return res.status(400).json({ message: "Add a profile URL for your main platform first" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error('Error refreshing metrics:', error);
+      res.status(502).json({ message: "Could not fetch metrics from the platform, please try again later" });
+    }
+  });
+}
@@ -0,0 +1,68 @@
+/**
+ * Routes for creators answering offer invitations
+ */
+import { Express } from "express";
+import { ensureAuthenticatedWithToken } from "../auth";
+import { storage } from "../storage";
+import { offerInvitationService, OfferInvitationError } from "../services/offer-invitations";
+import { declineInvitationSchema } from "@shared/offer-invitations";
+
+export function registerOfferInvitationRoutes(app: Express) {
+  // Resolve the influencer profile for the current user or send an error response
+  const getInfluencerProfile = async (req: any, res: any) => {
+    const influencerProfile = await storage.getInfluencerProfileByUserId(req.user.id);
+    if (!influencerProfile) {
+      res.status(403).json({ message: "Influencer profile required" });
+      return undefined;
+    }
+    return influencerProfile;
+  };
+
+  const sendError = (res: any, error: unknown, action: string) => {
+    if (error instanceof OfferInvitationError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error(`Error trying to ${action}:`, error);
+    res.status(500).json({ message: `Failed to ${action}` });
+  };
+
+  app.get("/api/influencer/invitations", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const influencerProfile = await getInfluencerProfile(req, res);
+      if (!influencerProfile) return;
+
+      res.json(await offerInvitationService.getInvitations(influencerProfile));
+    } catch (error) {
+      sendError(res, error, "fetch invitations");
+    }
+  });
+
+  // Accepting claims the offer; the new claim is returned
+  app.post("/api/influencer/invitations/:id/accept", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const influencerProfile = await getInfluencerProfile(req, res);
+      if (!influencerProfile) return;
+
+      const claim = await offerInvitationService.accept(influencerProfile, req.user.id, parseInt(req.params.id));
+      res.status(201).json(claim);
+    } catch (error) {
+      sendError(res, error, "accept invitation");
+    }
+  });
+
+  app.post("/api/influencer/invitations/:id/decline", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    const result = declineInvitationSchema.safeParse(req.body || {});
+    if (!result.success) {
+      return res.status(400).json({ message: result.error.errors[0].message });
+    }
+
+    try {
+      const influencerProfile = await getInfluencerProfile(req, res);
+      if (!influencerProfile) return;
+
+      res.json(await offerInvitationService.decline(influencerProfile, parseInt(req.params.id), result.data.reason));
+    } catch (error) {
+      sendError(res, error, "decline invitation");
+    }
+  });
+}
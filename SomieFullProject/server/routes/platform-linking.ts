@@ -0,0 +1,133 @@
+/**
+ * Social account ownership routes: OAuth linking and bio code verification
+ */
+import { Express } from "express";
+import { ensureAuthenticatedWithToken } from "../auth";
+import { storage } from "../storage";
+import { platformLinkingService, PlatformLinkError } from "../services/platform-linking";
+import { getPlatform } from "@shared/platforms";
+
+const callbackUrl = (req: any, platform: string) =>
+  `${req.protocol}://${req.get("host")}/api/auth/callback/${platform}`;
+
+// The OAuth window reports back to the page that opened it, then closes
+const popupResponse = (req: any, message: Record<string, unknown>) => `
+  <script>
+    if (window.opener) {
+      window.opener.postMessage(${JSON.stringify(message).replace(/</g, "\\u003c")}, ${JSON.stringify(`${req.protocol}://${req.get("host")}`)});
+      window.close();
+    } else {
+      window.location.replace("/dashboard");
+    }
+  </script>
+`;
+
+// The caller's own platform, or a response has already been sent
+async function findOwnPlatform(req: any, res: any) {
+  const profile = await storage.getInfluencerProfileByUserId(req.user.id);
+  const platform = await storage.getSocialPlatformById(parseInt(req.params.id));
+  if (!profile || !platform || platform.influencerId !== profile.id) {
+    res.status(404).json({ message: "Social platform not found or unauthorized" });
+    return null;
+  }
+  return platform;
+}
+
+export function registerPlatformLinkingRoutes(app: Express) {
+  // Which platforms can be linked with OAuth on this deployment
+  app.get("/api/social-platforms/link-options", ensureAuthenticatedWithToken, async (_req: any, res: any) => {
+    res.json(platformLinkingService.getLinkOptions());
+  });
+
+  app.post("/api/social-platforms/oauth/:platform/start", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    const definition = getPlatform(req.params.platform);
+    if (!definition) {
+      return res.status(404).json({ message: `Unsupported platform: ${req.params.platform}` });
+    }
+
+    try {
+      const authorizeUrl = await platformLinkingService.startOAuthLink(req.user.id, definition.id, callbackUrl(req, definition.id));
+      res.json({ authorizeUrl });
+    } catch (error) {
+      if (error instanceof PlatformLinkError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error starting account link:', error);
+      res.status(500).json({ message: "Failed to start account linking" });
+    }
+  });
+
+  // The state parameter identifies the user, so this works from a popup without a token
+  app.get("/api/auth/callback/:platform", async (req: any, res: any) => {
+    const platform = req.params.platform;
+    const { code, state, error, error_description } = req.query;
+
+    if (error || !code || !state) {
+      return res.send(popupResponse(req, {
+        type: "PLATFORM_LINK_ERROR",
+        platform,
+        error: error_description || (error ? "Access was not granted" : "No authorization code provided")
+      }));
+    }
+
+    try {
+      const linked = await platformLinkingService.completeOAuthLink(
+        platform,
+        String(code),
+        String(state),
+        req.isAuthenticated?.() ? req.user.id : undefined
+      );
+      res.send(popupResponse(req, { type: "PLATFORM_LINK_SUCCESS", platform: linked.platform, handle: linked.handle }));
+    } catch (linkError) {
+      console.error(`Error linking ${platform} account:`, linkError);
+      res.send(popupResponse(req, {
+        type: "PLATFORM_LINK_ERROR",
+        platform,
+        error: linkError instanceof PlatformLinkError ? linkError.message : `Failed to link your ${platform} account`
+      }));
+    }
+  });
+
+  app.delete("/api/social-platforms/:id/link", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const platform = await findOwnPlatform(req, res);
+      if (!platform) return;
+
+      res.json(await platformLinkingService.unlink(platform));
+    } catch (error) {
+      console.error('Error unlinking social platform:', error);
+      res.status(500).json({ message: "Failed to unlink account" });
+    }
+  });
+
+  // Issue (or reissue) the code to place in the bio
+  app.post("/api/social-platforms/:id/bio-code", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const platform = await findOwnPlatform(req, res);
+      if (!platform) return;
+      if (platform.isVerified) {
+        return res.status(400).json({ message: "This account is already verified" });
+      }
+
+      res.json(await platformLinkingService.issueBioCode(platform));
+    } catch (error) {
+      console.error('Error issuing bio code:', error);
+      res.status(500).json({ message: "Failed to create a verification code" });
+    }
+  });
+
+  app.post("/api/social-platforms/:id/bio-code/verify", ensureAuthenticatedWithToken, async (req: any, res: any) => {
+    try {
+      const platform = await findOwnPlatform(req, res);
+      if (!platform) return;
+
+      res.json(await platformLinkingService.verifyBioCode(platform));
+    } catch (error) {
+      if (error instanceof PlatformLinkError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error verifying bio code:', error);
+      res.status(500).json({ message: "Failed to check your bio" });
+    }
+  });
+}
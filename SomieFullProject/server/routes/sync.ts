@@ -1,5 +1,6 @@
 import { Request, Response, Router } from 'express';
 import { storage } from '../storage';
+import { platformLinkingService } from '../services/platform-linking';
 import { ensureAuthenticated } from '../auth';
 
 // Create a router to handle sync routes
@@ -46,7 +47,8 @@ router.get('/', ensureAuthenticated, async (req: Request, res: Response) => {
         syncData.influencerProfile = influencerProfile;
         
         // Get social platforms
-        syncData.socialPlatforms = await storage.getSocialPlatformsByInfluencerId(influencerProfile.id);
+        syncData.socialPlatforms = (await storage.getSocialPlatformsByInfluencerId(influencerProfile.id))
+          .map(platform => platformLinkingService.toPublic(platform));
         
         // Get matching offers
         syncData.offers = await storage.getMatchingOffers(influencerProfile);
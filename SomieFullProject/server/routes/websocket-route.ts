@@ -3,6 +3,7 @@ import { Express } from 'express';
 import { WebSocketServer, WebSocket } from 'ws';
 import { validateAuthToken } from '../auth';
 import { storage } from '../storage';
+import { platformLinkingService } from '../services/platform-linking';
 
 // Client connection tracking
 interface Client {
@@ -379,7 +380,8 @@ export function registerWebSocketRoute(app: Express, server: http.Server) {
                   syncData.influencerProfile = influencerProfile;
                   
                   // Get social platforms
-                  syncData.socialPlatforms = await storage.getSocialPlatformsByInfluencerId(influencerProfile.id);
+                  syncData.socialPlatforms = (await storage.getSocialPlatformsByInfluencerId(influencerProfile.id))
+                    .map(platform => platformLinkingService.toPublic(platform));
                   
                   // Get matching offers
                   syncData.offers = await storage.getMatchingOffers(influencerProfile);
@@ -0,0 +1,103 @@
+/**
+ * Service for calling the configured LLM provider
+ *
+ * Wraps each provider call with usage accounting: tokens, cost and duration
+ * are recorded for every call, failed ones included, so AI spend can be
+ * reviewed per provider and task from the admin API.
+ */
+
+import { storage, AIUsageSummaryRow } from "../storage";
+import { AIProvider, AIRequest, aiProvider } from "./ai-provider";
+
+export interface AIUsageSummary {
+  provider: string;
+  since: Date;
+  totals: { calls: number; promptTokens: number; completionTokens: number; costUsd: number };
+  breakdown: AIUsageSummaryRow[];
+}
+
+export class AIService {
+  constructor(private provider: AIProvider = aiProvider) {}
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Send a request to the provider and parse its JSON response
+   *
+   * @param request The task, prompts and structured context
+   * @returns The parsed response object
+   * @throws Error if the provider call fails or returns invalid JSON
+   */
+  async completeJSON<T = Record<string, unknown>>(request: AIRequest): Promise<T> {
+    const startedAt = Date.now();
+
+    try {
+      const response = await this.provider.complete(request);
+      const parsed = JSON.parse(response.content);
+
+      await this.recordUsage(request, {
+        model: response.model,
+        promptTokens: response.promptTokens,
+        completionTokens: response.completionTokens,
+        durationMs: Date.now() - startedAt,
+        error: null
+      });
+      return parsed as T;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.recordUsage(request, {
+        model: this.provider.model,
+        promptTokens: 0,
+        completionTokens: 0,
+        durationMs: Date.now() - startedAt,
+        error: message
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Summarize AI usage over the last few days
+   *
+   * @param days Number of days to include
+   */
+  async getUsageSummary(days: number = 30): Promise<AIUsageSummary> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const breakdown = await storage.getAIUsageSummary(since);
+
+    const totals = breakdown.reduce((sum, row) => ({
+      calls: sum.calls + row.calls,
+      promptTokens: sum.promptTokens + row.promptTokens,
+      completionTokens: sum.completionTokens + row.completionTokens,
+      costUsd: sum.costUsd + row.costUsd
+    }), { calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 });
+
+    return { provider: this.provider.name, since, totals, breakdown };
+  }
+
+  // Accounting must never fail the call it is recording
+  private async recordUsage(
+    request: AIRequest,
+    usage: { model: string; promptTokens: number; completionTokens: number; durationMs: number; error: string | null }
+  ): Promise<void> {
+    try {
+      await storage.createAIUsage({
+        provider: this.provider.name,
+        model: usage.model,
+        task: request.task,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        costUsd: this.provider.getCost(usage.promptTokens, usage.completionTokens).toFixed(6),
+        durationMs: usage.durationMs,
+        success: usage.error === null,
+        error: usage.error
+      });
+    } catch (error) {
+      console.error('Failed to record AI usage:', error);
+    }
+  }
+}
+
+export const aiService = new AIService();
@@ -0,0 +1,188 @@
+/**
+ * Service for application-mode offers
+ *
+ * Influencers apply with a pitch instead of claiming instantly. The business
+ * compares applicants using their match score breakdown and accepts or
+ * rejects each one; accepting funds the escrow hold and takes one of the
+ * offer's creator slots.
+ */
+
+import { InfluencerProfile, Offer, OfferClaim } from "../../shared/schema";
+import { ACCEPTED_CLAIM_STATUSES } from "../../shared/claim-lifecycle";
+import { storage } from "../storage";
+import { matchingService, MatchScore } from "./matching";
+import { embeddingService } from "./embeddings";
+import { escrowService, EscrowError } from "./escrow";
+import { claimLifecycleService, ClaimActor, ClaimTransitionError, SYSTEM_ACTOR } from "./claim-lifecycle";
+import { sendNotificationToUser } from "../websocket";
+
+export interface Applicant {
+  claim: OfferClaim;
+  influencer: InfluencerProfile;
+  match: MatchScore;
+}
+
+export interface ApplicantReview {
+  offerId: number;
+  claimMode: string;
+  maxAcceptedCreators: number | null;
+  acceptedCount: number;
+  remainingSlots: number | null;
+  applicants: Applicant[];
+}
+
+export class ApplicationService {
+  /**
+   * Submit an application for an application-mode offer
+   *
+   * @param offer The offer being applied to
+   * @param influencer The applying influencer
+   * @param userId The influencer's user ID, recorded on the claim event
+   * @param pitch Why the influencer is a good fit
+   * @returns The new claim in the applied state
+   * @throws ClaimTransitionError if the offer stopped accepting applications
+   */
+  async apply(offer: Offer, influencer: InfluencerProfile, userId: number, pitch: string): Promise<OfferClaim> {
+    const claim = await storage.createOfferClaim({
+      offerId: offer.id,
+      influencerId: influencer.id,
+      status: 'applied',
+      pitch,
+      flaggedAt: null,
+      flagReason: null,
+      disclosureStatus: 'pending',
+      disclosureOverrideReason: null,
+      disclosureOverriddenAt: null,
+      disclosureOverriddenBy: null,
+      completedAt: null,
+      createdAt: new Date(),
+      isTest: false
+    }, {
+      actorType: 'influencer',
+      actorUserId: userId,
+      reason: null
+    });
+
+    if (!claim) {
+      throw new ClaimTransitionError('This offer is no longer accepting applications', 409);
+    }
+
+    await storage.createNotification({
+      businessId: offer.businessId,
+      title: "New Application",
+      message: `${influencer.displayName} applied to your offer "${offer.title}"`,
+      type: "offer_application",
+      read: false,
+      relatedOfferId: offer.id,
+      relatedInfluencerId: influencer.id,
+      createdAt: new Date(),
+    });
+
+    return claim;
+  }
+
+  /**
+   * List an offer's applicants with their match breakdowns, best matches first
+   *
+   * @param offer The offer under review
+   * @returns Applicants plus the offer's remaining creator slots
+   */
+  async getApplicantReview(offer: Offer): Promise<ApplicantReview> {
+    const claims = await storage.getClaimsByOfferId(offer.id);
+    const matchingProfile = await matchingService.getProfile();
+    const similarities = await embeddingService.getInfluencerSimilarities(offer, claims.map(claim => claim.influencerId));
+
+    const applicants: Applicant[] = [];
+    for (const claim of claims) {
+      const influencer = await storage.getInfluencerProfileById(claim.influencerId);
+      if (!influencer) continue;
+      applicants.push({
+        claim,
+        influencer,
+        match: matchingService.calculateMatchScore(influencer, offer, matchingProfile, similarities.get(influencer.id))
+      });
+    }
+
+    // Pending applications first, then everyone else; best matches first within each group
+    applicants.sort((a, b) => {
+      const pendingOrder = Number(b.claim.status === 'applied') - Number(a.claim.status === 'applied');
+      return pendingOrder !== 0 ? pendingOrder : b.match.score - a.match.score;
+    });
+
+    const acceptedCount = claims.filter(claim => ACCEPTED_CLAIM_STATUSES.includes(claim.status)).length;
+
+    return {
+      offerId: offer.id,
+      claimMode: offer.claimMode,
+      maxAcceptedCreators: offer.maxAcceptedCreators,
+      acceptedCount,
+      remainingSlots: offer.maxAcceptedCreators ? Math.max(0, offer.maxAcceptedCreators - acceptedCount) : null,
+      applicants
+    };
+  }
+
+  /**
+   * Accept an applicant and fund their escrow hold
+   * If the business cannot fund the hold the claim is cancelled again.
+   *
+   * @throws ClaimTransitionError if the claim cannot be accepted
+   */
+  async accept(claimId: number, actor: ClaimActor, reason?: string): Promise<OfferClaim> {
+    const claim = await claimLifecycleService.transition(claimId, 'accepted', actor, reason);
+    const offer = await storage.getOfferById(claim.offerId);
+    if (!offer) {
+      throw new ClaimTransitionError('Offer not found', 404);
+    }
+
+    try {
+      await escrowService.fundClaim(claim, offer);
+    } catch (error) {
+      if (error instanceof EscrowError) {
+        await claimLifecycleService.transition(claim.id, 'cancelled', SYSTEM_ACTOR, error.message);
+        throw new ClaimTransitionError('The offer could not be funded right now', 402);
+      }
+      throw error;
+    }
+
+    await this.notifyInfluencer(claim, offer, 'application_accepted',
+      `Your application for "${offer.title}" was accepted`, reason);
+    return claim;
+  }
+
+  /**
+   * Reject an applicant
+   *
+   * @throws ClaimTransitionError if the claim cannot be rejected
+   */
+  async reject(claimId: number, actor: ClaimActor, reason: string): Promise<OfferClaim> {
+    const claim = await claimLifecycleService.transition(claimId, 'rejected', actor, reason);
+    const offer = await storage.getOfferById(claim.offerId);
+    if (offer) {
+      await this.notifyInfluencer(claim, offer, 'application_rejected',
+        `Your application for "${offer.title}" was not accepted`, reason);
+    }
+    return claim;
+  }
+
+  private async notifyInfluencer(
+    claim: OfferClaim,
+    offer: Offer,
+    type: string,
+    message: string,
+    reason?: string
+  ): Promise<void> {
+    const influencer = await storage.getInfluencerProfileById(claim.influencerId);
+    if (!influencer) return;
+
+    sendNotificationToUser(influencer.userId, {
+      type,
+      title: offer.title,
+      message,
+      reason: reason || null,
+      claimId: claim.id,
+      offerId: offer.id
+    });
+  }
+}
+
+export const applicationService = new ApplicationService();
@@ -0,0 +1,259 @@
+/**
+ * Service for campaigns and their budget pacing
+ *
+ * A campaign's spend is the escrow committed on its offers: holds still
+ * waiting on creators plus holds already released to them. Every new or
+ * resized hold is checked against the budget when it is funded, so the cap is
+ * never overrun. Pacing runs on a schedule and whenever a campaign or its
+ * offers change. It keeps the campaign's offers paused outside its start and
+ * end dates, and pauses them once spend reaches the pacing threshold or an
+ * offer's next hold would no longer fit in what is left, reopening them if
+ * refunds free the budget up again.
+ */
+
+import { BusinessProfile, Campaign, Offer } from "../../shared/schema";
+import {
+  CAMPAIGN_KPI_METRICS,
+  CAMPAIGN_OBJECTIVES,
+  getPacingStatus,
+  type CampaignInput,
+  type CampaignRollup
+} from "../../shared/campaigns";
+import { storage } from "../storage";
+import { escrowService } from "./escrow";
+
+export class CampaignError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CampaignError';
+  }
+}
+
+export interface PacingResult {
+  paused: number;
+  resumed: number;
+}
+
+export class CampaignService {
+  /**
+   * Every campaign the business runs, with spend and KPI progress
+   */
+  async getCampaigns(business: BusinessProfile): Promise<CampaignRollup[]> {
+    const campaignList = await storage.getCampaignsByBusinessId(business.id);
+    return await this.buildRollups(campaignList);
+  }
+
+  async createCampaign(business: BusinessProfile, input: CampaignInput): Promise<CampaignRollup> {
+    const campaign = await storage.createCampaign({
+      businessId: business.id,
+      name: input.name,
+      description: input.description ?? null,
+      objective: input.objective,
+      budget: input.budget,
+      pacingThreshold: input.pacingThreshold,
+      startsAt: input.startsAt,
+      endsAt: input.endsAt,
+      kpiTargets: input.kpiTargets
+    });
+    return await this.getRollup(campaign);
+  }
+
+  /**
+   * Update a campaign; a changed budget or threshold takes effect on its offers straight away
+   */
+  async updateCampaign(business: BusinessProfile, campaignId: number, input: CampaignInput): Promise<CampaignRollup> {
+    await this.getOwnedCampaign(business, campaignId);
+    const updated = await storage.updateCampaign(campaignId, {
+      name: input.name,
+      description: input.description ?? null,
+      objective: input.objective,
+      budget: input.budget,
+      pacingThreshold: input.pacingThreshold,
+      startsAt: input.startsAt,
+      endsAt: input.endsAt,
+      kpiTargets: input.kpiTargets
+    });
+    if (!updated) {
+      throw new CampaignError('Campaign not found', 404);
+    }
+
+    await this.paceCampaign(updated);
+    return await this.getRollup(updated);
+  }
+
+  /**
+   * Delete a campaign; its offers carry on as standalone offers
+   */
+  async deleteCampaign(business: BusinessProfile, campaignId: number): Promise<void> {
+    await this.getOwnedCampaign(business, campaignId);
+    await storage.deleteCampaign(campaignId);
+  }
+
+  /**
+   * Move one of the business's offers into a campaign
+   *
+   * @throws CampaignError if the offer already belongs to a different campaign
+   */
+  async addOffer(business: BusinessProfile, campaignId: number, offerId: number): Promise<CampaignRollup> {
+    const campaign = await this.getOwnedCampaign(business, campaignId);
+    const offer = await this.getOwnedOffer(business, offerId);
+    if (offer.campaignId === campaign.id) {
+      return await this.getRollup(campaign);
+    }
+    if (offer.campaignId !== null) {
+      throw new CampaignError('This offer is already part of another campaign', 409);
+    }
+
+    await storage.setOfferCampaign(offer.id, campaign.id);
+    await this.paceCampaign(campaign);
+    return await this.getRollup(campaign);
+  }
+
+  async removeOffer(business: BusinessProfile, campaignId: number, offerId: number): Promise<CampaignRollup> {
+    const campaign = await this.getOwnedCampaign(business, campaignId);
+    const offer = await this.getOwnedOffer(business, offerId);
+    if (offer.campaignId !== campaign.id) {
+      throw new CampaignError('This offer is not part of the campaign', 404);
+    }
+
+    await storage.setOfferCampaign(offer.id, null);
+    return await this.getRollup(campaign);
+  }
+
+  /**
+   * Pause or reopen a campaign's offers according to its dates and spend
+   *
+   * @param now Reference time (defaults to the current time)
+   * @returns How many offers were paused and reopened
+   */
+  async paceCampaign(campaign: Campaign, now: Date = new Date()): Promise<PacingResult> {
+    const campaignOffers = await storage.getOffersByCampaignIds([campaign.id]);
+    const spend = await storage.getEscrowSpendByOfferIds(campaignOffers.map(offer => offer.id));
+    const spent = spend.reduce((sum, row) => sum + row.held + row.released, 0);
+    const remaining = campaign.budget * 100 - spent;
+    const overThreshold = getPacingStatus(spent, campaign.budget, campaign.pacingThreshold) !== 'on_track';
+    const running = campaign.startsAt <= now && now < campaign.endsAt;
+    const result: PacingResult = { paused: 0, resumed: 0 };
+
+    for (const offer of campaignOffers) {
+      // The next creator on this offer has to be fundable from what is left
+      const fits = (escrowService.getHoldAmount(offer) ?? 0) <= remaining;
+      const shouldRun = running && !overThreshold && fits;
+
+      if (offer.status === 'active' && !shouldRun) {
+        if (await storage.updateOfferStatus(offer.id, 'active', 'paused')) result.paused++;
+      } else if (offer.status === 'paused' && shouldRun) {
+        if (await storage.updateOfferStatus(offer.id, 'paused', 'active')) result.resumed++;
+      }
+    }
+
+    // Offers paused for the campaign's dates are expected, so only budget pauses are announced
+    if (result.paused > 0 && running) {
+      const percentUsed = Math.round(spent / (campaign.budget * 100) * 100);
+      await storage.createNotification({
+        businessId: campaign.businessId,
+        title: "Campaign Budget Almost Spent",
+        message: `"${campaign.name}" has used ${percentUsed}% of its budget, so ${result.paused} offer${result.paused === 1 ? ' was' : 's were'} paused`,
+        type: 'campaign_paced',
+        read: false,
+        relatedOfferId: null,
+        relatedInfluencerId: null,
+        createdAt: new Date(),
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Pace every campaign with offers that are open or paused
+   *
+   * @returns Number of offers whose status changed
+   */
+  async paceCampaigns(): Promise<number> {
+    const pacedCampaigns = await storage.getPacedCampaigns();
+    let changed = 0;
+
+    for (const campaign of pacedCampaigns) {
+      try {
+        const { paused, resumed } = await this.paceCampaign(campaign);
+        changed += paused + resumed;
+      } catch (error) {
+        console.error(`Error pacing campaign ${campaign.id}:`, error);
+      }
+    }
+
+    if (changed > 0) {
+      console.log(`Campaign pacing paused or reopened ${changed} offers`);
+    }
+    return changed;
+  }
+
+  private async getRollup(campaign: Campaign): Promise<CampaignRollup> {
+    const [rollup] = await this.buildRollups([campaign]);
+    return rollup;
+  }
+
+  private async buildRollups(campaignList: Campaign[]): Promise<CampaignRollup[]> {
+    const campaignIds = campaignList.map(campaign => campaign.id);
+    const campaignOffers = await storage.getOffersByCampaignIds(campaignIds);
+    const spend = await storage.getEscrowSpendByOfferIds(campaignOffers.map(offer => offer.id));
+    const actuals = await storage.getCampaignKpiActuals(campaignIds);
+
+    return campaignList.map(campaign => {
+      const offerList = campaignOffers.filter(offer => offer.campaignId === campaign.id);
+      const offerSpend = offerList.map(offer => spend.find(row => row.offerId === offer.id) ?? { held: 0, released: 0 });
+      const held = offerSpend.reduce((sum, row) => sum + row.held, 0);
+      const released = offerSpend.reduce((sum, row) => sum + row.released, 0);
+      const total = held + released;
+      const actual = actuals.find(row => row.campaignId === campaign.id) ?? { creators: 0, reach: 0, posts: 0 };
+
+      return {
+        id: campaign.id,
+        name: campaign.name,
+        description: campaign.description,
+        objectiveId: campaign.objective,
+        objective: CAMPAIGN_OBJECTIVES[campaign.objective],
+        startsAt: campaign.startsAt.toISOString(),
+        endsAt: campaign.endsAt.toISOString(),
+        budget: campaign.budget,
+        pacingThreshold: campaign.pacingThreshold,
+        spend: {
+          held,
+          released,
+          total,
+          remaining: Math.max(0, campaign.budget * 100 - total)
+        },
+        pacingStatus: getPacingStatus(total, campaign.budget, campaign.pacingThreshold),
+        offers: offerList.map((offer, index) => ({
+          id: offer.id,
+          title: offer.title,
+          status: offer.status,
+          spent: offerSpend[index].held + offerSpend[index].released
+        })),
+        kpis: CAMPAIGN_KPI_METRICS.map(metric => ({
+          metric,
+          target: campaign.kpiTargets[metric] ?? null,
+          actual: actual[metric]
+        }))
+      };
+    });
+  }
+
+  private async getOwnedCampaign(business: BusinessProfile, campaignId: number): Promise<Campaign> {
+    const campaign = await storage.getCampaignById(campaignId);
+    if (!campaign || campaign.businessId !== business.id) {
+      throw new CampaignError('Campaign not found', 404);
+    }
+    return campaign;
+  }
+
+  private async getOwnedOffer(business: BusinessProfile, offerId: number): Promise<Offer> {
+    const offer = await storage.getOfferById(offerId);
+    if (!offer || offer.businessId !== business.id) {
+      throw new CampaignError('Offer not found', 404);
+    }
+    return offer;
+  }
+}
+
+export const campaignService = new CampaignService();
@@ -0,0 +1,210 @@
+/**
+ * Service for moving offer claims through their lifecycle
+ *
+ * All claim status changes go through here so the state machine in
+ * shared/claim-lifecycle.ts is enforced and every change lands in the
+ * claim_events audit trail.
+ */
+
+import { ClaimEvent, OfferClaim, User } from "../../shared/schema";
+import {
+  ACCEPTED_CLAIM_STATUSES,
+  ClaimActorType,
+  ClaimStatus,
+  CLAIM_TRANSITIONS,
+  canTransitionClaim,
+  getAllowedClaimTransitions
+} from "../../shared/claim-lifecycle";
+import { CLEARED_DISCLOSURE_STATUSES } from "../../shared/disclosure-compliance";
+import { storage, ClaimCapacity } from "../storage";
+
+export class ClaimTransitionError extends Error {
+  constructor(message: string, public status: number = 409) {
+    super(message);
+    this.name = 'ClaimTransitionError';
+  }
+}
+
+export interface ClaimActor {
+  type: ClaimActorType;
+  userId: number | null;
+}
+
+export const SYSTEM_ACTOR: ClaimActor = { type: 'system', userId: null };
+
+export interface ClaimTimeline {
+  claimId: number;
+  status: ClaimStatus;
+  allowedTransitions: ClaimStatus[];
+  events: ClaimEvent[];
+}
+
+export class ClaimLifecycleService {
+  /**
+   * Work out how a user relates to a claim
+   *
+   * @param user The authenticated user
+   * @param claim The claim being acted on
+   * @returns The actor, or undefined if the user has no part in the claim
+   */
+  async resolveActor(user: User, claim: OfferClaim): Promise<ClaimActor | undefined> {
+    if (user.role === 'admin' || user.role === 'super_admin') {
+      return { type: 'admin', userId: user.id };
+    }
+
+    const influencerProfile = await storage.getInfluencerProfileByUserId(user.id);
+    if (influencerProfile && influencerProfile.id === claim.influencerId) {
+      return { type: 'influencer', userId: user.id };
+    }
+
+    const businessProfile = await storage.getBusinessProfileByUserId(user.id);
+    if (businessProfile) {
+      const offer = await storage.getOfferById(claim.offerId);
+      if (offer && offer.businessId === businessProfile.id) {
+        return { type: 'business', userId: user.id };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Move a claim to a new status
+   *
+   * @param claimId The claim to update
+   * @param toStatus The requested status
+   * @param actor Who is making the change
+   * @param reason Optional explanation stored with the event
+   * @returns The updated claim
+   * @throws ClaimTransitionError if the transition is not allowed
+   */
+  async transition(
+    claimId: number,
+    toStatus: ClaimStatus,
+    actor: ClaimActor,
+    reason?: string
+  ): Promise<OfferClaim> {
+    const claim = await storage.getOfferClaimById(claimId);
+    if (!claim) {
+      throw new ClaimTransitionError('Claim not found', 404);
+    }
+
+    if (!CLAIM_TRANSITIONS[claim.status][toStatus]) {
+      throw new ClaimTransitionError(`A ${claim.status} claim cannot be moved to ${toStatus}`);
+    }
+    if (!canTransitionClaim(claim.status, toStatus, actor.type)) {
+      throw new ClaimTransitionError(`A ${actor.type} cannot move this claim to ${toStatus}`, 403);
+    }
+    // The brand is liable for undisclosed sponsorships, so completion waits on the check
+    if (toStatus === 'completed' && !CLEARED_DISCLOSURE_STATUSES.includes(claim.disclosureStatus)) {
+      throw new ClaimTransitionError(claim.disclosureStatus === 'failed'
+        ? 'The post does not disclose the sponsorship. The creator needs to fix it, or the business can override the check with a reason.'
+        : 'The post has not passed the sponsorship disclosure check yet. The business can override the check with a reason.');
+    }
+
+    // Accepting a creator takes one of the offer's limited slots
+    const capacity = toStatus === 'accepted' ? await this.getAcceptanceCapacity(claim.offerId) : undefined;
+
+    const updated = await storage.transitionOfferClaimStatus(claimId, claim.status, {
+      toStatus,
+      actorType: actor.type,
+      actorUserId: actor.userId,
+      reason: reason || null
+    }, capacity);
+
+    if (!updated) {
+      if (capacity && await storage.countClaimsByOfferAndStatuses(capacity.offerId, capacity.statuses) >= capacity.limit) {
+        throw new ClaimTransitionError(`This offer already has its maximum of ${capacity.limit} accepted creators`);
+      }
+      throw new ClaimTransitionError('The claim was updated by someone else, please refresh and try again');
+    }
+    return updated;
+  }
+
+  /**
+   * Let the business approve a claim whose post failed the disclosure check
+   *
+   * @param claim The claim to approve
+   * @param actor Who is approving; only the business or an admin may
+   * @param reason Why the post is acceptable, kept on the claim for audit
+   * @returns The updated claim
+   * @throws ClaimTransitionError if the actor may not override or there is nothing to override
+   */
+  async overrideDisclosure(claim: OfferClaim, actor: ClaimActor, reason: string): Promise<OfferClaim> {
+    if (actor.type !== 'business' && actor.type !== 'admin') {
+      throw new ClaimTransitionError('Only the business can override the disclosure check', 403);
+    }
+    if (!actor.userId) {
+      throw new ClaimTransitionError('Overrides must be made by a signed-in user', 403);
+    }
+
+    const updated = await storage.overrideClaimDisclosure(claim.id, reason, actor.userId);
+    if (!updated) {
+      throw new ClaimTransitionError(`The disclosure check is already ${claim.disclosureStatus}`);
+    }
+    return updated;
+  }
+
+  /**
+   * Capacity limit for accepting creators onto an offer, if the offer has one
+   */
+  private async getAcceptanceCapacity(offerId: number): Promise<ClaimCapacity | undefined> {
+    const offer = await storage.getOfferById(offerId);
+    if (!offer || !offer.maxAcceptedCreators) return undefined;
+    return { offerId, statuses: ACCEPTED_CLAIM_STATUSES, limit: offer.maxAcceptedCreators };
+  }
+
+  /**
+   * When a claim's work is due under its agreed timeframe
+   * The clock starts when the claim was accepted, which for application-mode
+   * offers is later than when the creator applied. Expiry and the deadline
+   * shown to users both come from here.
+   *
+   * @param claim The claim
+   * @param timeframe Days allowed by the claim's deal terms
+   * @returns The deadline, or null while the claim is still an application
+   */
+  async getDeadline(claim: OfferClaim, timeframe: number): Promise<Date | null> {
+    const events = await storage.getClaimEventsByClaimId(claim.id);
+    const accepted = events.find(event => event.toStatus === 'accepted');
+    // Claims from before the timeline was recorded start when they were made
+    const start = accepted?.createdAt ?? (claim.status === 'applied' ? null : claim.createdAt);
+    if (!start) return null;
+
+    const deadline = new Date(start);
+    deadline.setDate(deadline.getDate() + timeframe);
+    return deadline;
+  }
+
+  /**
+   * Get a claim's status history along with the actions available to the viewer
+   *
+   * @param claim The claim
+   * @param actor The viewer, used to list the transitions they can make
+   */
+  async getTimeline(claim: OfferClaim, actor: ClaimActor): Promise<ClaimTimeline> {
+    const events = await storage.getClaimEventsByClaimId(claim.id);
+    return {
+      claimId: claim.id,
+      status: claim.status,
+      allowedTransitions: getAllowedClaimTransitions(claim.status, actor.type),
+      events
+    };
+  }
+
+  /**
+   * Rewrite free-text statuses from before the state machine existed
+   */
+  async migrateLegacyStatuses(): Promise<void> {
+    try {
+      const migrated = await storage.migrateLegacyClaimStatuses();
+      if (migrated > 0) {
+        console.log(`Migrated ${migrated} claims to the new lifecycle statuses`);
+      }
+    } catch (error) {
+      console.error('Error migrating legacy claim statuses:', error);
+    }
+  }
+}
+
+export const claimLifecycleService = new ClaimLifecycleService();
@@ -0,0 +1,234 @@
+/**
+ * Service for businesses' shortlists, creator notes and relationship history
+ *
+ * Every method takes the business acting and only touches its own lists and
+ * notes. Invitations to offers live in the offer invitation service.
+ */
+
+import { storage } from "../storage";
+import {
+  RECENT_MESSAGE_LIMIT,
+  type CreatorNotesInput,
+  type CreatorRelationship,
+  type CreatorSummary,
+  type ShortlistInput,
+  type ShortlistMemberView,
+  type ShortlistSummary
+} from "../../shared/creator-crm";
+import { isInvitationExpired } from "../../shared/offer-invitations";
+import { getAudienceMetrics } from "../../shared/platform-aggregate";
+import type {
+  BusinessProfile,
+  InfluencerProfile,
+  Shortlist
+} from "../../shared/schema";
+
+export class CreatorCrmError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CreatorCrmError';
+  }
+}
+
+const toIso = (date: Date | null) => date ? date.toISOString() : null;
+
+export class CreatorCrmService {
+  /**
+   * The business's shortlists, most recently changed first
+   */
+  async getShortlists(business: BusinessProfile): Promise<ShortlistSummary[]> {
+    const lists = await storage.getShortlistsByBusinessId(business.id);
+    const members = await storage.getShortlistMembers(lists.map(list => list.id));
+
+    return lists.map(list => ({
+      id: list.id,
+      name: list.name,
+      description: list.description,
+      influencerIds: members.filter(member => member.shortlistId === list.id).map(member => member.influencerId),
+      updatedAt: toIso(list.updatedAt)
+    }));
+  }
+
+  async createShortlist(business: BusinessProfile, input: ShortlistInput): Promise<Shortlist> {
+    await this.ensureNameAvailable(business, input.name);
+    return await storage.createShortlist({
+      businessId: business.id,
+      name: input.name,
+      description: input.description ?? null
+    });
+  }
+
+  async updateShortlist(business: BusinessProfile, shortlistId: number, input: ShortlistInput): Promise<Shortlist> {
+    const shortlist = await this.getOwnShortlist(business, shortlistId);
+    await this.ensureNameAvailable(business, input.name, shortlist.id);
+
+    const updated = await storage.updateShortlist(shortlist.id, {
+      name: input.name,
+      description: input.description ?? null
+    });
+    if (!updated) throw new CreatorCrmError('Shortlist not found', 404);
+    return updated;
+  }
+
+  async deleteShortlist(business: BusinessProfile, shortlistId: number): Promise<void> {
+    const shortlist = await this.getOwnShortlist(business, shortlistId);
+    await storage.deleteShortlist(shortlist.id);
+  }
+
+  /**
+   * Creators on a shortlist with the business's tags and rating for each
+   */
+  async getShortlistMembers(business: BusinessProfile, shortlistId: number): Promise<ShortlistMemberView[]> {
+    const shortlist = await this.getOwnShortlist(business, shortlistId);
+    const members = await storage.getShortlistMembers([shortlist.id]);
+    const influencerIds = members.map(member => member.influencerId);
+
+    const [profiles, notes] = await Promise.all([
+      storage.getInfluencerProfilesByIds(influencerIds),
+      storage.getCreatorNotesByInfluencerIds(business.id, influencerIds)
+    ]);
+
+    return members.flatMap(member => {
+      const profile = profiles.find(candidate => candidate.id === member.influencerId);
+      if (!profile) return [];
+      const note = notes.find(candidate => candidate.influencerId === member.influencerId);
+      return [{
+        creator: this.toCreatorSummary(profile),
+        tags: note?.tags ?? [],
+        rating: note?.rating ?? null,
+        addedAt: toIso(member.addedAt)
+      }];
+    });
+  }
+
+  async addToShortlist(business: BusinessProfile, shortlistId: number, influencerId: number): Promise<void> {
+    const shortlist = await this.getOwnShortlist(business, shortlistId);
+    await this.getCreator(influencerId);
+    await storage.addShortlistMember(shortlist.id, influencerId);
+  }
+
+  async removeFromShortlist(business: BusinessProfile, shortlistId: number, influencerId: number): Promise<void> {
+    const shortlist = await this.getOwnShortlist(business, shortlistId);
+    await storage.removeShortlistMember(shortlist.id, influencerId);
+  }
+
+  /**
+   * Save notes, tags or a rating for a creator; fields left out keep their value
+   */
+  async saveNotes(business: BusinessProfile, influencerId: number, input: CreatorNotesInput) {
+    await this.getCreator(influencerId);
+    const existing = await storage.getCreatorNote(business.id, influencerId);
+
+    return await storage.upsertCreatorNote({
+      businessId: business.id,
+      influencerId,
+      notes: input.notes !== undefined ? input.notes : existing?.notes ?? null,
+      tags: input.tags ?? existing?.tags ?? [],
+      rating: input.rating !== undefined ? input.rating : existing?.rating ?? null
+    });
+  }
+
+  /**
+   * Everything the business has done with a creator: claims on its offers,
+   * messages on those claims, invitations, and its own notes and rating
+   */
+  async getRelationship(business: BusinessProfile, influencerId: number): Promise<CreatorRelationship> {
+    const profile = await this.getCreator(influencerId);
+
+    const [note, claims, invitations, lists] = await Promise.all([
+      storage.getCreatorNote(business.id, influencerId),
+      storage.getClaimsByBusinessAndInfluencer(business.id, influencerId),
+      storage.getOfferInvitationsByBusinessAndInfluencer(business.id, influencerId),
+      storage.getShortlistsByBusinessId(business.id)
+    ]);
+    const members = await storage.getShortlistMembers(lists.map(list => list.id));
+    const messages = await storage.getMessagesByClaimIds(claims.map(({ claim }) => claim.id));
+
+    const offerTitles = new Map(claims.map(({ claim, offer }) => [claim.id, offer.title]));
+
+    return {
+      creator: this.toCreatorSummary(profile),
+      notes: note?.notes ?? null,
+      tags: note?.tags ?? [],
+      rating: note?.rating ?? null,
+      shortlistIds: members
+        .filter(member => member.influencerId === influencerId)
+        .map(member => member.shortlistId),
+      claims: claims.map(({ claim, offer }) => {
+        const claimMessages = messages.filter(message => message.claimId === claim.id);
+        return {
+          claimId: claim.id,
+          offerId: offer.id,
+          offerTitle: offer.title,
+          status: claim.status,
+          createdAt: toIso(claim.createdAt),
+          completedAt: toIso(claim.completedAt),
+          messageCount: claimMessages.length,
+          // Messages come newest first
+          lastMessageAt: toIso(claimMessages[0]?.timestamp ?? null)
+        };
+      }),
+      recentMessages: messages.slice(0, RECENT_MESSAGE_LIMIT).map(message => ({
+        id: message.id,
+        claimId: message.claimId,
+        offerTitle: offerTitles.get(message.claimId) ?? '',
+        fromBusiness: message.senderId !== profile.userId,
+        content: message.content,
+        sentAt: toIso(message.timestamp)
+      })),
+      invitations: invitations.map(({ invitation, offer }) => ({
+        id: invitation.id,
+        offerId: offer.id,
+        offerTitle: offer.title,
+        status: isInvitationExpired(invitation) ? 'expired' : invitation.status,
+        createdAt: toIso(invitation.createdAt),
+        expiresAt: toIso(invitation.expiresAt)
+      })),
+      stats: {
+        totalClaims: claims.length,
+        completedClaims: claims.filter(({ claim }) => claim.status === 'completed').length,
+        totalMessages: messages.length
+      }
+    };
+  }
+
+  private async getOwnShortlist(business: BusinessProfile, shortlistId: number): Promise<Shortlist> {
+    const shortlist = await storage.getShortlistById(shortlistId);
+    if (!shortlist || shortlist.businessId !== business.id) {
+      throw new CreatorCrmError('Shortlist not found', 404);
+    }
+    return shortlist;
+  }
+
+  private async ensureNameAvailable(business: BusinessProfile, name: string, exceptId?: number): Promise<void> {
+    const lists = await storage.getShortlistsByBusinessId(business.id);
+    const taken = lists.some(list => list.id !== exceptId && list.name.toLowerCase() === name.toLowerCase());
+    if (taken) {
+      throw new CreatorCrmError('You already have a list with that name', 409);
+    }
+  }
+
+  private async getCreator(influencerId: number): Promise<InfluencerProfile> {
+    const profile = await storage.getInfluencerProfileById(influencerId);
+    if (!profile || profile.isTest) {
+      throw new CreatorCrmError('Influencer not found', 404);
+    }
+    return profile;
+  }
+
+  private toCreatorSummary(profile: InfluencerProfile): CreatorSummary {
+    const audience = getAudienceMetrics(profile);
+    return {
+      id: profile.id,
+      displayName: profile.displayName,
+      platform: profile.platform,
+      niche: profile.niche,
+      location: profile.location,
+      followerCount: audience.followers,
+      engagementRate: audience.engagementRate,
+      credibilityScore: profile.credibilityScore
+    };
+  }
+}
+
+export const creatorCrmService = new CreatorCrmService();
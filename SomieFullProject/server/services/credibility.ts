@@ -0,0 +1,69 @@
+/**
+ * Service for scoring influencer credibility from audience authenticity
+ *
+ * Runs after every metrics refresh, so the score moves with each new reading
+ * in the account's snapshot history. Flagged accounts are listed for admins.
+ */
+
+import { InfluencerProfile } from "../../shared/schema";
+import { assessAudienceAuthenticity } from "../../shared/audience-authenticity";
+import { storage } from "../storage";
+import { normalizeHandle } from "./social-metrics";
+
+// Snapshot history considered when looking for spikes and divergence
+const HISTORY_DAYS = 180;
+
+export interface MetricAccount {
+  platform: string;
+  handle: string;
+}
+
+export class CredibilityService {
+  /**
+   * Recompute and store an influencer's credibility score
+   *
+   * @param profile The influencer profile, with its current metrics
+   * @param account The account the metrics came from (defaults to the primary linked account)
+   * @returns The updated profile
+   */
+  async assessProfile(profile: InfluencerProfile, account?: MetricAccount | null): Promise<InfluencerProfile | undefined> {
+    const source = account ?? await this.getPrimaryAccount(profile);
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    const snapshots = source
+      ? await storage.getPlatformMetricSnapshots(source.platform.toLowerCase(), normalizeHandle(source.handle), since)
+      : [];
+    const latest = snapshots[snapshots.length - 1];
+
+    const assessment = assessAudienceAuthenticity({
+      followers: profile.followerCount,
+      engagementRate: Number(profile.engagementRate),
+      averageLikes: latest?.averageLikes ?? null,
+      averageComments: latest?.averageComments ?? null,
+      history: snapshots.map(snapshot => ({
+        capturedAt: snapshot.capturedAt,
+        followers: snapshot.followers,
+        engagementRate: Number(snapshot.engagementRate)
+      }))
+    });
+
+    return storage.updateInfluencerCredibility(profile.id, assessment, new Date());
+  }
+
+  /**
+   * Get influencer profiles flagged for a suspicious audience, lowest score first
+   */
+  async getFlaggedProfiles(limit: number = 100): Promise<InfluencerProfile[]> {
+    return storage.getFlaggedInfluencerProfiles(limit);
+  }
+
+  // The primary linked account, falling back to one on the profile's main platform
+  private async getPrimaryAccount(profile: InfluencerProfile): Promise<MetricAccount | null> {
+    const platforms = await storage.getSocialPlatformsByInfluencerId(profile.id);
+    const primary = platforms.find(platform => platform.isPrimary)
+      ?? platforms.find(platform => platform.platform.toLowerCase() === profile.platform.toLowerCase());
+
+    return primary ? { platform: primary.platform, handle: primary.handle } : null;
+  }
+}
+
+export const credibilityService = new CredibilityService();
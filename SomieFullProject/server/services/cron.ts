@@ -0,0 +1,119 @@
+/**
+ * Minimal five-field cron expression support for recurring jobs
+ *
+ * Fields are minute, hour, day of month, month and day of week. Each field
+ * accepts `*`, single values, ranges (`1-5`), steps (`*\/15`, `0-30/10`) and
+ * comma separated lists. Times are evaluated in the server's local time zone.
+ */
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron matches either day field when both are restricted
+  restrictedDayOfMonth: boolean;
+  restrictedDayOfWeek: boolean;
+}
+
+// Upper bound on the search for the next run, enough for any valid expression
+const MAX_SEARCH_STEPS = 366 * 24 * 60;
+
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [startText, endText] = range.split('-');
+      start = Number(startText);
+      end = endText === undefined ? (stepText === undefined ? start : max) : Number(endText);
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field "${part}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ *
+ * @throws Error if the expression is malformed
+ */
+export function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  // Sunday may be written as 0 or 7
+  const daysOfWeek = parseField(dayOfWeek, 0, 7);
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 1, 31),
+    months: parseField(month, 1, 12),
+    daysOfWeek,
+    restrictedDayOfMonth: dayOfMonth !== '*',
+    restrictedDayOfWeek: dayOfWeek !== '*'
+  };
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+  const dayOfMonth = fields.daysOfMonth.has(date.getDate());
+  const dayOfWeek = fields.daysOfWeek.has(date.getDay());
+
+  if (fields.restrictedDayOfMonth && fields.restrictedDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Get the first time after `after` that matches a cron expression
+ *
+ * @param expression Five-field cron expression
+ * @param after Reference time; the result is always strictly later
+ */
+export function getNextCronRun(expression: string, after: Date = new Date()): Date {
+  const fields = parseCron(expression);
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!fields.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(fields, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!fields.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!fields.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
@@ -0,0 +1,328 @@
+/**
+ * Service for negotiating a claim's deal terms
+ *
+ * The creator and the business take turns proposing changes to the reward,
+ * number of posts and timeframe. A proposal stays open until the other side
+ * accepts, declines or counters it, or its author withdraws it. Accepting
+ * records a new deal terms version and resizes any escrow hold to match.
+ * Both parties see the rate calculator's recommendation for the creator
+ * while they negotiate.
+ */
+
+import { DealProposal, DealTerms, Offer, OfferClaim } from "../../shared/schema";
+import {
+  NEGOTIABLE_CLAIM_STATUSES,
+  OPEN_PROPOSAL_STATUSES,
+  termsFromOffer,
+  type DealParty,
+  type DealProposalInput,
+  type DealProposalView,
+  type DealRateReference,
+  type DealTermsSnapshot,
+  type NegotiationView
+} from "../../shared/deal-terms";
+import { getAudienceMetrics } from "../../shared/platform-aggregate";
+import { storage } from "../storage";
+import { escrowService, EscrowError } from "./escrow";
+import { rateCalculatorService } from "./rate-calculator";
+import type { ClaimActor } from "./claim-lifecycle";
+import { sendNotificationToUser } from "../websocket";
+
+export class DealNegotiationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'DealNegotiationError';
+  }
+}
+
+const toIso = (date: Date | null) => date ? date.toISOString() : null;
+
+const otherParty = (party: DealParty): DealParty => party === 'influencer' ? 'business' : 'influencer';
+
+export class DealNegotiationService {
+  /**
+   * The terms a claim currently runs on
+   */
+  async getTerms(claim: OfferClaim, offer: Offer): Promise<DealTermsSnapshot> {
+    return (await storage.getCurrentDealTerms(claim.id)) ?? termsFromOffer(offer);
+  }
+
+  /**
+   * The claim's terms, proposal thread and rate reference
+   */
+  async getNegotiation(claim: OfferClaim): Promise<NegotiationView> {
+    const offer = await this.getOffer(claim);
+    const current = await storage.getCurrentDealTerms(claim.id);
+    const terms = current ?? termsFromOffer(offer);
+    const proposals = await storage.getDealProposalsByClaimId(claim.id);
+    const pending = proposals.find(proposal => OPEN_PROPOSAL_STATUSES.includes(proposal.status));
+
+    return {
+      claimId: claim.id,
+      terms: {
+        ...termsFromOffer(terms),
+        version: current?.version ?? 1,
+        agreedAt: toIso(current?.agreedAt ?? claim.createdAt)
+      },
+      proposals: proposals.map(proposal => this.toView(proposal)),
+      open: NEGOTIABLE_CLAIM_STATUSES.includes(claim.status),
+      awaitingResponseFrom: pending ? otherParty(pending.proposedBy) : null,
+      rateReference: await this.getRateReference(claim.influencerId, terms.postsRequired)
+    };
+  }
+
+  /**
+   * Propose new terms, countering the other side's open proposal if there is one
+   *
+   * @throws DealNegotiationError if the claim can no longer be negotiated or
+   * the actor already has a proposal waiting
+   */
+  async propose(claim: OfferClaim, actor: ClaimActor, input: DealProposalInput): Promise<DealProposal> {
+    const party = this.getParty(actor);
+    this.ensureNegotiable(claim);
+    const offer = await this.getOffer(claim);
+
+    if (input.rewardAmount !== undefined && offer.rewardType !== 'monetary') {
+      throw new DealNegotiationError('Only monetary rewards have an amount to negotiate');
+    }
+
+    const current = await this.getTerms(claim, offer);
+    const changed = (input.reward !== undefined && input.reward !== current.reward)
+      || (input.rewardAmount !== undefined && input.rewardAmount !== current.rewardAmount)
+      || (input.postsRequired !== undefined && input.postsRequired !== current.postsRequired)
+      || (input.timeframe !== undefined && input.timeframe !== current.timeframe);
+    if (!changed) {
+      throw new DealNegotiationError('These are already the agreed terms');
+    }
+
+    const proposals = await storage.getDealProposalsByClaimId(claim.id);
+    const pending = proposals.find(proposal => OPEN_PROPOSAL_STATUSES.includes(proposal.status));
+    if (pending && pending.proposedBy === party) {
+      throw new DealNegotiationError('Withdraw your open proposal before making a new one', 409);
+    }
+
+    const proposal = await storage.createDealProposal({
+      claimId: claim.id,
+      proposedBy: party,
+      proposedByUserId: actor.userId!,
+      reward: input.reward ?? null,
+      rewardAmount: input.rewardAmount ?? null,
+      postsRequired: input.postsRequired ?? null,
+      timeframe: input.timeframe ?? null,
+      note: input.note ?? null
+    }, pending?.id);
+    if (!proposal) {
+      throw new DealNegotiationError('The proposal you were answering has already been answered', 409);
+    }
+
+    await this.notify(claim, offer, otherParty(party), 'deal_proposal',
+      pending ? 'Counter-offer Received' : 'New Proposal',
+      `${pending ? 'A counter-offer was' : 'New terms were'} proposed for "${offer.title}"`);
+    return proposal;
+  }
+
+  /**
+   * Accept the other side's proposal, freezing it into the next terms version
+   *
+   * @throws DealNegotiationError if the proposal is not open or escrow cannot cover the new reward
+   */
+  async accept(claim: OfferClaim, actor: ClaimActor, proposalId: number): Promise<DealTerms> {
+    const party = this.getParty(actor);
+    this.ensureNegotiable(claim);
+    const proposal = await this.getOpenProposal(claim, proposalId);
+    if (proposal.proposedBy === party) {
+      throw new DealNegotiationError('You cannot accept your own proposal', 403);
+    }
+
+    const offer = await this.getOffer(claim);
+    const current = await this.getTerms(claim, offer);
+    const terms = this.applyProposal(current, proposal);
+
+    // Claim the proposal before touching escrow so a concurrent withdraw,
+    // decline or second accept cannot leave the hold sized for other terms
+    const claimed = await storage.updateDealProposalStatus(proposal.id, 'pending', 'accepting');
+    if (!claimed) {
+      throw new DealNegotiationError('This proposal has already been answered', 409);
+    }
+
+    // Escrow is settled next so agreed terms never outrun the money behind them
+    try {
+      await escrowService.resizeForTerms(claim.id, terms);
+    } catch (error) {
+      await storage.updateDealProposalStatus(proposal.id, 'accepting', 'pending');
+      if (error instanceof EscrowError) {
+        throw new DealNegotiationError('The business could not fund the new terms right now', 402);
+      }
+      throw error;
+    }
+
+    let agreed: DealTerms | undefined;
+    try {
+      agreed = await storage.acceptDealProposal(proposal.id, terms);
+    } catch (error) {
+      console.error(`Error recording terms for proposal ${proposal.id}:`, error);
+    }
+    if (!agreed) {
+      // Put the hold back on the terms still in force and reopen the proposal
+      await escrowService.resizeForTerms(claim.id, current).catch(error =>
+        console.error(`Error restoring escrow for claim ${claim.id}:`, error));
+      await storage.updateDealProposalStatus(proposal.id, 'accepting', 'pending');
+      throw new DealNegotiationError('The new terms could not be recorded, please try again', 500);
+    }
+
+    await this.notify(claim, offer, proposal.proposedBy, 'deal_proposal_accepted', 'Proposal Accepted',
+      `Your proposed terms for "${offer.title}" were accepted`);
+    return agreed;
+  }
+
+  /**
+   * Turn down the other side's proposal, leaving the current terms in place
+   */
+  async decline(claim: OfferClaim, actor: ClaimActor, proposalId: number): Promise<DealProposal> {
+    const party = this.getParty(actor);
+    const proposal = await this.getOpenProposal(claim, proposalId);
+    if (proposal.proposedBy === party) {
+      throw new DealNegotiationError('Withdraw your own proposal instead of declining it', 403);
+    }
+
+    const declined = await storage.respondToDealProposal(proposal.id, 'declined');
+    if (!declined) {
+      throw new DealNegotiationError('This proposal has already been answered', 409);
+    }
+
+    const offer = await this.getOffer(claim);
+    await this.notify(claim, offer, proposal.proposedBy, 'deal_proposal_declined', 'Proposal Declined',
+      `Your proposed terms for "${offer.title}" were declined`);
+    return declined;
+  }
+
+  /**
+   * Take back a proposal the other side has not answered yet
+   */
+  async withdraw(claim: OfferClaim, actor: ClaimActor, proposalId: number): Promise<DealProposal> {
+    const party = this.getParty(actor);
+    const proposal = await this.getOpenProposal(claim, proposalId);
+    if (proposal.proposedBy !== party) {
+      throw new DealNegotiationError('Only the party who made a proposal can withdraw it', 403);
+    }
+
+    const withdrawn = await storage.respondToDealProposal(proposal.id, 'withdrawn');
+    if (!withdrawn) {
+      throw new DealNegotiationError('This proposal has already been answered', 409);
+    }
+    return withdrawn;
+  }
+
+  private getParty(actor: ClaimActor): DealParty {
+    if (actor.type !== 'influencer' && actor.type !== 'business') {
+      throw new DealNegotiationError('Only the creator and the business can negotiate a deal', 403);
+    }
+    return actor.type;
+  }
+
+  private ensureNegotiable(claim: OfferClaim): void {
+    if (!NEGOTIABLE_CLAIM_STATUSES.includes(claim.status)) {
+      throw new DealNegotiationError('Terms can only be negotiated before work starts', 409);
+    }
+  }
+
+  private async getOffer(claim: OfferClaim): Promise<Offer> {
+    const offer = await storage.getOfferById(claim.offerId);
+    if (!offer) {
+      throw new DealNegotiationError('Offer not found', 404);
+    }
+    return offer;
+  }
+
+  private async getOpenProposal(claim: OfferClaim, proposalId: number): Promise<DealProposal> {
+    const proposal = await storage.getDealProposalById(proposalId);
+    if (!proposal || proposal.claimId !== claim.id) {
+      throw new DealNegotiationError('Proposal not found', 404);
+    }
+    if (proposal.status !== 'pending') {
+      throw new DealNegotiationError('This proposal has already been answered', 409);
+    }
+    return proposal;
+  }
+
+  // Terms left out of a proposal carry over unchanged
+  private applyProposal(current: DealTermsSnapshot, proposal: DealProposal): DealTermsSnapshot {
+    const rewardAmount = proposal.rewardAmount ?? current.rewardAmount;
+    return {
+      reward: proposal.reward ?? (proposal.rewardAmount !== null ? `$${rewardAmount}` : current.reward),
+      rewardType: current.rewardType,
+      rewardAmount,
+      postsRequired: proposal.postsRequired ?? current.postsRequired,
+      timeframe: proposal.timeframe ?? current.timeframe
+    };
+  }
+
+  private async getRateReference(influencerId: number, postsRequired: number): Promise<DealRateReference | null> {
+    const influencer = await storage.getInfluencerProfileById(influencerId);
+    if (!influencer) return null;
+
+    const { followers, engagementRate } = getAudienceMetrics(influencer);
+    if (followers <= 0 || engagementRate <= 0) return null;
+
+    const rate = rateCalculatorService.calculateRecommendedRate(
+      influencer.platform,
+      followers,
+      engagementRate,
+      influencer.niche ?? undefined
+    );
+    return {
+      platform: influencer.platform,
+      currency: rate.rateCurrency,
+      minRate: rate.minRate,
+      idealRate: rate.idealRate,
+      maxRate: rate.maxRate,
+      idealTotal: rate.idealRate * postsRequired
+    };
+  }
+
+  private toView(proposal: DealProposal): DealProposalView {
+    return {
+      id: proposal.id,
+      proposedBy: proposal.proposedBy,
+      status: proposal.status,
+      reward: proposal.reward,
+      rewardAmount: proposal.rewardAmount,
+      postsRequired: proposal.postsRequired,
+      timeframe: proposal.timeframe,
+      note: proposal.note,
+      createdAt: toIso(proposal.createdAt),
+      respondedAt: toIso(proposal.respondedAt)
+    };
+  }
+
+  // Businesses get a stored notification; creators are pushed one live
+  private async notify(
+    claim: OfferClaim,
+    offer: Offer,
+    recipient: DealParty,
+    type: string,
+    title: string,
+    message: string
+  ): Promise<void> {
+    if (recipient === 'business') {
+      await storage.createNotification({
+        businessId: offer.businessId,
+        title,
+        message,
+        type,
+        read: false,
+        relatedOfferId: offer.id,
+        relatedInfluencerId: claim.influencerId,
+        createdAt: new Date(),
+      });
+      return;
+    }
+
+    const influencer = await storage.getInfluencerProfileById(claim.influencerId);
+    if (influencer) {
+      sendNotificationToUser(influencer.userId, { type, title, message, claimId: claim.id, offerId: offer.id });
+    }
+  }
+}
+
+export const dealNegotiationService = new DealNegotiationService();
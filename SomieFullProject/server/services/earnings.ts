@@ -0,0 +1,422 @@
+/**
+ * Service for influencer earnings, statements and payouts
+ *
+ * Earnings are derived from the escrow ledger: held escrow is pending,
+ * released escrow is earned and sits in the influencer's balance account
+ * until it is withdrawn through a payout request.
+ */
+
+import { EscrowHold, PayoutRequest, LedgerEntry } from "../../shared/schema";
+import { storage } from "../storage";
+import { PaymentProvider, paymentProvider } from "./payment-provider";
+import { settingsService } from "./settings";
+import { renderTextPdf } from "./pdf-writer";
+
+const DEFAULT_CURRENCY = 'USD';
+const DEFAULT_MINIMUM_PAYOUT = 50; // USD, overridden by payouts.minimum_amount
+
+export class PayoutError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PayoutError';
+  }
+}
+
+/**
+ * Earnings for a single claim
+ */
+export interface ClaimEarning {
+  claimId: number;
+  offerId: number;
+  offerTitle: string;
+  amount: number;
+  status: 'pending' | 'earned' | 'refunded';
+  heldAt: string | null;
+  releasedAt: string | null;
+}
+
+/**
+ * Earnings totals for one calendar month (YYYY-MM)
+ */
+export interface MonthlyEarning {
+  month: string;
+  earned: number;
+  pending: number;
+  paid: number;
+}
+
+export interface EarningsSummary {
+  currency: string;
+  lifetime: number;
+  pending: number;
+  paid: number;
+  processing: number;
+  available: number;
+}
+
+export interface EarningsReport {
+  summary: EarningsSummary;
+  claims: ClaimEarning[];
+  months: MonthlyEarning[];
+}
+
+export interface StatementLine {
+  date: string;
+  description: string;
+  type: string;
+  amount: number;
+  balance: number;
+}
+
+export interface EarningsStatement {
+  influencerId: number;
+  month: string;
+  currency: string;
+  openingBalance: number;
+  closingBalance: number;
+  totalCredits: number;
+  totalDebits: number;
+  lines: StatementLine[];
+}
+
+function monthKey(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+function formatCents(amount: number): string {
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}${(Math.abs(amount) / 100).toFixed(2)}`;
+}
+
+function escapeCsv(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export class EarningsService {
+  constructor(private provider: PaymentProvider = paymentProvider) {}
+
+  /**
+   * Minimum payout amount in cents, configured through system settings
+   */
+  async getMinimumPayout(): Promise<number> {
+    const minimum = Number(await settingsService.get('payouts.minimum_amount', DEFAULT_MINIMUM_PAYOUT));
+    return Math.round((isNaN(minimum) ? DEFAULT_MINIMUM_PAYOUT : minimum) * 100);
+  }
+
+  /**
+   * Compute lifetime, pending and paid earnings per claim and per month
+   *
+   * @param influencerId The influencer profile ID
+   * @returns Earnings report with all amounts in cents
+   */
+  async getEarnings(influencerId: number): Promise<EarningsReport> {
+    const holds = await storage.getEscrowHoldsByInfluencerId(influencerId);
+    const releases = await storage.getEscrowReleasesByHoldIds(holds.map(hold => hold.id));
+    const payouts = await storage.getPayoutRequestsByInfluencerId(influencerId);
+    const balanceAccount = await storage.getOrCreateLedgerAccount('influencer', influencerId, 'balance', DEFAULT_CURRENCY);
+
+    const releaseByHold = new Map(releases.map(release => [release.holdId, release]));
+    const offerTitles = await this.getOfferTitles(holds);
+
+    const claims: ClaimEarning[] = holds.map(hold => {
+      const release = releaseByHold.get(hold.id);
+      return {
+        claimId: hold.claimId,
+        offerId: hold.offerId,
+        offerTitle: offerTitles.get(hold.offerId) || 'Offer',
+        amount: hold.amount,
+        status: hold.status === 'held' ? 'pending' : hold.status === 'released' ? 'earned' : 'refunded',
+        heldAt: hold.createdAt ? hold.createdAt.toISOString() : null,
+        releasedAt: release?.createdAt ? release.createdAt.toISOString() : null
+      };
+    });
+
+    const monthly = new Map<string, MonthlyEarning>();
+    const bucket = (date: Date) => {
+      const key = monthKey(date);
+      if (!monthly.has(key)) {
+        monthly.set(key, { month: key, earned: 0, pending: 0, paid: 0 });
+      }
+      return monthly.get(key)!;
+    };
+
+    for (const hold of holds) {
+      if (hold.status === 'held' && hold.createdAt) {
+        bucket(hold.createdAt).pending += hold.amount;
+      }
+    }
+    for (const release of releases) {
+      if (release.createdAt) {
+        bucket(release.createdAt).earned += release.amount;
+      }
+    }
+    for (const payout of payouts) {
+      if (payout.status === 'paid' && payout.processedAt) {
+        bucket(payout.processedAt).paid += payout.amount;
+      }
+    }
+
+    const sumBy = <T>(items: T[], predicate: (item: T) => boolean, amount: (item: T) => number) =>
+      items.filter(predicate).reduce((total, item) => total + amount(item), 0);
+
+    return {
+      summary: {
+        currency: DEFAULT_CURRENCY,
+        lifetime: sumBy(releases, () => true, release => release.amount),
+        pending: sumBy(holds, hold => hold.status === 'held', hold => hold.amount),
+        paid: sumBy(payouts, payout => payout.status === 'paid', payout => payout.amount),
+        processing: sumBy(payouts, payout => payout.status === 'requested' || payout.status === 'processing', payout => payout.amount),
+        available: balanceAccount.balance
+      },
+      claims,
+      months: Array.from(monthly.values()).sort((a, b) => b.month.localeCompare(a.month))
+    };
+  }
+
+  /**
+   * Build a monthly statement from the influencer's balance account ledger
+   *
+   * @param influencerId The influencer profile ID
+   * @param month Month in YYYY-MM format
+   * @returns Statement with opening/closing balances and every ledger movement
+   */
+  async getStatement(influencerId: number, month: string): Promise<EarningsStatement> {
+    const match = /^(\d{4})-(\d{2})$/.exec(month);
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+      throw new PayoutError('Month must be in YYYY-MM format');
+    }
+
+    const start = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1));
+    const end = new Date(Date.UTC(Number(match[1]), Number(match[2]), 1));
+
+    const account = await storage.getOrCreateLedgerAccount('influencer', influencerId, 'balance', DEFAULT_CURRENCY);
+    const entries = await storage.getLedgerEntriesByAccount(account.id);
+
+    const before = entries.filter(entry => entry.createdAt && entry.createdAt < start);
+    const during = entries.filter(entry => entry.createdAt && entry.createdAt >= start && entry.createdAt < end);
+
+    const openingBalance = before.reduce((total, entry) => total + entry.amount, 0);
+    let runningBalance = openingBalance;
+    const lines: StatementLine[] = during.map((entry: LedgerEntry) => {
+      runningBalance += entry.amount;
+      return {
+        date: entry.createdAt!.toISOString().slice(0, 10),
+        description: entry.description || entry.entryType,
+        type: entry.entryType,
+        amount: entry.amount,
+        balance: runningBalance
+      };
+    });
+
+    return {
+      influencerId,
+      month,
+      currency: account.currency,
+      openingBalance,
+      closingBalance: runningBalance,
+      totalCredits: during.filter(entry => entry.amount > 0).reduce((total, entry) => total + entry.amount, 0),
+      totalDebits: during.filter(entry => entry.amount < 0).reduce((total, entry) => total + entry.amount, 0),
+      lines
+    };
+  }
+
+  /**
+   * Render a statement as CSV
+   */
+  statementToCsv(statement: EarningsStatement): string {
+    const rows: (string | number)[][] = [
+      ['Date', 'Description', 'Type', `Amount (${statement.currency})`, `Balance (${statement.currency})`],
+      ...statement.lines.map(line => [line.date, line.description, line.type, formatCents(line.amount), formatCents(line.balance)])
+    ];
+    rows.push([]);
+    rows.push(['Opening balance', '', '', '', formatCents(statement.openingBalance)]);
+    rows.push(['Closing balance', '', '', '', formatCents(statement.closingBalance)]);
+
+    return rows.map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+  }
+
+  /**
+   * Render a statement as a PDF document
+   */
+  statementToPdf(statement: EarningsStatement): Buffer {
+    const lines = [
+      `SOMIE Earnings Statement - ${statement.month}`,
+      `Influencer #${statement.influencerId}`,
+      '',
+      `Opening balance: ${formatCents(statement.openingBalance)} ${statement.currency}`,
+      `Credits: ${formatCents(statement.totalCredits)}   Debits: ${formatCents(statement.totalDebits)}`,
+      `Closing balance: ${formatCents(statement.closingBalance)} ${statement.currency}`,
+      '',
+      'Date        Amount       Balance      Description',
+      ...statement.lines.map(line =>
+        `${line.date}  ${formatCents(line.amount).padStart(10)}  ${formatCents(line.balance).padStart(10)}   ${line.description}`
+      )
+    ];
+
+    if (statement.lines.length === 0) {
+      lines.push('No activity this month.');
+    }
+
+    return renderTextPdf(lines);
+  }
+
+  /**
+   * List payout requests together with the current payout limits
+   */
+  async getPayouts(influencerId: number): Promise<{
+    payouts: PayoutRequest[];
+    minimumAmount: number;
+    availableBalance: number;
+    currency: string;
+  }> {
+    const [payouts, minimumAmount, account] = await Promise.all([
+      storage.getPayoutRequestsByInfluencerId(influencerId),
+      this.getMinimumPayout(),
+      storage.getOrCreateLedgerAccount('influencer', influencerId, 'balance', DEFAULT_CURRENCY)
+    ]);
+
+    return {
+      payouts,
+      minimumAmount,
+      availableBalance: account.balance,
+      currency: account.currency
+    };
+  }
+
+  /**
+   * List payout requests in a given status for admin review
+   */
+  async listPayoutsByStatus(status: string): Promise<PayoutRequest[]> {
+    return await storage.getPayoutRequestsByStatus(status);
+  }
+
+  /**
+   * Request a payout of part or all of the available balance
+   * The amount is reserved immediately so it cannot be requested twice.
+   *
+   * @param influencerId The influencer profile ID
+   * @param amount Amount in cents
+   * @returns The created payout request
+   * @throws PayoutError when the amount is below the minimum or above the balance
+   */
+  async requestPayout(influencerId: number, amount: number): Promise<PayoutRequest> {
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new PayoutError('Payout amount must be a positive whole number of cents');
+    }
+
+    const minimum = await this.getMinimumPayout();
+    if (amount < minimum) {
+      throw new PayoutError(`The minimum payout is $${formatCents(minimum)}`);
+    }
+
+    const balanceAccount = await storage.getOrCreateLedgerAccount('influencer', influencerId, 'balance', DEFAULT_CURRENCY);
+    const pendingAccount = await storage.getOrCreateLedgerAccount('influencer', influencerId, 'payout_pending', DEFAULT_CURRENCY);
+
+    // The balance is checked under a row lock in the same transaction that reserves it
+    const payout = await storage.createPayoutRequest(
+      { influencerId, amount, currency: DEFAULT_CURRENCY },
+      [
+        { accountId: balanceAccount.id, amount: -amount, description: 'Payout requested' },
+        { accountId: pendingAccount.id, amount, description: 'Payout awaiting processing' }
+      ]
+    );
+    if (!payout) {
+      throw new PayoutError('Payout amount exceeds your available balance');
+    }
+    return payout;
+  }
+
+  /**
+   * Send an approved payout through the payment provider
+   * Failed transfers return the reserved amount to the influencer's balance.
+   * The request is claimed for processing before the provider is called, so
+   * concurrent approvals cannot send the same payout twice. If the provider
+   * call throws, the request stays in processing for manual reconciliation.
+   *
+   * @param payoutId The payout request ID
+   * @param adminId The admin processing the payout
+   * @returns The settled payout request
+   */
+  async processPayout(payoutId: number, adminId: number): Promise<PayoutRequest> {
+    await this.getRequestedPayout(payoutId);
+    const payout = await storage.startPayoutProcessing(payoutId, adminId);
+    if (!payout) {
+      throw new PayoutError('Payout request is already being processed', 409);
+    }
+
+    const result = await this.provider.sendPayout({
+      influencerId: payout.influencerId,
+      amount: payout.amount,
+      currency: payout.currency,
+      reference: `payout_${payout.id}`
+    });
+
+    const pendingAccount = await storage.getOrCreateLedgerAccount('influencer', payout.influencerId, 'payout_pending', payout.currency);
+
+    if (!result.success) {
+      const balanceAccount = await storage.getOrCreateLedgerAccount('influencer', payout.influencerId, 'balance', payout.currency);
+      return await storage.settlePayoutRequest(
+        payout.id,
+        { status: 'failed', provider: this.provider.name, failureReason: result.error || 'Transfer failed', processedBy: adminId },
+        [
+          { accountId: pendingAccount.id, amount: -payout.amount, description: 'Payout failed' },
+          { accountId: balanceAccount.id, amount: payout.amount, description: 'Payout failed, funds returned' }
+        ]
+      );
+    }
+
+    const paidAccount = await storage.getOrCreateLedgerAccount('influencer', payout.influencerId, 'paid_out', payout.currency);
+    return await storage.settlePayoutRequest(
+      payout.id,
+      { status: 'paid', provider: this.provider.name, providerReference: result.providerReference, processedBy: adminId },
+      [
+        { accountId: pendingAccount.id, amount: -payout.amount, description: 'Payout sent' },
+        { accountId: paidAccount.id, amount: payout.amount, description: `Payout ${result.providerReference}` }
+      ]
+    );
+  }
+
+  /**
+   * Reject a payout request and return the reserved amount to the balance
+   */
+  async rejectPayout(payoutId: number, adminId: number, reason: string): Promise<PayoutRequest> {
+    const payout = await this.getRequestedPayout(payoutId);
+
+    const pendingAccount = await storage.getOrCreateLedgerAccount('influencer', payout.influencerId, 'payout_pending', payout.currency);
+    const balanceAccount = await storage.getOrCreateLedgerAccount('influencer', payout.influencerId, 'balance', payout.currency);
+
+    return await storage.settlePayoutRequest(
+      payout.id,
+      { status: 'rejected', failureReason: reason, processedBy: adminId },
+      [
+        { accountId: pendingAccount.id, amount: -payout.amount, description: 'Payout rejected' },
+        { accountId: balanceAccount.id, amount: payout.amount, description: `Payout rejected: ${reason}` }
+      ]
+    );
+  }
+
+  private async getRequestedPayout(payoutId: number): Promise<PayoutRequest> {
+    const payout = await storage.getPayoutRequestById(payoutId);
+    if (!payout) {
+      throw new PayoutError('Payout request not found', 404);
+    }
+    if (payout.status !== 'requested') {
+      throw new PayoutError(`Payout request is already ${payout.status}`, 409);
+    }
+    return payout;
+  }
+
+  private async getOfferTitles(holds: EscrowHold[]): Promise<Map<number, string>> {
+    const titles = new Map<number, string>();
+    for (const offerId of Array.from(new Set(holds.map(hold => hold.offerId)))) {
+      const offer = await storage.getOfferById(offerId);
+      if (offer) {
+        titles.set(offerId, offer.title);
+      }
+    }
+    return titles;
+  }
+}
+
+export const earningsService = new EarningsService();
@@ -0,0 +1,360 @@
+/**
+ * Embeddings of influencer content and offer descriptions for semantic matching
+ *
+ * An influencer is embedded from their niche, bio, content types, audience
+ * interests and recent post captions; an offer from its title, description,
+ * category and tags. Vectors are stored in Postgres (pgvector) and compared by
+ * cosine similarity; with the OpenAI provider "home workouts" can match a
+ * "Fitness" offer without sharing a word with it.
+ *
+ * The provider is chosen with the embeddings.provider setting: "openai",
+ * "hashing" (a local feature-hashing model with no network calls) or "auto"
+ * (OpenAI when an API key is configured, otherwise hashing). Vectors from
+ * different providers are never compared; switching provider re-embeds
+ * everything on the next refresh.
+ */
+
+import { createHash } from 'crypto';
+import OpenAI from 'openai';
+import { storage } from '../storage';
+import { settingsService } from './settings';
+import { parseAudienceData } from '../../shared/audience-demographics';
+import {
+  EMBEDDING_DIMENSIONS,
+  type EmbeddingEntityType,
+  type InfluencerProfile,
+  type Offer
+} from '../../shared/schema';
+
+export type EmbeddingProviderName = 'auto' | 'openai' | 'hashing';
+
+export interface EmbeddingProvider {
+  // Stored with each vector, e.g. "hashing-v1" or "openai:text-embedding-3-small"
+  readonly id: string;
+  /**
+   * Embed each text into a unit-length vector of EMBEDDING_DIMENSIONS numbers
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface SimilarInfluencer {
+  profile: InfluencerProfile;
+  similarity: number;
+}
+
+// Captions from this many recent posts go into an influencer's embedding
+const RECENT_CAPTION_COUNT = 10;
+
+// Longest text sent to a provider; bios and captions past this add little
+const MAX_TEXT_LENGTH = 8000;
+
+// Embeddings are re-checked this often so new captions are picked up
+const REFRESH_AFTER_HOURS = 24;
+
+// Common words that say nothing about a niche
+const STOPWORDS = new Set([
+  'a', 'about', 'all', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from',
+  'get', 'has', 'have', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'link', 'me', 'more', 'my',
+  'new', 'no', 'not', 'of', 'on', 'or', 'our', 'out', 'so', 'that', 'the', 'their', 'this', 'to', 'up',
+  'us', 'was', 'we', 'will', 'with', 'you', 'your'
+]);
+
+/**
+ * Local embedding model using the hashing trick
+ *
+ * Words and word pairs are hashed into a fixed number of signed buckets and
+ * weighted by log term frequency. It only captures shared vocabulary, not
+ * meaning, but needs no API and is deterministic, which suits development
+ * and tests.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'hashing-v1';
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const tokens = tokenize(text);
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) ?? 0) + weight);
+
+    tokens.forEach((token, i) => {
+      add(token, 1);
+      // Pairs keep some word order, e.g. "street food" versus "food street"
+      if (i > 0) add(`${tokens[i - 1]} ${token}`, 0.5);
+    });
+
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    counts.forEach((count, feature) => {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % EMBEDDING_DIMENSIONS] += sign * (1 + Math.log(count));
+    });
+    return normalize(vector);
+  }
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private client: OpenAI;
+
+  constructor(
+    apiKey: string | undefined = process.env.OPENAI_API_KEY,
+    private readonly model: string = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small'
+  ) {
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY is required for the openai embedding provider');
+    }
+    this.client = new OpenAI({ apiKey });
+    this.id = `openai:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+      dimensions: EMBEDDING_DIMENSIONS,
+    });
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => normalize(item.embedding));
+  }
+}
+
+/**
+ * Create the embedding provider for a setting value
+ */
+export function createEmbeddingProvider(name: EmbeddingProviderName): EmbeddingProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider();
+    case 'hashing':
+      return new HashingEmbeddingProvider();
+    case 'auto':
+      return process.env.OPENAI_API_KEY ? new OpenAIEmbeddingProvider() : new HashingEmbeddingProvider();
+    default:
+      throw new Error(`Unsupported embedding provider: ${name}`);
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    // Fold simple plurals so "workouts" matches "workout"
+    .map(token => token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token);
+}
+
+// 32-bit FNV-1a hash
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+function hashContent(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Service for embedding profiles and offers and searching them by similarity
+ */
+export class EmbeddingService {
+  private provider: { name: EmbeddingProviderName; instance: EmbeddingProvider } | null = null;
+
+  /**
+   * Get the provider selected in the settings
+   */
+  async getProvider(): Promise<EmbeddingProvider> {
+    const name = await settingsService.get<EmbeddingProviderName>('embeddings.provider', 'auto');
+    if (!this.provider || this.provider.name !== name) {
+      this.provider = { name, instance: createEmbeddingProvider(name) };
+    }
+    return this.provider.instance;
+  }
+
+  /**
+   * The text an influencer is embedded from
+   */
+  async getInfluencerText(profile: InfluencerProfile): Promise<string> {
+    const captions = await storage.getRecentCaptionsByInfluencerId(profile.id, RECENT_CAPTION_COUNT);
+    const audience = parseAudienceData(profile.audienceData);
+    return [
+      profile.niche,
+      profile.bio,
+      profile.contentTypes?.join(', '),
+      audience?.interests?.join(', '),
+      ...captions
+    ].filter(Boolean).join('\n').slice(0, MAX_TEXT_LENGTH);
+  }
+
+  /**
+   * The text an offer is embedded from
+   */
+  getOfferText(offer: Offer): string {
+    return [
+      offer.title,
+      offer.category !== 'Uncategorized' ? offer.category : null,
+      offer.tags?.join(', '),
+      offer.contentType,
+      offer.description
+    ].filter(Boolean).join('\n').slice(0, MAX_TEXT_LENGTH);
+  }
+
+  /**
+   * Embed an influencer and store the vector
+   *
+   * @returns The influencer's vector, or null when they have nothing to embed
+   */
+  async refreshInfluencer(profile: InfluencerProfile): Promise<number[] | null> {
+    return this.refresh('influencer', profile.id, await this.getInfluencerText(profile));
+  }
+
+  /**
+   * Embed an offer and store the vector
+   *
+   * @returns The offer's vector, or null when it has nothing to embed
+   */
+  async refreshOffer(offer: Offer): Promise<number[] | null> {
+    return this.refresh('offer', offer.id, this.getOfferText(offer));
+  }
+
+  /**
+   * Similarity between an influencer and each of the given offers
+   *
+   * Offers without a vector from the current provider are left out of the map,
+   * and the map is empty when embeddings can't be reached, so matching falls
+   * back to comparing niche names.
+   */
+  async getOfferSimilarities(profile: InfluencerProfile, offerIds: number[]): Promise<Map<number, number>> {
+    return this.getSimilarities('influencer', profile.id, () => this.refreshInfluencer(profile), 'offer', offerIds);
+  }
+
+  /**
+   * Similarity between an offer and each of the given influencers
+   */
+  async getInfluencerSimilarities(offer: Offer, influencerIds: number[]): Promise<Map<number, number>> {
+    return this.getSimilarities('offer', offer.id, () => this.refreshOffer(offer), 'influencer', influencerIds);
+  }
+
+  /**
+   * Find the influencers whose content is closest to another influencer's
+   *
+   * @param profile The influencer to compare against
+   * @param limit Maximum number of results
+   * @returns The most similar influencers, most similar first
+   */
+  async findSimilarInfluencers(profile: InfluencerProfile, limit: number): Promise<SimilarInfluencer[]> {
+    const provider = await this.getProvider();
+    const embedding = await this.getCurrentEmbedding('influencer', profile.id, provider)
+      ?? await this.refreshInfluencer(profile);
+    if (!embedding) return [];
+
+    const neighbors = await storage.getNearestEmbeddings({
+      entityType: 'influencer',
+      provider: provider.id,
+      embedding,
+      limit,
+      excludeEntityId: profile.id
+    });
+
+    const results = await Promise.all(neighbors.map(async neighbor => {
+      const similar = await storage.getInfluencerProfileById(neighbor.entityId);
+      return similar ? { profile: similar, similarity: neighbor.similarity } : null;
+    }));
+    return results.filter((result): result is SimilarInfluencer => result !== null && !result.profile.isTest);
+  }
+
+  /**
+   * Embed profiles and active offers that have no current vector, or whose
+   * vector hasn't been checked recently
+   *
+   * @returns How many profiles and offers were checked
+   */
+  async refreshStale(limit: number = 100): Promise<number> {
+    const provider = await this.getProvider();
+    const staleBefore = new Date(Date.now() - REFRESH_AFTER_HOURS * 60 * 60 * 1000);
+
+    const profiles = await storage.getInfluencerProfilesToEmbed(provider.id, staleBefore, limit);
+    for (const profile of profiles) {
+      await this.refreshInfluencer(profile);
+    }
+
+    const offers = await storage.getOffersToEmbed(provider.id, staleBefore, limit);
+    for (const offer of offers) {
+      await this.refreshOffer(offer);
+    }
+
+    return profiles.length + offers.length;
+  }
+
+  private async getSimilarities(
+    sourceType: EmbeddingEntityType,
+    sourceId: number,
+    embedSource: () => Promise<number[] | null>,
+    targetType: EmbeddingEntityType,
+    targetIds: number[]
+  ): Promise<Map<number, number>> {
+    const similarities = new Map<number, number>();
+    if (targetIds.length === 0) return similarities;
+
+    try {
+      const provider = await this.getProvider();
+      const embedding = await this.getCurrentEmbedding(sourceType, sourceId, provider) ?? await embedSource();
+      if (!embedding) return similarities;
+
+      const neighbors = await storage.getNearestEmbeddings({
+        entityType: targetType,
+        provider: provider.id,
+        embedding,
+        limit: targetIds.length,
+        entityIds: targetIds
+      });
+      neighbors.forEach(neighbor => similarities.set(neighbor.entityId, neighbor.similarity));
+    } catch (error) {
+      console.error(`Error comparing ${sourceType} ${sourceId} with ${targetType} embeddings:`, error);
+    }
+    return similarities;
+  }
+
+  private async getCurrentEmbedding(
+    entityType: EmbeddingEntityType,
+    entityId: number,
+    provider: EmbeddingProvider
+  ): Promise<number[] | null> {
+    const stored = await storage.getEmbedding(entityType, entityId);
+    return stored && stored.provider === provider.id ? stored.embedding : null;
+  }
+
+  // Only calls the provider when the text or the provider changed
+  private async refresh(entityType: EmbeddingEntityType, entityId: number, text: string): Promise<number[] | null> {
+    if (!text.trim()) return null;
+
+    const provider = await this.getProvider();
+    const contentHash = hashContent(text);
+    const stored = await storage.getEmbedding(entityType, entityId);
+    if (stored && stored.provider === provider.id && stored.contentHash === contentHash) {
+      await storage.touchEmbedding(stored.id);
+      return stored.embedding;
+    }
+
+    const [embedding] = await provider.embed([text]);
+    await storage.upsertEmbedding({ entityType, entityId, provider: provider.id, contentHash, embedding });
+    return embedding;
+  }
+}
+
+export const embeddingService = new EmbeddingService();
@@ -0,0 +1,335 @@
+/**
+ * Service for escrow-backed offer claim payments
+ *
+ * When an influencer claims a monetary offer, the business funds an escrow hold.
+ * The hold is released to the influencer's balance once the claim is completed,
+ * or refunded to the business when the claim expires, is rejected or is cancelled.
+ * Amounts and deadlines come from the claim's agreed deal terms, and a hold is
+ * resized when a negotiation changes the reward. Every money movement is
+ * written to the double-entry ledger in storage.
+ */
+
+import { Offer, OfferClaim, EscrowHold, EscrowRelease, EscrowRefund } from "../../shared/schema";
+import { canTransitionClaim, isTerminalClaimStatus } from "../../shared/claim-lifecycle";
+import { termsFromOffer, type DealTermsSnapshot } from "../../shared/deal-terms";
+import { storage } from "../storage";
+import { claimLifecycleService, SYSTEM_ACTOR } from "./claim-lifecycle";
+import { PaymentProvider, paymentProvider } from "./payment-provider";
+
+const DEFAULT_CURRENCY = 'USD';
+
+export class EscrowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EscrowError';
+  }
+}
+
+export class EscrowService {
+  constructor(private provider: PaymentProvider = paymentProvider) {}
+
+  /**
+   * Get the amount to hold in escrow for a claim's terms
+   *
+   * @param terms The agreed deal terms, or the offer for a claim that has none
+   * @returns Amount in cents, or null if the terms have no monetary reward
+   */
+  getHoldAmount(terms: Pick<DealTermsSnapshot, 'rewardType' | 'rewardAmount'>): number | null {
+    if (terms.rewardType !== 'monetary' || !terms.rewardAmount || terms.rewardAmount <= 0) {
+      return null;
+    }
+    // rewardAmount is stored in whole dollars
+    return terms.rewardAmount * 100;
+  }
+
+  /**
+   * Fund an escrow hold for a newly created claim
+   *
+   * @param claim The claim that was just created
+   * @param offer The claimed offer
+   * @returns The created hold, or null if the offer does not need escrow
+   * @throws EscrowError when the provider declines the hold or the offer's
+   * campaign budget cannot cover it
+   */
+  async fundClaim(claim: OfferClaim, offer: Offer): Promise<EscrowHold | null> {
+    const amount = this.getHoldAmount(await this.getClaimTerms(claim.id, offer));
+    if (amount === null) {
+      return null;
+    }
+
+    const existingHold = await storage.getEscrowHoldByClaimId(claim.id);
+    if (existingHold) {
+      return existingHold;
+    }
+
+    const result = await this.provider.authorizeHold({
+      businessId: offer.businessId,
+      amount,
+      currency: DEFAULT_CURRENCY,
+      reference: `claim_${claim.id}`
+    });
+
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Payment provider declined the escrow hold');
+    }
+
+    const fundingAccount = await storage.getOrCreateLedgerAccount('business', offer.businessId, 'funding', DEFAULT_CURRENCY);
+    const escrowAccount = await storage.getOrCreateLedgerAccount('business', offer.businessId, 'escrow', DEFAULT_CURRENCY);
+
+    const hold = await storage.createEscrowHold(
+      {
+        claimId: claim.id,
+        offerId: offer.id,
+        businessId: offer.businessId,
+        influencerId: claim.influencerId,
+        amount,
+        currency: DEFAULT_CURRENCY,
+        provider: this.provider.name,
+        providerReference: result.providerReference,
+        isTest: claim.isTest || offer.isTest
+      },
+      [
+        { accountId: fundingAccount.id, amount: -amount, description: `Escrow funding for claim ${claim.id}` },
+        { accountId: escrowAccount.id, amount, description: `Escrow hold for claim ${claim.id}` }
+      ]
+    );
+    if (!hold) {
+      await this.abandonAuthorization(offer.businessId, amount, result.providerReference, 'Campaign budget exhausted');
+      throw new EscrowError('The campaign budget for this offer is used up');
+    }
+    return hold;
+  }
+
+  /**
+   * Bring a claim's open hold in line with newly agreed terms
+   * A new hold is authorized for the agreed amount before the old one is let go,
+   * so the business is never left holding less than the deal is worth.
+   *
+   * @param claimId The renegotiated claim
+   * @param terms The terms both parties just agreed to
+   * @returns The resized hold, or null if there was no open hold to change
+   * @throws EscrowError when the provider declines the new hold or the offer's
+   * campaign budget cannot cover it
+   */
+  async resizeForTerms(claimId: number, terms: DealTermsSnapshot): Promise<EscrowHold | null> {
+    const hold = await storage.getEscrowHoldByClaimId(claimId);
+    if (!hold || hold.status !== 'held') {
+      return null;
+    }
+
+    // Dropping the monetary reward altogether refunds the hold outright
+    const amount = this.getHoldAmount(terms);
+    if (amount === null) {
+      await this.refundForClaim(claimId, 'Reward renegotiated');
+      return null;
+    }
+    if (amount === hold.amount) {
+      return hold;
+    }
+
+    const authorized = await this.provider.authorizeHold({
+      businessId: hold.businessId,
+      amount,
+      currency: hold.currency,
+      reference: `claim_${claimId}`
+    });
+    if (!authorized.success) {
+      throw new EscrowError(authorized.error || 'Payment provider declined the escrow hold');
+    }
+
+    const fundingAccount = await storage.getOrCreateLedgerAccount('business', hold.businessId, 'funding', hold.currency);
+    const escrowAccount = await storage.getOrCreateLedgerAccount('business', hold.businessId, 'escrow', hold.currency);
+    const adjustment = (from: number, to: number, description: string) => [
+      { accountId: fundingAccount.id, amount: from - to, description: `Escrow adjustment for claim ${claimId}` },
+      { accountId: escrowAccount.id, amount: to - from, description }
+    ];
+
+    // The ledger moves first so the campaign budget is checked before the old hold goes
+    const resized = await storage.resizeEscrowHold(hold.id, amount, authorized.providerReference,
+      adjustment(hold.amount, amount, `Renegotiated hold for claim ${claimId}`));
+    if (!resized) {
+      await this.abandonAuthorization(hold.businessId, amount, authorized.providerReference, 'Campaign budget exhausted');
+      throw new EscrowError('The campaign budget cannot cover the new reward');
+    }
+
+    const refunded = await this.provider.refundHold({
+      providerReference: hold.providerReference,
+      businessId: hold.businessId,
+      amount: hold.amount,
+      currency: hold.currency,
+      reason: 'Replaced by a hold for renegotiated terms'
+    });
+    if (!refunded.success) {
+      // Keep the original hold and let go of the one that would have replaced it
+      await storage.resizeEscrowHold(hold.id, hold.amount, hold.providerReference,
+        adjustment(amount, hold.amount, `Renegotiation reverted for claim ${claimId}`));
+      await this.abandonAuthorization(hold.businessId, amount, authorized.providerReference, 'Renegotiated hold abandoned');
+      throw new EscrowError(refunded.error || 'Payment provider failed to refund the escrow hold');
+    }
+    return resized;
+  }
+
+  // Let go of a provider authorization that no hold in the ledger points at
+  private async abandonAuthorization(businessId: number, amount: number, providerReference: string | null, reason: string): Promise<void> {
+    const result = await this.provider.refundHold({ providerReference, businessId, amount, currency: DEFAULT_CURRENCY, reason });
+    if (!result.success) {
+      console.error(`Failed to release unused escrow authorization ${providerReference}:`, result.error);
+    }
+  }
+
+  /**
+   * Release a claim's escrow hold to the influencer's balance
+   *
+   * @param claimId The completed claim
+   * @returns The release record, or null if there is no open hold
+   */
+  async releaseForClaim(claimId: number): Promise<EscrowRelease | null> {
+    const hold = await storage.getEscrowHoldByClaimId(claimId);
+    if (!hold || hold.status !== 'held') {
+      return null;
+    }
+
+    const result = await this.provider.releaseHold({
+      providerReference: hold.providerReference,
+      influencerId: hold.influencerId,
+      amount: hold.amount,
+      currency: hold.currency
+    });
+
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Payment provider failed to release the escrow hold');
+    }
+
+    const escrowAccount = await storage.getOrCreateLedgerAccount('business', hold.businessId, 'escrow', hold.currency);
+    const balanceAccount = await storage.getOrCreateLedgerAccount('influencer', hold.influencerId, 'balance', hold.currency);
+
+    return await storage.releaseEscrowHold(hold.id, result.providerReference, [
+      { accountId: escrowAccount.id, amount: -hold.amount, description: `Escrow release for claim ${claimId}` },
+      { accountId: balanceAccount.id, amount: hold.amount, description: `Earnings for claim ${claimId}` }
+    ]);
+  }
+
+  /**
+   * Refund a claim's escrow hold back to the business
+   *
+   * @param claimId The claim that will not be completed
+   * @param reason Why the hold is being refunded
+   * @returns The refund record, or null if there is no open hold
+   */
+  async refundForClaim(claimId: number, reason: string): Promise<EscrowRefund | null> {
+    const hold = await storage.getEscrowHoldByClaimId(claimId);
+    if (!hold || hold.status !== 'held') {
+      return null;
+    }
+
+    const result = await this.provider.refundHold({
+      providerReference: hold.providerReference,
+      businessId: hold.businessId,
+      amount: hold.amount,
+      currency: hold.currency,
+      reason
+    });
+
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Payment provider failed to refund the escrow hold');
+    }
+
+    const escrowAccount = await storage.getOrCreateLedgerAccount('business', hold.businessId, 'escrow', hold.currency);
+    const fundingAccount = await storage.getOrCreateLedgerAccount('business', hold.businessId, 'funding', hold.currency);
+
+    return await storage.refundEscrowHold(hold.id, reason, result.providerReference, [
+      { accountId: escrowAccount.id, amount: -hold.amount, description: `Escrow refund for claim ${claimId}` },
+      { accountId: fundingAccount.id, amount: hold.amount, description: `Refund for claim ${claimId}: ${reason}` }
+    ]);
+  }
+
+  /**
+   * Settle escrow after a claim changes status
+   * Completed claims release the hold; expired, rejected or cancelled claims refund it.
+   *
+   * @param claim The claim after its status change
+   */
+  async handleClaimStatusChange(claim: OfferClaim): Promise<void> {
+    if (claim.status === 'completed') {
+      await this.releaseForClaim(claim.id);
+    } else if (claim.status === 'expired' || claim.status === 'rejected' || claim.status === 'cancelled') {
+      await this.refundForClaim(claim.id, `Claim ${claim.status}`);
+    }
+  }
+
+  /**
+   * Expire claims that passed their agreed timeframe and refund their holds
+   *
+   * @param now Reference time (defaults to the current time)
+   * @returns Number of claims that were expired
+   */
+  async expireOverdueClaims(now: Date = new Date()): Promise<number> {
+    const openHolds = await storage.getEscrowHoldsByStatus('held');
+    let expired = 0;
+
+    for (const hold of openHolds) {
+      try {
+        const claim = await storage.getOfferClaimById(hold.claimId);
+        const offer = await storage.getOfferById(hold.offerId);
+        // Submitted work is waiting on the business, so only unfinished claims expire
+        if (!claim || !offer || !canTransitionClaim(claim.status, 'expired', 'system')) continue;
+
+        const { timeframe } = await this.getClaimTerms(claim.id, offer);
+        const deadline = await claimLifecycleService.getDeadline(claim, timeframe);
+        if (!deadline || deadline > now) continue;
+
+        const expiredClaim = await claimLifecycleService.transition(
+          claim.id,
+          'expired',
+          SYSTEM_ACTOR,
+          `Not delivered within the ${timeframe} day timeframe`
+        );
+        await this.handleClaimStatusChange(expiredClaim);
+        expired++;
+      } catch (error) {
+        console.error(`Error expiring claim for escrow hold ${hold.id}:`, error);
+      }
+    }
+
+    if (expired > 0) {
+      console.log(`Expired ${expired} overdue claims and refunded their escrow holds`);
+    }
+    return expired;
+  }
+
+  /**
+   * Settle holds still open on claims that already finished
+   * Covers settlements that failed when the claim changed status, so every
+   * finished claim ends up released or refunded.
+   *
+   * @returns Number of holds that were settled
+   */
+  async settleFinishedClaims(): Promise<number> {
+    const openHolds = await storage.getEscrowHoldsByStatus('held');
+    let settled = 0;
+
+    for (const hold of openHolds) {
+      try {
+        const claim = await storage.getOfferClaimById(hold.claimId);
+        if (!claim || !isTerminalClaimStatus(claim.status)) continue;
+
+        await this.handleClaimStatusChange(claim);
+        settled++;
+      } catch (error) {
+        console.error(`Error settling escrow hold ${hold.id}:`, error);
+      }
+    }
+
+    if (settled > 0) {
+      console.log(`Settled escrow holds for ${settled} finished claims`);
+    }
+    return settled;
+  }
+
+  // Claims made before deal terms were recorded fall back to the offer
+  private async getClaimTerms(claimId: number, offer: Offer): Promise<DealTermsSnapshot> {
+    return (await storage.getCurrentDealTerms(claimId)) ?? termsFromOffer(offer);
+  }
+}
+
+export const escrowService = new EscrowService();
@@ -0,0 +1,130 @@
+/**
+ * Offline gazetteer of cities, regions and countries
+ *
+ * Resolves place names like "Round Rock, Texas" without calling a geocoding
+ * API. It is tried before OpenStreetMap, and is the only source used when the
+ * geocoding provider setting is "gazetteer", as in tests and offline development.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { GeocodeResult } from '../../shared/geo';
+
+interface GazetteerPlace {
+  type: 'city' | 'region' | 'country';
+  name: string;
+  // Region code for regions, e.g. "TX"
+  code?: string;
+  // Region code a city belongs to
+  region?: string;
+  // ISO country code
+  country: string;
+  latitude: number;
+  longitude: number;
+  population?: number;
+  aliases?: string[];
+}
+
+const GAZETTEER_PATH = process.env.GAZETTEER_PATH || path.join(process.cwd(), 'server', 'fixtures', 'geo', 'gazetteer.json');
+
+const normalize = (text: string) => text
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/\./g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+export class Gazetteer {
+  private places: GazetteerPlace[] | null = null;
+
+  constructor(private readonly filePath: string = GAZETTEER_PATH) {}
+
+  /**
+   * Resolve a free-text location to the most specific place it names
+   *
+   * Accepts "City", "City, Region", "City, Country" and full addresses such as
+   * "12 Main St, Austin, TX 78701"; street numbers and postal codes are ignored.
+   *
+   * @returns null when nothing in the gazetteer matches
+   */
+  lookup(query: string): GeocodeResult | null {
+    const parts = query
+      .split(',')
+      .map(part => normalize(part.replace(/\b\d[\d-]*\b/g, '')))
+      .filter(Boolean);
+    if (parts.length === 0) return null;
+
+    // The first part naming a known city is the city; later parts narrow it down
+    for (let i = 0; i < parts.length; i++) {
+      const candidates = this.getPlaces().filter(place => place.type === 'city' && this.names(place).includes(parts[i]));
+      if (candidates.length === 0) continue;
+
+      const qualifiers = parts.slice(i + 1);
+      const qualified = qualifiers.length > 0
+        ? candidates.filter(place => qualifiers.every(qualifier => this.isWithin(place, qualifier)))
+        : candidates;
+      if (qualified.length > 0) return this.toResult(this.mostPopulous(qualified));
+    }
+
+    // No city: fall back to the most specific region or country named
+    for (const part of [...parts].reverse()) {
+      const region = this.getPlaces().find(place => place.type === 'region' && this.names(place).includes(part));
+      if (region) return this.toResult(region);
+    }
+    for (const part of [...parts].reverse()) {
+      const country = this.getPlaces().find(place => place.type === 'country' && this.names(place).includes(part));
+      if (country) return this.toResult(country);
+    }
+
+    return null;
+  }
+
+  private getPlaces(): GazetteerPlace[] {
+    if (!this.places) {
+      try {
+        this.places = JSON.parse(readFileSync(this.filePath, 'utf8')) as GazetteerPlace[];
+      } catch (error) {
+        console.error(`Failed to load gazetteer from ${this.filePath}:`, error);
+        this.places = [];
+      }
+    }
+    return this.places;
+  }
+
+  private names(place: GazetteerPlace): string[] {
+    const names = [place.name, ...(place.aliases ?? [])];
+    if (place.type === 'region' && place.code) names.push(place.code);
+    if (place.type === 'country') names.push(place.country);
+    return names.map(normalize);
+  }
+
+  // Whether a qualifier such as "tx", "texas" or "usa" contains the city
+  private isWithin(city: GazetteerPlace, qualifier: string): boolean {
+    return this.getPlaces().some(place => {
+      const contains = place.type === 'region'
+        ? place.code === city.region && place.country === city.country
+        : place.type === 'country' && place.country === city.country;
+      return contains && this.names(place).includes(qualifier);
+    });
+  }
+
+  private mostPopulous(places: GazetteerPlace[]): GazetteerPlace {
+    return places.reduce((best, place) => (place.population ?? 0) > (best.population ?? 0) ? place : best);
+  }
+
+  private toResult(place: GazetteerPlace): GeocodeResult {
+    const label = place.type === 'city'
+      ? [place.name, place.region ?? place.country].join(', ')
+      : place.name;
+    return {
+      latitude: place.latitude,
+      longitude: place.longitude,
+      label,
+      precision: place.type,
+      source: 'gazetteer'
+    };
+  }
+}
+
+export const gazetteer = new Gazetteer();
@@ -1,4 +1,9 @@
 import axios from 'axios';
+import { storage } from '../storage';
+import { settingsService } from './settings';
+import { gazetteer } from './gazetteer';
+import { getStoredCoordinates, type GeoCoordinates, type GeocodeResult, type GeoPrecision } from '../../shared/geo';
+import type { BusinessProfile, InfluencerProfile } from '../../shared/schema';
 
 export interface GeoLocationData {
   ip: string;
@@ -10,10 +15,31 @@ export interface GeoLocationData {
   timezone?: string;
 }
 
+// "gazetteer" never leaves the server; "auto" only asks OpenStreetMap about places the gazetteer doesn't know
+export type GeocodingProvider = 'auto' | 'gazetteer' | 'nominatim';
+
+const NOMINATIM_URL = process.env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org';
+// Nominatim's usage policy requires an identifying user agent and at most one request a second
+const NOMINATIM_USER_AGENT = process.env.GEOCODER_USER_AGENT || 'Somie/1.0';
+const NOMINATIM_MIN_INTERVAL_MS = 1000;
+
+const NOMINATIM_PRECISION: Record<string, GeoPrecision> = {
+  city: 'city',
+  town: 'city',
+  village: 'city',
+  municipality: 'city',
+  county: 'region',
+  state: 'region',
+  region: 'region',
+  country: 'country',
+};
+
 /**
  * Service for handling geolocation-related operations
  */
 export class GeolocationService {
+  private lastNominatimRequest = 0;
+
   /**
    * Get geolocation data from user's IP address using ipinfo.io
    * Free tier allows 50,000 requests per month
@@ -59,6 +85,128 @@ export class GeolocationService {
     
     return [latitude, longitude];
   }
+
+  /**
+   * Turn a place name or address into coordinates
+   *
+   * @param query Free text such as "Austin, TX" or a full street address
+   * @returns The best match, or null when the place couldn't be found
+   */
+  async geocode(query: string): Promise<GeocodeResult | null> {
+    const trimmed = query.trim();
+    if (!trimmed) return null;
+
+    const provider = await settingsService.get<GeocodingProvider>('geocoding.provider', 'auto');
+    if (provider !== 'nominatim') {
+      const place = gazetteer.lookup(trimmed);
+      if (place || provider === 'gazetteer') return place;
+    }
+    return this.geocodeWithNominatim(trimmed);
+  }
+
+  /**
+   * Geocode a business, preferring its street address over its general location
+   */
+  async geocodeBusiness(profile: BusinessProfile): Promise<GeocodeResult | null> {
+    const queries = [
+      [profile.address, profile.city, profile.state, profile.postalCode],
+      [profile.city, profile.state],
+      [profile.location],
+    ].map(parts => parts.filter(Boolean).join(', '));
+
+    for (const query of queries) {
+      const result = query ? await this.geocode(query) : null;
+      if (result) return result;
+    }
+    return null;
+  }
+
+  /**
+   * Geocode a business and store its coordinates
+   *
+   * The attempt is recorded even when nothing was found, so the backfill job
+   * doesn't retry it until the profile changes.
+   */
+  async refreshBusinessCoordinates(profile: BusinessProfile): Promise<BusinessProfile> {
+    const result = await this.geocodeBusiness(profile);
+    return await storage.updateBusinessCoordinates(profile.id, result, new Date()) ?? profile;
+  }
+
+  /**
+   * Geocode an influencer's location and store its coordinates
+   */
+  async refreshInfluencerCoordinates(profile: InfluencerProfile): Promise<InfluencerProfile> {
+    const result = profile.location ? await this.geocode(profile.location) : null;
+    return await storage.updateInfluencerCoordinates(profile.id, result, new Date()) ?? profile;
+  }
+
+  /**
+   * Find the point an offer targets
+   *
+   * Physical locations are targeted around the business itself; other offers
+   * around the location they name, if any.
+   */
+  async locateOffer(business: BusinessProfile, location: string | null): Promise<GeoCoordinates | null> {
+    if (business.businessType === 'physical_location') {
+      const located = business.geocodedAt ? business : await this.refreshBusinessCoordinates(business);
+      return getStoredCoordinates(located);
+    }
+    return location ? await this.geocode(location) : null;
+  }
+
+  /**
+   * Geocode profiles saved before geocoding existed, or whose last save couldn't be geocoded in time
+   *
+   * @returns How many profiles were processed
+   */
+  async geocodeMissing(limit: number = 25): Promise<number> {
+    const businesses = await storage.getBusinessProfilesToGeocode(limit);
+    for (const business of businesses) {
+      await this.refreshBusinessCoordinates(business);
+    }
+
+    const influencers = await storage.getInfluencerProfilesToGeocode(limit);
+    for (const influencer of influencers) {
+      await this.refreshInfluencerCoordinates(influencer);
+    }
+
+    return businesses.length + influencers.length;
+  }
+
+  private async geocodeWithNominatim(query: string): Promise<GeocodeResult | null> {
+    const wait = this.lastNominatimRequest + NOMINATIM_MIN_INTERVAL_MS - Date.now();
+    if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+    this.lastNominatimRequest = Date.now();
+
+    try {
+      const response = await axios.get(`${NOMINATIM_URL}/search`, {
+        params: { q: query, format: 'jsonv2', limit: 1 },
+        headers: {
+          'Accept': 'application/json',
+          'User-Agent': NOMINATIM_USER_AGENT
+        },
+        timeout: 5000
+      });
+
+      const [place] = response.data as { lat: string; lon: string; display_name: string; addresstype?: string }[];
+      if (!place) return null;
+
+      const latitude = Number(place.lat);
+      const longitude = Number(place.lon);
+      if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+
+      return {
+        latitude,
+        longitude,
+        label: place.display_name,
+        precision: NOMINATIM_PRECISION[place.addresstype ?? ''] ?? 'address',
+        source: 'nominatim'
+      };
+    } catch (error) {
+      console.error(`Error geocoding "${query}":`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
 }
 
-export const geolocationService = new GeolocationService();
\ No newline at end of file
+export const geolocationService = new GeolocationService();
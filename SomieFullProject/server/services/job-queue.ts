@@ -0,0 +1,249 @@
+/**
+ * Service for the persistent background job queue
+ *
+ * Jobs are stored in Postgres so they survive restarts. A worker loop polls
+ * for due jobs, runs the handler registered for each job type and retries
+ * failures with exponential backoff. Jobs that run out of attempts move to
+ * the dead-letter state until an admin retries them. Recurring work is
+ * declared with cron expressions and enqueued as ordinary jobs.
+ */
+
+import { Job, JobSchedule, JobStatus } from "../../shared/schema";
+import { storage } from "../storage";
+import { getNextCronRun, parseCron } from "./cron";
+
+export type JobHandler = (payload: any, job: Job) => Promise<void>;
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export interface JobQueueSummary {
+  counts: Record<string, number>;
+  jobs: Job[];
+  schedules: JobSchedule[];
+}
+
+interface ScheduleDefinition {
+  name: string;
+  cron: string;
+  jobType: string;
+  payload: Record<string, unknown>;
+}
+
+// How often the worker looks for due jobs
+const POLL_INTERVAL_MS = 5 * 1000;
+
+// Jobs processed per poll, so one busy tick cannot starve the event loop
+const JOBS_PER_POLL = 10;
+
+// Running jobs whose worker has been silent this long are put back in the
+// queue, or dead-lettered if they have no attempts left
+const STALE_JOB_MS = 15 * 60 * 1000;
+
+// Retry delay doubles from the base delay on each attempt, up to the maximum
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export class JobQueueError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'JobQueueError';
+  }
+}
+
+export class JobQueueService {
+  private handlers = new Map<string, JobHandler>();
+  private schedules: ScheduleDefinition[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  /**
+   * Register the handler for a job type
+   * Handlers should throw to signal a failed attempt.
+   */
+  register(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Declare a recurring job; schedules are saved when the worker starts
+   *
+   * @param name Unique schedule name
+   * @param cron Five-field cron expression
+   * @param jobType Job type to enqueue on each run
+   * @param payload Payload for each enqueued job
+   */
+  schedule(name: string, cron: string, jobType: string, payload: Record<string, unknown> = {}): void {
+    parseCron(cron);
+    this.schedules.push({ name, cron, jobType, payload });
+  }
+
+  /**
+   * Add a job to the queue
+   *
+   * @param type The registered job type
+   * @param payload JSON-serializable job input
+   * @param options When to run the job and how many attempts it gets
+   */
+  async enqueue(type: string, payload: Record<string, unknown> = {}, options: EnqueueOptions = {}): Promise<Job> {
+    return await storage.createJob({
+      type,
+      payload,
+      runAt: options.runAt,
+      maxAttempts: options.maxAttempts
+    });
+  }
+
+  /**
+   * Save the declared schedules and start polling for due jobs
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    await this.syncSchedules();
+    this.timer = setInterval(() => {
+      this.poll().catch(error => {
+        console.error('Job queue poll failed:', error);
+      });
+    }, POLL_INTERVAL_MS);
+  }
+
+  /**
+   * Stop polling; jobs already running finish on their own
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one round of the worker loop
+   *
+   * @param now Reference time (defaults to the current time)
+   * @returns Number of jobs that were run
+   */
+  async poll(now: Date = new Date()): Promise<number> {
+    // A slow round must not overlap with the next one
+    if (this.polling) return 0;
+    this.polling = true;
+
+    try {
+      const requeued = await storage.requeueStaleJobs(new Date(now.getTime() - STALE_JOB_MS));
+      if (requeued > 0) {
+        console.log(`Recovered ${requeued} stale jobs`);
+      }
+
+      await this.enqueueDueSchedules(now);
+
+      let processed = 0;
+      while (processed < JOBS_PER_POLL) {
+        const job = await storage.claimNextJob(new Date());
+        if (!job) break;
+        await this.runJob(job);
+        processed++;
+      }
+      return processed;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Get the delay before retrying a job after a failed attempt
+   *
+   * @param attempts Attempts made so far
+   */
+  getRetryDelay(attempts: number): number {
+    return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+  }
+
+  /**
+   * Put a dead job back in the queue with a fresh set of attempts
+   *
+   * @throws JobQueueError if the job is missing or not dead
+   */
+  async retry(id: number): Promise<Job> {
+    const job = await storage.getJobById(id);
+    if (!job) {
+      throw new JobQueueError('Job not found', 404);
+    }
+
+    const retried = await storage.retryDeadJob(id);
+    if (!retried) {
+      throw new JobQueueError(`Only dead jobs can be retried; this job is ${job.status}`, 409);
+    }
+    return retried;
+  }
+
+  /**
+   * List jobs with the queue's status counts and schedules
+   *
+   * @param statuses Job statuses to include
+   * @param limit Maximum number of jobs to return
+   * @param failedOnly Only include jobs that have failed at least one attempt
+   */
+  async getSummary(statuses: JobStatus[], limit: number = 100, failedOnly: boolean = false): Promise<JobQueueSummary> {
+    const [counts, jobList, schedules] = await Promise.all([
+      storage.getJobCountsByStatus(),
+      storage.getJobs(statuses, limit, failedOnly),
+      storage.getJobSchedules()
+    ]);
+    return { counts, jobs: jobList, schedules };
+  }
+
+  private async runJob(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await storage.failJob(job.id, `No handler registered for job type "${job.type}"`, null);
+      return;
+    }
+
+    try {
+      await handler(job.payload, job);
+      await storage.completeJob(job.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryAt = job.attempts < job.maxAttempts
+        ? new Date(Date.now() + this.getRetryDelay(job.attempts))
+        : null;
+
+      console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error);
+      await storage.failJob(job.id, message, retryAt);
+    }
+  }
+
+  // Saves declared schedules, keeping the next run time when the cron is unchanged
+  private async syncSchedules(): Promise<void> {
+    const existing = new Map((await storage.getJobSchedules()).map(schedule => [schedule.name, schedule]));
+
+    for (const definition of this.schedules) {
+      const saved = existing.get(definition.name);
+      const nextRunAt = saved && saved.cron === definition.cron
+        ? saved.nextRunAt
+        : getNextCronRun(definition.cron);
+
+      await storage.upsertJobSchedule({ ...definition, nextRunAt });
+    }
+  }
+
+  private async enqueueDueSchedules(now: Date): Promise<void> {
+    const schedules = await storage.getJobSchedules();
+
+    for (const schedule of schedules) {
+      if (!schedule.enabled || schedule.nextRunAt > now) continue;
+
+      try {
+        // Runs missed while the server was down collapse into a single job
+        await storage.enqueueScheduledJob(schedule, now, getNextCronRun(schedule.cron, now));
+      } catch (error) {
+        console.error(`Error enqueueing scheduled job ${schedule.name}:`, error);
+      }
+    }
+  }
+}
+
+export const jobQueueService = new JobQueueService();
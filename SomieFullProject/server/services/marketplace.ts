@@ -0,0 +1,161 @@
+/**
+ * Service for marketplace search over influencers and offers
+ *
+ * Storage runs the full-text query, filters and facet counts; this service
+ * turns its rows into result cards and keyset positions into the opaque
+ * cursors clients page with.
+ */
+
+import { storage, type SearchCursorPosition, type SearchPageRows } from "../storage";
+import { matchingService } from "./matching";
+import { embeddingService } from "./embeddings";
+import { getAudienceMetrics } from "../../shared/platform-aggregate";
+import { getStoredCoordinates } from "../../shared/geo";
+import {
+  getFollowerTier,
+  type InfluencerSearchPage,
+  type InfluencerSearchQuery,
+  type InfluencerSearchResult,
+  type OfferSearchPage,
+  type OfferSearchQuery,
+  type OfferSearchResult
+} from "../../shared/marketplace-search";
+import type { InfluencerProfile, Offer } from "../../shared/schema";
+
+export class MarketplaceSearchError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'MarketplaceSearchError';
+  }
+}
+
+export class MarketplaceService {
+  /**
+   * Search influencer profiles for businesses
+   */
+  async searchInfluencers(query: InfluencerSearchQuery): Promise<InfluencerSearchPage> {
+    const after = this.decodeCursor(query.cursor);
+    const [page, facets] = await Promise.all([
+      storage.searchInfluencerProfiles(query, query.limit + 1, after),
+      storage.getInfluencerSearchFacets(query)
+    ]);
+
+    const { rows, nextCursor } = this.paginate(page, query.limit);
+    return {
+      items: rows.map(row => this.toInfluencerResult(row.item)),
+      facets,
+      total: page.total,
+      nextCursor
+    };
+  }
+
+  /**
+   * Search active offers
+   *
+   * @param viewer The influencer searching, if any; their offers are scored
+   *   against their profile and radius-targeted offers outside their area are hidden
+   */
+  async searchOffers(query: OfferSearchQuery, viewer?: InfluencerProfile): Promise<OfferSearchPage> {
+    const after = this.decodeCursor(query.cursor);
+    const viewerPoint = viewer ? getStoredCoordinates(viewer) : null;
+    const [page, facets] = await Promise.all([
+      storage.searchOffers(query, query.limit + 1, after, viewerPoint),
+      storage.getOfferSearchFacets(query, viewerPoint)
+    ]);
+
+    const { rows, nextCursor } = this.paginate(page, query.limit);
+    const offers = rows.map(row => row.item);
+
+    const matchingProfile = viewer ? await matchingService.getProfile() : null;
+    const similarities = viewer
+      ? await embeddingService.getOfferSimilarities(viewer, offers.map(offer => offer.id))
+      : new Map<number, number>();
+
+    const items = await Promise.all(offers.map(async (offer) => {
+      const business = await storage.getBusinessProfileById(offer.businessId);
+      const matchScore = viewer && matchingProfile
+        ? matchingService.calculateMatchScore(viewer, offer, matchingProfile, similarities.get(offer.id)).score
+        : null;
+      return this.toOfferResult(offer, business ? {
+        id: business.id,
+        businessName: business.businessName,
+        industry: business.industry ?? null
+      } : null, matchScore);
+    }));
+
+    return { items, facets, total: page.total, nextCursor };
+  }
+
+  // Drop the extra row fetched to tell whether there is another page
+  private paginate<T extends { id: number }>(page: SearchPageRows<T>, limit: number) {
+    const rows = page.rows.slice(0, limit);
+    const last = rows[rows.length - 1];
+    return {
+      rows,
+      nextCursor: page.rows.length > limit && last
+        ? this.encodeCursor({ value: last.sortValue, id: last.item.id })
+        : null
+    };
+  }
+
+  private encodeCursor(position: SearchCursorPosition): string {
+    return Buffer.from(JSON.stringify([position.value, position.id])).toString('base64url');
+  }
+
+  private decodeCursor(cursor?: string): SearchCursorPosition | undefined {
+    if (!cursor) return undefined;
+    try {
+      const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (typeof value === 'number' && Number.isFinite(value) && Number.isInteger(id)) {
+        return { value, id };
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new MarketplaceSearchError('Invalid cursor');
+  }
+
+  private toInfluencerResult(profile: InfluencerProfile): InfluencerSearchResult {
+    const audience = getAudienceMetrics(profile);
+    return {
+      id: profile.id,
+      displayName: profile.displayName,
+      platform: profile.platform,
+      platforms: audience.platforms,
+      niche: profile.niche,
+      location: profile.location,
+      bio: profile.bio,
+      followerCount: audience.followers,
+      engagementRate: audience.engagementRate,
+      credibilityScore: profile.credibilityScore,
+      followerTier: getFollowerTier(audience.followers),
+      contentTypes: profile.contentTypes ?? [],
+      verified: profile.aggregateMetrics?.platforms.some(platform => platform.isVerified) ?? false
+    };
+  }
+
+  private toOfferResult(
+    offer: Offer,
+    business: OfferSearchResult['business'],
+    matchScore: number | null
+  ): OfferSearchResult {
+    return {
+      id: offer.id,
+      title: offer.title,
+      description: offer.description,
+      category: offer.category,
+      reward: offer.reward,
+      rewardType: offer.rewardType,
+      rewardAmount: offer.rewardAmount,
+      contentType: offer.contentType,
+      location: offer.location,
+      tags: offer.tags ?? [],
+      minFollowers: offer.minFollowers,
+      createdAt: offer.createdAt ? offer.createdAt.toISOString() : null,
+      business,
+      matchScore
+    };
+  }
+}
+
+export const marketplaceService = new MarketplaceService();
@@ -1,139 +1,310 @@
 import { Offer, InfluencerProfile } from "../../shared/schema";
 import { geolocationService } from "./geolocation";
+import { getPlatform } from "../../shared/platforms";
+import { getAudienceMetrics } from "../../shared/platform-aggregate";
+import { distanceKm, formatDistance, getStoredCoordinates } from "../../shared/geo";
+import {
+  calculateAudienceOverlap,
+  hasAudienceTargeting,
+  parseAudienceData,
+  parseAudienceRequirements
+} from "../../shared/audience-demographics";
+import {
+  DEFAULT_MATCHING_PROFILE,
+  MATCH_FACTORS,
+  matchingProfileSchema,
+  resolveMatchWeights,
+  type MatchExplanation,
+  type MatchFactor,
+  type MatchFactorContribution,
+  type MatchingProfile,
+  type MatchingProfileInput,
+  type MatchRuleResult
+} from "../../shared/matching-profile";
+import { settingsService, MATCHING_PROFILE_SETTING } from "./settings";
 
-interface MatchScore {
+export interface MatchScore {
   offerId: number;
   score: number;
-  matchFactors: {
-    metricsMatch: number;
-    locationMatch: number;
-    nicheMatch: number;
-    contentTypeMatch: number;
-  };
+  matchFactors: Record<MatchFactor, number>;
+  // Which rules fired and how much each factor added, for the score breakdown
+  explanation: MatchExplanation;
 }
 
+// Matching profile reads are cached briefly; every ranking request needs one
+const PROFILE_CACHE_MS = 60 * 1000;
+
 /**
  * Service for intelligent matching of influencers to offers
  */
 export class MatchingService {
+  private cachedProfile: { profile: MatchingProfile; loadedAt: number } | null = null;
+
+  /**
+   * Get the matching profile admins have configured
+   *
+   * A stored profile that no longer validates is ignored in favour of the
+   * defaults, so a bad edit can't break matching.
+   */
+  async getProfile(): Promise<MatchingProfile> {
+    if (this.cachedProfile && Date.now() - this.cachedProfile.loadedAt < PROFILE_CACHE_MS) {
+      return this.cachedProfile.profile;
+    }
+
+    const stored = await settingsService.get<unknown>(MATCHING_PROFILE_SETTING, DEFAULT_MATCHING_PROFILE);
+    const parsed = matchingProfileSchema.safeParse(stored);
+    if (!parsed.success) {
+      console.error('Stored matching profile is invalid; using the defaults:', parsed.error.message);
+    }
+
+    const profile = parsed.success ? parsed.data : DEFAULT_MATCHING_PROFILE;
+    this.cachedProfile = { profile, loadedAt: Date.now() };
+    return profile;
+  }
+
+  /**
+   * Save a new matching profile as the next version
+   *
+   * @param input Weights and rules
+   * @param adminId The admin making the change
+   * @returns The saved profile and the one it replaced
+   */
+  async saveProfile(input: MatchingProfileInput, adminId: number): Promise<{ profile: MatchingProfile; previous: MatchingProfile }> {
+    this.cachedProfile = null;
+    const previous = await this.getProfile();
+    const profile: MatchingProfile = { ...input, version: previous.version + 1 };
+
+    await settingsService.set(MATCHING_PROFILE_SETTING, profile, adminId);
+    this.cachedProfile = { profile, loadedAt: Date.now() };
+    return { profile, previous };
+  }
+
   /**
    * Calculate compatibility score between an influencer and an offer
-   * This uses multiple factors including metrics, location, content type and niche
+   * This uses multiple factors including metrics, location, content type, niche
+   * and audience credibility, weighted by the matching profile or the offer's
+   * own weights
    * 
    * @param influencer The influencer profile
    * @param offer The offer
-   * @returns Match score (0-100) with breakdown of factors
+   * @param profile Matching profile to score with (defaults to the built-in one)
+   * @param similarity Cosine similarity of the two embeddings, when both have one
+   * @returns Match score (0-100) with breakdown of factors and the rules that fired
    */
-  calculateMatchScore(influencer: InfluencerProfile, offer: Offer): MatchScore {
+  calculateMatchScore(
+    influencer: InfluencerProfile,
+    offer: Offer,
+    profile: MatchingProfile = DEFAULT_MATCHING_PROFILE,
+    similarity?: number
+  ): MatchScore {
+    const { rules } = profile;
+    const fired: MatchRuleResult[] = [];
+    const fire = (factor: MatchFactor, rule: string, detail: string) => fired.push({ factor, rule, detail });
+
     // Initialize match factors
-    const matchFactors = {
+    const matchFactors: Record<MatchFactor, number> = {
       metricsMatch: 0,
       locationMatch: 0,
       nicheMatch: 0,
-      contentTypeMatch: 0
+      audienceMatch: 0,
+      contentTypeMatch: 0,
+      credibilityMatch: 0
     };
     
-    // Calculate metrics match (50% of total score)
+    // Audience across every platform the influencer has added, deduplicated
+    const audience = getAudienceMetrics(influencer);
+
+    // Calculate metrics match
     // 1. Follower match - how well the follower count fits the required range
-    const followerFit = Math.min(1, influencer.followerCount / offer.minFollowers);
-    const idealFollowerCount = offer.minFollowers * 2; // Assume 2x min followers is ideal
-    const followerBonus = influencer.followerCount <= idealFollowerCount ? 1 : 
-                          Math.max(0.7, 1 - ((influencer.followerCount - idealFollowerCount) / idealFollowerCount) * 0.3);
+    const followerFit = offer.minFollowers > 0 ? Math.min(1, audience.followers / offer.minFollowers) : 1;
+    const idealFollowerCount = offer.minFollowers * rules.metrics.idealFollowerMultiple;
+    const followerBonus = audience.followers <= idealFollowerCount || idealFollowerCount <= 0 ? 1 : 
+                          Math.max(rules.metrics.oversizeFloor, 1 - ((audience.followers - idealFollowerCount) / idealFollowerCount) * rules.metrics.oversizePenalty);
+    fire('metricsMatch', 'metrics.followers',
+      `${audience.followers.toLocaleString()} followers against a minimum of ${offer.minFollowers.toLocaleString()}`);
+    if (followerBonus < 1) {
+      fire('metricsMatch', 'metrics.oversized',
+        `Audience is well above the ideal ${idealFollowerCount.toLocaleString()}, so the fit counts for ${Math.round(followerBonus * 100)}%`);
+    }
     
     // 2. Engagement match - how well the engagement exceeds required minimum
     // By this point, the offer.minEngagement has already been converted from integer to decimal (4.2% instead of 42)
-    // and influencer.engagementRate is stored as decimal (e.g., 5.1% as 5.1)
-    const engagementRate = typeof influencer.engagementRate === 'number' ? influencer.engagementRate : Number(influencer.engagementRate);
-    const engagementExcess = Math.min(2, engagementRate / offer.minEngagement);
+    // and the audience engagement rate is a decimal (e.g., 5.1% as 5.1)
+    const engagementRate = audience.engagementRate;
+    const engagementExcess = offer.minEngagement > 0
+      ? Math.min(rules.metrics.maxEngagementMultiple, engagementRate / offer.minEngagement)
+      : rules.metrics.maxEngagementMultiple;
+    fire('metricsMatch', 'metrics.engagement',
+      `${engagementRate}% engagement against a minimum of ${offer.minEngagement}%`);
     
     // Combined metrics score
-    matchFactors.metricsMatch = Math.min(100, Math.round((followerFit * 0.6 + engagementExcess * 0.4) * followerBonus * 100));
+    matchFactors.metricsMatch = Math.min(100, Math.round(
+      (followerFit * rules.metrics.followerShare + engagementExcess * rules.metrics.engagementShare) * followerBonus * 100
+    ));
     
-    // Calculate location match (15% of total score)
-    if (influencer.location && offer.location) {
+    // Calculate location match
+    // Geocoded coordinates are compared by distance; place names are the fallback
+    const influencerPoint = getStoredCoordinates(influencer);
+    const offerPoint = getStoredCoordinates(offer);
+    if (influencerPoint && offerPoint) {
+      const distance = distanceKm(influencerPoint, offerPoint);
+      const place = offer.location || 'the business';
+      if (offer.radiusKm && distance > offer.radiusKm) {
+        matchFactors.locationMatch = rules.location.outsideRadius;
+        fire('locationMatch', 'location.outside_radius',
+          `${formatDistance(distance)} from ${place}, outside the ${offer.radiusKm} km area`);
+      } else {
+        // Full marks on the spot, halving towards the mismatch score every decayKm
+        const decay = Math.pow(0.5, distance / rules.location.decayKm);
+        matchFactors.locationMatch = Math.round(
+          rules.location.mismatch + (rules.location.exact - rules.location.mismatch) * decay
+        );
+        fire('locationMatch', 'location.distance', `${formatDistance(distance)} from ${place}`);
+      }
+    } else if (influencer.location && offer.location) {
+      const influencerLocation = influencer.location.toLowerCase();
+      const offerLocation = offer.location.toLowerCase();
       // Exact match
-      if (influencer.location.toLowerCase() === offer.location.toLowerCase()) {
-        matchFactors.locationMatch = 100;
+      if (influencerLocation === offerLocation) {
+        matchFactors.locationMatch = rules.location.exact;
+        fire('locationMatch', 'location.exact', `Based in ${offer.location}`);
       } 
       // Partial match (same region/state or city contains)
       else if (
-        influencer.location.toLowerCase().includes(offer.location.toLowerCase()) ||
-        offer.location.toLowerCase().includes(influencer.location.toLowerCase())
+        rules.location.allowPartial &&
+        (influencerLocation.includes(offerLocation) || offerLocation.includes(influencerLocation))
       ) {
-        matchFactors.locationMatch = 70;
+        matchFactors.locationMatch = rules.location.partial;
+        fire('locationMatch', 'location.partial', `${influencer.location} overlaps with ${offer.location}`);
       }
       // No match but has location
       else {
-        matchFactors.locationMatch = 30;
+        matchFactors.locationMatch = rules.location.mismatch;
+        fire('locationMatch', 'location.mismatch', `${influencer.location} is outside ${offer.location}`);
       }
     } else {
       // No location data to match
-      matchFactors.locationMatch = 0;
+      matchFactors.locationMatch = rules.location.missing;
+      fire('locationMatch', 'location.missing',
+        offer.location ? 'The influencer has not set a location' : 'The offer has no location target');
     }
     
-    // Calculate niche match (20% of total score)
+    // Calculate niche match
     if (influencer.niche && offer.category) {
-      const niche = influencer.niche; // Create a local constant to avoid null checks
+      const niche = influencer.niche.toLowerCase();
+      const matchingTag = rules.niche.matchTags
+        ? offer.tags?.find((tag: string) => niche.includes(tag.toLowerCase()) || tag.toLowerCase().includes(niche))
+        : undefined;
       // Direct category match
-      if (niche.toLowerCase() === offer.category.toLowerCase()) {
-        matchFactors.nicheMatch = 100;
+      if (niche === offer.category.toLowerCase()) {
+        matchFactors.nicheMatch = rules.niche.category;
+        fire('nicheMatch', 'niche.category', `Niche matches the ${offer.category} category`);
       }
       // Check tag overlap for niche match
-      else if (offer.tags && offer.tags.some((tag: string) => 
-        niche.toLowerCase().includes(tag.toLowerCase()) ||
-        tag.toLowerCase().includes(niche.toLowerCase())
-      )) {
-        matchFactors.nicheMatch = 75;
+      else if (matchingTag) {
+        matchFactors.nicheMatch = rules.niche.tag;
+        fire('nicheMatch', 'niche.tag', `Niche "${influencer.niche}" matches the offer tag "${matchingTag}"`);
       }
       // No direct match but has niche
       else {
-        matchFactors.nicheMatch = 20;
+        matchFactors.nicheMatch = rules.niche.mismatch;
+        fire('nicheMatch', 'niche.mismatch', `Niche "${influencer.niche}" differs from the ${offer.category} category`);
       }
     } else {
       // No niche data to match
-      matchFactors.nicheMatch = 0;
+      matchFactors.nicheMatch = rules.niche.missing;
+      fire('nicheMatch', 'niche.missing', 'The influencer has not set a niche');
+    }
+
+    // Content similarity can lift the niche score when the names don't line up
+    if (rules.niche.semantic && similarity !== undefined) {
+      const range = Math.max(0.01, rules.niche.similarityCeiling - rules.niche.similarityFloor);
+      const closeness = Math.max(0, Math.min(1, (similarity - rules.niche.similarityFloor) / range));
+      const semanticScore = Math.round(rules.niche.mismatch + (rules.niche.category - rules.niche.mismatch) * closeness);
+      if (semanticScore > matchFactors.nicheMatch) {
+        matchFactors.nicheMatch = semanticScore;
+        fire('nicheMatch', 'niche.semantic',
+          `The influencer's bio and posts are ${Math.round(similarity * 100)}% similar to the offer`);
+      }
     }
     
-    // Calculate content type match (15% of total score)
-    if (influencer.platform && offer.contentType) {
-      // Platform-specific content type match
-      const platformContentMatch = {
-        "instagram": ["image", "carousel", "story", "reel"],
-        "tiktok": ["video", "short", "live"],
-        "youtube": ["video", "short", "livestream"]
-      };
-      
-      const platformKey = influencer.platform.toLowerCase() as keyof typeof platformContentMatch;
+    // Calculate audience match
+    // How much of the influencer's audience is the audience the offer wants to reach
+    const requirements = parseAudienceRequirements(offer.audienceRequirements);
+    if (!hasAudienceTargeting(requirements)) {
+      matchFactors.audienceMatch = rules.audience.untargeted;
+      fire('audienceMatch', 'audience.untargeted', 'The offer does not target a specific audience');
+    } else {
+      const overlap = calculateAudienceOverlap(
+        parseAudienceData(influencer.audienceData),
+        requirements,
+        rules.audience.fullOverlapShare
+      );
+      if (overlap.score === null) {
+        matchFactors.audienceMatch = rules.audience.unknown;
+        fire('audienceMatch', 'audience.unknown', 'The influencer has not described their audience');
+      } else {
+        matchFactors.audienceMatch = overlap.score;
+        // One rule per targeted dimension, including the ones the profile can't answer
+        for (const component of overlap.components) {
+          fire('audienceMatch', `audience.${component.dimension}`, component.detail);
+        }
+      }
+    }
+    
+    // Calculate content type match
+    if (audience.platforms.length > 0 && offer.contentType) {
+      // Platform-specific content type match, on whichever of the influencer's platforms fits best
+      const contentType = offer.contentType.toLowerCase();
+      const platforms = audience.platforms.map(id => getPlatform(id)).filter(platform => platform !== undefined);
+      const preferred = platforms.find(platform => platform.contentTypes.includes(contentType));
       
-      if (platformKey in platformContentMatch && 
-          platformContentMatch[platformKey].includes(offer.contentType.toLowerCase())) {
-        matchFactors.contentTypeMatch = 100;
+      if (preferred) {
+        matchFactors.contentTypeMatch = rules.contentType.preferred;
+        fire('contentTypeMatch', 'content_type.preferred', `${preferred.label} is built for ${contentType} content`);
       } 
       // Platform can do content but not preferred
-      else if (platformKey in platformContentMatch) {
-        matchFactors.contentTypeMatch = 40;
+      else if (platforms.length > 0) {
+        matchFactors.contentTypeMatch = rules.contentType.supported;
+        fire('contentTypeMatch', 'content_type.supported',
+          `${contentType} isn't the main format on ${platforms.map(platform => platform.label).join(', ')}`);
       }
       // No data for content type matching
       else {
-        matchFactors.contentTypeMatch = 0;
+        matchFactors.contentTypeMatch = rules.contentType.missing;
+        fire('contentTypeMatch', 'content_type.missing', 'None of the influencer\'s platforms are recognised');
       }
     } else {
       // No content type data to match
-      matchFactors.contentTypeMatch = 0;
+      matchFactors.contentTypeMatch = rules.contentType.missing;
+      fire('contentTypeMatch', 'content_type.missing', 'The offer does not ask for a content type');
     }
     
+    // Calculate credibility match
+    // Follower and engagement figures count for less when the audience looks bought
+    matchFactors.credibilityMatch = Math.max(0, Math.min(100, influencer.credibilityScore));
+    fire('credibilityMatch', 'credibility.score', `Audience credibility score of ${matchFactors.credibilityMatch}`);
+    
     // Calculate final score with weighted factors
-    const finalScore = Math.round(
-      (matchFactors.metricsMatch * 0.5) +
-      (matchFactors.locationMatch * 0.15) +
-      (matchFactors.nicheMatch * 0.2) +
-      (matchFactors.contentTypeMatch * 0.15)
-    );
+    const { weights, source } = resolveMatchWeights(profile, offer.matchWeights);
+    const factors: MatchFactorContribution[] = MATCH_FACTORS.map(factor => ({
+      factor,
+      score: matchFactors[factor],
+      weight: weights[factor],
+      points: Math.round(matchFactors[factor] * weights[factor]) / 100
+    }));
+    const finalScore = Math.round(factors.reduce((sum, factor) => sum + factor.points, 0));
     
     return {
       offerId: offer.id,
       score: finalScore,
-      matchFactors
+      matchFactors,
+      explanation: {
+        profileVersion: profile.version,
+        weightSource: source,
+        factors,
+        rules: fired
+      }
     };
   }
   
@@ -142,11 +313,15 @@ export class MatchingService {
    * 
    * @param influencer The influencer profile
    * @param offers List of available offers
+   * @param profile Matching profile to score with
+   * @param similarities Embedding similarity to the influencer, by offer ID
    * @returns Ranked offers with match scores
    */
   rankOffersForInfluencer(
     influencer: InfluencerProfile, 
-    offers: Offer[]
+    offers: Offer[],
+    profile: MatchingProfile = DEFAULT_MATCHING_PROFILE,
+    similarities: Map<number, number> = new Map()
   ): { offers: Offer[], matchScores: { [offerId: number]: MatchScore } } {
     // Calculate match scores for each offer
     const matchScores: { [offerId: number]: MatchScore } = {};
@@ -154,19 +329,34 @@ export class MatchingService {
     offers.forEach(offer => {
       // If matchScore is already calculated (for test offers), use that
       if ((offer as any).matchScore) {
+        const matchFactors = {
+          metricsMatch: 90,
+          locationMatch: 80,
+          nicheMatch: 85,
+          audienceMatch: 75,
+          contentTypeMatch: 90,
+          credibilityMatch: influencer.credibilityScore
+        };
+        const { weights } = resolveMatchWeights(profile);
         matchScores[offer.id] = {
           offerId: offer.id,
           score: (offer as any).matchScore,
-          matchFactors: {
-            metricsMatch: 90,
-            locationMatch: 80,
-            nicheMatch: 85,
-            contentTypeMatch: 90
+          matchFactors,
+          explanation: {
+            profileVersion: profile.version,
+            weightSource: 'profile',
+            factors: MATCH_FACTORS.map(factor => ({
+              factor,
+              score: matchFactors[factor],
+              weight: weights[factor],
+              points: Math.round(matchFactors[factor] * weights[factor]) / 100
+            })),
+            rules: [{ factor: 'metricsMatch', rule: 'preset', detail: 'Preset score for a test offer' }]
           }
         };
       } else {
         // Otherwise, calculate the match score
-        matchScores[offer.id] = this.calculateMatchScore(influencer, offer);
+        matchScores[offer.id] = this.calculateMatchScore(influencer, offer, profile, similarities.get(offer.id));
       }
     });
     
@@ -178,7 +368,8 @@ export class MatchingService {
     // Add matchScore to each offer for UI display
     const enrichedOffers = sortedOffers.map(offer => ({
       ...offer,
-      matchScore: matchScores[offer.id].score
+      matchScore: matchScores[offer.id].score,
+      matchExplanation: matchScores[offer.id].explanation
     }));
     
     return {
@@ -0,0 +1,96 @@
+/**
+ * Service for influencer follower and engagement history
+ *
+ * Builds chartable series from the metric snapshots recorded on every fetch.
+ * Each account keeps its last reading per period; the combined series carries
+ * an account's last value forward so a missed reading does not dip the total.
+ */
+
+import { InfluencerProfile } from "../../shared/schema";
+import {
+  calculateGrowth,
+  getHistoryRangeStart,
+  HistoryGranularity,
+  HistoryMetric,
+  HistoryRange,
+  MetricHistory,
+  MetricHistoryPoint,
+  MetricHistorySeries
+} from "../../shared/metric-history";
+import { storage } from "../storage";
+import { normalizeHandle } from "./social-metrics";
+
+export class MetricHistoryService {
+  /**
+   * Get a metric's history for an influencer across all their accounts
+   *
+   * @param profile The influencer profile
+   * @param metric Followers (summed across accounts) or engagement (averaged)
+   * @param range How far back to go
+   * @param granularity Period each point covers
+   * @param now Reference time (defaults to the current time)
+   */
+  async getHistory(
+    profile: InfluencerProfile,
+    metric: HistoryMetric,
+    range: HistoryRange,
+    granularity: HistoryGranularity,
+    now: Date = new Date()
+  ): Promise<MetricHistory> {
+    const platforms = await storage.getSocialPlatformsByInfluencerId(profile.id);
+    const buckets = await storage.getPlatformMetricHistory({
+      influencerId: profile.id,
+      accounts: platforms.map(platform => ({
+        platform: platform.platform.toLowerCase(),
+        handle: normalizeHandle(platform.handle)
+      })),
+      since: getHistoryRangeStart(range, now),
+      granularity
+    });
+
+    const series = new Map<string, MetricHistorySeries>();
+    const bucketTimes: number[] = [];
+    const readings = new Map<number, Map<string, number>>();
+
+    for (const bucket of buckets) {
+      const key = `${bucket.platform}:${bucket.handle}`;
+      const value = metric === 'followers' ? bucket.followers : bucket.engagementRate;
+      const date = bucket.bucket.toISOString();
+
+      if (!series.has(key)) {
+        series.set(key, { platform: bucket.platform, handle: bucket.handle, points: [] });
+      }
+      series.get(key)!.points.push({ date, value });
+
+      const time = bucket.bucket.getTime();
+      if (!readings.has(time)) {
+        readings.set(time, new Map());
+        bucketTimes.push(time);
+      }
+      readings.get(time)!.set(key, value);
+    }
+
+    const latest = new Map<string, number>();
+    const points: MetricHistoryPoint[] = bucketTimes.sort((a, b) => a - b).map(time => {
+      readings.get(time)!.forEach((value, key) => latest.set(key, value));
+      const values = Array.from(latest.values());
+      const total = values.reduce((sum, value) => sum + value, 0);
+
+      return {
+        date: new Date(time).toISOString(),
+        value: metric === 'followers' ? total : Math.round((total / values.length) * 100) / 100
+      };
+    });
+
+    return {
+      metric,
+      range,
+      granularity,
+      points,
+      series: Array.from(series.values()),
+      growth: calculateGrowth(points)
+    };
+  }
+}
+
+export const metricHistoryService = new MetricHistoryService();
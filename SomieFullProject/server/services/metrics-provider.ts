@@ -0,0 +1,836 @@
+/**
+ * Social metrics providers: where follower and engagement numbers come from
+ *
+ * Each platform has an adapter that knows how to request its official API
+ * and/or its public profile page, and how to parse the responses. Providers
+ * wrap an adapter for one source:
+ * - api: the platform's official API (needs credentials or the creator's token)
+ * - scraper: the public profile page
+ * - fixture: recorded API/page responses replayed from disk, so parsing can
+ *   be exercised without network access
+ *
+ * The provider used per platform is configured with the "metrics.providers"
+ * system setting; METRICS_PROVIDER overrides it for every platform, e.g. to
+ * run against fixtures locally. Set METRICS_RECORD_FIXTURES=true to save live
+ * responses into the fixture directory.
+ */
+
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { settingsService } from './settings';
+import { getPlatform, PLATFORM_IDS } from '../../shared/platforms';
+
+export interface SocialMediaMetrics {
+  username: string;
+  accountId?: string;
+  displayName?: string;
+  followers: number;
+  engagementRate: number; // 0 when the source does not expose engagement
+  averageMonthlyPosts?: number;
+  mediaCount?: number;
+  averageLikes?: number;
+  averageComments?: number;
+  verified?: boolean;
+  bio?: string; // Used to confirm bio verification codes
+  profileUrl: string;
+  platform: string;
+}
+
+export const METRICS_PROVIDER_KINDS = ['api', 'scraper', 'fixture'] as const;
+export type MetricsProviderKind = typeof METRICS_PROVIDER_KINDS[number];
+
+// "auto" uses the official API when it is configured, and the scraper otherwise if the platform has one
+export type MetricsProviderSetting = MetricsProviderKind | 'auto';
+
+export interface MetricsProvider {
+  readonly platform: string;
+  readonly kind: MetricsProviderKind;
+  /**
+   * Fetch metrics for a handle (without a leading @)
+   *
+   * @param handle The account handle
+   * @param accessToken The creator's own token, for APIs that need one
+   * @returns Metrics, or null if the account was not found
+   */
+  fetchMetrics(handle: string, accessToken?: string): Promise<SocialMediaMetrics | null>;
+}
+
+// A raw response body as returned by the platform, and as stored in fixtures
+type ResponseFormat = 'html' | 'json';
+
+interface ResponseSource {
+  format: ResponseFormat;
+  parse(body: string, handle: string): SocialMediaMetrics | null;
+}
+
+interface ApiSource extends ResponseSource {
+  isConfigured(accessToken?: string): boolean;
+  request(handle: string, accessToken?: string): Promise<string>;
+}
+
+interface ScraperSource extends ResponseSource {
+  url(handle: string): string;
+  headers?: Record<string, string>;
+}
+
+// Some platforms only have an API, others only a public page worth reading
+interface PlatformAdapter {
+  platform: string;
+  api?: ApiSource;
+  scraper?: ScraperSource;
+}
+
+const REQUEST_TIMEOUT_MS = 15000;
+const BROWSER_USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36';
+
+// Posts used to average likes and comments
+const RECENT_POST_COUNT = 12;
+
+const FIXTURE_DIR = process.env.METRICS_FIXTURE_DIR || path.join(process.cwd(), 'server', 'fixtures', 'metrics');
+
+/**
+ * Parse a displayed count such as "12,345", "12.3K" or "1.2M subscribers"
+ */
+export function parseCount(text: string | number | null | undefined): number | null {
+  if (typeof text === 'number') return Number.isFinite(text) ? Math.round(text) : null;
+  if (!text) return null;
+
+  const match = /([\d.,]+)\s*([KMB])?/i.exec(text);
+  if (!match) return null;
+
+  const suffix = (match[2] || '').toUpperCase();
+  const multiplier = suffix === 'K' ? 1e3 : suffix === 'M' ? 1e6 : suffix === 'B' ? 1e9 : 1;
+  // Thousands separators only matter without a suffix; "1.2M" keeps its decimal point
+  const digits = multiplier === 1 ? match[1].replace(/[.,]/g, '') : match[1].replace(/,/g, '');
+  const value = Number(digits) * multiplier;
+  return Number.isFinite(value) ? Math.round(value) : null;
+}
+
+const average = (values: number[]): number | undefined =>
+  values.length === 0 ? undefined : Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+// Average interactions per post as a percentage of followers
+const engagementFrom = (followers: number, averageLikes?: number, averageComments?: number): number => {
+  if (followers <= 0 || averageLikes === undefined) return 0;
+  return Number((((averageLikes + (averageComments ?? 0)) / followers) * 100).toFixed(2));
+};
+
+const parseJson = (body: string): any => {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+};
+
+const instagramMetrics = (
+  handle: string,
+  user: { username?: string; name?: string; followers: number; mediaCount?: number; verified?: boolean; accountId?: string; bio?: string },
+  posts: { likes: number; comments: number }[]
+): SocialMediaMetrics => {
+  const averageLikes = average(posts.map(post => post.likes));
+  const averageComments = average(posts.map(post => post.comments));
+  const username = user.username || handle;
+
+  return {
+    username,
+    accountId: user.accountId,
+    displayName: user.name || username,
+    followers: user.followers,
+    engagementRate: engagementFrom(user.followers, averageLikes, averageComments),
+    mediaCount: user.mediaCount,
+    averageLikes,
+    averageComments,
+    verified: user.verified,
+    bio: user.bio,
+    profileUrl: `https://instagram.com/${username}`,
+    platform: 'instagram'
+  };
+};
+
+const instagramAdapter: PlatformAdapter = {
+  platform: 'instagram',
+  // Business discovery lets a business account read any professional account's public counts
+  api: {
+    format: 'json',
+    isConfigured: (accessToken) => !!process.env.INSTAGRAM_BUSINESS_ACCOUNT_ID && !!(accessToken || process.env.FACEBOOK_ACCESS_TOKEN),
+    async request(handle, accessToken) {
+      const fields = `business_discovery.username(${handle}){id,username,name,biography,followers_count,media_count,media.limit(${RECENT_POST_COUNT}){like_count,comments_count}}`;
+      const response = await axios.get(`https://graph.facebook.com/v19.0/${process.env.INSTAGRAM_BUSINESS_ACCOUNT_ID}`, {
+        params: { fields, access_token: accessToken || process.env.FACEBOOK_ACCESS_TOKEN },
+        timeout: REQUEST_TIMEOUT_MS,
+        responseType: 'text'
+      });
+      return response.data;
+    },
+    parse(body, handle) {
+      const account = parseJson(body)?.business_discovery;
+      const followers = parseCount(account?.followers_count);
+      if (!account || followers === null) return null;
+
+      const posts = (account.media?.data || []).map((post: any) => ({
+        likes: Number(post.like_count) || 0,
+        comments: Number(post.comments_count) || 0
+      }));
+      return instagramMetrics(handle, {
+        username: account.username,
+        name: account.name,
+        followers,
+        mediaCount: parseCount(account.media_count) ?? undefined,
+        accountId: account.id,
+        bio: account.biography
+      }, posts);
+    }
+  },
+  // The JSON the instagram.com profile page loads for its header and grid
+  scraper: {
+    format: 'json',
+    url: (handle) => `https://www.instagram.com/api/v1/users/web_profile_info/?username=${encodeURIComponent(handle)}`,
+    headers: { 'x-ig-app-id': '936619743392459' },
+    parse(body, handle) {
+      const user = parseJson(body)?.data?.user;
+      const followers = parseCount(user?.edge_followed_by?.count);
+      if (!user || followers === null) return null;
+
+      const timeline = user.edge_owner_to_timeline_media;
+      const posts = (timeline?.edges || []).slice(0, RECENT_POST_COUNT).map((edge: any) => ({
+        likes: Number(edge.node?.edge_liked_by?.count ?? edge.node?.edge_media_preview_like?.count) || 0,
+        comments: Number(edge.node?.edge_media_to_comment?.count) || 0
+      }));
+      return instagramMetrics(handle, {
+        username: user.username,
+        name: user.full_name,
+        followers,
+        mediaCount: parseCount(timeline?.count) ?? undefined,
+        verified: !!user.is_verified,
+        accountId: user.id,
+        bio: user.biography
+      }, posts);
+    }
+  }
+};
+
+const tiktokMetrics = (
+  handle: string,
+  user: { username?: string; name?: string; verified?: boolean; bio?: string },
+  stats: { followers: number; likes: number | null; videos: number | null }
+): SocialMediaMetrics => {
+  // TikTok only exposes lifetime likes, so average them over all videos
+  const averageLikes = stats.likes !== null && stats.videos ? Math.round(stats.likes / stats.videos) : undefined;
+  const username = user.username || handle;
+
+  return {
+    username,
+    displayName: user.name || username,
+    followers: stats.followers,
+    engagementRate: engagementFrom(stats.followers, averageLikes),
+    mediaCount: stats.videos ?? undefined,
+    averageLikes,
+    verified: user.verified,
+    bio: user.bio,
+    profileUrl: `https://tiktok.com/@${username}`,
+    platform: 'tiktok'
+  };
+};
+
+const tiktokAdapter: PlatformAdapter = {
+  platform: 'tiktok',
+  // The Display API only returns the creator's own account, so it needs their token
+  api: {
+    format: 'json',
+    isConfigured: (accessToken) => !!accessToken,
+    async request(_handle, accessToken) {
+      const response = await axios.get('https://open.tiktokapis.com/v2/user/info/', {
+        params: { fields: 'open_id,username,display_name,bio_description,is_verified,follower_count,likes_count,video_count' },
+        headers: { Authorization: `Bearer ${accessToken}` },
+        timeout: REQUEST_TIMEOUT_MS,
+        responseType: 'text'
+      });
+      return response.data;
+    },
+    parse(body, handle) {
+      const user = parseJson(body)?.data?.user;
+      const followers = parseCount(user?.follower_count);
+      if (!user || followers === null) return null;
+
+      return tiktokMetrics(handle, {
+        username: user.username,
+        name: user.display_name,
+        verified: !!user.is_verified,
+        bio: user.bio_description
+      }, {
+        followers,
+        likes: parseCount(user.likes_count),
+        videos: parseCount(user.video_count)
+      });
+    }
+  },
+  // The profile page embeds its data as JSON for hydration
+  scraper: {
+    format: 'html',
+    url: (handle) => `https://www.tiktok.com/@${encodeURIComponent(handle)}`,
+    parse(body, handle) {
+      const $ = cheerio.load(body);
+      const data = parseJson($('#__UNIVERSAL_DATA_FOR_REHYDRATION__').text());
+      const userInfo = data?.__DEFAULT_SCOPE__?.['webapp.user-detail']?.userInfo;
+      const followers = parseCount(userInfo?.stats?.followerCount);
+      if (!userInfo?.user || followers === null) return null;
+
+      return tiktokMetrics(handle, {
+        username: userInfo.user.uniqueId,
+        name: userInfo.user.nickname,
+        verified: !!userInfo.user.verified,
+        bio: userInfo.user.signature
+      }, {
+        followers,
+        likes: parseCount(userInfo.stats.heartCount ?? userInfo.stats.heart),
+        videos: parseCount(userInfo.stats.videoCount)
+      });
+    }
+  }
+};
+
+const youtubeAdapter: PlatformAdapter = {
+  platform: 'youtube',
+  // Channel statistics plus the latest uploads' likes and comments
+  api: {
+    format: 'json',
+    isConfigured: () => !!process.env.YOUTUBE_API_KEY,
+    async request(handle) {
+      const key = process.env.YOUTUBE_API_KEY;
+      const api = 'https://www.googleapis.com/youtube/v3';
+      const channel = (await axios.get(`${api}/channels`, {
+        params: { part: 'snippet,statistics,contentDetails', forHandle: `@${handle}`, key },
+        timeout: REQUEST_TIMEOUT_MS
+      })).data;
+
+      const uploads = channel?.items?.[0]?.contentDetails?.relatedPlaylists?.uploads;
+      let videos = null;
+      if (uploads) {
+        const playlist = (await axios.get(`${api}/playlistItems`, {
+          params: { part: 'contentDetails', playlistId: uploads, maxResults: RECENT_POST_COUNT, key },
+          timeout: REQUEST_TIMEOUT_MS
+        })).data;
+        const ids = (playlist?.items || []).map((item: any) => item.contentDetails?.videoId).filter(Boolean);
+        if (ids.length > 0) {
+          videos = (await axios.get(`${api}/videos`, {
+            params: { part: 'statistics', id: ids.join(','), key },
+            timeout: REQUEST_TIMEOUT_MS
+          })).data;
+        }
+      }
+
+      // Recorded as one document so a fixture replays all three calls
+      return JSON.stringify({ channel, videos });
+    },
+    parse(body, handle) {
+      const data = parseJson(body);
+      const channel = data?.channel?.items?.[0];
+      const subscribers = parseCount(channel?.statistics?.subscriberCount);
+      if (!channel || subscribers === null) return null;
+
+      const stats = (data.videos?.items || []).map((video: any) => video.statistics || {});
+      const averageLikes = average(stats.map((video: any) => Number(video.likeCount) || 0));
+      const averageComments = average(stats.map((video: any) => Number(video.commentCount) || 0));
+      const username = (channel.snippet?.customUrl || handle).replace(/^@/, '');
+
+      return {
+        username,
+        accountId: channel.id,
+        displayName: channel.snippet?.title || username,
+        followers: subscribers,
+        engagementRate: engagementFrom(subscribers, averageLikes, averageComments),
+        mediaCount: parseCount(channel.statistics?.videoCount) ?? undefined,
+        averageLikes,
+        averageComments,
+        bio: channel.snippet?.description,
+        profileUrl: `https://youtube.com/@${username}`,
+        platform: 'youtube'
+      };
+    }
+  },
+  // The channel page shows subscriber and video counts but no per-video engagement
+  scraper: {
+    format: 'html',
+    url: (handle) => `https://www.youtube.com/@${encodeURIComponent(handle)}`,
+    parse(body, handle) {
+      const $ = cheerio.load(body);
+      const subscribers = parseCount(/"([\d.,]+[KMB]?) subscribers"/i.exec(body)?.[1]);
+      if (subscribers === null) return null;
+
+      const videos = parseCount(/"([\d.,]+[KMB]?) videos"/i.exec(body)?.[1]);
+      const title = $('meta[property="og:title"]').attr('content');
+      const canonical = $('link[rel="canonical"]').attr('href') || '';
+      const username = /\/@([^/?]+)/.exec(canonical)?.[1] || handle;
+
+      return {
+        username,
+        displayName: title || username,
+        followers: subscribers,
+        engagementRate: 0,
+        mediaCount: videos ?? undefined,
+        verified: body.includes('"BADGE_STYLE_TYPE_VERIFIED"'),
+        bio: $('meta[property="og:description"]').attr('content'),
+        profileUrl: `https://youtube.com/@${username}`,
+        platform: 'youtube'
+      };
+    }
+  }
+};
+
+const twitchAdapter: PlatformAdapter = {
+  platform: 'twitch',
+  // Helix with an app access token; follower totals come from a separate endpoint
+  api: {
+    format: 'json',
+    isConfigured: (accessToken) => !!process.env.TWITCH_CLIENT_ID && !!(accessToken || process.env.TWITCH_APP_TOKEN),
+    async request(handle, accessToken) {
+      const api = 'https://api.twitch.tv/helix';
+      const headers = {
+        'Client-Id': process.env.TWITCH_CLIENT_ID!,
+        Authorization: `Bearer ${accessToken || process.env.TWITCH_APP_TOKEN}`
+      };
+      const users = (await axios.get(`${api}/users`, {
+        params: { login: handle },
+        headers,
+        timeout: REQUEST_TIMEOUT_MS
+      })).data;
+
+      const user = users?.data?.[0];
+      let followers = null;
+      if (user) {
+        followers = (await axios.get(`${api}/channels/followers`, {
+          params: { broadcaster_id: user.id, first: 1 },
+          headers,
+          timeout: REQUEST_TIMEOUT_MS
+        })).data;
+      }
+
+      // Recorded as one document so a fixture replays both calls
+      return JSON.stringify({ users, followers });
+    },
+    parse(body, handle) {
+      const data = parseJson(body);
+      const user = data?.users?.data?.[0];
+      const followers = parseCount(data?.followers?.total);
+      if (!user || followers === null) return null;
+
+      const username = user.login || handle;
+      // Twitch has no likes or comments to measure engagement with
+      return {
+        username,
+        accountId: user.id,
+        displayName: user.display_name || username,
+        followers,
+        engagementRate: 0,
+        verified: user.broadcaster_type === 'partner',
+        bio: user.description,
+        profileUrl: `https://twitch.tv/${username}`,
+        platform: 'twitch'
+      };
+    }
+  }
+};
+
+const xAdapter: PlatformAdapter = {
+  platform: 'x',
+  // API v2 public metrics for the account and its latest posts
+  api: {
+    format: 'json',
+    isConfigured: (accessToken) => !!(accessToken || process.env.X_BEARER_TOKEN),
+    async request(handle, accessToken) {
+      const api = 'https://api.x.com/2';
+      const headers = { Authorization: `Bearer ${accessToken || process.env.X_BEARER_TOKEN}` };
+      const user = (await axios.get(`${api}/users/by/username/${encodeURIComponent(handle)}`, {
+        params: { 'user.fields': 'name,description,verified,public_metrics' },
+        headers,
+        timeout: REQUEST_TIMEOUT_MS
+      })).data;
+
+      let posts = null;
+      if (user?.data?.id) {
+        posts = (await axios.get(`${api}/users/${user.data.id}/tweets`, {
+          params: { max_results: RECENT_POST_COUNT, exclude: 'retweets,replies', 'tweet.fields': 'public_metrics' },
+          headers,
+          timeout: REQUEST_TIMEOUT_MS
+        })).data;
+      }
+
+      // Recorded as one document so a fixture replays both calls
+      return JSON.stringify({ user, posts });
+    },
+    parse(body, handle) {
+      const data = parseJson(body);
+      const user = data?.user?.data;
+      const followers = parseCount(user?.public_metrics?.followers_count);
+      if (!user || followers === null) return null;
+
+      const metrics = (data.posts?.data || []).map((post: any) => post.public_metrics || {});
+      const averageLikes = average(metrics.map((post: any) => Number(post.like_count) || 0));
+      const averageComments = average(metrics.map((post: any) => Number(post.reply_count) || 0));
+      const username = user.username || handle;
+
+      return {
+        username,
+        accountId: user.id,
+        displayName: user.name || username,
+        followers,
+        engagementRate: engagementFrom(followers, averageLikes, averageComments),
+        mediaCount: parseCount(user.public_metrics?.tweet_count) ?? undefined,
+        averageLikes,
+        averageComments,
+        verified: !!user.verified,
+        bio: user.description,
+        profileUrl: `https://x.com/${username}`,
+        platform: 'x'
+      };
+    }
+  }
+};
+
+const pinterestMetrics = (
+  handle: string,
+  user: { username?: string; name?: string; followers: number; pins: number | null; accountId?: string; bio?: string }
+): SocialMediaMetrics => {
+  const username = user.username || handle;
+  // Neither source exposes saves or comments per pin
+  return {
+    username,
+    accountId: user.accountId,
+    displayName: user.name || username,
+    followers: user.followers,
+    engagementRate: 0,
+    mediaCount: user.pins ?? undefined,
+    bio: user.bio,
+    profileUrl: `https://pinterest.com/${username}`,
+    platform: 'pinterest'
+  };
+};
+
+const pinterestAdapter: PlatformAdapter = {
+  platform: 'pinterest',
+  // The v5 API only describes the account the token belongs to
+  api: {
+    format: 'json',
+    isConfigured: (accessToken) => !!accessToken,
+    async request(_handle, accessToken) {
+      const response = await axios.get('https://api.pinterest.com/v5/user_account', {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        timeout: REQUEST_TIMEOUT_MS,
+        responseType: 'text'
+      });
+      return response.data;
+    },
+    parse(body, handle) {
+      const account = parseJson(body);
+      const followers = parseCount(account?.follower_count);
+      if (!account || followers === null) return null;
+
+      return pinterestMetrics(handle, {
+        username: account.username,
+        name: account.business_name,
+        followers,
+        pins: parseCount(account.pin_count),
+        accountId: account.id,
+        bio: account.about
+      });
+    }
+  },
+  // Profile pages carry follower and pin counts in their meta tags
+  scraper: {
+    format: 'html',
+    url: (handle) => `https://www.pinterest.com/${encodeURIComponent(handle)}/`,
+    parse(body, handle) {
+      const $ = cheerio.load(body);
+      const followers = parseCount($('meta[property="pinterestapp:followers"]').attr('content'));
+      if (followers === null) return null;
+
+      const canonical = $('link[rel="canonical"]').attr('href') || '';
+      return pinterestMetrics(handle, {
+        username: /pinterest\.com\/([^/?]+)/.exec(canonical)?.[1],
+        name: $('meta[property="og:title"]').attr('content'),
+        followers,
+        pins: parseCount($('meta[property="pinterestapp:pins"]').attr('content')),
+        bio: $('meta[property="og:description"]').attr('content')
+      });
+    }
+  }
+};
+
+const linkedinAdapter: PlatformAdapter = {
+  platform: 'linkedin',
+  // The API only returns the follower count of the member the token belongs to
+  api: {
+    format: 'json',
+    isConfigured: (accessToken) => !!accessToken,
+    async request(_handle, accessToken) {
+      const headers = { Authorization: `Bearer ${accessToken}`, 'LinkedIn-Version': '202405' };
+      const profile = (await axios.get('https://api.linkedin.com/v2/userinfo', {
+        headers,
+        timeout: REQUEST_TIMEOUT_MS
+      })).data;
+      const followers = (await axios.get('https://api.linkedin.com/rest/memberFollowersCount', {
+        params: { q: 'me' },
+        headers,
+        timeout: REQUEST_TIMEOUT_MS
+      })).data;
+
+      // Recorded as one document so a fixture replays both calls
+      return JSON.stringify({ profile, followers });
+    },
+    parse(body, handle) {
+      const data = parseJson(body);
+      const followers = parseCount(data?.followers?.elements?.[0]?.memberFollowersCount);
+      if (!data?.profile || followers === null) return null;
+
+      return {
+        username: handle,
+        accountId: data.profile.sub,
+        displayName: data.profile.name || handle,
+        followers,
+        engagementRate: 0,
+        profileUrl: `https://linkedin.com/in/${handle}`,
+        platform: 'linkedin'
+      };
+    }
+  },
+  // Public profiles describe the member as schema.org JSON-LD, follower count included
+  scraper: {
+    format: 'html',
+    url: (handle) => `https://www.linkedin.com/in/${encodeURIComponent(handle)}/`,
+    parse(body, handle) {
+      const $ = cheerio.load(body);
+      const graph = parseJson($('script[type="application/ld+json"]').first().text())?.['@graph'] || [];
+      const person = graph.find((node: any) => node?.['@type'] === 'Person');
+      const follows = [].concat(person?.interactionStatistic || [])
+        .find((statistic: any) => String(statistic?.interactionType || '').endsWith('FollowAction'));
+      const followers = parseCount((follows as any)?.userInteractionCount);
+      if (!person || followers === null) return null;
+
+      return {
+        username: handle,
+        displayName: person.name || handle,
+        followers,
+        engagementRate: 0,
+        bio: [person.jobTitle, person.description].flat().filter(Boolean).join(' '),
+        profileUrl: `https://linkedin.com/in/${handle}`,
+        platform: 'linkedin'
+      };
+    }
+  }
+};
+
+const snapchatAdapter: PlatformAdapter = {
+  platform: 'snapchat',
+  // Public profiles embed their data as JSON for hydration; there is no public metrics API
+  scraper: {
+    format: 'html',
+    url: (handle) => `https://www.snapchat.com/add/${encodeURIComponent(handle)}`,
+    parse(body, handle) {
+      const $ = cheerio.load(body);
+      const profile = parseJson($('#__NEXT_DATA__').text())?.props?.pageProps?.userProfile?.publicProfileInfo;
+      const subscribers = parseCount(profile?.subscriberCount);
+      if (!profile || subscribers === null) return null;
+
+      const username = profile.username || handle;
+      return {
+        username,
+        displayName: profile.title || username,
+        followers: subscribers,
+        engagementRate: 0,
+        verified: Number(profile.badge) > 0,
+        bio: profile.bio,
+        profileUrl: `https://snapchat.com/add/${username}`,
+        platform: 'snapchat'
+      };
+    }
+  }
+};
+
+const ADAPTERS: Record<string, PlatformAdapter> = {
+  instagram: instagramAdapter,
+  tiktok: tiktokAdapter,
+  youtube: youtubeAdapter,
+  twitch: twitchAdapter,
+  x: xAdapter,
+  pinterest: pinterestAdapter,
+  linkedin: linkedinAdapter,
+  snapchat: snapchatAdapter,
+};
+
+// Handles become file names, so anything that could leave the fixture directory is refused
+const FIXTURE_NAME_PATTERN = /^[a-z0-9._-]+$/i;
+
+const fixturePath = (platform: string, handle: string, kind: 'api' | 'scraper', format: ResponseFormat): string | null => {
+  if (!FIXTURE_NAME_PATTERN.test(platform) || !FIXTURE_NAME_PATTERN.test(handle) || /^\.+$/.test(handle)) {
+    return null;
+  }
+  return path.join(FIXTURE_DIR, platform, `${handle.toLowerCase()}.${kind}.${format}`);
+};
+
+// Save a live response as a fixture when recording is switched on
+async function recordFixture(platform: string, handle: string, kind: 'api' | 'scraper', format: ResponseFormat, body: string): Promise<void> {
+  if (process.env.METRICS_RECORD_FIXTURES !== 'true') return;
+  try {
+    const file = fixturePath(platform, handle, kind, format);
+    if (!file) {
+      console.warn(`Not recording ${platform} fixture for unsafe handle ${JSON.stringify(handle)}`);
+      return;
+    }
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+  } catch (error) {
+    console.error(`Failed to record ${platform} fixture for ${handle}:`, error);
+  }
+}
+
+export class ApiMetricsProvider implements MetricsProvider {
+  readonly kind = 'api';
+
+  constructor(private adapter: PlatformAdapter) {}
+
+  get platform(): string {
+    return this.adapter.platform;
+  }
+
+  isConfigured(accessToken?: string): boolean {
+    return !!this.adapter.api?.isConfigured(accessToken);
+  }
+
+  async fetchMetrics(handle: string, accessToken?: string): Promise<SocialMediaMetrics | null> {
+    const { api } = this.adapter;
+    if (!api || !this.isConfigured(accessToken)) {
+      throw new Error(`The ${this.platform} API is not configured`);
+    }
+
+    const body = await api.request(handle, accessToken);
+    await recordFixture(this.platform, handle, 'api', api.format, body);
+    return api.parse(body, handle);
+  }
+}
+
+export class ScraperMetricsProvider implements MetricsProvider {
+  readonly kind = 'scraper';
+
+  constructor(private adapter: PlatformAdapter) {}
+
+  get platform(): string {
+    return this.adapter.platform;
+  }
+
+  async fetchMetrics(handle: string): Promise<SocialMediaMetrics | null> {
+    const { scraper } = this.adapter;
+    if (!scraper) {
+      throw new Error(`${this.platform} profiles cannot be read without the API`);
+    }
+
+    const response = await axios.get(scraper.url(handle), {
+      headers: { 'User-Agent': BROWSER_USER_AGENT, 'Accept-Language': 'en-US,en;q=0.9', ...scraper.headers },
+      timeout: REQUEST_TIMEOUT_MS,
+      responseType: 'text',
+      validateStatus: status => status < 500
+    });
+    if (response.status === 404) return null;
+    if (response.status >= 400) {
+      throw new Error(`${this.platform} profile request failed with status ${response.status}`);
+    }
+
+    await recordFixture(this.platform, handle, 'scraper', scraper.format, response.data);
+    return scraper.parse(response.data, handle);
+  }
+}
+
+/**
+ * Replays recorded responses from the fixture directory.
+ * An API recording is preferred over a page recording; handles without a
+ * recording, or that are not safe file names, are reported as not found.
+ */
+export class FixtureMetricsProvider implements MetricsProvider {
+  readonly kind = 'fixture';
+
+  constructor(private adapter: PlatformAdapter) {}
+
+  get platform(): string {
+    return this.adapter.platform;
+  }
+
+  async fetchMetrics(handle: string): Promise<SocialMediaMetrics | null> {
+    for (const kind of ['api', 'scraper'] as const) {
+      const source = this.adapter[kind];
+      const file = source && fixturePath(this.platform, handle, kind, source.format);
+      if (!source || !file) continue;
+      try {
+        const body = await fs.readFile(file, 'utf8');
+        return source.parse(body, handle);
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT') throw error;
+      }
+    }
+    return null;
+  }
+}
+
+const DEFAULT_PROVIDER_SETTINGS: Record<string, MetricsProviderSetting> = Object.fromEntries(
+  PLATFORM_IDS.map(platform => [platform, 'auto'])
+);
+
+/**
+ * Picks the provider for each platform from configuration
+ */
+export class MetricsProviderRegistry {
+  private providers = new Map<string, { adapter: PlatformAdapter } & Record<MetricsProviderKind, MetricsProvider>>();
+
+  constructor(adapters: Record<string, PlatformAdapter> = ADAPTERS) {
+    for (const [platform, adapter] of Object.entries(adapters)) {
+      this.providers.set(platform, {
+        adapter,
+        api: new ApiMetricsProvider(adapter),
+        scraper: new ScraperMetricsProvider(adapter),
+        fixture: new FixtureMetricsProvider(adapter)
+      });
+    }
+  }
+
+  get platforms(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Get the configured provider for a platform
+   *
+   * @param platform Platform name
+   * @param accessToken The creator's token, which can make the API usable under "auto"
+   * @throws Error if the platform is not supported
+   */
+  async getProvider(platform: string, accessToken?: string): Promise<MetricsProvider> {
+    const key = getPlatform(platform)?.id ?? platform.toLowerCase();
+    const providers = this.providers.get(key);
+    if (!providers) {
+      throw new Error(`Unsupported platform: ${platform}`);
+    }
+
+    const configured = await settingsService.get<Record<string, MetricsProviderSetting>>('metrics.providers', DEFAULT_PROVIDER_SETTINGS);
+    const setting = (process.env.METRICS_PROVIDER || configured?.[key] || 'auto') as MetricsProviderSetting;
+
+    const automatic = (providers.api as ApiMetricsProvider).isConfigured(accessToken) || !providers.adapter.scraper
+      ? providers.api
+      : providers.scraper;
+
+    if (setting === 'auto') {
+      return automatic;
+    }
+    if (!METRICS_PROVIDER_KINDS.includes(setting)) {
+      console.warn(`Unknown metrics provider "${setting}" for ${key}, choosing automatically`);
+      return automatic;
+    }
+    if (setting !== 'fixture' && !providers.adapter[setting]) {
+      console.warn(`${key} has no ${setting} source, choosing automatically`);
+      return automatic;
+    }
+    return providers[setting];
+  }
+}
+
+export const metricsProviderRegistry = new MetricsProviderRegistry();
@@ -0,0 +1,110 @@
+/**
+ * Service for keeping influencer follower counts and engagement rates current
+ *
+ * Profiles are refreshed one at a time from their main platform's profile URL
+ * so a single failing account only affects its own job.
+ */
+
+import { InfluencerProfile, SocialPlatform } from "../../shared/schema";
+import { storage } from "../storage";
+import { socialMetricsService } from "./social-metrics";
+import { credibilityService } from "./credibility";
+import { platformLinkingService } from "./platform-linking";
+import { platformAggregationService } from "./platform-aggregation";
+import type { MetricSnapshotSource } from "../../shared/metric-history";
+import { getProfileUrl } from "../../shared/platforms";
+
+// Profiles read per page when enqueueing the periodic refresh
+const PROFILE_PAGE_SIZE = 100;
+
+export class MetricsRefreshService {
+  /**
+   * Get the profile URL for an influencer's main platform
+   */
+  getPrimaryProfileUrl(profile: InfluencerProfile): string | null {
+    return getProfileUrl(profile);
+  }
+
+  /**
+   * List the IDs of profiles that can be refreshed
+   */
+  async getRefreshableProfileIds(): Promise<number[]> {
+    const ids: number[] = [];
+
+    for (let offset = 0; ; offset += PROFILE_PAGE_SIZE) {
+      const profiles = await storage.getInfluencerProfiles(PROFILE_PAGE_SIZE, offset);
+      for (const profile of profiles) {
+        if (!profile.isTest && this.getPrimaryProfileUrl(profile)) {
+          ids.push(profile.id);
+        }
+      }
+      if (profiles.length < PROFILE_PAGE_SIZE) break;
+    }
+
+    return ids;
+  }
+
+  /**
+   * Fetch fresh metrics for one profile and store them
+   *
+   * @param profileId The influencer profile to refresh
+   * @param source Why the refresh ran, recorded with the metric snapshot
+   * @returns The updated profile, or undefined if it no longer exists or has no URL
+   * @throws Error if the platform returned no metrics, so the job is retried
+   */
+  async refreshProfile(profileId: number, source: MetricSnapshotSource = 'schedule'): Promise<InfluencerProfile | undefined> {
+    const profile = await storage.getInfluencerProfileById(profileId);
+    if (!profile) return undefined;
+
+    const url = this.getPrimaryProfileUrl(profile);
+    if (!url) return undefined;
+
+    // Linked accounts go through the official API with the creator's own token
+    const context = { source, influencerId: profile.id };
+    const linked = await storage.getSocialPlatformByInfluencerAndPlatform(profile.id, profile.platform);
+    const accessToken = linked ? await this.getAccessToken(linked) : null;
+    const metrics = linked && accessToken
+      ? await socialMetricsService.getMetrics(linked.platform, linked.handle, accessToken, context)
+      : await socialMetricsService.getMetricsFromUrl(url, context);
+    if (!metrics) {
+      throw new Error(`No metrics returned for ${url}`);
+    }
+
+    const { id, ...rest } = profile;
+    const updated = await storage.updateInfluencerProfile(id, {
+      ...rest,
+      followerCount: metrics.followers,
+      // Some sources only expose follower counts; keep the last known rate then
+      engagementRate: metrics.engagementRate > 0 ? metrics.engagementRate.toFixed(2) : rest.engagementRate
+    });
+
+    // Keep the account's own figures in step so the cross-platform totals move too
+    if (linked) {
+      await storage.updateSocialPlatform(linked.id, {
+        followers: metrics.followers,
+        ...(metrics.engagementRate > 0 ? { engagementRate: metrics.engagementRate.toFixed(2) } : {})
+      });
+    }
+    await platformAggregationService.recomputeQuietly(id);
+
+    // The metrics are stored either way; a scoring failure waits for the next refresh
+    try {
+      return await credibilityService.assessProfile(updated, { platform: metrics.platform, handle: metrics.username }) ?? updated;
+    } catch (error) {
+      console.error(`Failed to score credibility for profile ${id}:`, error);
+      return updated;
+    }
+  }
+
+  // A token that can't be refreshed falls back to the public profile
+  private async getAccessToken(platform: SocialPlatform): Promise<string | null> {
+    try {
+      return await platformLinkingService.getAccessToken(platform);
+    } catch (error) {
+      console.error(`Failed to get ${platform.platform} token for platform ${platform.id}:`, error);
+      return null;
+    }
+  }
+}
+
+export const metricsRefreshService = new MetricsRefreshService();
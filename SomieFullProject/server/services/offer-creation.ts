@@ -7,6 +7,13 @@ import { BusinessProfile, InfluencerProfile } from "../../shared/schema";
 import { rateCalculatorService } from "./rate-calculator";
 import { matchingService } from "./matching";
 import { storage } from "../storage";
+import { aiService } from "./ai";
+import { ensureDisclosure, getDisclosureGuidance } from "../../shared/disclosure-compliance";
+import { getPlatform } from "../../shared/platforms";
+import type { MatchWeightsOverride } from "../../shared/matching-profile";
+import type { AudienceRequirements } from "../../shared/audience-demographics";
+import { distanceKm, getStoredCoordinates, type GeoCoordinates } from "../../shared/geo";
+import { CAMPAIGN_OBJECTIVES, type CampaignObjective } from "../../shared/campaigns";
 
 /**
  * Interface for industry-specific templates
@@ -69,6 +76,7 @@ interface ContentBriefSuggestion {
   };
   platformSpecificTips: string[];
   exampleCaptions: string[];
+  disclosureGuidance: string[];
   estimatedPerformance: {
     expectedEngagementRate: string;
     viewsEstimate: string;
@@ -77,18 +85,19 @@ interface ContentBriefSuggestion {
 }
 
 /**
- * Interface for campaign objective suggestion
+ * Interface for AI-written offer copy suggested from a business's details
  */
-interface CampaignObjective {
-  name: string;
+interface OfferCopySuggestion {
+  title: string;
   description: string;
-  suitableFor: string[];
-  recommendedKPIs: string[];
-  suggestedContentTypes: string[];
-  suggestedPlatforms: string[];
-  timeframeRecommendation: number;
 }
 
+// Keeps only the non-empty strings from a model's list output
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    : [];
+
 /**
  * Service for AI-driven offer creation
  */
@@ -334,7 +343,12 @@ export class OfferCreationService {
     category?: string,
     contentType?: string,
     location?: string,
-    tags?: string[]
+    tags?: string[],
+    matchWeights?: MatchWeightsOverride | null,
+    audienceRequirements?: AudienceRequirements | null,
+    // Where the offer is targeted, when it could be geocoded
+    target?: GeoCoordinates | null,
+    radiusKm?: number | null
   }): Promise<MatchPreview> {
     // Default values for missing properties
     const draft = {
@@ -348,6 +362,7 @@ export class OfferCreationService {
     
     // Get a sample of influencer profiles - in production this would be paginated/limited
     const influencerProfiles = await this.getSampleInfluencerProfiles();
+    const matchingProfile = await matchingService.getProfile();
     
     // Count potential matches and their quality distribution
     let potentialMatches = 0;
@@ -386,8 +401,15 @@ export class OfferCreationService {
         continue;
       }
       
-      // Check location if specified
-      if (draft.location && profile.location) {
+      // Check location: geocoded profiles only drop out beyond the radius,
+      // the rest by place name
+      const profilePoint = getStoredCoordinates(profile);
+      if (offerDraft.target && profilePoint) {
+        if (offerDraft.radiusKm && distanceKm(offerDraft.target, profilePoint) > offerDraft.radiusKm) {
+          criteriaRestrictions.location++;
+          continue;
+        }
+      } else if (draft.location && profile.location) {
         const locationMatch = profile.location.toLowerCase().includes(draft.location.toLowerCase()) || 
                              draft.location.toLowerCase().includes(profile.location.toLowerCase());
         if (!locationMatch) {
@@ -433,11 +455,25 @@ export class OfferCreationService {
         createdAt: new Date(),
         isTest: false,
         rewardAmount: 0,
-        audienceRequirements: null,
-        optimizationData: null
+        audienceRequirements: offerDraft.audienceRequirements ?? null,
+        optimizationData: null,
+        claimMode: 'instant',
+        maxAcceptedCreators: null,
+        maxClaims: null,
+        startsAt: null,
+        endsAt: null,
+        applicationDeadline: null,
+        verificationRequirements: null,
+        matchWeights: offerDraft.matchWeights ?? null,
+        latitude: offerDraft.target?.latitude ?? null,
+        longitude: offerDraft.target?.longitude ?? null,
+        radiusKm: offerDraft.radiusKm ?? null,
+        visibility: 'public' as const,
+        campaignId: null,
+        closedBySchedule: false
       };
       
-      const matchScore = matchingService.calculateMatchScore(profile, mockOffer);
+      const matchScore = matchingService.calculateMatchScore(profile, mockOffer, matchingProfile);
       
       // Count this as a potential match
       potentialMatches++;
@@ -504,12 +540,14 @@ export class OfferCreationService {
    * @param category Content category/niche
    * @param contentType Type of content (image, video, etc)
    * @param platform Platform (instagram, tiktok, etc)
+   * @param location Offer location, which decides the disclosure rules
    * @returns Content brief suggestions
    */
   generateContentBriefSuggestions(
     category: string = 'general',
     contentType: string = 'image',
-    platform: string = 'instagram'
+    platform: string = 'instagram',
+    location: string | null = null
   ): ContentBriefSuggestion {
     // Default content brief
     const defaultBrief: ContentBriefSuggestion = {
@@ -540,6 +578,7 @@ export class OfferCreationService {
         'I\'ve been testing [product] for the past week and I\'m loving how [benefit]. Have you tried it yet? #ad',
         'My honest thoughts on [product] — [key point 1], [key point 2], and [key point 3]! Let me know if you have questions below. #sponsored'
       ],
+      disclosureGuidance: getDisclosureGuidance(platform, location),
       estimatedPerformance: {
         expectedEngagementRate: '3-5%',
         viewsEstimate: '60-80% of followers',
@@ -633,9 +672,87 @@ export class OfferCreationService {
       defaultBrief.dosDonts.dos.push('Show texture and close-ups');
     }
     
+    // Example captions are copied as-is, so each one must pass the disclosure check
+    defaultBrief.exampleCaptions = defaultBrief.exampleCaptions.map(caption => ensureDisclosure(caption, platform, location));
+    
     return defaultBrief;
   }
   
+  /**
+   * Generate a content brief with key messages and captions tailored by AI
+   * The rule-based brief is returned unchanged if the AI call fails.
+   * 
+   * @param category Content category/niche
+   * @param contentType Type of content (image, video, etc)
+   * @param platform Platform (instagram, tiktok, etc)
+   * @param location Offer location, which decides the disclosure rules
+   * @returns Content brief suggestions
+   */
+  async generateContentBrief(
+    category: string = 'general',
+    contentType: string = 'image',
+    platform: string = 'instagram',
+    location: string | null = null
+  ): Promise<ContentBriefSuggestion> {
+    const brief = this.generateContentBriefSuggestions(category, contentType, platform, location);
+    
+    try {
+      const tailored = await aiService.completeJSON<{ keyMessages?: unknown; exampleCaptions?: unknown }>({
+        task: 'content_brief',
+        system: "You write briefs for influencer marketing campaigns. Respond with JSON in this format: { keyMessages: string[], exampleCaptions: string[] }. Every example caption must disclose the partnership.",
+        prompt: `Write 3-5 key messages and 2 example captions for a ${category} campaign using ${contentType} content on ${platform}.\n\nStarting points:\n${brief.keyMessages.map(message => `- ${message}`).join('\n')}`,
+        context: { category, contentType, platform, brief }
+      });
+      
+      const keyMessages = toStringList(tailored.keyMessages);
+      const exampleCaptions = toStringList(tailored.exampleCaptions)
+        .map(caption => ensureDisclosure(caption, platform, location));
+      return {
+        ...brief,
+        keyMessages: keyMessages.length > 0 ? keyMessages : brief.keyMessages,
+        exampleCaptions: exampleCaptions.length > 0 ? exampleCaptions : brief.exampleCaptions
+      };
+    } catch (error) {
+      console.error('Error tailoring content brief with AI:', error);
+      return brief;
+    }
+  }
+  
+  /**
+   * Suggest an offer title and description from a business's details
+   * 
+   * @param details What is known about the business, including its website description
+   * @returns Suggested copy, or null if the AI call fails
+   */
+  async suggestOfferCopy(details: {
+    businessName?: string;
+    industry?: string;
+    description?: string;
+    pageDescription?: string;
+  }): Promise<OfferCopySuggestion | null> {
+    try {
+      const suggestion = await aiService.completeJSON<{ title?: unknown; description?: unknown }>({
+        task: 'suggest_content',
+        system: "You write influencer marketing offers for small businesses. Respond with JSON in this format: { title: string, description: string }. Keep the title under 60 characters and the description under 150.",
+        prompt: [
+          details.businessName && `Business: ${details.businessName}`,
+          details.industry && `Industry: ${details.industry}`,
+          details.description && `About: ${details.description}`,
+          details.pageDescription && `Website description: ${details.pageDescription}`
+        ].filter(Boolean).join('\n'),
+        context: details
+      });
+      
+      return {
+        title: typeof suggestion.title === 'string' ? suggestion.title.trim().substring(0, 60) : '',
+        description: typeof suggestion.description === 'string' ? suggestion.description.trim().substring(0, 150) : ''
+      };
+    } catch (error) {
+      console.error('Error suggesting offer copy with AI:', error);
+      return null;
+    }
+  }
+  
   /**
    * Suggest campaign objectives based on business profile and goals
    * 
@@ -647,54 +764,8 @@ export class OfferCreationService {
     industry: string = 'general',
     marketingGoal: string = 'awareness'
   ): CampaignObjective[] {
-    // Base campaign objectives
-    const objectives: Record<string, CampaignObjective> = {
-      'brand_awareness': {
-        name: 'Brand Awareness',
-        description: 'Introduce your brand to new audiences and increase overall visibility',
-        suitableFor: ['new brands', 'product launches', 'rebranding'],
-        recommendedKPIs: ['reach', 'impressions', 'profile visits', 'follower growth'],
-        suggestedContentTypes: ['image', 'reel', 'story'],
-        suggestedPlatforms: ['instagram', 'tiktok'],
-        timeframeRecommendation: 14
-      },
-      'product_education': {
-        name: 'Product Education',
-        description: 'Explain product features, benefits, and use cases to potential customers',
-        suitableFor: ['complex products', 'new technology', 'unique selling propositions'],
-        recommendedKPIs: ['engagement rate', 'video completion rate', 'saved posts', 'comments'],
-        suggestedContentTypes: ['video', 'carousel', 'tutorial'],
-        suggestedPlatforms: ['instagram', 'youtube'],
-        timeframeRecommendation: 21
-      },
-      'social_proof': {
-        name: 'Social Proof & Credibility',
-        description: 'Build trust through authentic reviews and demonstrations',
-        suitableFor: ['premium products', 'competitive markets', 'trust-sensitive niches'],
-        recommendedKPIs: ['engagement quality', 'comments sentiment', 'saved posts', 'shares'],
-        suggestedContentTypes: ['review', 'testimonial', 'before/after'],
-        suggestedPlatforms: ['instagram', 'youtube', 'tiktok'],
-        timeframeRecommendation: 30
-      },
-      'conversion': {
-        name: 'Direct Conversion',
-        description: 'Drive immediate sales or sign-ups through strong calls-to-action',
-        suitableFor: ['limited-time offers', 'promotions', 'seasonal products'],
-        recommendedKPIs: ['click-through rate', 'conversion rate', 'sales', 'cost per acquisition'],
-        suggestedContentTypes: ['promotional', 'demo', 'tutorial with offer'],
-        suggestedPlatforms: ['instagram', 'tiktok'],
-        timeframeRecommendation: 14
-      },
-      'content_creation': {
-        name: 'Content Creation',
-        description: 'Generate high-quality content that can be repurposed across marketing channels',
-        suitableFor: ['brands with limited content resources', 'visual products', 'multi-channel marketing'],
-        recommendedKPIs: ['content quality', 'repurposing potential', 'usage rights value'],
-        suggestedContentTypes: ['high-production image', 'professional video', 'diverse assets'],
-        suggestedPlatforms: ['instagram', 'youtube'],
-        timeframeRecommendation: 30
-      }
-    };
+    // Campaigns are created against the same objectives
+    const objectives = CAMPAIGN_OBJECTIVES;
     
     // Select 2-3 most relevant objectives based on industry and goal
     let recommendedObjectives: CampaignObjective[] = [];
@@ -738,16 +809,7 @@ export class OfferCreationService {
   private checkContentTypeCompatibility(platform: string = '', contentType: string = ''): boolean {
     if (!platform || !contentType) return true; // Default to compatible if either is missing
     
-    const platformContentMap: Record<string, string[]> = {
-      'instagram': ['image', 'carousel', 'video', 'reel', 'story'],
-      'tiktok': ['video', 'short', 'live'],
-      'youtube': ['video', 'short', 'livestream'],
-      'facebook': ['image', 'video', 'story', 'live'],
-      'twitter': ['image', 'video', 'text']
-    };
-    
-    const platformKey = platform.toLowerCase();
-    const supportedTypes = platformContentMap[platformKey] || [];
+    const supportedTypes = getPlatform(platform)?.contentTypes || [];
     
     return supportedTypes.some(type => 
       type.toLowerCase() === contentType.toLowerCase() ||
@@ -0,0 +1,263 @@
+/**
+ * Service for direct offer invitations
+ *
+ * A business invites a creator to one of its open offers, public or
+ * invite-only. The creator is pushed a notification and can accept, which
+ * claims the offer with no application step, or decline. Pending invitations
+ * run out at their expiry date, which never falls after the offer stops
+ * taking claims.
+ */
+
+import {
+  BusinessProfile,
+  InfluencerProfile,
+  Offer,
+  OfferClaim,
+  OfferInvitation
+} from "../../shared/schema";
+import {
+  isInvitationExpired,
+  type InvitationView,
+  type OfferInvitationInput
+} from "../../shared/offer-invitations";
+import { storage } from "../storage";
+import { offerScheduleService } from "./offer-schedule";
+import { escrowService, EscrowError } from "./escrow";
+import { claimLifecycleService, SYSTEM_ACTOR } from "./claim-lifecycle";
+import { sendNotificationToUser } from "../websocket";
+
+export class OfferInvitationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'OfferInvitationError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toIso = (date: Date | null) => date ? date.toISOString() : null;
+
+export class OfferInvitationService {
+  /**
+   * Invite a creator to one of the business's open offers
+   *
+   * @throws OfferInvitationError if the offer is not open or the creator was already invited
+   */
+  async invite(business: BusinessProfile, influencerId: number, input: OfferInvitationInput): Promise<OfferInvitation> {
+    const influencer = await storage.getInfluencerProfileById(influencerId);
+    if (!influencer || influencer.isTest) {
+      throw new OfferInvitationError('Influencer not found', 404);
+    }
+
+    const offer = await storage.getOfferById(input.offerId);
+    if (!offer || offer.businessId !== business.id) {
+      throw new OfferInvitationError('Offer not found', 404);
+    }
+    const availability = await offerScheduleService.getAvailability(offer);
+    if (!availability.open) {
+      throw new OfferInvitationError(availability.message ?? 'Creators can only be invited to open offers', 409);
+    }
+
+    const existingClaim = await storage.getOfferClaimByInfluencerAndOffer(influencerId, offer.id);
+    if (existingClaim) {
+      throw new OfferInvitationError('This creator has already claimed or applied to the offer', 409);
+    }
+
+    const invitation = await storage.createOfferInvitation({
+      offerId: offer.id,
+      businessId: business.id,
+      influencerId,
+      message: input.message ?? null,
+      expiresAt: this.getExpiry(offer, input.expiresInDays)
+    });
+    if (!invitation) {
+      throw new OfferInvitationError('This creator has already been invited to the offer', 409);
+    }
+
+    sendNotificationToUser(influencer.userId, {
+      type: 'offer_invitation',
+      title: offer.title,
+      message: `${business.businessName} invited you to "${offer.title}"`,
+      invitationId: invitation.id,
+      offerId: offer.id,
+      expiresAt: toIso(invitation.expiresAt)
+    });
+
+    return invitation;
+  }
+
+  /**
+   * Every invitation the creator has received, newest first
+   */
+  async getInvitations(influencer: InfluencerProfile): Promise<InvitationView[]> {
+    const rows = await storage.getOfferInvitationsByInfluencerId(influencer.id);
+    const now = new Date();
+
+    return rows.map(({ invitation, offer, business }) => ({
+      id: invitation.id,
+      // The expiry job runs periodically, so show lapsed invitations as expired straight away
+      status: isInvitationExpired(invitation, now) ? 'expired' : invitation.status,
+      message: invitation.message,
+      createdAt: toIso(invitation.createdAt),
+      expiresAt: toIso(invitation.expiresAt),
+      offer: {
+        id: offer.id,
+        title: offer.title,
+        description: offer.description,
+        reward: offer.reward,
+        category: offer.category,
+        claimMode: offer.claimMode
+      },
+      businessName: business?.businessName ?? null
+    }));
+  }
+
+  /**
+   * Accept an invitation, claiming the offer and funding its escrow hold
+   *
+   * @throws OfferInvitationError if the invitation is no longer open or the offer is full
+   */
+  async accept(influencer: InfluencerProfile, userId: number, invitationId: number): Promise<OfferClaim> {
+    const invitation = await this.getOpenInvitation(influencer, invitationId);
+    const offer = await storage.getOfferById(invitation.offerId);
+    if (!offer) {
+      throw new OfferInvitationError('Offer not found', 404);
+    }
+
+    // The business already picked this creator, so there is nothing to apply for
+    const claim = await storage.createOfferClaim({
+      offerId: offer.id,
+      influencerId: influencer.id,
+      status: 'accepted',
+      pitch: null,
+      flaggedAt: null,
+      flagReason: null,
+      disclosureStatus: 'pending',
+      disclosureOverrideReason: null,
+      disclosureOverriddenAt: null,
+      disclosureOverriddenBy: null,
+      completedAt: null,
+      createdAt: new Date(),
+      isTest: false
+    }, {
+      actorType: 'influencer',
+      actorUserId: userId,
+      reason: 'Accepted invitation'
+    }, invitation.id);
+    if (!claim) {
+      const current = await storage.getOfferInvitationById(invitation.id);
+      if (current?.status !== 'pending') {
+        throw new OfferInvitationError('This invitation has already been answered', 409);
+      }
+      throw new OfferInvitationError('This offer is no longer accepting creators', 409);
+    }
+
+    try {
+      await escrowService.fundClaim(claim, offer);
+    } catch (error) {
+      if (error instanceof EscrowError) {
+        await claimLifecycleService.transition(claim.id, 'cancelled', SYSTEM_ACTOR, error.message);
+        throw new OfferInvitationError('The business could not fund this offer right now', 402);
+      }
+      throw error;
+    }
+
+    await this.notifyBusiness(offer, influencer, 'invitation_accepted', "Invitation Accepted",
+      `${influencer.displayName} accepted your invitation to "${offer.title}"`);
+    return claim;
+  }
+
+  /**
+   * Decline an invitation; the business is told, along with the reason if one was given
+   */
+  async decline(influencer: InfluencerProfile, invitationId: number, reason?: string | null): Promise<OfferInvitation> {
+    const invitation = await this.getOpenInvitation(influencer, invitationId);
+    const declined = await storage.respondToOfferInvitation(invitation.id, 'declined', reason ?? null);
+    if (!declined) {
+      throw new OfferInvitationError('This invitation has already been answered', 409);
+    }
+
+    const offer = await storage.getOfferById(invitation.offerId);
+    if (offer) {
+      await this.notifyBusiness(offer, influencer, 'invitation_declined', "Invitation Declined",
+        `${influencer.displayName} declined your invitation to "${offer.title}"${reason ? `: ${reason}` : ''}`);
+    }
+    return declined;
+  }
+
+  /**
+   * Mark pending invitations past their expiry date as expired
+   *
+   * @returns The number of invitations expired
+   */
+  async expireInvitations(): Promise<number> {
+    const expired = await storage.expireOfferInvitations(new Date());
+    return expired.length;
+  }
+
+  /**
+   * Whether a creator may see an offer; invite-only offers are limited to
+   * creators who were invited or already hold a claim
+   */
+  async canView(offer: Offer, influencerId: number): Promise<boolean> {
+    if (offer.visibility !== 'invite_only') return true;
+
+    const invitation = await storage.getOfferInvitationByOfferAndInfluencer(offer.id, influencerId);
+    if (invitation) return true;
+    return !!(await storage.getOfferClaimByInfluencerAndOffer(influencerId, offer.id));
+  }
+
+  /**
+   * Whether a creator may claim or apply to an offer without going through
+   * an invitation; invite-only offers need an unexpired pending one
+   */
+  async canClaim(offer: Offer, influencerId: number): Promise<boolean> {
+    if (offer.visibility !== 'invite_only') return true;
+
+    const invitation = await storage.getOfferInvitationByOfferAndInfluencer(offer.id, influencerId);
+    return !!invitation && invitation.status === 'pending' && !isInvitationExpired(invitation);
+  }
+
+  private async getOpenInvitation(influencer: InfluencerProfile, invitationId: number): Promise<OfferInvitation> {
+    const invitation = await storage.getOfferInvitationById(invitationId);
+    if (!invitation || invitation.influencerId !== influencer.id) {
+      throw new OfferInvitationError('Invitation not found', 404);
+    }
+    if (isInvitationExpired(invitation)) {
+      await storage.respondToOfferInvitation(invitation.id, 'expired');
+      throw new OfferInvitationError('This invitation has expired', 410);
+    }
+    if (invitation.status !== 'pending') {
+      throw new OfferInvitationError('This invitation has already been answered', 409);
+    }
+    return invitation;
+  }
+
+  // An invitation never outlives the offer's claim window
+  private getExpiry(offer: Offer, expiresInDays: number): Date {
+    const expiry = new Date(Date.now() + expiresInDays * DAY_MS);
+    const closesAt = offer.applicationDeadline ?? offer.endsAt;
+    return closesAt && closesAt < expiry ? closesAt : expiry;
+  }
+
+  private async notifyBusiness(
+    offer: Offer,
+    influencer: InfluencerProfile,
+    type: string,
+    title: string,
+    message: string
+  ): Promise<void> {
+    await storage.createNotification({
+      businessId: offer.businessId,
+      title,
+      message,
+      type,
+      read: false,
+      relatedOfferId: offer.id,
+      relatedInfluencerId: influencer.id,
+      createdAt: new Date(),
+    });
+  }
+}
+
+export const offerInvitationService = new OfferInvitationService();
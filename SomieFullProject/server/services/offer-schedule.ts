@@ -0,0 +1,126 @@
+/**
+ * Service for offer capacity and scheduling
+ *
+ * Reports how many creator slots an offer has left and keeps offer statuses
+ * in line with their schedule: offers past their end date expire, offers past
+ * their application deadline or out of slots close, and offers the scheduler
+ * closed reopen when slots free up before the deadline. Offers closed by hand
+ * stay closed until they expire.
+ */
+
+import { Offer } from "../../shared/schema";
+import { SLOT_HOLDING_CLAIM_STATUSES } from "../../shared/claim-lifecycle";
+import { getOfferAvailability, OfferAvailability } from "../../shared/offer-availability";
+import { storage } from "../storage";
+import { claimLifecycleService, SYSTEM_ACTOR } from "./claim-lifecycle";
+
+// Statuses the scheduler is allowed to move offers between
+const SCHEDULED_OFFER_STATUSES = ['active', 'closed'];
+
+export class OfferScheduleService {
+  /**
+   * Get an offer's availability from its current claims
+   *
+   * @param offer The offer to check
+   * @param now Reference time (defaults to the current time)
+   */
+  async getAvailability(offer: Offer, now: Date = new Date()): Promise<OfferAvailability> {
+    const slotsTaken = await storage.countClaimsByOfferAndStatuses(offer.id, SLOT_HOLDING_CLAIM_STATUSES);
+    return getOfferAvailability(offer, slotsTaken, now);
+  }
+
+  /**
+   * Attach availability to a list of offers using a single count query
+   *
+   * @param offerList Offers to annotate
+   * @param now Reference time (defaults to the current time)
+   */
+  async withAvailability<T extends Offer>(
+    offerList: T[],
+    now: Date = new Date()
+  ): Promise<Array<T & { availability: OfferAvailability }>> {
+    const counts = await storage.countClaimsByOfferIdsAndStatuses(
+      offerList.map(offer => offer.id),
+      SLOT_HOLDING_CLAIM_STATUSES
+    );
+    return offerList.map(offer => ({
+      ...offer,
+      availability: getOfferAvailability(offer, counts.get(offer.id) || 0, now)
+    }));
+  }
+
+  /**
+   * Work out which status an active or closed offer should be in
+   */
+  getScheduledStatus(offer: Offer, slotsTaken: number, now: Date): string {
+    // Evaluate the schedule as if the offer were active so closed offers can reopen
+    const availability = getOfferAvailability({ ...offer, status: 'active' }, slotsTaken, now);
+
+    // A business's own decision to close an offer is only overridden by its end date
+    if (offer.status === 'closed' && !offer.closedBySchedule) {
+      return availability.status === 'ended' ? 'expired' : offer.status;
+    }
+
+    switch (availability.status) {
+      case 'ended':
+        return 'expired';
+      case 'applications_closed':
+      case 'full':
+        return 'closed';
+      case 'open':
+        return 'active';
+      default:
+        return offer.status;
+    }
+  }
+
+  /**
+   * Move active and closed offers to the status their schedule and capacity call for
+   *
+   * @param now Reference time (defaults to the current time)
+   * @returns Number of offers whose status changed
+   */
+  async updateOfferStatuses(now: Date = new Date()): Promise<number> {
+    const scheduledOffers = await storage.getOffersByStatuses(SCHEDULED_OFFER_STATUSES);
+    const counts = await storage.countClaimsByOfferIdsAndStatuses(
+      scheduledOffers.map(offer => offer.id),
+      SLOT_HOLDING_CLAIM_STATUSES
+    );
+    let changed = 0;
+
+    for (const offer of scheduledOffers) {
+      try {
+        const nextStatus = this.getScheduledStatus(offer, counts.get(offer.id) || 0, now);
+        if (nextStatus === offer.status) continue;
+
+        const updated = await storage.updateScheduledOfferStatus(offer.id, offer.status, nextStatus);
+        if (!updated) continue;
+        changed++;
+
+        if (nextStatus === 'expired') {
+          await this.expirePendingApplications(offer);
+        }
+      } catch (error) {
+        console.error(`Error updating status for offer ${offer.id}:`, error);
+      }
+    }
+
+    if (changed > 0) {
+      console.log(`Updated the status of ${changed} scheduled offers`);
+    }
+    return changed;
+  }
+
+  /**
+   * Expire applications the business never decided on before the offer ended
+   */
+  private async expirePendingApplications(offer: Offer): Promise<void> {
+    const claims = await storage.getClaimsByOfferId(offer.id);
+    for (const claim of claims) {
+      if (claim.status !== 'applied') continue;
+      await claimLifecycleService.transition(claim.id, 'expired', SYSTEM_ACTOR, 'The offer ended before the application was reviewed');
+    }
+  }
+}
+
+export const offerScheduleService = new OfferScheduleService();
@@ -0,0 +1,151 @@
+/**
+ * Payment provider abstraction used by the escrow ledger
+ *
+ * The ledger itself lives in our database; a provider is only responsible for
+ * moving real money (authorizing a business payment method, capturing it when a
+ * claim completes, refunding the business, and transferring influencer payouts).
+ * Providers are selected with the PAYMENT_PROVIDER environment variable and
+ * default to the in-process fake.
+ */
+
+export interface HoldRequest {
+  businessId: number;
+  amount: number; // minor units (cents)
+  currency: string;
+  reference: string;
+}
+
+export interface ReleaseRequest {
+  providerReference: string | null;
+  influencerId: number;
+  amount: number;
+  currency: string;
+}
+
+export interface RefundRequest {
+  providerReference: string | null;
+  businessId: number;
+  amount: number;
+  currency: string;
+  reason: string;
+}
+
+export interface PayoutParams {
+  influencerId: number;
+  amount: number;
+  currency: string;
+  reference: string;
+}
+
+export interface ProviderResult {
+  success: boolean;
+  providerReference: string | null;
+  error?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  authorizeHold(request: HoldRequest): Promise<ProviderResult>;
+  releaseHold(request: ReleaseRequest): Promise<ProviderResult>;
+  refundHold(request: RefundRequest): Promise<ProviderResult>;
+  sendPayout(request: PayoutParams): Promise<ProviderResult>;
+}
+
+type FakeOperation = 'authorize' | 'release' | 'refund' | 'payout';
+
+/**
+ * In-process provider that never touches the network.
+ * It keeps its own view of authorized holds so the escrow flow can be
+ * exercised end to end offline, and it can be told to fail the next call
+ * of a given operation to simulate declines.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  private sequence = 0;
+  private holds = new Map<string, { amount: number; currency: string; state: 'authorized' | 'released' | 'refunded' }>();
+  private pendingFailures = new Set<FakeOperation>();
+
+  /**
+   * Make the next call of the given operation fail
+   */
+  failNext(operation: FakeOperation): void {
+    this.pendingFailures.add(operation);
+  }
+
+  async authorizeHold(request: HoldRequest): Promise<ProviderResult> {
+    if (this.consumeFailure('authorize')) {
+      return { success: false, providerReference: null, error: 'Card declined' };
+    }
+
+    const providerReference = `fake_hold_${++this.sequence}`;
+    this.holds.set(providerReference, {
+      amount: request.amount,
+      currency: request.currency,
+      state: 'authorized'
+    });
+    return { success: true, providerReference };
+  }
+
+  async releaseHold(request: ReleaseRequest): Promise<ProviderResult> {
+    return this.settle('release', request.providerReference, 'released', 'fake_capture');
+  }
+
+  async refundHold(request: RefundRequest): Promise<ProviderResult> {
+    return this.settle('refund', request.providerReference, 'refunded', 'fake_refund');
+  }
+
+  async sendPayout(request: PayoutParams): Promise<ProviderResult> {
+    if (this.consumeFailure('payout')) {
+      return { success: false, providerReference: null, error: 'Simulated payout failure' };
+    }
+    return { success: true, providerReference: `fake_transfer_${++this.sequence}` };
+  }
+
+  private async settle(
+    operation: FakeOperation,
+    holdReference: string | null,
+    state: 'released' | 'refunded',
+    prefix: string
+  ): Promise<ProviderResult> {
+    if (this.consumeFailure(operation)) {
+      return { success: false, providerReference: null, error: `Simulated ${operation} failure` };
+    }
+
+    // Holds created before a restart are not in memory; treat them as settled
+    const hold = holdReference ? this.holds.get(holdReference) : undefined;
+    if (hold) {
+      if (hold.state !== 'authorized') {
+        return { success: false, providerReference: null, error: `Hold already ${hold.state}` };
+      }
+      hold.state = state;
+    }
+
+    return { success: true, providerReference: `${prefix}_${++this.sequence}` };
+  }
+
+  private consumeFailure(operation: FakeOperation): boolean {
+    if (this.pendingFailures.has(operation)) {
+      this.pendingFailures.delete(operation);
+      return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * Create the payment provider configured for this environment
+ *
+ * @param name Provider name (defaults to PAYMENT_PROVIDER or "fake")
+ * @returns Payment provider instance
+ */
+export function createPaymentProvider(name: string = process.env.PAYMENT_PROVIDER || 'fake'): PaymentProvider {
+  switch (name.toLowerCase()) {
+    case 'fake':
+      return new FakePaymentProvider();
+    default:
+      throw new Error(`Unsupported payment provider: ${name}`);
+  }
+}
+
+export const paymentProvider = createPaymentProvider();
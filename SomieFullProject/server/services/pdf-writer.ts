@@ -0,0 +1,72 @@
+/**
+ * Minimal PDF writer for plain-text documents such as earnings statements
+ * Produces a valid PDF 1.4 file using the built-in Helvetica font, so no
+ * rendering library is needed on the server.
+ */
+
+const PAGE_WIDTH = 612; // US Letter in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const FONT_SIZE = 10;
+const LINE_HEIGHT = 14;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - MARGIN * 2) / LINE_HEIGHT);
+
+/**
+ * Escape text for use inside a PDF string literal
+ * Non-ASCII characters are replaced because the standard fonts only cover WinAnsi.
+ */
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7E]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+/**
+ * Render lines of text into a PDF document
+ *
+ * @param lines Text lines, one per row; long documents are split across pages
+ * @returns PDF file contents
+ */
+export function renderTextPdf(lines: string[]): Buffer {
+  const pages: string[][] = [];
+  for (let i = 0; i < Math.max(lines.length, 1); i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  }
+
+  // Object 1 is the catalog, 2 the page tree, 3 the font; each page then
+  // takes two objects (page + content stream)
+  const objects: string[] = [];
+  const pageObjectIds = pages.map((_, index) => 4 + index * 2);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>');
+
+  pages.forEach((pageLines, index) => {
+    const contentId = pageObjectIds[index] + 1;
+    const textOps = pageLines.map(line => `(${escapePdfText(line)}) Tj T*`).join('\n');
+    const stream = `BT\n/F1 ${FONT_SIZE} Tf\n${LINE_HEIGHT} TL\n${MARGIN} ${PAGE_HEIGHT - MARGIN} Td\n${textOps}\nET`;
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`);
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
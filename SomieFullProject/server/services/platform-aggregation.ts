@@ -0,0 +1,47 @@
+/**
+ * Service for keeping each influencer's cross-platform metrics current
+ *
+ * The aggregate is stored on the influencer profile and recomputed whenever
+ * one of their social platforms is added, changed or removed, so matching can
+ * read it without loading every account.
+ */
+
+import { InfluencerProfile } from "../../shared/schema";
+import { storage } from "../storage";
+import { aggregatePlatformMetrics, type AggregatePlatformMetrics } from "../../shared/platform-aggregate";
+
+export class PlatformAggregationService {
+  /**
+   * Compute an influencer's aggregate from their current platforms without storing it
+   */
+  async computeForInfluencer(influencerId: number): Promise<AggregatePlatformMetrics | null> {
+    const platforms = await storage.getSocialPlatformsByInfluencerId(influencerId);
+    return aggregatePlatformMetrics(platforms);
+  }
+
+  /**
+   * Recompute and store an influencer's aggregate metrics
+   *
+   * @param influencerId The influencer whose platforms changed
+   * @returns The updated profile, or undefined if it no longer exists
+   */
+  async recompute(influencerId: number): Promise<InfluencerProfile | undefined> {
+    const metrics = await this.computeForInfluencer(influencerId);
+    return storage.updateInfluencerAggregateMetrics(influencerId, metrics);
+  }
+
+  /**
+   * Recompute after a platform change without failing the change itself
+   *
+   * A stale aggregate only affects ranking until the next change or refresh.
+   */
+  async recomputeQuietly(influencerId: number): Promise<void> {
+    try {
+      await this.recompute(influencerId);
+    } catch (error) {
+      console.error(`Failed to aggregate platform metrics for influencer ${influencerId}:`, error);
+    }
+  }
+}
+
+export const platformAggregationService = new PlatformAggregationService();
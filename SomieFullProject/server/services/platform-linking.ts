@@ -0,0 +1,573 @@
+/**
+ * Service for proving that a creator owns the social accounts they list
+ *
+ * Creators link an account through the platform's OAuth login, which also
+ * gives us a token for its official API, or by placing a one-time code in
+ * their bio that we then find on their public profile. Either way the
+ * verified flag is only ever set here, never from client input.
+ *
+ * OAuth is offered where the platform's login tells us the account's handle.
+ * LinkedIn and Snapchat logins only identify the person, not the profile URL
+ * we track, so those platforms verify by bio code alone.
+ */
+
+import axios from "axios";
+import { createHash, randomBytes } from "crypto";
+import { storage } from "../storage";
+import { socialMetricsService } from "./social-metrics";
+import { decryptToken, encryptToken } from "./token-encryption";
+import { platformAggregationService } from "./platform-aggregation";
+import type { SocialMediaMetrics } from "./metrics-provider";
+import { SocialPlatform, PublicSocialPlatform } from "../../shared/schema";
+import { getPlatform, PLATFORM_IDS, type PlatformId } from "../../shared/platforms";
+
+export class PlatformLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlatformLinkError';
+  }
+}
+
+interface TokenSet {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: Date | null;
+  scopes: string | null;
+}
+
+interface LinkedIdentity {
+  accountId: string;
+  handle: string;
+}
+
+interface OAuthConfig {
+  authorizeUrl: string;
+  tokenUrl: string;
+  scopes: string[];
+  scopeSeparator?: string;
+  clientIdEnv: string;
+  clientSecretEnv: string;
+  // TikTok calls the client ID a client key
+  clientIdParam?: string;
+  pkce: boolean;
+  // Send the client credentials as HTTP basic auth rather than in the body
+  basicAuth?: boolean;
+  authorizeParams?: Record<string, string>;
+  fetchIdentity(accessToken: string): Promise<LinkedIdentity>;
+  revoke?(accessToken: string, clientId: string, clientSecret: string): Promise<void>;
+}
+
+export interface PlatformLinkOptions {
+  platform: PlatformId;
+  oauth: boolean;
+  bioCode: boolean;
+}
+
+const REQUEST_TIMEOUT_MS = 15000;
+const LINK_STATE_TTL_MS = 10 * 60 * 1000;
+const BIO_CODE_TTL_MS = 24 * 60 * 60 * 1000;
+// Tokens expiring within this window are refreshed ahead of time
+const TOKEN_REFRESH_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// No 0/O or 1/I, so codes survive being retyped from a screenshot
+const BIO_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const BIO_CODE_LENGTH = 6;
+
+const base64Url = (buffer: Buffer): string =>
+  buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const bearer = (accessToken: string) => ({ Authorization: `Bearer ${accessToken}` });
+
+const OAUTH_CONFIGS: Partial<Record<PlatformId, OAuthConfig>> = {
+  // Instagram professional accounts log in through Facebook
+  instagram: {
+    authorizeUrl: 'https://www.facebook.com/v19.0/dialog/oauth',
+    tokenUrl: 'https://graph.facebook.com/v19.0/oauth/access_token',
+    scopes: ['instagram_basic', 'pages_show_list', 'business_management'],
+    scopeSeparator: ',',
+    clientIdEnv: 'FACEBOOK_APP_ID',
+    clientSecretEnv: 'FACEBOOK_APP_SECRET',
+    pkce: false,
+    async fetchIdentity(accessToken) {
+      const response = await axios.get('https://graph.facebook.com/v19.0/me/accounts', {
+        params: { fields: 'instagram_business_account{id,username}', access_token: accessToken },
+        timeout: REQUEST_TIMEOUT_MS
+      });
+      const account = (response.data?.data || [])
+        .map((page: any) => page.instagram_business_account)
+        .find((candidate: any) => candidate?.id);
+      if (!account) throw new PlatformLinkError('No Instagram professional account is connected to this Facebook login');
+      return { accountId: account.id, handle: account.username };
+    },
+    async revoke(accessToken) {
+      await axios.delete('https://graph.facebook.com/v19.0/me/permissions', {
+        params: { access_token: accessToken },
+        timeout: REQUEST_TIMEOUT_MS
+      });
+    }
+  },
+  tiktok: {
+    authorizeUrl: 'https://www.tiktok.com/v2/auth/authorize/',
+    tokenUrl: 'https://open.tiktokapis.com/v2/oauth/token/',
+    scopes: ['user.info.basic', 'user.info.profile', 'user.info.stats'],
+    scopeSeparator: ',',
+    clientIdEnv: 'TIKTOK_CLIENT_KEY',
+    clientSecretEnv: 'TIKTOK_CLIENT_SECRET',
+    clientIdParam: 'client_key',
+    pkce: true,
+    async fetchIdentity(accessToken) {
+      const response = await axios.get('https://open.tiktokapis.com/v2/user/info/', {
+        params: { fields: 'open_id,username' },
+        headers: bearer(accessToken),
+        timeout: REQUEST_TIMEOUT_MS
+      });
+      const user = response.data?.data?.user;
+      return { accountId: user.open_id, handle: user.username };
+    },
+    async revoke(accessToken, clientId, clientSecret) {
+      await axios.post('https://open.tiktokapis.com/v2/oauth/revoke/',
+        new URLSearchParams({ client_key: clientId, client_secret: clientSecret, token: accessToken }),
+        { timeout: REQUEST_TIMEOUT_MS });
+    }
+  },
+  youtube: {
+    authorizeUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    scopes: ['https://www.googleapis.com/auth/youtube.readonly'],
+    clientIdEnv: 'GOOGLE_CLIENT_ID',
+    clientSecretEnv: 'GOOGLE_CLIENT_SECRET',
+    pkce: true,
+    // Google only issues a refresh token when offline access is asked for
+    authorizeParams: { access_type: 'offline', prompt: 'consent' },
+    async fetchIdentity(accessToken) {
+      const response = await axios.get('https://www.googleapis.com/youtube/v3/channels', {
+        params: { part: 'snippet', mine: true },
+        headers: bearer(accessToken),
+        timeout: REQUEST_TIMEOUT_MS
+      });
+      const channel = response.data?.items?.[0];
+      if (!channel) throw new PlatformLinkError('This Google account has no YouTube channel');
+      return { accountId: channel.id, handle: channel.snippet?.customUrl || channel.id };
+    },
+    async revoke(accessToken) {
+      await axios.post('https://oauth2.googleapis.com/revoke', new URLSearchParams({ token: accessToken }), {
+        timeout: REQUEST_TIMEOUT_MS
+      });
+    }
+  },
+  twitch: {
+    authorizeUrl: 'https://id.twitch.tv/oauth2/authorize',
+    tokenUrl: 'https://id.twitch.tv/oauth2/token',
+    scopes: ['user:read:email'],
+    clientIdEnv: 'TWITCH_CLIENT_ID',
+    clientSecretEnv: 'TWITCH_CLIENT_SECRET',
+    pkce: false,
+    async fetchIdentity(accessToken) {
+      const response = await axios.get('https://api.twitch.tv/helix/users', {
+        headers: { ...bearer(accessToken), 'Client-Id': process.env.TWITCH_CLIENT_ID! },
+        timeout: REQUEST_TIMEOUT_MS
+      });
+      const user = response.data?.data?.[0];
+      return { accountId: user.id, handle: user.login };
+    },
+    async revoke(accessToken, clientId) {
+      await axios.post('https://id.twitch.tv/oauth2/revoke', new URLSearchParams({ client_id: clientId, token: accessToken }), {
+        timeout: REQUEST_TIMEOUT_MS
+      });
+    }
+  },
+  x: {
+    authorizeUrl: 'https://x.com/i/oauth2/authorize',
+    tokenUrl: 'https://api.x.com/2/oauth2/token',
+    scopes: ['users.read', 'tweet.read', 'offline.access'],
+    clientIdEnv: 'X_CLIENT_ID',
+    clientSecretEnv: 'X_CLIENT_SECRET',
+    pkce: true,
+    basicAuth: true,
+    async fetchIdentity(accessToken) {
+      const response = await axios.get('https://api.x.com/2/users/me', {
+        headers: bearer(accessToken),
+        timeout: REQUEST_TIMEOUT_MS
+      });
+      return { accountId: response.data?.data?.id, handle: response.data?.data?.username };
+    },
+    async revoke(accessToken, clientId, clientSecret) {
+      await axios.post('https://api.x.com/2/oauth2/revoke',
+        new URLSearchParams({ token: accessToken, token_type_hint: 'access_token' }),
+        { auth: { username: clientId, password: clientSecret }, timeout: REQUEST_TIMEOUT_MS });
+    }
+  },
+  pinterest: {
+    authorizeUrl: 'https://www.pinterest.com/oauth/',
+    tokenUrl: 'https://api.pinterest.com/v5/oauth/token',
+    scopes: ['user_accounts:read'],
+    scopeSeparator: ',',
+    clientIdEnv: 'PINTEREST_APP_ID',
+    clientSecretEnv: 'PINTEREST_APP_SECRET',
+    pkce: false,
+    basicAuth: true,
+    async fetchIdentity(accessToken) {
+      const response = await axios.get('https://api.pinterest.com/v5/user_account', {
+        headers: bearer(accessToken),
+        timeout: REQUEST_TIMEOUT_MS
+      });
+      return { accountId: response.data?.id || response.data?.username, handle: response.data?.username };
+    }
+  },
+};
+
+export class PlatformLinkingService {
+  /**
+   * List how each platform can be verified, given the OAuth apps configured
+   */
+  getLinkOptions(): PlatformLinkOptions[] {
+    return PLATFORM_IDS.map(platform => ({
+      platform,
+      oauth: this.getOAuthConfig(platform) !== null,
+      bioCode: true
+    }));
+  }
+
+  /**
+   * Start an OAuth link, returning the URL to send the creator to
+   *
+   * @param userId The signed-in user
+   * @param platform Platform to link
+   * @param redirectUri The callback URL registered with the platform
+   * @throws PlatformLinkError if the user has no influencer profile or the platform has no OAuth app
+   */
+  async startOAuthLink(userId: number, platform: string, redirectUri: string): Promise<string> {
+    const definition = getPlatform(platform);
+    const config = definition ? this.getOAuthConfig(definition.id) : null;
+    if (!definition || !config) {
+      throw new PlatformLinkError(`Account linking is not available for ${platform}; verify with a bio code instead`);
+    }
+
+    const profile = await storage.getInfluencerProfileByUserId(userId);
+    if (!profile) {
+      throw new PlatformLinkError('Create your influencer profile before linking accounts');
+    }
+
+    const state = base64Url(randomBytes(24));
+    const codeVerifier = config.pkce ? base64Url(randomBytes(32)) : null;
+    await storage.createPlatformLinkState({
+      state,
+      userId,
+      influencerId: profile.id,
+      platform: definition.id,
+      codeVerifier,
+      redirectUri,
+      expiresAt: new Date(Date.now() + LINK_STATE_TTL_MS)
+    });
+
+    const params = new URLSearchParams({
+      [config.clientIdParam || 'client_id']: process.env[config.clientIdEnv]!,
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      scope: config.scopes.join(config.scopeSeparator || ' '),
+      state,
+      ...config.authorizeParams
+    });
+    if (codeVerifier) {
+      params.set('code_challenge', base64Url(createHash('sha256').update(codeVerifier).digest()));
+      params.set('code_challenge_method', 'S256');
+    }
+
+    return `${config.authorizeUrl}?${params.toString()}`;
+  }
+
+  /**
+   * Finish an OAuth link from the platform's callback
+   *
+   * The account's handle comes from the platform, so a creator who typed a
+   * different handle earlier ends up with the one they actually logged in as.
+   *
+   * @param platform Platform named in the callback URL
+   * @param code Authorization code from the platform
+   * @param state State parameter from the platform
+   * @param sessionUserId The signed-in user, if the callback carried a session
+   * @returns The linked, verified platform
+   * @throws PlatformLinkError if the state is unknown, expired or belongs to someone else
+   */
+  async completeOAuthLink(platform: string, code: string, state: string, sessionUserId?: number): Promise<PublicSocialPlatform> {
+    const linkState = await storage.consumePlatformLinkState(state);
+    if (!linkState || linkState.platform !== getPlatform(platform)?.id || linkState.expiresAt < new Date()) {
+      throw new PlatformLinkError('This link request has expired; please start again');
+    }
+    if (sessionUserId !== undefined && sessionUserId !== linkState.userId) {
+      throw new PlatformLinkError('This link request was started by a different user');
+    }
+
+    const platformId = linkState.platform as PlatformId;
+    const config = this.getOAuthConfig(platformId);
+    if (!config) {
+      throw new PlatformLinkError(`Account linking is not available for ${platformId}`);
+    }
+
+    const tokens = await this.requestTokens(config, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: linkState.redirectUri,
+      ...(linkState.codeVerifier ? { code_verifier: linkState.codeVerifier } : {})
+    });
+    const identity = await config.fetchIdentity(tokens.accessToken);
+    const handle = identity.handle.replace(/^@/, '');
+
+    const existing = await storage.getSocialPlatformByInfluencerAndPlatform(linkState.influencerId, platformId);
+    const account = existing ?? await storage.createSocialPlatform({
+      influencerId: linkState.influencerId,
+      platform: platformId,
+      handle,
+      profileUrl: getPlatform(platformId)!.profileUrl(handle),
+      isPrimary: false
+    });
+
+    const linked = await storage.updateSocialPlatform(account.id, {
+      handle,
+      profileUrl: getPlatform(platformId)!.profileUrl(handle),
+      accountId: identity.accountId,
+      accessToken: encryptToken(tokens.accessToken),
+      refreshToken: tokens.refreshToken ? encryptToken(tokens.refreshToken) : null,
+      tokenExpiresAt: tokens.expiresAt,
+      tokenScopes: tokens.scopes,
+      isVerified: true,
+      verificationMethod: 'oauth',
+      bioCode: null,
+      bioCodeExpiresAt: null
+    });
+
+    const refreshed = await this.refreshMetrics(linked!, tokens.accessToken);
+    await platformAggregationService.recomputeQuietly(refreshed.influencerId);
+    return this.toPublic(refreshed);
+  }
+
+  /**
+   * Remove a platform's OAuth link and its verification
+   *
+   * Revoking the token with the platform is best-effort; the stored tokens are
+   * cleared whether or not the platform accepts the revocation.
+   */
+  async unlink(platform: SocialPlatform): Promise<PublicSocialPlatform> {
+    const config = this.getOAuthConfig(platform.platform as PlatformId);
+    if (config?.revoke && platform.accessToken) {
+      try {
+        await config.revoke(decryptToken(platform.accessToken), process.env[config.clientIdEnv]!, process.env[config.clientSecretEnv]!);
+      } catch (error) {
+        console.error(`Failed to revoke ${platform.platform} token for platform ${platform.id}:`, error);
+      }
+    }
+
+    const updated = await storage.updateSocialPlatform(platform.id, {
+      isVerified: false,
+      verificationMethod: null,
+      accountId: null,
+      accessToken: null,
+      refreshToken: null,
+      tokenExpiresAt: null,
+      tokenScopes: null
+    });
+    await platformAggregationService.recomputeQuietly(platform.influencerId);
+    return this.toPublic(updated!);
+  }
+
+  /**
+   * Issue a one-time code for the creator to add to their bio
+   */
+  async issueBioCode(platform: SocialPlatform): Promise<PublicSocialPlatform> {
+    const bytes = randomBytes(BIO_CODE_LENGTH);
+    const code = Array.from(bytes, byte => BIO_CODE_ALPHABET[byte % BIO_CODE_ALPHABET.length]).join('');
+
+    const updated = await storage.updateSocialPlatform(platform.id, {
+      bioCode: `SOMIE-${code}`,
+      bioCodeExpiresAt: new Date(Date.now() + BIO_CODE_TTL_MS)
+    });
+    return this.toPublic(updated!);
+  }
+
+  /**
+   * Look for the platform's bio code on the public profile and verify it if found
+   *
+   * @throws PlatformLinkError if there is no live code, the profile cannot be read, or the code is missing
+   */
+  async verifyBioCode(platform: SocialPlatform): Promise<PublicSocialPlatform> {
+    if (!platform.bioCode || !platform.bioCodeExpiresAt || platform.bioCodeExpiresAt < new Date()) {
+      throw new PlatformLinkError('Your verification code has expired; please request a new one');
+    }
+
+    let metrics: SocialMediaMetrics | null = null;
+    try {
+      metrics = await socialMetricsService.getMetrics(platform.platform, platform.handle, undefined, {
+        source: 'connect',
+        influencerId: platform.influencerId
+      });
+    } catch (error) {
+      console.error(`Failed to read ${platform.platform} profile ${platform.handle}:`, error);
+    }
+    if (!metrics) {
+      throw new PlatformLinkError(`We couldn't read the ${platform.platform} profile @${platform.handle}`);
+    }
+    if (!metrics.bio || !metrics.bio.toUpperCase().includes(platform.bioCode)) {
+      throw new PlatformLinkError(`${platform.bioCode} isn't in your bio yet; it can take a few minutes for changes to show`);
+    }
+
+    const updated = await storage.updateSocialPlatform(platform.id, {
+      isVerified: true,
+      verificationMethod: 'bio_code',
+      bioCode: null,
+      bioCodeExpiresAt: null,
+      followers: metrics.followers,
+      ...(metrics.engagementRate > 0 ? { engagementRate: metrics.engagementRate.toFixed(2) } : {})
+    });
+    await platformAggregationService.recomputeQuietly(platform.influencerId);
+    return this.toPublic(updated!);
+  }
+
+  /**
+   * Get a usable access token for a linked platform, refreshing it if it has expired
+   *
+   * @returns The token, or null if the platform is not linked or the token can no longer be refreshed
+   */
+  async getAccessToken(platform: SocialPlatform): Promise<string | null> {
+    if (!platform.accessToken) return null;
+
+    if (platform.tokenExpiresAt && platform.tokenExpiresAt <= new Date()) {
+      const refreshed = await this.refreshToken(platform);
+      return refreshed?.accessToken ? decryptToken(refreshed.accessToken) : null;
+    }
+    return decryptToken(platform.accessToken);
+  }
+
+  /**
+   * Exchange a platform's refresh token for a new access token
+   *
+   * A rejected refresh token means the creator revoked access, so the stored
+   * tokens are cleared. Ownership was already proven, so the platform stays verified.
+   *
+   * @returns The updated platform, or null if it could not be refreshed
+   */
+  async refreshToken(platform: SocialPlatform): Promise<SocialPlatform | null> {
+    const config = this.getOAuthConfig(platform.platform as PlatformId);
+    if (!config || !platform.refreshToken) return null;
+
+    try {
+      const tokens = await this.requestTokens(config, {
+        grant_type: 'refresh_token',
+        refresh_token: decryptToken(platform.refreshToken)
+      });
+
+      const updated = await storage.updateSocialPlatform(platform.id, {
+        accessToken: encryptToken(tokens.accessToken),
+        // Some platforms rotate refresh tokens, others keep the original
+        refreshToken: tokens.refreshToken ? encryptToken(tokens.refreshToken) : platform.refreshToken,
+        tokenExpiresAt: tokens.expiresAt,
+        tokenScopes: tokens.scopes ?? platform.tokenScopes
+      });
+      return updated ?? null;
+    } catch (error: any) {
+      const status = error?.response?.status;
+      if (status === 400 || status === 401) {
+        console.warn(`${platform.platform} refused to refresh the token for platform ${platform.id}; clearing it`);
+        await storage.updateSocialPlatform(platform.id, {
+          accessToken: null,
+          refreshToken: null,
+          tokenExpiresAt: null
+        });
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Refresh tokens that expire soon, so scheduled metric fetches keep working
+   *
+   * @returns The number of tokens refreshed
+   */
+  async refreshExpiringTokens(): Promise<number> {
+    const platforms = await storage.getSocialPlatformsWithTokensExpiringBefore(new Date(Date.now() + TOKEN_REFRESH_WINDOW_MS));
+    let refreshed = 0;
+
+    for (const platform of platforms) {
+      try {
+        if (await this.refreshToken(platform)) refreshed++;
+      } catch (error) {
+        console.error(`Failed to refresh ${platform.platform} token for platform ${platform.id}:`, error);
+      }
+    }
+    return refreshed;
+  }
+
+  /**
+   * Delete link requests that were never completed
+   */
+  async deleteExpiredLinkStates(): Promise<number> {
+    return storage.deleteExpiredPlatformLinkStates(new Date());
+  }
+
+  /**
+   * Strip stored tokens before a platform is sent to a client
+   */
+  toPublic(platform: SocialPlatform): PublicSocialPlatform {
+    const { accessToken, refreshToken, ...rest } = platform;
+    return rest;
+  }
+
+  private getOAuthConfig(platform: PlatformId): OAuthConfig | null {
+    const config = OAUTH_CONFIGS[platform];
+    return config && process.env[config.clientIdEnv] && process.env[config.clientSecretEnv] ? config : null;
+  }
+
+  private async requestTokens(config: OAuthConfig, grant: Record<string, string>): Promise<TokenSet> {
+    const clientId = process.env[config.clientIdEnv]!;
+    const clientSecret = process.env[config.clientSecretEnv]!;
+    const body = new URLSearchParams(grant);
+    if (!config.basicAuth) {
+      body.set(config.clientIdParam || 'client_id', clientId);
+      body.set('client_secret', clientSecret);
+    } else if (config.pkce) {
+      // Confidential PKCE clients still name themselves in the body
+      body.set('client_id', clientId);
+    }
+
+    const response = await axios.post(config.tokenUrl, body, {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      auth: config.basicAuth ? { username: clientId, password: clientSecret } : undefined,
+      timeout: REQUEST_TIMEOUT_MS
+    });
+
+    const data = response.data || {};
+    if (!data.access_token) {
+      throw new PlatformLinkError(data.error_description || data.error || 'The platform did not return an access token');
+    }
+
+    const scopes = Array.isArray(data.scope) ? data.scope.join(' ') : data.scope;
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || null,
+      expiresAt: data.expires_in ? new Date(Date.now() + Number(data.expires_in) * 1000) : null,
+      scopes: scopes || null
+    };
+  }
+
+  // A fresh reading right after linking; a failed fetch doesn't undo the link
+  private async refreshMetrics(platform: SocialPlatform, accessToken: string): Promise<SocialPlatform> {
+    try {
+      const metrics = await socialMetricsService.getMetrics(platform.platform, platform.handle, accessToken, {
+        source: 'connect',
+        influencerId: platform.influencerId
+      });
+      if (!metrics) return platform;
+
+      const updated = await storage.updateSocialPlatform(platform.id, {
+        followers: metrics.followers,
+        ...(metrics.engagementRate > 0 ? { engagementRate: metrics.engagementRate.toFixed(2) } : {})
+      });
+      return updated ?? platform;
+    } catch (error) {
+      console.error(`Failed to fetch metrics for newly linked ${platform.platform} account ${platform.handle}:`, error);
+      return platform;
+    }
+  }
+}
+
+export const platformLinkingService = new PlatformLinkingService();
@@ -3,6 +3,12 @@
  */
 
 import { SocialPlatform } from "../../shared/schema";
+import { getPlatform, PlatformDefinition } from "../../shared/platforms";
+import type { AggregatePlatformMetrics } from "../../shared/platform-aggregate";
+
+// Used for platforms missing from the registry
+const DEFAULT_CONTENT_TYPE_RATES: PlatformDefinition['contentTypeRates'] = { post: 1, story: 0.5, reel: 1.2, video: 1.5 };
+const DEFAULT_BENCHMARK: PlatformDefinition['benchmark'] = { perFollower: 0.008, min: 30, max: 10000 };
 
 export interface RateRecommendation {
   minRate: number;
@@ -32,6 +38,25 @@ export interface RateRecommendation {
   };
 }
 
+// Rate for one post on every platform, priced on the influencer's combined audience
+export interface AggregateRateRecommendation {
+  totalReach: number;
+  uniqueAudience: number;
+  weightedEngagementRate: number;
+  platformCount: number;
+  minRate: number;
+  maxRate: number;
+  idealRate: number;
+  rateCurrency: string;
+  // What each account contributes to the package rate
+  platformRates: {
+    platformId: number;
+    platform: string;
+    handle: string;
+    idealRate: number;
+  }[];
+}
+
 /**
  * Service for calculating recommended rates for influencers based on various metrics
  */
@@ -102,16 +127,7 @@ export class RateCalculatorService {
    * @returns Platform rate multiplier
    */
   private getPlatformFactor(platform: string): number {
-    switch (platform.toLowerCase()) {
-      case 'instagram':
-        return 1.0; // Baseline platform
-      case 'tiktok':
-        return 0.9; // Slightly lower than Instagram on average
-      case 'youtube':
-        return 1.5; // Higher than Instagram due to video content value
-      default:
-        return 1.0; // Default factor
-    }
+    return getPlatform(platform)?.rateFactor ?? 1.0; // Default factor
   }
   
   /**
@@ -198,36 +214,13 @@ export class RateCalculatorService {
    * @returns Rates for different content types
    */
   private getContentTypeRates(platform: string, baseRate: number): { post: number; story: number; reel: number; video: number } {
-    switch (platform.toLowerCase()) {
-      case 'instagram':
-        return {
-          post: Math.round(baseRate),
-          story: Math.round(baseRate * 0.5),
-          reel: Math.round(baseRate * 1.5),
-          video: Math.round(baseRate * 1.8)
-        };
-      case 'tiktok':
-        return {
-          post: Math.round(baseRate),
-          story: Math.round(baseRate * 0.5), // Not applicable really
-          reel: Math.round(baseRate * 1.0), // Standard TikTok content
-          video: Math.round(baseRate * 1.5) // Longer format videos
-        };
-      case 'youtube':
-        return {
-          post: Math.round(baseRate * 0.7), // Community post
-          story: Math.round(baseRate * 0.5), // Shorts
-          reel: Math.round(baseRate * 0.8), // Shorts with more production
-          video: Math.round(baseRate * 1.0) // Standard YT video
-        };
-      default:
-        return {
-          post: Math.round(baseRate),
-          story: Math.round(baseRate * 0.5),
-          reel: Math.round(baseRate * 1.2),
-          video: Math.round(baseRate * 1.5)
-        };
-    }
+    const multipliers = getPlatform(platform)?.contentTypeRates ?? DEFAULT_CONTENT_TYPE_RATES;
+    return {
+      post: Math.round(baseRate * multipliers.post),
+      story: Math.round(baseRate * multipliers.story),
+      reel: Math.round(baseRate * multipliers.reel),
+      video: Math.round(baseRate * multipliers.video)
+    };
   }
   
   /**
@@ -239,22 +232,9 @@ export class RateCalculatorService {
    * @returns Industry benchmarks
    */
   private getIndustryBenchmarks(platform: string, followers: number): { industryAverage: number; topPerformerRate: number; beginnerRate: number } {
-    let industryAverage = 0;
-    
     // Industry average baseline calculations by platform
-    switch (platform.toLowerCase()) {
-      case 'instagram':
-        industryAverage = Math.min(10000, Math.max(25, followers * 0.008));
-        break;
-      case 'tiktok':
-        industryAverage = Math.min(8000, Math.max(20, followers * 0.007));
-        break;
-      case 'youtube':
-        industryAverage = Math.min(20000, Math.max(50, followers * 0.012));
-        break;
-      default:
-        industryAverage = Math.min(10000, Math.max(30, followers * 0.008));
-    }
+    const benchmark = getPlatform(platform)?.benchmark ?? DEFAULT_BENCHMARK;
+    const industryAverage = Math.min(benchmark.max, Math.max(benchmark.min, followers * benchmark.perFollower));
     
     return {
       industryAverage: Math.round(industryAverage),
@@ -299,6 +279,49 @@ export class RateCalculatorService {
     return rateMap;
   }
   
+  /**
+   * Calculate a package rate for posting on every platform at once
+   *
+   * Each account is priced on its own figures, then the total is scaled down
+   * by the estimated audience overlap so followers who see the content on
+   * several platforms aren't charged for twice.
+   *
+   * @param aggregate The influencer's cross-platform metrics
+   * @param niche Optional niche/category
+   * @returns The package rate, or null if no account has metrics yet
+   */
+  calculateAggregateRate(aggregate: AggregatePlatformMetrics | null, niche?: string): AggregateRateRecommendation | null {
+    if (!aggregate || aggregate.platformCount === 0 || aggregate.totalReach === 0) return null;
+
+    const platformRates = aggregate.platforms.map(platform => ({
+      platformId: platform.platformId,
+      platform: platform.platform,
+      handle: platform.handle,
+      idealRate: this.calculateRecommendedRate(
+        platform.platform,
+        platform.followers,
+        // Accounts without their own reading are priced at the combined rate
+        platform.engagementRate ?? aggregate.weightedEngagementRate,
+        niche
+      ).idealRate
+    }));
+
+    const overlapFactor = aggregate.uniqueAudience / aggregate.totalReach;
+    const idealRate = platformRates.reduce((sum, platform) => sum + platform.idealRate, 0) * overlapFactor;
+
+    return {
+      totalReach: aggregate.totalReach,
+      uniqueAudience: aggregate.uniqueAudience,
+      weightedEngagementRate: aggregate.weightedEngagementRate,
+      platformCount: aggregate.platformCount,
+      minRate: Math.round(idealRate * 0.7),
+      maxRate: Math.round(idealRate * 1.3),
+      idealRate: Math.round(idealRate),
+      rateCurrency: 'USD',
+      platformRates
+    };
+  }
+  
   /**
    * Suggest optimal pricing for an offer based on target reach and budget
    * 
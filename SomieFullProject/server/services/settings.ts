@@ -0,0 +1,130 @@
+/**
+ * Service for reading platform configuration from the system_settings table
+ * Admins edit these values through the admin settings page.
+ */
+
+import { storage } from "../storage";
+import { DEFAULT_MATCHING_PROFILE } from "../../shared/matching-profile";
+
+// Weights and rules for match scores; edited through the matching profile endpoints
+export const MATCHING_PROFILE_SETTING = 'matching.profile';
+
+interface SettingDefinition {
+  key: string;
+  value: unknown;
+  type: 'boolean' | 'number' | 'string' | 'json';
+  description: string;
+  category: string;
+}
+
+/**
+ * Settings the platform relies on, seeded on startup so they show up in the admin UI
+ */
+const DEFAULT_SETTINGS: SettingDefinition[] = [
+  {
+    key: 'payouts.minimum_amount',
+    value: 50,
+    type: 'number',
+    description: 'Minimum amount (USD) an influencer can withdraw in a single payout request',
+    category: 'payments'
+  },
+  {
+    key: 'verification.recheck_interval_hours',
+    value: 24,
+    type: 'number',
+    description: 'How often submitted posts are re-checked while their offer timeframe is running',
+    category: 'verification'
+  },
+  {
+    key: 'metrics.providers',
+    value: { instagram: 'auto', tiktok: 'auto', youtube: 'auto', twitch: 'auto', x: 'auto', pinterest: 'auto', linkedin: 'auto', snapchat: 'auto' },
+    type: 'json',
+    description: 'Where follower and engagement metrics come from for each platform: "api", "scraper", "fixture" (recorded responses) or "auto" (the API when its credentials are configured, otherwise the scraper where the platform has one)',
+    category: 'metrics'
+  },
+  {
+    key: MATCHING_PROFILE_SETTING,
+    value: DEFAULT_MATCHING_PROFILE,
+    type: 'json',
+    description: 'Versioned weights and rule scores used to match influencers to offers. Businesses may override the weights on individual offers.',
+    category: 'matching'
+  },
+  {
+    key: 'geocoding.provider',
+    value: 'auto',
+    type: 'string',
+    description: 'How addresses and locations become coordinates for distance matching: "gazetteer" (built-in list of cities and regions, no network calls), "nominatim" (OpenStreetMap) or "auto" (the gazetteer, then OpenStreetMap for places it doesn\'t know)',
+    category: 'matching'
+  },
+  {
+    key: 'embeddings.provider',
+    value: 'auto',
+    type: 'string',
+    description: 'How bios, post captions and offer descriptions are embedded for semantic niche matching: "openai", "hashing" (local word hashing, no network calls) or "auto" (OpenAI when an API key is configured, otherwise hashing). Changing it re-embeds every profile and offer over the following hours.',
+    category: 'matching'
+  }
+];
+
+export class SettingsService {
+  /**
+   * Get a setting value, falling back to its default when missing
+   *
+   * @param key Setting key
+   * @param fallback Value to use when the setting is not stored
+   * @returns The stored setting value or the fallback
+   */
+  async get<T>(key: string, fallback: T): Promise<T> {
+    try {
+      const setting = await storage.getSystemSetting(key);
+      if (!setting || setting.settingValue === null || setting.settingValue === undefined) {
+        return fallback;
+      }
+      return setting.settingValue as T;
+    } catch (error) {
+      console.error(`Error reading setting ${key}:`, error);
+      return fallback;
+    }
+  }
+
+  /**
+   * Store a setting value, creating the setting if needed
+   *
+   * @param key Setting key
+   * @param value New value
+   * @param updatedBy The admin making the change
+   */
+  async set(key: string, value: unknown, updatedBy: number | null): Promise<void> {
+    const definition = DEFAULT_SETTINGS.find(setting => setting.key === key);
+    await storage.upsertSystemSetting({
+      settingKey: key,
+      settingValue: value as any,
+      settingType: definition?.type ?? 'json',
+      description: definition?.description ?? null,
+      category: definition?.category ?? 'general',
+      updatedBy
+    });
+  }
+
+  /**
+   * Insert any default settings that are not stored yet
+   * Existing values are never overwritten.
+   */
+  async ensureDefaults(): Promise<void> {
+    for (const definition of DEFAULT_SETTINGS) {
+      try {
+        await storage.createSystemSettingIfMissing({
+          settingKey: definition.key,
+          settingValue: definition.value as any,
+          settingType: definition.type,
+          description: definition.description,
+          category: definition.category,
+          updatedBy: null
+        });
+      } catch (error) {
+        console.error(`Error seeding setting ${definition.key}:`, error);
+      }
+    }
+  }
+}
+
+export const settingsService = new SettingsService();
@@ -0,0 +1,73 @@
+/**
+ * Encryption for OAuth tokens stored in the database
+ *
+ * Tokens are sealed with AES-256-GCM under TOKEN_ENCRYPTION_KEY (32 bytes as
+ * hex or base64). Without it a key is derived from SESSION_SECRET so local
+ * development works, which production should not rely on: rotating the
+ * session secret would make every stored token unreadable.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+// Prefix on every sealed value, so the format can change without guessing
+const VERSION = "v1";
+
+export class TokenEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenEncryptionError";
+  }
+}
+
+let cachedKey: Buffer | null = null;
+
+function getKey(): Buffer {
+  if (cachedKey) return cachedKey;
+
+  const configured = process.env.TOKEN_ENCRYPTION_KEY;
+  if (configured) {
+    const key = /^[0-9a-f]{64}$/i.test(configured) ? Buffer.from(configured, "hex") : Buffer.from(configured, "base64");
+    if (key.length !== 32) {
+      throw new TokenEncryptionError("TOKEN_ENCRYPTION_KEY must be 32 bytes, as hex or base64");
+    }
+    cachedKey = key;
+  } else {
+    console.warn("TOKEN_ENCRYPTION_KEY is not set; deriving the token key from SESSION_SECRET");
+    cachedKey = scryptSync(process.env.SESSION_SECRET || "dev-secret-key", "somie-oauth-tokens", 32);
+  }
+  return cachedKey;
+}
+
+/**
+ * Encrypt a token for storage
+ */
+export function encryptToken(plaintext: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [VERSION, iv.toString("base64"), tag.toString("base64"), ciphertext.toString("base64")].join(":");
+}
+
+/**
+ * Decrypt a token sealed by encryptToken
+ *
+ * @throws TokenEncryptionError if the value is malformed or was sealed under another key
+ */
+export function decryptToken(sealed: string): string {
+  const [version, iv, tag, ciphertext] = sealed.split(":");
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new TokenEncryptionError("Unrecognised encrypted token format");
+  }
+
+  try {
+    const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, "base64"));
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+  } catch {
+    throw new TokenEncryptionError("Encrypted token could not be decrypted");
+  }
+}
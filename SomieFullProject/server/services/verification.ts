@@ -1,12 +1,24 @@
 import axios from 'axios';
 import * as cheerio from 'cheerio';
-import OpenAI from "openai";
 import { storage } from '../storage';
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { escrowService } from './escrow';
+import { claimLifecycleService, SYSTEM_ACTOR } from './claim-lifecycle';
+import { settingsService } from './settings';
+import { aiService } from './ai';
+import { metricsRefreshService } from './metrics-refresh';
+import { Offer, OfferClaim, PostSubmission, PostVerificationSnapshot } from '../../shared/schema';
+import { canTransitionClaim, type ClaimStatus } from '../../shared/claim-lifecycle';
+import {
+  checkVerificationRequirements,
+  EMPTY_VERIFICATION_REQUIREMENTS,
+  type RuleResult,
+  type VerificationRequirements
+} from '../../shared/verification-requirements';
+import { checkDisclosure, type DisclosureStatus } from '../../shared/disclosure-compliance';
+import { termsFromOffer } from '../../shared/deal-terms';
 
 interface VerificationResult {
-  status: 'verified' | 'failed' | 'needs_review' | 'completed';
+  status: 'verified' | 'failed' | 'needs_review' | 'needs_changes' | 'completed';
   details: string;
   aiSuggestions?: string;
 }
@@ -17,26 +29,42 @@ interface ContentAnalysis {
   confidence: number;
 }
 
+interface FetchedPost {
+  removed: boolean;
+  caption: string;
+  videoSeconds: number | null;
+}
+
+// Claims whose posts are monitored while the offer timeframe runs
+const MONITORED_CLAIM_STATUSES: ClaimStatus[] = ['submitted', 'under_review', 'revision_requested', 'completed'];
+
+// Snapshot statuses that mean the post no longer meets what was approved
+const PROBLEM_SNAPSHOT_STATUSES = ['removed', 'edited'];
+
+const extractHashtags = (caption: string): string[] =>
+  Array.from(new Set((caption.match(/#[^\s#@.,!?;:()"']+/g) || []).map(tag => tag.toLowerCase())));
+
+const extractMentions = (caption: string): string[] =>
+  Array.from(new Set((caption.match(/@[\w.]+/g) || []).map(mention => mention.toLowerCase().replace(/\.$/, ''))));
+
+// Network failures, rate limits and server errors are worth another attempt
+const isTransientError = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+};
+
 export class PostVerificationService {
   private async analyzeContentWithAI(content: string, requirements: string): Promise<ContentAnalysis> {
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4",
-        messages: [
-          {
-            role: "system",
-            content: "You are a content verification expert. Analyze the content and verify if it meets the requirements. Respond with JSON in this format: { meetsRequirements: boolean, confidence: number, suggestions: string }"
-          },
-          {
-            role: "user",
-            content: `Please analyze this content and verify if it meets these requirements:\n\nContent: ${content}\n\nRequirements: ${requirements}`
-          }
-        ],
-        response_format: { type: "json_object" },
+      const parsed = await aiService.completeJSON<{ meetsRequirements?: unknown; confidence?: unknown; suggestions?: unknown }>({
+        task: 'verify_post',
+        system: "You are a content verification expert. Analyze the content and verify if it meets the requirements. Respond with JSON in this format: { meetsRequirements: boolean, confidence: number, suggestions: string }",
+        prompt: `Please analyze this content and verify if it meets these requirements:\n\nContent: ${content}\n\nRequirements: ${requirements}`,
+        context: { caption: content, requirements }
       });
 
-      // Parse the response, ensuring it matches our expected format
-      const parsed = JSON.parse(response.choices[0].message.content || "{}");
+      // Coerce the response, since models do not always follow the format
       return {
         isValid: Boolean(parsed.meetsRequirements),
         suggestions: String(parsed.suggestions || ""),
@@ -52,81 +80,155 @@ export class PostVerificationService {
     }
   }
 
-  private async scrapeContent(url: string, platform: string): Promise<string> {
+  // Not-found responses mean the post was deleted; other failures are
+  // thrown so the caller can retry later
+  private async fetchPost(url: string): Promise<FetchedPost> {
     try {
       const response = await axios.get(url);
       const $ = cheerio.load(response.data);
 
       // Extract content based on platform
       const content = $('meta[property="og:description"]').attr('content');
-      return content || '';
+      const duration = Number(
+        $('meta[property="og:video:duration"]').attr('content') ||
+        $('meta[property="video:duration"]').attr('content')
+      );
+      return {
+        removed: false,
+        caption: content || '',
+        videoSeconds: duration > 0 ? Math.round(duration) : null
+      };
     } catch (error) {
-      console.error(`Failed to scrape content from ${platform}:`, error);
-      return '';
+      if (axios.isAxiosError(error) && (error.response?.status === 404 || error.response?.status === 410)) {
+        return { removed: true, caption: '', videoSeconds: null };
+      }
+      throw error;
     }
   }
 
-  public async verifyPost(submissionId: number): Promise<void> {
-    try {
-      // Get the submission and related offer details
-      const submissions = await storage.getPostSubmissionsByClaim(submissionId);
-      const submission = submissions[0];
+  private async recordLiveSnapshot(submissionId: number, caption: string): Promise<PostVerificationSnapshot> {
+    return await storage.createPostVerificationSnapshot({
+      submissionId,
+      status: 'live',
+      caption,
+      hashtags: extractHashtags(caption),
+      mentions: extractMentions(caption),
+      missingHashtags: [],
+      missingMentions: [],
+      details: null
+    });
+  }
 
+  /**
+   * Verify a newly submitted post against its offer's requirements
+   * Measurable rules are checked first; a failed rule sends the claim back for
+   * revision without asking the AI. When every rule passes, the AI judges the
+   * rest of the brief, and a confident pass completes the claim once the
+   * number of posts in the current deal terms have all verified. Transient
+   * errors are thrown so the job queue retries, until the last attempt marks
+   * the post as failed.
+   *
+   * @param submissionId The post submission to verify
+   * @param retryTransientErrors Throw transient errors instead of failing the post
+   */
+  public async verifyPost(submissionId: number, retryTransientErrors: boolean = true): Promise<void> {
+    try {
+      const submission = await storage.getPostSubmissionById(submissionId);
       if (!submission) {
         throw new Error('Submission not found');
       }
 
-      // First verify if the post exists and is accessible
+      const claim = await storage.getOfferClaimById(submission.claimId);
+      const offer = claim ? await storage.getOfferById(claim.offerId) : undefined;
+      if (!claim || !offer) {
+        throw new Error('Offer not found for submission');
+      }
+
+      const requirements = offer.verificationRequirements ?? EMPTY_VERIFICATION_REQUIREMENTS;
       let verificationResult: VerificationResult;
-      const content = await this.scrapeContent(submission.postUrl, submission.platform);
+      let rules: RuleResult[] = [];
+      let analysis: ContentAnalysis | null = null;
 
-      if (!content) {
+      // First verify if the post exists and is accessible
+      const post = await this.fetchPost(submission.postUrl).catch(error => {
+        if (retryTransientErrors && isTransientError(error)) throw error;
+        console.error(`Failed to scrape content from ${submission.platform}:`, error);
+        return null;
+      });
+
+      if (!post || post.removed || !post.caption) {
         verificationResult = {
           status: 'failed',
           details: `Unable to access or verify the ${submission.platform} post`
         };
       } else {
-        // Analyze content with AI
-        const analysis = await this.analyzeContentWithAI(
-          content,
-          "Post should be engaging, relevant to the campaign, and follow platform guidelines"
-        );
+        // The first live snapshot is the baseline later re-checks compare against
+        await this.recordLiveSnapshot(submission.id, post.caption);
 
-        if (analysis.confidence > 0.8 && analysis.isValid) {
-          verificationResult = {
-            status: 'verified',
-            details: 'Post verified successfully by AI'
-          };
-        } else if (analysis.confidence < 0.5) {
+        const bio = requirements.linkInBio ? await this.fetchCreatorBio(claim.influencerId) : null;
+        rules = [
+          ...checkVerificationRequirements(requirements, {
+            caption: post.caption,
+            videoSeconds: post.videoSeconds,
+            bio
+          }),
+          await this.checkPostDisclosure(submission, offer, post.caption)
+        ];
+        const failedRules = rules.filter(rule => rule.passed === false);
+        const uncheckedRules = rules.filter(rule => rule.passed === null);
+
+        if (failedRules.length > 0) {
           verificationResult = {
-            status: 'needs_review',
-            details: 'AI confidence too low, requires manual review',
-            aiSuggestions: analysis.suggestions
+            status: 'needs_changes',
+            details: `Post is missing: ${failedRules.map(rule => `${rule.label} (${rule.detail})`).join('; ')}`
           };
         } else {
-          verificationResult = {
-            status: 'needs_review',
-            details: 'Content may need improvements',
-            aiSuggestions: analysis.suggestions
-          };
+          analysis = await this.analyzeContentWithAI(post.caption, this.describeRequirements(offer, requirements));
+
+          if (analysis.confidence > 0.8 && analysis.isValid && uncheckedRules.length === 0) {
+            verificationResult = {
+              status: 'verified',
+              details: rules.length > 0
+                ? 'All offer requirements met and the post was approved by AI'
+                : 'Post verified successfully by AI'
+            };
+          } else if (uncheckedRules.length > 0) {
+            verificationResult = {
+              status: 'needs_review',
+              details: `Could not check automatically: ${uncheckedRules.map(rule => rule.label).join(', ')}`,
+              aiSuggestions: analysis.suggestions
+            };
+          } else if (analysis.confidence < 0.5) {
+            verificationResult = {
+              status: 'needs_review',
+              details: 'AI confidence too low, requires manual review',
+              aiSuggestions: analysis.suggestions
+            };
+          } else {
+            verificationResult = {
+              status: 'needs_review',
+              details: 'Content may need improvements',
+              aiSuggestions: analysis.suggestions
+            };
+          }
         }
       }
 
-      // Update the submission status
+      // Update the submission status with the per-rule report
       await storage.updatePostSubmissionVerification(
         submission.id,
         verificationResult.status === 'verified' ? 'completed' : verificationResult.status,
         JSON.stringify({
           details: verificationResult.details,
-          suggestions: verificationResult.aiSuggestions
+          suggestions: verificationResult.aiSuggestions,
+          rules,
+          ai: analysis
         })
       );
 
-      // If verified, update the claim status
-      if (verificationResult.status === 'verified') {
-        await storage.updateOfferClaimStatus(submission.claimId, 'completed');
-      }
+      await this.applyVerificationResult(submission.claimId, offer, verificationResult);
     } catch (error) {
+      if (retryTransientErrors && isTransientError(error)) throw error;
       console.error('Verification error:', error);
       // Update submission as failed if there's an error
       await storage.updatePostSubmissionVerification(
@@ -136,6 +238,219 @@ export class PostVerificationService {
       );
     }
   }
+
+  // Completing releases the escrow hold; missing requirements go back to the
+  // creator and uncertain results are left for the business to review
+  private async applyVerificationResult(claimId: number, offer: Offer, result: VerificationResult): Promise<void> {
+    const target: Partial<Record<VerificationResult['status'], ClaimStatus>> = {
+      verified: 'completed',
+      needs_changes: 'revision_requested',
+      needs_review: 'under_review'
+    };
+    const toStatus = target[result.status];
+    if (!toStatus) return;
+
+    // Another post for the same claim may already have moved it on
+    const claim = await storage.getOfferClaimById(claimId);
+    if (!claim || !canTransitionClaim(claim.status, toStatus, 'system')) return;
+
+    // The claim stays open for more posts until the agreed number have verified
+    if (toStatus === 'completed' && await this.getVerifiedPostCount(claimId) < await this.getPostsRequired(claimId, offer)) {
+      return;
+    }
+
+    const updated = await claimLifecycleService.transition(claimId, toStatus, SYSTEM_ACTOR, result.details);
+    if (toStatus === 'completed') {
+      // The post itself verified, so a failed release is left to the settlement sweep
+      try {
+        await escrowService.handleClaimStatusChange(updated);
+      } catch (error) {
+        console.error(`Error releasing escrow for claim ${claimId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * How many more posts a claim needs before it can be completed by hand
+   * Counts every post the creator submitted, so businesses can approve posts
+   * that verification left for them to review.
+   */
+  async getMissingPostCount(claim: OfferClaim): Promise<number> {
+    const offer = await storage.getOfferById(claim.offerId);
+    if (!offer) return 0;
+
+    const submissions = await storage.getPostSubmissionsByClaim(claim.id);
+    const submitted = new Set(submissions.map(submission => submission.postUrl)).size;
+    return Math.max(0, await this.getPostsRequired(claim.id, offer) - submitted);
+  }
+
+  // Posts are counted by URL so resubmitting the same post does not count twice
+  private async getVerifiedPostCount(claimId: number): Promise<number> {
+    const submissions = await storage.getPostSubmissionsByClaim(claimId);
+    const verified = submissions.filter(submission => submission.verificationStatus === 'completed');
+    return new Set(verified.map(submission => submission.postUrl)).size;
+  }
+
+  private async getPostsRequired(claimId: number, offer: Offer): Promise<number> {
+    const terms = await storage.getCurrentDealTerms(claimId);
+    return (terms ?? termsFromOffer(offer)).postsRequired;
+  }
+
+  // Every submitted post gets a disclosure check, whether or not the offer
+  // set its own disclosure tags, and the claim keeps the combined result
+  private async checkPostDisclosure(submission: PostSubmission, offer: Offer, caption: string): Promise<RuleResult> {
+    const check = checkDisclosure(caption, submission.platform, offer.location);
+    await storage.recordPostDisclosureCheck(submission.id, check);
+
+    const checks = (await storage.getPostSubmissionsByClaim(submission.claimId))
+      .map(claimSubmission => claimSubmission.disclosureCheck)
+      .filter(Boolean);
+    const status: DisclosureStatus = checks.some(claimCheck => !claimCheck!.passed) ? 'failed' : 'passed';
+    await storage.updateClaimDisclosureStatus(submission.claimId, status);
+
+    return {
+      rule: 'sponsorship_disclosure',
+      label: `${check.authority} disclosure`,
+      passed: check.passed,
+      detail: check.passed ? `Disclosed with ${check.marker}` : check.issues.join(' ')
+    };
+  }
+
+  // The AI only sees the brief; measurable rules have already been checked
+  private describeRequirements(offer: Offer, requirements: VerificationRequirements): string {
+    const lines = [
+      `Campaign: ${offer.title}`,
+      `Brief: ${offer.description}`,
+      offer.contentType ? `Requested content type: ${offer.contentType}` : null,
+      requirements.brandName ? `The post should present ${requirements.brandName} positively and accurately` : null,
+      'The post should be relevant to the campaign and follow platform guidelines'
+    ];
+    return lines.filter(Boolean).join('\n');
+  }
+
+  private async fetchCreatorBio(influencerId: number): Promise<string | null> {
+    try {
+      const profile = await storage.getInfluencerProfileById(influencerId);
+      const url = profile ? metricsRefreshService.getPrimaryProfileUrl(profile) : null;
+      if (!url) return null;
+
+      const page = await this.fetchPost(url);
+      return page.removed ? null : page.caption;
+    } catch (error) {
+      console.error('Failed to fetch creator bio:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List posts whose offer timeframe is still running and that are due for another check
+   *
+   * @param now Reference time (defaults to the current time)
+   */
+  public async getSubmissionsDueForRecheck(now: Date = new Date()): Promise<PostSubmission[]> {
+    const intervalHours = await settingsService.get<number>('verification.recheck_interval_hours', 24);
+    const checkedBefore = new Date(now.getTime() - intervalHours * 60 * 60 * 1000);
+    return await storage.getPostSubmissionsDueForRecheck(now, checkedBefore, MONITORED_CLAIM_STATUSES);
+  }
+
+  /**
+   * Re-scrape a verified post and compare it with its first live snapshot
+   * Deleted posts and edits that drop hashtags or mentions flag the claim
+   * and notify the business.
+   *
+   * @param submissionId The post submission to check
+   * @returns The snapshot recorded for this check
+   * @throws Error if the post could not be fetched, so the check is retried
+   */
+  public async recheckPost(submissionId: number): Promise<PostVerificationSnapshot | undefined> {
+    const submission = await storage.getPostSubmissionById(submissionId);
+    if (!submission) return undefined;
+
+    const history = await storage.getPostVerificationSnapshots(submission.id);
+    const baseline = history.find(snapshot => snapshot.status === 'live');
+    const previous = history[history.length - 1];
+
+    const post = await this.fetchPost(submission.postUrl);
+    let snapshot: PostVerificationSnapshot;
+
+    if (post.removed) {
+      snapshot = await storage.createPostVerificationSnapshot({
+        submissionId: submission.id,
+        status: 'removed',
+        caption: null,
+        hashtags: [],
+        mentions: [],
+        missingHashtags: baseline?.hashtags || [],
+        missingMentions: baseline?.mentions || [],
+        details: `The ${submission.platform} post is no longer available`
+      });
+    } else if (!post.caption) {
+      // The page loaded but the caption could not be read; not enough to flag the post
+      snapshot = await storage.createPostVerificationSnapshot({
+        submissionId: submission.id,
+        status: 'unreachable',
+        caption: null,
+        hashtags: [],
+        mentions: [],
+        missingHashtags: [],
+        missingMentions: [],
+        details: 'The post caption could not be read'
+      });
+    } else if (!baseline) {
+      snapshot = await this.recordLiveSnapshot(submission.id, post.caption);
+    } else {
+      const hashtags = extractHashtags(post.caption);
+      const mentions = extractMentions(post.caption);
+      const missingHashtags = baseline.hashtags.filter(tag => !hashtags.includes(tag));
+      const missingMentions = baseline.mentions.filter(mention => !mentions.includes(mention));
+      const edited = missingHashtags.length > 0 || missingMentions.length > 0;
+
+      snapshot = await storage.createPostVerificationSnapshot({
+        submissionId: submission.id,
+        status: edited ? 'edited' : 'live',
+        caption: post.caption,
+        hashtags,
+        mentions,
+        missingHashtags,
+        missingMentions,
+        details: edited
+          ? `Removed from the caption: ${[...missingHashtags, ...missingMentions].join(', ')}`
+          : null
+      });
+    }
+
+    await storage.markPostSubmissionChecked(submission.id, snapshot.checkedAt || new Date());
+
+    // Only the change into a problem state is reported, not every check that still finds it
+    const isProblem = PROBLEM_SNAPSHOT_STATUSES.includes(snapshot.status);
+    const wasProblem = previous ? PROBLEM_SNAPSHOT_STATUSES.includes(previous.status) : false;
+    if (isProblem && !wasProblem) {
+      await this.flagSubmission(submission, snapshot);
+    }
+
+    return snapshot;
+  }
+
+  private async flagSubmission(submission: PostSubmission, snapshot: PostVerificationSnapshot): Promise<void> {
+    const reason = snapshot.details || 'The sponsored post changed after approval';
+    await storage.flagOfferClaim(submission.claimId, reason);
+
+    const claim = await storage.getOfferClaimById(submission.claimId);
+    if (!claim) return;
+    const offer = await storage.getOfferById(claim.offerId);
+    if (!offer) return;
+
+    await storage.createNotification({
+      businessId: offer.businessId,
+      title: snapshot.status === 'removed' ? "Sponsored Post Removed" : "Sponsored Post Edited",
+      message: `A post for "${offer.title}" needs your attention: ${reason}`,
+      type: "post_flagged",
+      read: false,
+      relatedOfferId: offer.id,
+      relatedInfluencerId: claim.influencerId,
+      createdAt: new Date(),
+    });
+  }
 }
 
 export const verificationService = new PostVerificationService();
\ No newline at end of file
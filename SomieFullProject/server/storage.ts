@@ -3,7 +3,7 @@ import connectPg from "connect-pg-simple";
 import session from "express-session";
 import memorystore from "memorystore";
 import { db } from "./db";
-import { eq, and, lte, gte } from "drizzle-orm";
+import { eq, ne, and, or, lt, lte, gt, gte, inArray, isNull, isNotNull, asc, desc, ilike, cosineDistance, type SQL } from "drizzle-orm";
 import {
   users,
   businessProfiles,
@@ -11,14 +11,20 @@ import {
   offers,
   offerClaims,
   postSubmissions,
+  postVerificationSnapshots,
   businessNotifications,
   type User,
   type BusinessProfile,
   type InfluencerProfile,
   type Offer,
   type OfferClaim,
+  claimEvents,
+  type ClaimEvent,
+  type InsertClaimEvent,
   type PostSubmission,
   type InsertPostSubmission,
+  type PostVerificationSnapshot,
+  type InsertPostVerificationSnapshot,
   type BusinessNotification,
   messages,
   deliverables,
@@ -31,14 +37,199 @@ import {
   type InsertPreviewToken,
   socialPlatforms, // Added import for socialPlatforms table
   type SocialPlatform, // Added import for SocialPlatform type
-  type InsertSocialPlatform // Added import for InsertSocialPlatform type
+  type InsertSocialPlatform, // Added import for InsertSocialPlatform type
+  ledgerAccounts,
+  ledgerEntries,
+  escrowHolds,
+  escrowReleases,
+  escrowRefunds,
+  type LedgerAccount,
+  type LedgerEntry,
+  type EscrowHold,
+  type InsertEscrowHold,
+  type EscrowRelease,
+  type EscrowRefund,
+  payoutRequests,
+  type PayoutRequest,
+  systemSettings,
+  type SystemSetting,
+  type InsertSystemSetting,
+  jobs,
+  jobSchedules,
+  type Job,
+  type InsertJob,
+  type JobSchedule,
+  type JobStatus,
+  aiUsage,
+  platformMetricSnapshots,
+  type PlatformMetricSnapshot,
+  type InsertPlatformMetricSnapshot,
+  platformLinkStates,
+  type PlatformLinkState,
+  type InsertPlatformLinkState,
+  type AIUsage,
+  type InsertAIUsage,
+  embeddings,
+  type Embedding,
+  type InsertEmbedding,
+  type EmbeddingEntityType,
+  shortlists,
+  shortlistMembers,
+  creatorNotes,
+  offerInvitations,
+  type Shortlist,
+  type InsertShortlist,
+  type ShortlistMember,
+  type CreatorNote,
+  type InsertCreatorNote,
+  type OfferInvitation,
+  type InsertOfferInvitation,
+  dealProposals,
+  dealTerms,
+  type DealProposal,
+  type InsertDealProposal,
+  type DealTerms,
+  campaigns,
+  type Campaign,
+  type InsertCampaign
 } from "@shared/schema";
+import {
+  LEGACY_CLAIM_STATUSES,
+  ACCEPTED_CLAIM_STATUSES,
+  SLOT_HOLDING_CLAIM_STATUSES,
+  type ClaimStatus
+} from "@shared/claim-lifecycle";
+import { getOfferAvailability } from "@shared/offer-availability";
+import { termsFromOffer, type DealProposalStatus, type DealTermsSnapshot } from "@shared/deal-terms";
+import type { DisclosureCheck, DisclosureStatus } from "@shared/disclosure-compliance";
+import type { HistoryGranularity } from "@shared/metric-history";
+import type { CredibilityAssessment } from "@shared/audience-authenticity";
+import { getAudienceMetrics, type AggregatePlatformMetrics } from "@shared/platform-aggregate";
+import { isOutsideOfferRadius, type GeoCoordinates } from "@shared/geo";
+import type { AudienceData } from "@shared/audience-demographics";
+import { PLATFORM_LIST, getPlatform } from "@shared/platforms";
+import {
+  FOLLOWER_TIERS,
+  REWARD_TYPE_LABELS,
+  type FacetCount,
+  type InfluencerFacetName,
+  type InfluencerSearchQuery,
+  type OfferFacetName,
+  type OfferSearchQuery
+} from "@shared/marketplace-search";
 import { pool } from "./db";
 import { sql } from 'drizzle-orm';
+import { randomUUID } from "crypto";
 
 
 const PostgresSessionStore = connectPg(session);
 
+/**
+ * What a ledger transaction belongs to: an escrow hold or a payout request
+ */
+export interface LedgerReference {
+  holdId?: number;
+  payoutId?: number;
+}
+
+/**
+ * A single leg of a double-entry ledger transaction.
+ * Positive amounts credit the account, negative amounts debit it.
+ */
+export interface LedgerPosting {
+  accountId: number;
+  amount: number;
+  description?: string;
+}
+
+/**
+ * Who made a claim status change and why, recorded in the claim_events audit trail
+ */
+export type ClaimEventActor = Pick<InsertClaimEvent, "actorType" | "actorUserId" | "reason">;
+
+/**
+ * Limit on how many claims of an offer may be in the given statuses at once
+ */
+export interface ClaimCapacity {
+  offerId: number;
+  statuses: ClaimStatus[];
+  limit: number;
+}
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Where the previous marketplace page ended: its last row's sort value and ID
+ */
+export interface SearchCursorPosition {
+  value: number;
+  id: number;
+}
+
+export interface SearchPageRows<T> {
+  rows: { item: T; sortValue: number }[];
+  // Matches for the query, across every page
+  total: number;
+}
+
+// A search filter; facet counts for a filter ignore its own condition
+interface SearchCondition<F extends string> {
+  facet?: F;
+  condition: SQL;
+}
+
+interface SearchSort {
+  value: SQL<number>;
+  direction: 'asc' | 'desc';
+}
+
+const aggregatePlatformCount = sql`coalesce((${influencerProfiles.aggregateMetrics}->>'platformCount')::int, 0)`;
+
+// Same figures as getAudienceMetrics: the cross-platform aggregate when there is one
+const influencerFollowers = sql<number>`(case when ${aggregatePlatformCount} > 0
+  then (${influencerProfiles.aggregateMetrics}->>'uniqueAudience')::int
+  else ${influencerProfiles.followerCount} end)`;
+const influencerEngagement = sql<number>`(case when ${aggregatePlatformCount} > 0
+    and coalesce((${influencerProfiles.aggregateMetrics}->>'weightedEngagementRate')::numeric, 0) > 0
+  then (${influencerProfiles.aggregateMetrics}->>'weightedEngagementRate')::numeric
+  else ${influencerProfiles.engagementRate} end)`;
+const influencerPlatforms = sql<string[]>`(case when ${aggregatePlatformCount} > 0
+  then array(select account->>'platform' from jsonb_array_elements(${influencerProfiles.aggregateMetrics}->'platforms') as account)
+  else array[lower(${influencerProfiles.platform})] end)`;
+
+// Search documents are built per query rather than stored: tags and content
+// types are arrays, and array_to_string isn't immutable enough for a generated column
+const influencerDocument = sql`(
+  setweight(to_tsvector('english', coalesce(${influencerProfiles.niche}, '') || ' ' || ${influencerProfiles.displayName}), 'A') ||
+  setweight(to_tsvector('english', coalesce(${influencerProfiles.bio}, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(${influencerProfiles.location}, '') || ' ' || coalesce(array_to_string(${influencerProfiles.contentTypes}, ' '), '')), 'C'))`;
+const offerDocument = sql`(
+  setweight(to_tsvector('english', ${offers.title} || ' ' || ${offers.category}), 'A') ||
+  setweight(to_tsvector('english', coalesce(array_to_string(${offers.tags}, ' '), '')), 'B') ||
+  setweight(to_tsvector('english', ${offers.description} || ' ' || coalesce(${offers.location}, '')), 'C'))`;
+
+const searchQuery = (q: string) => sql`websearch_to_tsquery('english', ${q})`;
+
+const textArray = (values: string[]) => sql`array[${sql.join(values.map(value => sql`${value}`), sql`, `)}]::text[]`;
+
+// Values listed per text facet, most common first
+const FACET_SIZE = 15;
+
+// Highest tier whose minimum the follower count reaches
+const followerTier = (followers: SQL) => sql<string>`(case ${sql.join(
+  [...FOLLOWER_TIERS].reverse().map(tier => sql`when ${followers} >= ${tier.min} then ${tier.id}`),
+  sql` `
+)} end)`;
+
+const whereExcept = <F extends string>(conditions: SearchCondition<F>[], facet?: F) =>
+  and(...conditions.filter(entry => !facet || entry.facet !== facet).map(entry => entry.condition));
+
+// Rows after the cursor in sort order, with the ID breaking ties
+const afterCursor = (sort: SearchSort, id: typeof influencerProfiles.id | typeof offers.id, after: SearchCursorPosition) =>
+  sort.direction === 'desc'
+    ? or(lt(sort.value, after.value), and(eq(sort.value, after.value), lt(id, after.id)))
+    : or(gt(sort.value, after.value), and(eq(sort.value, after.value), gt(id, after.id)));
+
 export interface IStorage {
   // User methods with improved error handling
   getUser(id: number): Promise<User | undefined>;
@@ -51,6 +242,8 @@ export interface IStorage {
   ): Promise<BusinessProfile>;
   getBusinessProfileByUserId(userId: number): Promise<BusinessProfile | undefined>;
   getBusinessProfileById(id: number): Promise<BusinessProfile | undefined>;
+  updateBusinessCoordinates(id: number, coordinates: GeoCoordinates | null, geocodedAt: Date): Promise<BusinessProfile | undefined>;
+  getBusinessProfilesToGeocode(limit: number): Promise<BusinessProfile[]>;
 
   // Influencer Profile methods
   createInfluencerProfile(
@@ -65,6 +258,12 @@ export interface IStorage {
     profile: Omit<InfluencerProfile, "id">
   ): Promise<InfluencerProfile>;
   getInfluencerProfiles(limit?: number, offset?: number): Promise<InfluencerProfile[]>;
+  updateInfluencerCredibility(id: number, assessment: CredibilityAssessment, assessedAt: Date): Promise<InfluencerProfile | undefined>;
+  getFlaggedInfluencerProfiles(limit?: number): Promise<InfluencerProfile[]>;
+  updateInfluencerAggregateMetrics(id: number, metrics: AggregatePlatformMetrics | null): Promise<InfluencerProfile | undefined>;
+  updateInfluencerAudienceData(id: number, audienceData: AudienceData): Promise<InfluencerProfile | undefined>;
+  updateInfluencerCoordinates(id: number, coordinates: GeoCoordinates | null, geocodedAt: Date): Promise<InfluencerProfile | undefined>;
+  getInfluencerProfilesToGeocode(limit: number): Promise<InfluencerProfile[]>;
 
   // Offer methods
   createOffer(offer: Omit<Offer, "id">): Promise<Offer>;
@@ -76,20 +275,35 @@ export interface IStorage {
   getOffersCount(businessId: number): Promise<number>;
   getOfferById(id: number): Promise<Offer | undefined>;
   getMatchingOffers(influencerProfile: InfluencerProfile): Promise<Offer[]>;
+  getOffersByStatuses(statuses: string[]): Promise<Offer[]>;
+  updateOfferStatus(id: number, fromStatus: string, toStatus: string): Promise<Offer | undefined>;
+  // Like updateOfferStatus, but marks closures as the scheduler's so they can reopen
+  updateScheduledOfferStatus(id: number, fromStatus: string, toStatus: string): Promise<Offer | undefined>;
 
   // Offer Claims methods
-  createOfferClaim(claim: Omit<OfferClaim, "id">): Promise<OfferClaim>;
+  // With an invitation ID the claim is only created if that invitation is still pending
+  createOfferClaim(
+    claim: Omit<OfferClaim, "id">,
+    event: ClaimEventActor,
+    invitationId?: number
+  ): Promise<OfferClaim | undefined>;
   getClaimsByOfferId(offerId: number): Promise<OfferClaim[]>;
   getClaimsByInfluencerId(influencerId: number): Promise<OfferClaim[]>;
   getOfferClaimByInfluencerAndOffer(
     influencerId: number,
     offerId: number
   ): Promise<OfferClaim | undefined>;
-  updateOfferClaimStatus(
+  transitionOfferClaimStatus(
     id: number,
-    status: string
+    fromStatus: ClaimStatus,
+    event: ClaimEventActor & { toStatus: ClaimStatus },
+    capacity?: ClaimCapacity
   ): Promise<OfferClaim | undefined>;
+  countClaimsByOfferAndStatuses(offerId: number, statuses: ClaimStatus[]): Promise<number>;
+  countClaimsByOfferIdsAndStatuses(offerIds: number[], statuses: ClaimStatus[]): Promise<Map<number, number>>;
   getOfferClaimById(id: number): Promise<OfferClaim | undefined>;
+  getClaimEventsByClaimId(claimId: number): Promise<ClaimEvent[]>;
+  migrateLegacyClaimStatuses(): Promise<number>;
 
   // Business Notification methods
   createNotification(
@@ -101,6 +315,20 @@ export interface IStorage {
   // Post Submission methods
   createPostSubmission(submission: InsertPostSubmission): Promise<PostSubmission>;
   getPostSubmissionsByClaim(claimId: number): Promise<PostSubmission[]>;
+  getPostSubmissionById(id: number): Promise<PostSubmission | undefined>;
+  getPostSubmissionsDueForRecheck(
+    now: Date,
+    checkedBefore: Date,
+    claimStatuses: ClaimStatus[]
+  ): Promise<PostSubmission[]>;
+  markPostSubmissionChecked(id: number, checkedAt: Date): Promise<void>;
+  createPostVerificationSnapshot(snapshot: InsertPostVerificationSnapshot): Promise<PostVerificationSnapshot>;
+  getPostVerificationSnapshots(submissionId: number): Promise<PostVerificationSnapshot[]>;
+  getRecentCaptionsByInfluencerId(influencerId: number, limit: number): Promise<string[]>;
+  flagOfferClaim(id: number, reason: string): Promise<OfferClaim | undefined>;
+  recordPostDisclosureCheck(id: number, check: DisclosureCheck): Promise<void>;
+  updateClaimDisclosureStatus(id: number, status: DisclosureStatus): Promise<OfferClaim | undefined>;
+  overrideClaimDisclosure(id: number, reason: string, userId: number): Promise<OfferClaim | undefined>;
   updatePostSubmissionVerification(
     id: number,
     status: string,
@@ -132,6 +360,220 @@ export interface IStorage {
   updateSocialPlatform(id: number, platform: Partial<SocialPlatform>): Promise<SocialPlatform | undefined>;
   deleteSocialPlatform(id: number): Promise<void>;
   setPrimaryPlatform(id: number, influencerId: number): Promise<void>;
+  getSocialPlatformByInfluencerAndPlatform(influencerId: number, platform: string): Promise<SocialPlatform | undefined>;
+  getSocialPlatformsWithTokensExpiringBefore(before: Date): Promise<SocialPlatform[]>;
+
+  // Pending OAuth link methods
+  createPlatformLinkState(linkState: InsertPlatformLinkState): Promise<PlatformLinkState>;
+  consumePlatformLinkState(state: string): Promise<PlatformLinkState | undefined>;
+  deleteExpiredPlatformLinkStates(now: Date): Promise<number>;
+
+  // Platform metric history methods
+  createPlatformMetricSnapshot(snapshot: InsertPlatformMetricSnapshot): Promise<PlatformMetricSnapshot>;
+  getPlatformMetricHistory(query: PlatformMetricHistoryQuery): Promise<PlatformMetricBucket[]>;
+  getPlatformMetricSnapshots(platform: string, handle: string, since: Date): Promise<PlatformMetricSnapshot[]>;
+
+  // Payment ledger methods
+  getOrCreateLedgerAccount(
+    ownerType: string,
+    ownerId: number,
+    accountType: string,
+    currency?: string
+  ): Promise<LedgerAccount>;
+  getLedgerAccountsByOwner(ownerType: string, ownerId: number): Promise<LedgerAccount[]>;
+  getLedgerEntriesByAccount(accountId: number): Promise<LedgerEntry[]>;
+  // Both return undefined when the offer's campaign budget cannot cover the extra money
+  createEscrowHold(hold: InsertEscrowHold, postings: LedgerPosting[]): Promise<EscrowHold | undefined>;
+  getEscrowHoldByClaimId(claimId: number): Promise<EscrowHold | undefined>;
+  getEscrowHoldsByStatus(status: string): Promise<EscrowHold[]>;
+  // Moves a held hold to a new amount after its terms were renegotiated
+  resizeEscrowHold(
+    holdId: number,
+    amount: number,
+    providerReference: string | null,
+    postings: LedgerPosting[]
+  ): Promise<EscrowHold | undefined>;
+  releaseEscrowHold(
+    holdId: number,
+    providerReference: string | null,
+    postings: LedgerPosting[]
+  ): Promise<EscrowRelease>;
+  refundEscrowHold(
+    holdId: number,
+    reason: string,
+    providerReference: string | null,
+    postings: LedgerPosting[]
+  ): Promise<EscrowRefund>;
+  getEscrowHoldsByInfluencerId(influencerId: number): Promise<EscrowHold[]>;
+  getEscrowReleasesByHoldIds(holdIds: number[]): Promise<EscrowRelease[]>;
+
+  // Payout methods
+  createPayoutRequest(
+    request: { influencerId: number; amount: number; currency: string },
+    postings: LedgerPosting[]
+  ): Promise<PayoutRequest | undefined>;
+  startPayoutProcessing(id: number, processedBy: number): Promise<PayoutRequest | undefined>;
+  getPayoutRequestById(id: number): Promise<PayoutRequest | undefined>;
+  getPayoutRequestsByInfluencerId(influencerId: number): Promise<PayoutRequest[]>;
+  getPayoutRequestsByStatus(status: string): Promise<PayoutRequest[]>;
+  settlePayoutRequest(
+    id: number,
+    update: {
+      status: "paid" | "rejected" | "failed";
+      provider?: string | null;
+      providerReference?: string | null;
+      failureReason?: string | null;
+      processedBy?: number | null;
+    },
+    postings: LedgerPosting[]
+  ): Promise<PayoutRequest>;
+
+  // System setting methods
+  getSystemSetting(key: string): Promise<SystemSetting | undefined>;
+  createSystemSettingIfMissing(setting: InsertSystemSetting): Promise<void>;
+  upsertSystemSetting(setting: InsertSystemSetting): Promise<SystemSetting>;
+
+  // Job queue methods
+  createJob(job: InsertJob): Promise<Job>;
+  claimNextJob(now: Date): Promise<Job | undefined>;
+  completeJob(id: number): Promise<void>;
+  failJob(id: number, error: string, retryAt: Date | null): Promise<void>;
+  requeueStaleJobs(lockedBefore: Date): Promise<number>;
+  retryDeadJob(id: number): Promise<Job | undefined>;
+  getJobById(id: number): Promise<Job | undefined>;
+  getJobs(statuses: JobStatus[], limit: number, failedOnly?: boolean): Promise<Job[]>;
+  getJobCountsByStatus(): Promise<Record<string, number>>;
+  deleteCompletedJobsBefore(before: Date): Promise<number>;
+  getJobSchedules(): Promise<JobSchedule[]>;
+  upsertJobSchedule(
+    schedule: Pick<JobSchedule, "name" | "cron" | "jobType" | "payload" | "nextRunAt">
+  ): Promise<JobSchedule>;
+  enqueueScheduledJob(schedule: JobSchedule, now: Date, nextRunAt: Date): Promise<Job | undefined>;
+
+  // AI usage methods
+  createAIUsage(usage: InsertAIUsage): Promise<AIUsage>;
+  getAIUsageSummary(since: Date): Promise<AIUsageSummaryRow[]>;
+
+  // Embedding methods
+  getEmbedding(entityType: EmbeddingEntityType, entityId: number): Promise<Embedding | undefined>;
+  upsertEmbedding(embedding: InsertEmbedding): Promise<Embedding>;
+  touchEmbedding(id: number): Promise<void>;
+  getNearestEmbeddings(query: NearestEmbeddingQuery): Promise<EmbeddingNeighbor[]>;
+  getInfluencerProfilesToEmbed(provider: string, staleBefore: Date, limit: number): Promise<InfluencerProfile[]>;
+  getOffersToEmbed(provider: string, staleBefore: Date, limit: number): Promise<Offer[]>;
+
+  // Marketplace search methods
+  searchInfluencerProfiles(query: InfluencerSearchQuery, limit: number, after?: SearchCursorPosition): Promise<SearchPageRows<InfluencerProfile>>;
+  getInfluencerSearchFacets(query: InfluencerSearchQuery): Promise<Record<InfluencerFacetName, FacetCount[]>>;
+  // An influencer viewer's coordinates hide radius-targeted offers they're outside of
+  searchOffers(
+    query: OfferSearchQuery,
+    limit: number,
+    after?: SearchCursorPosition,
+    viewer?: GeoCoordinates | null
+  ): Promise<SearchPageRows<Offer>>;
+  getOfferSearchFacets(query: OfferSearchQuery, viewer?: GeoCoordinates | null): Promise<Record<OfferFacetName, FacetCount[]>>;
+
+  // Creator CRM methods
+  getShortlistsByBusinessId(businessId: number): Promise<Shortlist[]>;
+  getShortlistById(id: number): Promise<Shortlist | undefined>;
+  createShortlist(shortlist: InsertShortlist): Promise<Shortlist>;
+  updateShortlist(id: number, changes: Pick<InsertShortlist, 'name' | 'description'>): Promise<Shortlist | undefined>;
+  deleteShortlist(id: number): Promise<void>;
+  getShortlistMembers(shortlistIds: number[]): Promise<ShortlistMember[]>;
+  addShortlistMember(shortlistId: number, influencerId: number): Promise<void>;
+  removeShortlistMember(shortlistId: number, influencerId: number): Promise<void>;
+  getInfluencerProfilesByIds(ids: number[]): Promise<InfluencerProfile[]>;
+  getCreatorNote(businessId: number, influencerId: number): Promise<CreatorNote | undefined>;
+  getCreatorNotesByInfluencerIds(businessId: number, influencerIds: number[]): Promise<CreatorNote[]>;
+  upsertCreatorNote(note: InsertCreatorNote): Promise<CreatorNote>;
+  getClaimsByBusinessAndInfluencer(businessId: number, influencerId: number): Promise<{ claim: OfferClaim; offer: Offer }[]>;
+  getMessagesByClaimIds(claimIds: number[]): Promise<Message[]>;
+  getOfferInvitationsByBusinessAndInfluencer(businessId: number, influencerId: number): Promise<{ invitation: OfferInvitation; offer: Offer }[]>;
+
+  // Offer invitation methods
+  // Returns undefined when the creator already has a live or answered invitation to the offer
+  createOfferInvitation(invitation: InsertOfferInvitation): Promise<OfferInvitation | undefined>;
+  getOfferInvitationById(id: number): Promise<OfferInvitation | undefined>;
+  getOfferInvitationByOfferAndInfluencer(offerId: number, influencerId: number): Promise<OfferInvitation | undefined>;
+  getOfferInvitationsByInfluencerId(influencerId: number): Promise<{ invitation: OfferInvitation; offer: Offer; business: BusinessProfile | null }[]>;
+  // Unexpired pending invitations to active offers
+  getPendingOfferInvitationsByInfluencerId(influencerId: number): Promise<{ invitation: OfferInvitation; offer: Offer }[]>;
+  // Answers a pending invitation; undefined if it was no longer pending
+  respondToOfferInvitation(id: number, status: 'declined' | 'expired', declineReason?: string | null): Promise<OfferInvitation | undefined>;
+  expireOfferInvitations(now: Date): Promise<OfferInvitation[]>;
+
+  // Deal negotiation methods
+  getCurrentDealTerms(claimId: number): Promise<DealTerms | undefined>;
+  getDealProposalById(id: number): Promise<DealProposal | undefined>;
+  getDealProposalsByClaimId(claimId: number): Promise<DealProposal[]>;
+  // Marks the proposal being countered, if any, in the same transaction; undefined if it was no longer pending
+  createDealProposal(proposal: InsertDealProposal, counteredProposalId?: number): Promise<DealProposal | undefined>;
+  respondToDealProposal(id: number, status: 'declined' | 'withdrawn'): Promise<DealProposal | undefined>;
+  updateDealProposalStatus(id: number, fromStatus: DealProposalStatus, toStatus: DealProposalStatus): Promise<DealProposal | undefined>;
+  // Accepts a proposal claimed for accepting and records the terms as the claim's next version
+  acceptDealProposal(id: number, terms: DealTermsSnapshot): Promise<DealTerms | undefined>;
+
+  // Campaign methods
+  createCampaign(campaign: InsertCampaign): Promise<Campaign>;
+  getCampaignById(id: number): Promise<Campaign | undefined>;
+  getCampaignsByBusinessId(businessId: number): Promise<Campaign[]>;
+  updateCampaign(id: number, updates: Omit<InsertCampaign, "businessId">): Promise<Campaign | undefined>;
+  // Detaches the campaign's offers, reopening any that pacing paused, then deletes it
+  deleteCampaign(id: number): Promise<void>;
+  // A null campaign detaches the offer; a paced offer reopens when it leaves its campaign
+  setOfferCampaign(offerId: number, campaignId: number | null): Promise<Offer | undefined>;
+  getOffersByCampaignIds(campaignIds: number[]): Promise<Offer[]>;
+  // Held and released escrow per offer, in cents
+  getEscrowSpendByOfferIds(offerIds: number[]): Promise<{ offerId: number; held: number; released: number }[]>;
+  getCampaignKpiActuals(campaignIds: number[]): Promise<{ campaignId: number; creators: number; reach: number; posts: number }[]>;
+  // Campaigns with offers that are taking creators or paused by pacing
+  getPacedCampaigns(): Promise<Campaign[]>;
+}
+
+export interface NearestEmbeddingQuery {
+  entityType: EmbeddingEntityType;
+  // Only vectors from this provider are comparable with the query vector
+  provider: string;
+  embedding: number[];
+  limit: number;
+  // Restrict the search to these entities
+  entityIds?: number[];
+  excludeEntityId?: number;
+}
+
+export interface EmbeddingNeighbor {
+  entityId: number;
+  // Cosine similarity, 1 for identical content
+  similarity: number;
+}
+
+export interface PlatformMetricHistoryQuery {
+  influencerId: number;
+  // Accounts matched by handle, for snapshots taken before the profile existed
+  accounts: { platform: string; handle: string }[];
+  since: Date | null;
+  granularity: HistoryGranularity;
+}
+
+// The last reading in each period for each account
+export interface PlatformMetricBucket {
+  bucket: Date;
+  platform: string;
+  handle: string;
+  followers: number;
+  engagementRate: number;
+}
+
+export interface AIUsageSummaryRow {
+  provider: string;
+  model: string;
+  task: string;
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -245,6 +687,31 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async updateBusinessCoordinates(
+    id: number,
+    coordinates: GeoCoordinates | null,
+    geocodedAt: Date
+  ): Promise<BusinessProfile | undefined> {
+    const [profile] = await db
+      .update(businessProfiles)
+      .set({
+        latitude: coordinates?.latitude ?? null,
+        longitude: coordinates?.longitude ?? null,
+        geocodedAt
+      })
+      .where(eq(businessProfiles.id, id))
+      .returning();
+    return profile;
+  }
+
+  async getBusinessProfilesToGeocode(limit: number): Promise<BusinessProfile[]> {
+    return db
+      .select()
+      .from(businessProfiles)
+      .where(isNull(businessProfiles.geocodedAt))
+      .limit(limit);
+  }
+
   // Influencer Profile methods
   async createInfluencerProfile(
     profile: Omit<InfluencerProfile, "id">
@@ -266,6 +733,7 @@ export class DatabaseStorage implements IStorage {
           instagramUrl: profile.instagramUrl,
           tiktokUrl: profile.tiktokUrl,
           youtubeUrl: profile.youtubeUrl,
+          profileUrl: profile.profileUrl,
           bio: profile.bio,
           location: profile.location,
           isTest: profile.isTest || false
@@ -319,6 +787,79 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  async updateInfluencerCredibility(
+    id: number,
+    assessment: CredibilityAssessment,
+    assessedAt: Date
+  ): Promise<InfluencerProfile | undefined> {
+    const [profile] = await db
+      .update(influencerProfiles)
+      .set({
+        credibilityScore: assessment.score,
+        credibilitySignals: assessment.signals,
+        credibilityFlagged: assessment.flagged,
+        credibilityAssessedAt: assessedAt
+      })
+      .where(eq(influencerProfiles.id, id))
+      .returning();
+    return profile;
+  }
+
+  async updateInfluencerAggregateMetrics(
+    id: number,
+    metrics: AggregatePlatformMetrics | null
+  ): Promise<InfluencerProfile | undefined> {
+    const [profile] = await db
+      .update(influencerProfiles)
+      .set({ aggregateMetrics: metrics })
+      .where(eq(influencerProfiles.id, id))
+      .returning();
+    return profile;
+  }
+
+  async updateInfluencerAudienceData(id: number, audienceData: AudienceData): Promise<InfluencerProfile | undefined> {
+    const [profile] = await db
+      .update(influencerProfiles)
+      .set({ audienceData })
+      .where(eq(influencerProfiles.id, id))
+      .returning();
+    return profile;
+  }
+
+  async updateInfluencerCoordinates(
+    id: number,
+    coordinates: GeoCoordinates | null,
+    geocodedAt: Date
+  ): Promise<InfluencerProfile | undefined> {
+    const [profile] = await db
+      .update(influencerProfiles)
+      .set({
+        latitude: coordinates?.latitude ?? null,
+        longitude: coordinates?.longitude ?? null,
+        geocodedAt
+      })
+      .where(eq(influencerProfiles.id, id))
+      .returning();
+    return profile;
+  }
+
+  async getInfluencerProfilesToGeocode(limit: number): Promise<InfluencerProfile[]> {
+    return db
+      .select()
+      .from(influencerProfiles)
+      .where(and(isNull(influencerProfiles.geocodedAt), isNotNull(influencerProfiles.location)))
+      .limit(limit);
+  }
+
+  async getFlaggedInfluencerProfiles(limit: number = 100): Promise<InfluencerProfile[]> {
+    return db
+      .select()
+      .from(influencerProfiles)
+      .where(eq(influencerProfiles.credibilityFlagged, true))
+      .orderBy(asc(influencerProfiles.credibilityScore))
+      .limit(limit);
+  }
+
   async getInfluencerProfiles(limit: number = 20, offset: number = 0): Promise<InfluencerProfile[]> {
     try {
       console.log(`Fetching influencer profiles (limit: ${limit}, offset: ${offset})`);
@@ -389,11 +930,14 @@ export class DatabaseStorage implements IStorage {
 
   async getMatchingOffers(influencerProfile: InfluencerProfile): Promise<Offer[]> {
     try {
+      // Reach and engagement across all of the influencer's platforms, not just the main one
+      const audience = getAudienceMetrics(influencerProfile);
+
       console.log('Finding matches for influencer using advanced algorithm:', {
         id: influencerProfile.id,
-        followerCount: influencerProfile.followerCount,
-        engagementRate: influencerProfile.engagementRate,
-        platform: influencerProfile.platform,
+        followerCount: audience.followers,
+        engagementRate: audience.engagementRate,
+        platforms: audience.platforms,
         niche: influencerProfile.niche
       });
 
@@ -404,6 +948,7 @@ export class DatabaseStorage implements IStorage {
         .where(
           and(
             eq(offers.status, "active"),
+            eq(offers.visibility, "public"),
             eq(offers.isTest, true)
           )
         );
@@ -417,15 +962,18 @@ export class DatabaseStorage implements IStorage {
         .where(
           and(
             eq(offers.status, "active"),
-            lte(offers.minFollowers, influencerProfile.followerCount),
+            eq(offers.visibility, "public"),
+            lte(offers.minFollowers, audience.followers),
             eq(offers.isTest, false)
           )
         );
         
       // Filter for engagement rate manually, comparing the stored integer value with 10x the profile rate
       // For example: stored minEngagement of 42 (representing 4.2%) compared with influencer rate of 5.1% (stored as 51)
+      // Radius-targeted offers are also dropped for influencers outside the area
       const filteredOffers = activeOffers.filter(offer => 
-        Number(offer.minEngagement) <= Number(influencerProfile.engagementRate * 10)
+        Number(offer.minEngagement) <= audience.engagementRate * 10 &&
+        !isOutsideOfferRadius(offer, influencerProfile)
       );
       
       // Combine test offers with regular filtered offers
@@ -453,8 +1001,9 @@ export class DatabaseStorage implements IStorage {
       const claimedOfferIds = new Set(claims.map(claim => claim.offerId));
       const availableOffers = allOffers.filter(offer => !claimedOfferIds.has(offer.id));
       
-      // Import the matching service dynamically to avoid circular import issues
+      // Import the matching and embedding services dynamically to avoid circular import issues
       const { matchingService } = await import('./services/matching');
+      const { embeddingService } = await import('./services/embeddings');
       
       // Enhance offers with related business data for better matching and convert engagement rates
       const enhancedOffers = await Promise.all(availableOffers.map(async (offer) => {
@@ -466,10 +1015,18 @@ export class DatabaseStorage implements IStorage {
         };
       }));
       
+      // Nearest-neighbour search over the offers' embeddings, for semantic niche matching
+      const similarities = await embeddingService.getOfferSimilarities(
+        influencerProfile,
+        availableOffers.map(offer => offer.id)
+      );
+
       // Use the intelligent matching algorithm to rank offers by compatibility
       const { offers: rankedOffers } = matchingService.rankOffersForInfluencer(
         influencerProfile, 
-        enhancedOffers
+        enhancedOffers,
+        await matchingService.getProfile(),
+        similarities
       );
 
       console.log('Ranked offers using intelligent matching:', rankedOffers.length);
@@ -490,23 +1047,160 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getOffersByStatuses(statuses: string[]): Promise<Offer[]> {
+    const offerResults = await db
+      .select()
+      .from(offers)
+      .where(inArray(offers.status, statuses));
+
+    return offerResults.map(offer => ({
+      ...offer,
+      minEngagement: offer.minEngagement / 10
+    }));
+  }
+
+  // Only updates the offer while it is still in fromStatus so a scheduled
+  // status change cannot overwrite a concurrent admin or business decision
+  async updateOfferStatus(id: number, fromStatus: string, toStatus: string): Promise<Offer | undefined> {
+    try {
+      const [offer] = await db
+        .update(offers)
+        .set({ status: toStatus })
+        .where(and(eq(offers.id, id), eq(offers.status, fromStatus)))
+        .returning();
+      return offer ? { ...offer, minEngagement: offer.minEngagement / 10 } : undefined;
+    } catch (error) {
+      console.error('Error updating offer status:', error);
+      throw new Error('Failed to update offer status');
+    }
+  }
+
+  async updateScheduledOfferStatus(id: number, fromStatus: string, toStatus: string): Promise<Offer | undefined> {
+    const [offer] = await db
+      .update(offers)
+      .set({ status: toStatus, closedBySchedule: toStatus === 'closed' })
+      .where(and(eq(offers.id, id), eq(offers.status, fromStatus)))
+      .returning();
+    return offer ? { ...offer, minEngagement: offer.minEngagement / 10 } : undefined;
+  }
+
   // Offer Claims methods
-  async createOfferClaim(claim: Omit<OfferClaim, "id">): Promise<OfferClaim> {
+  // The offer row is locked while its availability and slots are checked so
+  // concurrent claims cannot overfill it. Returns undefined when the offer is
+  // missing or not accepting claims, when the creator already has a claim on
+  // it, or when the invitation being accepted is no longer pending; callers
+  // pre-check for a friendly message.
+  async createOfferClaim(
+    claim: Omit<OfferClaim, "id">,
+    event: ClaimEventActor,
+    invitationId?: number
+  ): Promise<OfferClaim | undefined> {
     try {
       console.log('Creating offer claim:', claim);
       
-      // Make sure to include all required fields
-      const [newClaim] = await db
-        .insert(offerClaims)
-        .values({
-          offerId: claim.offerId,
-          influencerId: claim.influencerId,
-          status: claim.status || "pending",
-          completedAt: claim.completedAt || null,
-          createdAt: new Date(),
-          isTest: claim.isTest || false
-        })
-        .returning();
+      // The claim and its first timeline event are written together
+      const newClaim = await db.transaction(async (tx) => {
+        const [offer] = await tx
+          .select()
+          .from(offers)
+          .where(eq(offers.id, claim.offerId))
+          .for("update");
+
+        if (!offer) return undefined;
+
+        const countClaims = async (statuses: ClaimStatus[]) => {
+          const [{ count }] = await tx
+            .select({ count: sql<number>`count(*)` })
+            .from(offerClaims)
+            .where(
+              and(
+                eq(offerClaims.offerId, offer.id),
+                inArray(offerClaims.status, statuses)
+              )
+            );
+          return Number(count);
+        };
+
+        const availability = getOfferAvailability(offer, await countClaims(SLOT_HOLDING_CLAIM_STATUSES));
+        if (!availability.open) return undefined;
+
+        if (offer.maxAcceptedCreators && ACCEPTED_CLAIM_STATUSES.includes(claim.status)) {
+          const accepted = await countClaims(ACCEPTED_CLAIM_STATUSES);
+          if (accepted >= offer.maxAcceptedCreators) return undefined;
+        }
+
+        const [existing] = await tx
+          .select({ id: offerClaims.id })
+          .from(offerClaims)
+          .where(and(eq(offerClaims.offerId, offer.id), eq(offerClaims.influencerId, claim.influencerId)));
+        if (existing) return undefined;
+
+        // Accepting an invitation has to take it from pending, so a double submit creates one claim
+        if (invitationId !== undefined) {
+          const [accepted] = await tx
+            .update(offerInvitations)
+            .set({ status: 'accepted', respondedAt: new Date() })
+            .where(
+              and(
+                eq(offerInvitations.id, invitationId),
+                eq(offerInvitations.offerId, offer.id),
+                eq(offerInvitations.influencerId, claim.influencerId),
+                eq(offerInvitations.status, 'pending')
+              )
+            )
+            .returning();
+          if (!accepted) return undefined;
+        }
+
+        const [created] = await tx
+          .insert(offerClaims)
+          .values({
+            offerId: claim.offerId,
+            influencerId: claim.influencerId,
+            status: claim.status,
+            pitch: claim.pitch ?? null,
+            completedAt: claim.completedAt || null,
+            createdAt: new Date(),
+            isTest: claim.isTest || false
+          })
+          .returning();
+
+        await tx.insert(claimEvents).values({
+          claimId: created.id,
+          fromStatus: null,
+          toStatus: created.status,
+          actorType: event.actorType,
+          actorUserId: event.actorUserId ?? null,
+          reason: event.reason ?? null
+        });
+
+        await tx.insert(dealTerms).values({
+          claimId: created.id,
+          version: 1,
+          ...termsFromOffer(offer),
+          proposalId: null,
+          agreedAt: new Date()
+        });
+
+        // Claiming or applying answers the creator's invitation, if they had one
+        await tx
+          .update(offerInvitations)
+          .set({ status: 'accepted', respondedAt: new Date() })
+          .where(
+            and(
+              eq(offerInvitations.offerId, created.offerId),
+              eq(offerInvitations.influencerId, created.influencerId),
+              eq(offerInvitations.status, 'pending')
+            )
+          );
+
+        return created;
+      });
+
+      if (!newClaim) {
+        console.log('Offer is not accepting claims:', claim.offerId);
+        return undefined;
+      }
         
       console.log('Offer claim created:', newClaim);
       return newClaim;
@@ -546,19 +1240,65 @@ export class DatabaseStorage implements IStorage {
     return claim;
   }
 
-  async updateOfferClaimStatus(
+  // Moves a claim between statuses and records the change. The WHERE clause
+  // only matches while the claim is still in fromStatus, so two concurrent
+  // transitions cannot both succeed; the loser gets undefined back.
+  // With a capacity, the offer row is locked while the slots are counted so
+  // concurrent acceptances cannot overfill the offer.
+  async transitionOfferClaimStatus(
     id: number,
-    status: string
+    fromStatus: ClaimStatus,
+    event: ClaimEventActor & { toStatus: ClaimStatus },
+    capacity?: ClaimCapacity
   ): Promise<OfferClaim | undefined> {
-    const [claim] = await db
-      .update(offerClaims)
-      .set({
-        status,
-        completedAt: status === "completed" ? new Date() : null
-      })
-      .where(eq(offerClaims.id, id))
-      .returning();
-    return claim;
+    try {
+      return await db.transaction(async (tx) => {
+        if (capacity) {
+          await tx
+            .select({ id: offers.id })
+            .from(offers)
+            .where(eq(offers.id, capacity.offerId))
+            .for("update");
+
+          const [{ count }] = await tx
+            .select({ count: sql<number>`count(*)` })
+            .from(offerClaims)
+            .where(
+              and(
+                eq(offerClaims.offerId, capacity.offerId),
+                inArray(offerClaims.status, capacity.statuses)
+              )
+            );
+
+          if (Number(count) >= capacity.limit) return undefined;
+        }
+
+        const [claim] = await tx
+          .update(offerClaims)
+          .set({
+            status: event.toStatus,
+            completedAt: event.toStatus === "completed" ? new Date() : null
+          })
+          .where(and(eq(offerClaims.id, id), eq(offerClaims.status, fromStatus)))
+          .returning();
+
+        if (!claim) return undefined;
+
+        await tx.insert(claimEvents).values({
+          claimId: id,
+          fromStatus,
+          toStatus: event.toStatus,
+          actorType: event.actorType,
+          actorUserId: event.actorUserId ?? null,
+          reason: event.reason ?? null
+        });
+
+        return claim;
+      });
+    } catch (error) {
+      console.error('Error transitioning offer claim:', error);
+      throw new Error('Failed to update offer claim status');
+    }
   }
 
   async getOfferClaimById(id: number): Promise<OfferClaim | undefined> {
@@ -569,6 +1309,62 @@ export class DatabaseStorage implements IStorage {
     return claim;
   }
 
+  async countClaimsByOfferAndStatuses(offerId: number, statuses: ClaimStatus[]): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(offerClaims)
+      .where(
+        and(
+          eq(offerClaims.offerId, offerId),
+          inArray(offerClaims.status, statuses)
+        )
+      );
+    return Number(result.count);
+  }
+
+  async countClaimsByOfferIdsAndStatuses(offerIds: number[], statuses: ClaimStatus[]): Promise<Map<number, number>> {
+    const counts = new Map<number, number>();
+    if (offerIds.length === 0) return counts;
+
+    const rows = await db
+      .select({ offerId: offerClaims.offerId, count: sql<number>`count(*)` })
+      .from(offerClaims)
+      .where(
+        and(
+          inArray(offerClaims.offerId, offerIds),
+          inArray(offerClaims.status, statuses)
+        )
+      )
+      .groupBy(offerClaims.offerId);
+
+    for (const row of rows) {
+      counts.set(row.offerId, Number(row.count));
+    }
+    return counts;
+  }
+
+  async getClaimEventsByClaimId(claimId: number): Promise<ClaimEvent[]> {
+    return await db
+      .select()
+      .from(claimEvents)
+      .where(eq(claimEvents.claimId, claimId))
+      .orderBy(claimEvents.createdAt, claimEvents.id);
+  }
+
+  // Rewrites statuses stored before the claim state machine existed
+  async migrateLegacyClaimStatuses(): Promise<number> {
+    let migrated = 0;
+    for (const [legacy, status] of Object.entries(LEGACY_CLAIM_STATUSES)) {
+      const updated = await db
+        .update(offerClaims)
+        .set({ status })
+        .where(sql`${offerClaims.status} = ${legacy}`)
+        .returning({ id: offerClaims.id });
+      migrated += updated.length;
+    }
+    return migrated;
+  }
+
   // Business Notification methods
   async createNotification(
     notification: Omit<BusinessNotification, "id">
@@ -620,6 +1416,128 @@ export class DatabaseStorage implements IStorage {
       .where(eq(postSubmissions.claimId, claimId));
   }
 
+  async getPostSubmissionById(id: number): Promise<PostSubmission | undefined> {
+    const [submission] = await db
+      .select()
+      .from(postSubmissions)
+      .where(eq(postSubmissions.id, id));
+    return submission;
+  }
+
+  // Posts still inside their offer's timeframe (counted from submission) that
+  // passed their first verification and have not been checked since checkedBefore
+  async getPostSubmissionsDueForRecheck(
+    now: Date,
+    checkedBefore: Date,
+    claimStatuses: ClaimStatus[]
+  ): Promise<PostSubmission[]> {
+    const rows = await db
+      .select({ submission: postSubmissions })
+      .from(postSubmissions)
+      .innerJoin(offerClaims, eq(postSubmissions.claimId, offerClaims.id))
+      .innerJoin(offers, eq(offerClaims.offerId, offers.id))
+      .where(
+        and(
+          inArray(offerClaims.status, claimStatuses),
+          inArray(postSubmissions.verificationStatus, ["completed", "needs_review"]),
+          // A negotiated timeframe replaces the offer's
+          sql`${postSubmissions.createdAt} + coalesce(
+            (select ${dealTerms.timeframe} from ${dealTerms}
+              where ${dealTerms.claimId} = ${offerClaims.id}
+              order by ${dealTerms.version} desc limit 1),
+            ${offers.timeframe}
+          ) * interval '1 day' > ${now}`,
+          sql`(${postSubmissions.lastVerified} is null or ${postSubmissions.lastVerified} < ${checkedBefore})`
+        )
+      );
+    return rows.map(row => row.submission);
+  }
+
+  async markPostSubmissionChecked(id: number, checkedAt: Date): Promise<void> {
+    await db
+      .update(postSubmissions)
+      .set({ lastVerified: checkedAt })
+      .where(eq(postSubmissions.id, id));
+  }
+
+  async createPostVerificationSnapshot(snapshot: InsertPostVerificationSnapshot): Promise<PostVerificationSnapshot> {
+    const [created] = await db
+      .insert(postVerificationSnapshots)
+      .values({ ...snapshot, checkedAt: new Date() })
+      .returning();
+    return created;
+  }
+
+  async getPostVerificationSnapshots(submissionId: number): Promise<PostVerificationSnapshot[]> {
+    return await db
+      .select()
+      .from(postVerificationSnapshots)
+      .where(eq(postVerificationSnapshots.submissionId, submissionId))
+      .orderBy(postVerificationSnapshots.checkedAt, postVerificationSnapshots.id);
+  }
+
+  // Latest caption of each of the influencer's most recently checked posts
+  async getRecentCaptionsByInfluencerId(influencerId: number, limit: number): Promise<string[]> {
+    // Every recheck stores the caption again, so read a few snapshots per post
+    const rows = await db
+      .select({ submissionId: postVerificationSnapshots.submissionId, caption: postVerificationSnapshots.caption })
+      .from(postVerificationSnapshots)
+      .innerJoin(postSubmissions, eq(postSubmissions.id, postVerificationSnapshots.submissionId))
+      .innerJoin(offerClaims, eq(offerClaims.id, postSubmissions.claimId))
+      .where(and(eq(offerClaims.influencerId, influencerId), isNotNull(postVerificationSnapshots.caption)))
+      .orderBy(desc(postVerificationSnapshots.checkedAt))
+      .limit(limit * 5);
+
+    const captions = new Map<number, string>();
+    for (const row of rows) {
+      if (!captions.has(row.submissionId) && row.caption?.trim()) {
+        captions.set(row.submissionId, row.caption);
+      }
+    }
+    return Array.from(captions.values()).slice(0, limit);
+  }
+
+  // Only the first flag is kept so repeated checks don't re-notify the business
+  async flagOfferClaim(id: number, reason: string): Promise<OfferClaim | undefined> {
+    const [claim] = await db
+      .update(offerClaims)
+      .set({ flaggedAt: new Date(), flagReason: reason })
+      .where(and(eq(offerClaims.id, id), isNull(offerClaims.flaggedAt)))
+      .returning();
+    return claim;
+  }
+
+  async recordPostDisclosureCheck(id: number, check: DisclosureCheck): Promise<void> {
+    await db
+      .update(postSubmissions)
+      .set({ disclosureCheck: check })
+      .where(eq(postSubmissions.id, id));
+  }
+
+  // A business override stands even if a later post fails the check
+  async updateClaimDisclosureStatus(id: number, status: DisclosureStatus): Promise<OfferClaim | undefined> {
+    const [claim] = await db
+      .update(offerClaims)
+      .set({ disclosureStatus: status })
+      .where(and(eq(offerClaims.id, id), ne(offerClaims.disclosureStatus, "overridden")))
+      .returning();
+    return claim;
+  }
+
+  async overrideClaimDisclosure(id: number, reason: string, userId: number): Promise<OfferClaim | undefined> {
+    const [claim] = await db
+      .update(offerClaims)
+      .set({
+        disclosureStatus: "overridden",
+        disclosureOverrideReason: reason,
+        disclosureOverriddenAt: new Date(),
+        disclosureOverriddenBy: userId
+      })
+      .where(and(eq(offerClaims.id, id), inArray(offerClaims.disclosureStatus, ["pending", "failed"])))
+      .returning();
+    return claim;
+  }
+
   async updatePostSubmissionVerification(
     id: number,
     status: string,
@@ -858,18 +1776,123 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async setPrimaryPlatform(id: number, influencerId: number): Promise<void> {
-    try {
-      console.log('Setting primary platform:', id, 'for influencer:', influencerId);
-      
-      // Clear primary flag on all platforms for this influencer
-      await db
-        .update(socialPlatforms)
-        .set({ isPrimary: false })
-        .where(eq(socialPlatforms.influencerId, influencerId));
-        
-      // Set primary flag on specified platform
-      await db
+  async getSocialPlatformByInfluencerAndPlatform(influencerId: number, platform: string): Promise<SocialPlatform | undefined> {
+    const [found] = await db
+      .select()
+      .from(socialPlatforms)
+      .where(and(
+        eq(socialPlatforms.influencerId, influencerId),
+        eq(socialPlatforms.platform, platform)
+      ))
+      .orderBy(desc(socialPlatforms.isVerified), socialPlatforms.createdAt)
+      .limit(1);
+    return found;
+  }
+
+  async getSocialPlatformsWithTokensExpiringBefore(before: Date): Promise<SocialPlatform[]> {
+    return db
+      .select()
+      .from(socialPlatforms)
+      .where(and(
+        isNotNull(socialPlatforms.refreshToken),
+        lt(socialPlatforms.tokenExpiresAt, before)
+      ))
+      .orderBy(asc(socialPlatforms.tokenExpiresAt));
+  }
+
+  async createPlatformLinkState(linkState: InsertPlatformLinkState): Promise<PlatformLinkState> {
+    const [created] = await db
+      .insert(platformLinkStates)
+      .values(linkState)
+      .returning();
+    return created;
+  }
+
+  // Deleting on read means a state can only complete one link
+  async consumePlatformLinkState(state: string): Promise<PlatformLinkState | undefined> {
+    const [consumed] = await db
+      .delete(platformLinkStates)
+      .where(eq(platformLinkStates.state, state))
+      .returning();
+    return consumed;
+  }
+
+  async deleteExpiredPlatformLinkStates(now: Date): Promise<number> {
+    const deleted = await db
+      .delete(platformLinkStates)
+      .where(lt(platformLinkStates.expiresAt, now))
+      .returning({ id: platformLinkStates.id });
+    return deleted.length;
+  }
+
+  async createPlatformMetricSnapshot(snapshot: InsertPlatformMetricSnapshot): Promise<PlatformMetricSnapshot> {
+    const [created] = await db
+      .insert(platformMetricSnapshots)
+      .values({ ...snapshot, capturedAt: new Date() })
+      .returning();
+    return created;
+  }
+
+  async getPlatformMetricHistory(query: PlatformMetricHistoryQuery): Promise<PlatformMetricBucket[]> {
+    // The granularity comes from a fixed list, so it is safe to inline; a bound
+    // parameter would not match between the select list and the GROUP BY
+    const bucket = sql<Date>`date_trunc('${sql.raw(query.granularity)}', ${platformMetricSnapshots.capturedAt})`;
+
+    const rows = await db
+      .select({
+        bucket,
+        platform: platformMetricSnapshots.platform,
+        handle: platformMetricSnapshots.handle,
+        followers: sql<number>`(array_agg(${platformMetricSnapshots.followers} order by ${platformMetricSnapshots.capturedAt} desc))[1]`,
+        engagementRate: sql<string>`(array_agg(${platformMetricSnapshots.engagementRate} order by ${platformMetricSnapshots.capturedAt} desc))[1]`
+      })
+      .from(platformMetricSnapshots)
+      .where(and(
+        or(
+          eq(platformMetricSnapshots.influencerId, query.influencerId),
+          ...query.accounts.map(account => and(
+            eq(platformMetricSnapshots.platform, account.platform),
+            eq(platformMetricSnapshots.handle, account.handle)
+          ))
+        ),
+        query.since ? gte(platformMetricSnapshots.capturedAt, query.since) : undefined
+      ))
+      .groupBy(bucket, platformMetricSnapshots.platform, platformMetricSnapshots.handle)
+      .orderBy(bucket);
+
+    return rows.map(row => ({
+      bucket: new Date(row.bucket),
+      platform: row.platform,
+      handle: row.handle,
+      followers: Number(row.followers),
+      engagementRate: Number(row.engagementRate)
+    }));
+  }
+
+  async getPlatformMetricSnapshots(platform: string, handle: string, since: Date): Promise<PlatformMetricSnapshot[]> {
+    return db
+      .select()
+      .from(platformMetricSnapshots)
+      .where(and(
+        eq(platformMetricSnapshots.platform, platform),
+        eq(platformMetricSnapshots.handle, handle),
+        gte(platformMetricSnapshots.capturedAt, since)
+      ))
+      .orderBy(asc(platformMetricSnapshots.capturedAt));
+  }
+
+  async setPrimaryPlatform(id: number, influencerId: number): Promise<void> {
+    try {
+      console.log('Setting primary platform:', id, 'for influencer:', influencerId);
+      
+      // Clear primary flag on all platforms for this influencer
+      await db
+        .update(socialPlatforms)
+        .set({ isPrimary: false })
+        .where(eq(socialPlatforms.influencerId, influencerId));
+        
+      // Set primary flag on specified platform
+      await db
         .update(socialPlatforms)
         .set({ isPrimary: true })
         .where(eq(socialPlatforms.id, id));
@@ -880,6 +1903,1534 @@ export class DatabaseStorage implements IStorage {
       throw new Error('Failed to set primary platform');
     }
   }
+
+  // Payment ledger methods
+  async getOrCreateLedgerAccount(
+    ownerType: string,
+    ownerId: number,
+    accountType: string,
+    currency: string = "USD"
+  ): Promise<LedgerAccount> {
+    try {
+      // Insert-or-ignore keeps concurrent callers from creating duplicate accounts
+      await db
+        .insert(ledgerAccounts)
+        .values({ ownerType, ownerId, accountType, currency, balance: 0 })
+        .onConflictDoNothing();
+
+      const [account] = await db
+        .select()
+        .from(ledgerAccounts)
+        .where(
+          and(
+            eq(ledgerAccounts.ownerType, ownerType),
+            eq(ledgerAccounts.ownerId, ownerId),
+            eq(ledgerAccounts.accountType, accountType),
+            eq(ledgerAccounts.currency, currency)
+          )
+        );
+      return account;
+    } catch (error) {
+      console.error('Error fetching ledger account:', error);
+      throw new Error('Failed to fetch ledger account');
+    }
+  }
+
+  async getLedgerAccountsByOwner(ownerType: string, ownerId: number): Promise<LedgerAccount[]> {
+    return await db
+      .select()
+      .from(ledgerAccounts)
+      .where(
+        and(
+          eq(ledgerAccounts.ownerType, ownerType),
+          eq(ledgerAccounts.ownerId, ownerId)
+        )
+      );
+  }
+
+  async getLedgerEntriesByAccount(accountId: number): Promise<LedgerEntry[]> {
+    return await db
+      .select()
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.accountId, accountId))
+      .orderBy(ledgerEntries.createdAt);
+  }
+
+  async createEscrowHold(hold: InsertEscrowHold, postings: LedgerPosting[]): Promise<EscrowHold | undefined> {
+    try {
+      console.log('Creating escrow hold:', hold);
+
+      return await db.transaction(async (tx) => {
+        if (!(await this.campaignBudgetCovers(tx, hold.offerId, hold.amount))) return undefined;
+
+        const [newHold] = await tx
+          .insert(escrowHolds)
+          .values({
+            ...hold,
+            status: "held",
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .returning();
+
+        await this.applyLedgerPostings(tx, "hold", { holdId: newHold.id }, postings);
+        return newHold;
+      });
+    } catch (error) {
+      console.error('Error creating escrow hold:', error);
+      throw new Error('Failed to create escrow hold');
+    }
+  }
+
+  async getEscrowHoldByClaimId(claimId: number): Promise<EscrowHold | undefined> {
+    const [hold] = await db
+      .select()
+      .from(escrowHolds)
+      .where(eq(escrowHolds.claimId, claimId));
+    return hold;
+  }
+
+  async getEscrowHoldsByStatus(status: string): Promise<EscrowHold[]> {
+    return await db
+      .select()
+      .from(escrowHolds)
+      .where(eq(escrowHolds.status, status));
+  }
+
+  async resizeEscrowHold(
+    holdId: number,
+    amount: number,
+    providerReference: string | null,
+    postings: LedgerPosting[]
+  ): Promise<EscrowHold | undefined> {
+    try {
+      console.log('Resizing escrow hold:', holdId, amount);
+
+      return await db.transaction(async (tx) => {
+        const [current] = await tx
+          .select()
+          .from(escrowHolds)
+          .where(eq(escrowHolds.id, holdId));
+        if (current && !(await this.campaignBudgetCovers(tx, current.offerId, amount - current.amount))) {
+          return undefined;
+        }
+
+        const [hold] = await tx
+          .update(escrowHolds)
+          .set({ amount, providerReference, updatedAt: new Date() })
+          .where(and(eq(escrowHolds.id, holdId), eq(escrowHolds.status, "held")))
+          .returning();
+
+        if (!hold) {
+          throw new Error(`Escrow hold ${holdId} is not in the held state`);
+        }
+
+        await this.applyLedgerPostings(tx, "hold_adjustment", { holdId }, postings);
+        return hold;
+      });
+    } catch (error) {
+      console.error('Error resizing escrow hold:', error);
+      throw new Error('Failed to resize escrow hold');
+    }
+  }
+
+  async releaseEscrowHold(
+    holdId: number,
+    providerReference: string | null,
+    postings: LedgerPosting[]
+  ): Promise<EscrowRelease> {
+    try {
+      console.log('Releasing escrow hold:', holdId);
+
+      return await db.transaction(async (tx) => {
+        const hold = await this.settleEscrowHold(tx, holdId, "released");
+
+        const [release] = await tx
+          .insert(escrowReleases)
+          .values({
+            holdId,
+            amount: hold.amount,
+            providerReference,
+            createdAt: new Date(),
+          })
+          .returning();
+
+        await this.applyLedgerPostings(tx, "release", { holdId }, postings);
+        return release;
+      });
+    } catch (error) {
+      console.error('Error releasing escrow hold:', error);
+      throw new Error('Failed to release escrow hold');
+    }
+  }
+
+  async refundEscrowHold(
+    holdId: number,
+    reason: string,
+    providerReference: string | null,
+    postings: LedgerPosting[]
+  ): Promise<EscrowRefund> {
+    try {
+      console.log('Refunding escrow hold:', holdId, reason);
+
+      return await db.transaction(async (tx) => {
+        const hold = await this.settleEscrowHold(tx, holdId, "refunded");
+
+        const [refund] = await tx
+          .insert(escrowRefunds)
+          .values({
+            holdId,
+            amount: hold.amount,
+            reason,
+            providerReference,
+            createdAt: new Date(),
+          })
+          .returning();
+
+        await this.applyLedgerPostings(tx, "refund", { holdId }, postings);
+        return refund;
+      });
+    } catch (error) {
+      console.error('Error refunding escrow hold:', error);
+      throw new Error('Failed to refund escrow hold');
+    }
+  }
+
+  async getEscrowHoldsByInfluencerId(influencerId: number): Promise<EscrowHold[]> {
+    return await db
+      .select()
+      .from(escrowHolds)
+      .where(eq(escrowHolds.influencerId, influencerId))
+      .orderBy(escrowHolds.createdAt);
+  }
+
+  async getEscrowReleasesByHoldIds(holdIds: number[]): Promise<EscrowRelease[]> {
+    if (holdIds.length === 0) return [];
+    return await db
+      .select()
+      .from(escrowReleases)
+      .where(inArray(escrowReleases.holdId, holdIds));
+  }
+
+  // Payout methods
+  async createPayoutRequest(
+    request: { influencerId: number; amount: number; currency: string },
+    postings: LedgerPosting[]
+  ): Promise<PayoutRequest | undefined> {
+    try {
+      console.log('Creating payout request:', request);
+
+      return await db.transaction(async (tx) => {
+        // Lock the accounts being debited so concurrent requests cannot both spend the same balance
+        const debits = postings.filter(posting => posting.amount < 0);
+        const lockedAccounts = await tx
+          .select()
+          .from(ledgerAccounts)
+          .where(inArray(ledgerAccounts.id, debits.map(posting => posting.accountId)))
+          .for("update");
+
+        const overdrawn = debits.some(posting => {
+          const account = lockedAccounts.find(row => row.id === posting.accountId);
+          return !account || account.balance + posting.amount < 0;
+        });
+        if (overdrawn) return undefined;
+
+        const [payout] = await tx
+          .insert(payoutRequests)
+          .values({
+            ...request,
+            status: "requested",
+            requestedAt: new Date(),
+          })
+          .returning();
+
+        await this.applyLedgerPostings(tx, "payout_request", { payoutId: payout.id }, postings);
+        return payout;
+      });
+    } catch (error) {
+      console.error('Error creating payout request:', error);
+      throw new Error('Failed to create payout request');
+    }
+  }
+
+  async startPayoutProcessing(id: number, processedBy: number): Promise<PayoutRequest | undefined> {
+    // Only one caller can move a request out of "requested", so only one sends the money
+    const [payout] = await db
+      .update(payoutRequests)
+      .set({ status: "processing", processedBy })
+      .where(and(eq(payoutRequests.id, id), eq(payoutRequests.status, "requested")))
+      .returning();
+    return payout;
+  }
+
+  async getPayoutRequestById(id: number): Promise<PayoutRequest | undefined> {
+    const [payout] = await db
+      .select()
+      .from(payoutRequests)
+      .where(eq(payoutRequests.id, id));
+    return payout;
+  }
+
+  async getPayoutRequestsByInfluencerId(influencerId: number): Promise<PayoutRequest[]> {
+    return await db
+      .select()
+      .from(payoutRequests)
+      .where(eq(payoutRequests.influencerId, influencerId))
+      .orderBy(desc(payoutRequests.requestedAt));
+  }
+
+  async getPayoutRequestsByStatus(status: string): Promise<PayoutRequest[]> {
+    return await db
+      .select()
+      .from(payoutRequests)
+      .where(eq(payoutRequests.status, status))
+      .orderBy(payoutRequests.requestedAt);
+  }
+
+  async settlePayoutRequest(
+    id: number,
+    update: {
+      status: "paid" | "rejected" | "failed";
+      provider?: string | null;
+      providerReference?: string | null;
+      failureReason?: string | null;
+      processedBy?: number | null;
+    },
+    postings: LedgerPosting[]
+  ): Promise<PayoutRequest> {
+    try {
+      console.log('Settling payout request:', id, update.status);
+
+      return await db.transaction(async (tx) => {
+        // Rejections settle a request directly; transfers settle one that was claimed for processing
+        const fromStatus = update.status === "rejected" ? "requested" : "processing";
+        const [payout] = await tx
+          .update(payoutRequests)
+          .set({ ...update, processedAt: new Date() })
+          .where(and(eq(payoutRequests.id, id), eq(payoutRequests.status, fromStatus)))
+          .returning();
+
+        if (!payout) {
+          throw new Error(`Payout request ${id} is not ${fromStatus}`);
+        }
+
+        await this.applyLedgerPostings(
+          tx,
+          update.status === "paid" ? "payout" : "payout_rejected",
+          { payoutId: id },
+          postings
+        );
+        return payout;
+      });
+    } catch (error) {
+      console.error('Error settling payout request:', error);
+      throw new Error('Failed to settle payout request');
+    }
+  }
+
+  // System setting methods
+  async getSystemSetting(key: string): Promise<SystemSetting | undefined> {
+    const [setting] = await db
+      .select()
+      .from(systemSettings)
+      .where(eq(systemSettings.settingKey, key));
+    return setting;
+  }
+
+  async createSystemSettingIfMissing(setting: InsertSystemSetting): Promise<void> {
+    await db
+      .insert(systemSettings)
+      .values({ ...setting, updatedAt: new Date() })
+      .onConflictDoNothing();
+  }
+
+  async upsertSystemSetting(setting: InsertSystemSetting): Promise<SystemSetting> {
+    const [stored] = await db
+      .insert(systemSettings)
+      .values({ ...setting, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: systemSettings.settingKey,
+        set: { settingValue: setting.settingValue, updatedBy: setting.updatedBy, updatedAt: new Date() }
+      })
+      .returning();
+    return stored;
+  }
+
+  // Job queue methods
+  async createJob(job: InsertJob): Promise<Job> {
+    try {
+      const [created] = await db
+        .insert(jobs)
+        .values({
+          type: job.type,
+          payload: job.payload ?? {},
+          maxAttempts: job.maxAttempts ?? 5,
+          runAt: job.runAt ?? new Date(),
+          scheduleName: job.scheduleName ?? null,
+          createdAt: new Date()
+        })
+        .returning();
+      return created;
+    } catch (error) {
+      console.error('Error creating job:', error);
+      throw new Error('Failed to create job');
+    }
+  }
+
+  // Picks the oldest due job and marks it running. SKIP LOCKED lets several
+  // workers poll at once without ever handing the same job to two of them.
+  async claimNextJob(now: Date): Promise<Job | undefined> {
+    return await db.transaction(async (tx) => {
+      const [next] = await tx
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(and(eq(jobs.status, "queued"), lte(jobs.runAt, now)))
+        .orderBy(jobs.runAt, jobs.id)
+        .limit(1)
+        .for("update", { skipLocked: true });
+
+      if (!next) return undefined;
+
+      const [job] = await tx
+        .update(jobs)
+        .set({
+          status: "running",
+          attempts: sql`${jobs.attempts} + 1`,
+          lockedAt: now
+        })
+        .where(eq(jobs.id, next.id))
+        .returning();
+      return job;
+    });
+  }
+
+  async completeJob(id: number): Promise<void> {
+    await db
+      .update(jobs)
+      .set({ status: "completed", lockedAt: null, completedAt: new Date() })
+      .where(eq(jobs.id, id));
+  }
+
+  // A retry time puts the job back in the queue; null moves it to the dead-letter state
+  async failJob(id: number, error: string, retryAt: Date | null): Promise<void> {
+    await db
+      .update(jobs)
+      .set({
+        status: retryAt ? "queued" : "dead",
+        runAt: retryAt ?? sql`${jobs.runAt}`,
+        lockedAt: null,
+        lastError: error
+      })
+      .where(eq(jobs.id, id));
+  }
+
+  // Jobs left running by a worker that stopped mid-attempt go back in the
+  // queue, or to the dead-letter state if that was their last attempt
+  async requeueStaleJobs(lockedBefore: Date): Promise<number> {
+    const requeued = await db
+      .update(jobs)
+      .set({
+        status: sql`case when ${jobs.attempts} >= ${jobs.maxAttempts} then 'dead' else 'queued' end`,
+        lockedAt: null,
+        lastError: "Worker stopped before the job finished"
+      })
+      .where(and(eq(jobs.status, "running"), lt(jobs.lockedAt, lockedBefore)))
+      .returning({ id: jobs.id });
+    return requeued.length;
+  }
+
+  async retryDeadJob(id: number): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set({ status: "queued", attempts: 0, runAt: new Date(), lockedAt: null })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "dead")))
+      .returning();
+    return job;
+  }
+
+  async getJobById(id: number): Promise<Job | undefined> {
+    const [job] = await db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.id, id));
+    return job;
+  }
+
+  // failedOnly limits the list to jobs that have failed at least one attempt
+  async getJobs(statuses: JobStatus[], limit: number, failedOnly: boolean = false): Promise<Job[]> {
+    return await db
+      .select()
+      .from(jobs)
+      .where(and(
+        inArray(jobs.status, statuses),
+        failedOnly ? isNotNull(jobs.lastError) : undefined
+      ))
+      .orderBy(desc(jobs.runAt), desc(jobs.id))
+      .limit(limit);
+  }
+
+  async getJobCountsByStatus(): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: jobs.status, count: sql<number>`count(*)` })
+      .from(jobs)
+      .groupBy(jobs.status);
+    return Object.fromEntries(rows.map(row => [row.status, Number(row.count)]));
+  }
+
+  async deleteCompletedJobsBefore(before: Date): Promise<number> {
+    const deleted = await db
+      .delete(jobs)
+      .where(and(eq(jobs.status, "completed"), lt(jobs.completedAt, before)))
+      .returning({ id: jobs.id });
+    return deleted.length;
+  }
+
+  async getJobSchedules(): Promise<JobSchedule[]> {
+    return await db
+      .select()
+      .from(jobSchedules)
+      .orderBy(jobSchedules.name);
+  }
+
+  async upsertJobSchedule(
+    schedule: Pick<JobSchedule, "name" | "cron" | "jobType" | "payload" | "nextRunAt">
+  ): Promise<JobSchedule> {
+    const [saved] = await db
+      .insert(jobSchedules)
+      .values(schedule)
+      .onConflictDoUpdate({
+        target: jobSchedules.name,
+        set: {
+          cron: schedule.cron,
+          jobType: schedule.jobType,
+          payload: schedule.payload,
+          nextRunAt: schedule.nextRunAt
+        }
+      })
+      .returning();
+    return saved;
+  }
+
+  // Advances the schedule and enqueues its job together. The guard on
+  // nextRunAt means only one server instance enqueues each scheduled run.
+  async enqueueScheduledJob(schedule: JobSchedule, now: Date, nextRunAt: Date): Promise<Job | undefined> {
+    return await db.transaction(async (tx) => {
+      const [advanced] = await tx
+        .update(jobSchedules)
+        .set({ lastRunAt: now, nextRunAt })
+        .where(and(eq(jobSchedules.id, schedule.id), eq(jobSchedules.nextRunAt, schedule.nextRunAt)))
+        .returning();
+
+      if (!advanced) return undefined;
+
+      const [job] = await tx
+        .insert(jobs)
+        .values({
+          type: schedule.jobType,
+          payload: schedule.payload,
+          runAt: now,
+          scheduleName: schedule.name,
+          createdAt: now
+        })
+        .returning();
+      return job;
+    });
+  }
+
+  // AI usage methods
+  async createAIUsage(usage: InsertAIUsage): Promise<AIUsage> {
+    const [created] = await db
+      .insert(aiUsage)
+      .values({ ...usage, createdAt: new Date() })
+      .returning();
+    return created;
+  }
+
+  async getAIUsageSummary(since: Date): Promise<AIUsageSummaryRow[]> {
+    const rows = await db
+      .select({
+        provider: aiUsage.provider,
+        model: aiUsage.model,
+        task: aiUsage.task,
+        calls: sql<number>`count(*)`,
+        failures: sql<number>`count(*) filter (where not ${aiUsage.success})`,
+        promptTokens: sql<number>`coalesce(sum(${aiUsage.promptTokens}), 0)`,
+        completionTokens: sql<number>`coalesce(sum(${aiUsage.completionTokens}), 0)`,
+        costUsd: sql<string>`coalesce(sum(${aiUsage.costUsd}), 0)`
+      })
+      .from(aiUsage)
+      .where(gte(aiUsage.createdAt, since))
+      .groupBy(aiUsage.provider, aiUsage.model, aiUsage.task)
+      .orderBy(aiUsage.provider, aiUsage.model, aiUsage.task);
+
+    // Aggregates come back from Postgres as strings
+    return rows.map(row => ({
+      ...row,
+      calls: Number(row.calls),
+      failures: Number(row.failures),
+      promptTokens: Number(row.promptTokens),
+      completionTokens: Number(row.completionTokens),
+      costUsd: Number(row.costUsd)
+    }));
+  }
+
+  // Embedding methods
+  async getEmbedding(entityType: EmbeddingEntityType, entityId: number): Promise<Embedding | undefined> {
+    const [embedding] = await db
+      .select()
+      .from(embeddings)
+      .where(and(eq(embeddings.entityType, entityType), eq(embeddings.entityId, entityId)));
+    return embedding;
+  }
+
+  async upsertEmbedding(embedding: InsertEmbedding): Promise<Embedding> {
+    const [stored] = await db
+      .insert(embeddings)
+      .values({ ...embedding, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [embeddings.entityType, embeddings.entityId],
+        set: {
+          provider: embedding.provider,
+          contentHash: embedding.contentHash,
+          embedding: embedding.embedding,
+          updatedAt: new Date()
+        }
+      })
+      .returning();
+    return stored;
+  }
+
+  // Marks an unchanged embedding as checked so the refresh job moves on
+  async touchEmbedding(id: number): Promise<void> {
+    await db
+      .update(embeddings)
+      .set({ updatedAt: new Date() })
+      .where(eq(embeddings.id, id));
+  }
+
+  // Ordered by cosine distance so the HNSW index can serve the query
+  async getNearestEmbeddings(query: NearestEmbeddingQuery): Promise<EmbeddingNeighbor[]> {
+    if (query.entityIds && query.entityIds.length === 0) return [];
+
+    const distance = cosineDistance(embeddings.embedding, query.embedding);
+    const conditions = [
+      eq(embeddings.entityType, query.entityType),
+      eq(embeddings.provider, query.provider)
+    ];
+    if (query.entityIds) conditions.push(inArray(embeddings.entityId, query.entityIds));
+    if (query.excludeEntityId !== undefined) conditions.push(ne(embeddings.entityId, query.excludeEntityId));
+
+    const rows = await db
+      .select({ entityId: embeddings.entityId, distance })
+      .from(embeddings)
+      .where(and(...conditions))
+      .orderBy(distance)
+      .limit(query.limit);
+
+    return rows.map(row => ({ entityId: row.entityId, similarity: 1 - Number(row.distance) }));
+  }
+
+  // Profiles never embedded, embedded by another provider, or not checked since staleBefore
+  async getInfluencerProfilesToEmbed(provider: string, staleBefore: Date, limit: number): Promise<InfluencerProfile[]> {
+    const rows = await db
+      .select({ profile: influencerProfiles })
+      .from(influencerProfiles)
+      .leftJoin(embeddings, and(
+        eq(embeddings.entityType, 'influencer'),
+        eq(embeddings.entityId, influencerProfiles.id)
+      ))
+      .where(or(
+        isNull(embeddings.id),
+        ne(embeddings.provider, provider),
+        lt(embeddings.updatedAt, staleBefore)
+      ))
+      .limit(limit);
+    return rows.map(row => row.profile);
+  }
+
+  async getOffersToEmbed(provider: string, staleBefore: Date, limit: number): Promise<Offer[]> {
+    const rows = await db
+      .select({ offer: offers })
+      .from(offers)
+      .leftJoin(embeddings, and(
+        eq(embeddings.entityType, 'offer'),
+        eq(embeddings.entityId, offers.id)
+      ))
+      .where(and(
+        eq(offers.status, 'active'),
+        or(
+          isNull(embeddings.id),
+          ne(embeddings.provider, provider),
+          lt(embeddings.updatedAt, staleBefore)
+        )
+      ))
+      .limit(limit);
+    return rows.map(({ offer }) => ({
+      ...offer,
+      minEngagement: offer.minEngagement / 10
+    }));
+  }
+
+  // Marketplace search methods
+  async searchInfluencerProfiles(
+    query: InfluencerSearchQuery,
+    limit: number,
+    after?: SearchCursorPosition
+  ): Promise<SearchPageRows<InfluencerProfile>> {
+    const where = whereExcept(this.getInfluencerSearchConditions(query));
+    const sort = this.getInfluencerSearchSort(query);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)` })
+      .from(influencerProfiles)
+      .where(where);
+
+    const rows = await db
+      .select({ item: influencerProfiles, sortValue: sort.value })
+      .from(influencerProfiles)
+      .where(and(where, after ? afterCursor(sort, influencerProfiles.id, after) : undefined))
+      .orderBy(...(sort.direction === 'desc'
+        ? [desc(sort.value), desc(influencerProfiles.id)]
+        : [asc(sort.value), asc(influencerProfiles.id)]))
+      .limit(limit);
+
+    return {
+      rows: rows.map(row => ({ item: row.item, sortValue: Number(row.sortValue) })),
+      total: Number(total)
+    };
+  }
+
+  async getInfluencerSearchFacets(query: InfluencerSearchQuery): Promise<Record<InfluencerFacetName, FacetCount[]>> {
+    const conditions = this.getInfluencerSearchConditions(query);
+
+    const textFacet = async (column: typeof influencerProfiles.niche | typeof influencerProfiles.location, facet: InfluencerFacetName) => {
+      const value = sql<string>`lower(trim(${column}))`;
+      const rows = await db
+        .select({ value, label: sql<string>`min(trim(${column}))`, count: sql<number>`count(*)` })
+        .from(influencerProfiles)
+        .where(and(whereExcept(conditions, facet), sql`coalesce(trim(${column}), '') <> ''`))
+        .groupBy(value)
+        .orderBy(desc(sql`count(*)`))
+        .limit(FACET_SIZE);
+      return rows.map(row => ({ ...row, count: Number(row.count) }));
+    };
+
+    // An influencer counts once under each platform they're on
+    const platformRows = await db
+      .select({ value: sql<string>`platform_id`, count: sql<number>`count(distinct ${influencerProfiles.id})` })
+      .from(influencerProfiles)
+      .innerJoin(sql`unnest(${influencerPlatforms}) as platform_id`, sql`true`)
+      .where(whereExcept(conditions, 'platform'))
+      .groupBy(sql`platform_id`)
+      .orderBy(desc(sql`count(distinct ${influencerProfiles.id})`));
+
+    const tier = followerTier(influencerFollowers);
+    const tierRows = await db
+      .select({ value: tier, count: sql<number>`count(*)` })
+      .from(influencerProfiles)
+      .where(whereExcept(conditions, 'tier'))
+      .groupBy(tier);
+
+    return {
+      category: await textFacet(influencerProfiles.niche, 'category'),
+      location: await textFacet(influencerProfiles.location, 'location'),
+      platform: platformRows.map(row => ({
+        value: row.value,
+        label: getPlatform(row.value)?.label ?? row.value,
+        count: Number(row.count)
+      })),
+      tier: this.toTierFacet(tierRows)
+    };
+  }
+
+  async searchOffers(
+    query: OfferSearchQuery,
+    limit: number,
+    after?: SearchCursorPosition,
+    viewer?: GeoCoordinates | null
+  ): Promise<SearchPageRows<Offer>> {
+    const where = whereExcept(this.getOfferSearchConditions(query, viewer));
+    const sort = this.getOfferSearchSort(query);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)` })
+      .from(offers)
+      .where(where);
+
+    const rows = await db
+      .select({ item: offers, sortValue: sort.value })
+      .from(offers)
+      .where(and(where, after ? afterCursor(sort, offers.id, after) : undefined))
+      .orderBy(...(sort.direction === 'desc'
+        ? [desc(sort.value), desc(offers.id)]
+        : [asc(sort.value), asc(offers.id)]))
+      .limit(limit);
+
+    return {
+      rows: rows.map(row => ({
+        item: { ...row.item, minEngagement: row.item.minEngagement / 10 },
+        sortValue: Number(row.sortValue)
+      })),
+      total: Number(total)
+    };
+  }
+
+  async getOfferSearchFacets(query: OfferSearchQuery, viewer?: GeoCoordinates | null): Promise<Record<OfferFacetName, FacetCount[]>> {
+    const conditions = this.getOfferSearchConditions(query, viewer);
+
+    const textFacet = async (column: typeof offers.category | typeof offers.location, facet: OfferFacetName) => {
+      const value = sql<string>`lower(trim(${column}))`;
+      const rows = await db
+        .select({ value, label: sql<string>`min(trim(${column}))`, count: sql<number>`count(*)` })
+        .from(offers)
+        .where(and(whereExcept(conditions, facet), sql`coalesce(trim(${column}), '') <> ''`))
+        .groupBy(value)
+        .orderBy(desc(sql`count(*)`))
+        .limit(FACET_SIZE);
+      return rows.map(row => ({ ...row, count: Number(row.count) }));
+    };
+
+    const tagRows = await db
+      .select({ value: sql<string>`lower(offer_tag)`, count: sql<number>`count(distinct ${offers.id})` })
+      .from(offers)
+      .innerJoin(sql`unnest(${offers.tags}) as offer_tag`, sql`true`)
+      .where(whereExcept(conditions, 'tags'))
+      .groupBy(sql`lower(offer_tag)`)
+      .orderBy(desc(sql`count(distinct ${offers.id})`))
+      .limit(FACET_SIZE);
+
+    const rewardRows = await db
+      .select({ value: offers.rewardType, count: sql<number>`count(*)` })
+      .from(offers)
+      .where(whereExcept(conditions, 'rewardType'))
+      .groupBy(offers.rewardType)
+      .orderBy(desc(sql`count(*)`));
+
+    // Offers fit every platform that can carry their content type
+    const [platformCounts] = await db
+      .select(Object.fromEntries(PLATFORM_LIST.map(platform => [
+        platform.id,
+        sql<number>`count(*) filter (where ${this.offerFitsPlatforms([platform.id])})`
+      ])))
+      .from(offers)
+      .where(whereExcept(conditions, 'platform'));
+
+    const tier = followerTier(sql`${offers.minFollowers}`);
+    const tierRows = await db
+      .select({ value: tier, count: sql<number>`count(*)` })
+      .from(offers)
+      .where(whereExcept(conditions, 'tier'))
+      .groupBy(tier);
+
+    return {
+      category: await textFacet(offers.category, 'category'),
+      location: await textFacet(offers.location, 'location'),
+      tags: tagRows.map(row => ({ value: row.value, label: row.value, count: Number(row.count) })),
+      rewardType: rewardRows.map(row => ({
+        value: row.value,
+        label: REWARD_TYPE_LABELS[row.value] ?? row.value,
+        count: Number(row.count)
+      })),
+      platform: PLATFORM_LIST
+        .map(platform => ({ value: platform.id, label: platform.label, count: Number(platformCounts?.[platform.id] ?? 0) }))
+        .filter(facet => facet.count > 0)
+        .sort((a, b) => b.count - a.count),
+      tier: this.toTierFacet(tierRows)
+    };
+  }
+
+  private getInfluencerSearchConditions(query: InfluencerSearchQuery): SearchCondition<InfluencerFacetName>[] {
+    const conditions: SearchCondition<InfluencerFacetName>[] = [
+      { condition: eq(influencerProfiles.isTest, false) }
+    ];
+    if (query.q) {
+      conditions.push({ condition: sql`${influencerDocument} @@ ${searchQuery(query.q)}` });
+    }
+    if (query.category.length > 0) {
+      conditions.push({
+        facet: 'category',
+        condition: inArray(sql`lower(trim(${influencerProfiles.niche}))`, query.category.map(category => category.toLowerCase()))
+      });
+    }
+    if (query.platform.length > 0) {
+      conditions.push({ facet: 'platform', condition: sql`${influencerPlatforms} && ${textArray(query.platform)}` });
+    }
+    if (query.location) {
+      conditions.push({ facet: 'location', condition: ilike(influencerProfiles.location, `%${query.location}%`) });
+    }
+    if (query.tier.length > 0) {
+      conditions.push({ facet: 'tier', condition: inArray(followerTier(influencerFollowers), query.tier) });
+    }
+    if (query.minFollowers !== undefined) conditions.push({ condition: gte(influencerFollowers, query.minFollowers) });
+    if (query.maxFollowers !== undefined) conditions.push({ condition: lte(influencerFollowers, query.maxFollowers) });
+    if (query.minEngagement !== undefined) conditions.push({ condition: gte(influencerEngagement, query.minEngagement) });
+    if (query.maxEngagement !== undefined) conditions.push({ condition: lte(influencerEngagement, query.maxEngagement) });
+    return conditions;
+  }
+
+  // Without search terms, relevance falls back to credibility; there are no
+  // ratings yet, so "rating" sorts by credibility too
+  private getInfluencerSearchSort(query: InfluencerSearchQuery): SearchSort {
+    switch (query.sortBy) {
+      case 'engagement':
+        return { value: sql<number>`(${influencerEngagement})::float8`, direction: 'desc' };
+      case 'followers':
+        return { value: sql<number>`(${influencerFollowers})::float8`, direction: 'desc' };
+      case 'rating':
+        return { value: sql<number>`${influencerProfiles.credibilityScore}::float8`, direction: 'desc' };
+      case 'relevance':
+      default:
+        return query.q
+          ? { value: sql<number>`ts_rank(${influencerDocument}, ${searchQuery(query.q)})::float8`, direction: 'desc' }
+          : { value: sql<number>`${influencerProfiles.credibilityScore}::float8`, direction: 'desc' };
+    }
+  }
+
+  private getOfferSearchConditions(query: OfferSearchQuery, viewer?: GeoCoordinates | null): SearchCondition<OfferFacetName>[] {
+    const conditions: SearchCondition<OfferFacetName>[] = [
+      { condition: eq(offers.status, 'active') },
+      { condition: eq(offers.visibility, 'public') },
+      { condition: eq(offers.isTest, false) }
+    ];
+    // Same rule as isOutsideOfferRadius, with the haversine distance in SQL
+    if (viewer) {
+      conditions.push({
+        condition: sql`(${offers.radiusKm} is null or ${offers.latitude} is null or ${offers.longitude} is null
+          or 2 * 6371 * asin(least(1, sqrt(
+            power(sin(radians(${offers.latitude} - ${viewer.latitude}) / 2), 2) +
+            cos(radians(${viewer.latitude})) * cos(radians(${offers.latitude})) *
+            power(sin(radians(${offers.longitude} - ${viewer.longitude}) / 2), 2)
+          ))) <= ${offers.radiusKm})`
+      });
+    }
+    if (query.q) {
+      conditions.push({ condition: sql`${offerDocument} @@ ${searchQuery(query.q)}` });
+    }
+    if (query.category.length > 0) {
+      conditions.push({
+        facet: 'category',
+        condition: inArray(sql`lower(trim(${offers.category}))`, query.category.map(category => category.toLowerCase()))
+      });
+    }
+    if (query.platform.length > 0) {
+      conditions.push({ facet: 'platform', condition: this.offerFitsPlatforms(query.platform) });
+    }
+    if (query.location) {
+      conditions.push({ facet: 'location', condition: ilike(offers.location, `%${query.location}%`) });
+    }
+    if (query.tier.length > 0) {
+      conditions.push({ facet: 'tier', condition: inArray(followerTier(sql`${offers.minFollowers}`), query.tier) });
+    }
+    if (query.rewardType.length > 0) {
+      conditions.push({ facet: 'rewardType', condition: inArray(offers.rewardType, query.rewardType) });
+    }
+    if (query.tags.length > 0) {
+      conditions.push({
+        facet: 'tags',
+        condition: sql`array(select lower(tag) from unnest(${offers.tags}) as tag) && ${textArray(query.tags)}`
+      });
+    }
+    return conditions;
+  }
+
+  // "engagement" sorts by reward value, "followers" by the lowest follower
+  // minimum, and "rating" by newest until businesses can be rated
+  private getOfferSearchSort(query: OfferSearchQuery): SearchSort {
+    switch (query.sortBy) {
+      case 'engagement':
+        return { value: sql<number>`coalesce(${offers.rewardAmount}, 0)::float8`, direction: 'desc' };
+      case 'followers':
+        return { value: sql<number>`${offers.minFollowers}::float8`, direction: 'asc' };
+      case 'rating':
+        return { value: sql<number>`${offers.id}::float8`, direction: 'desc' };
+      case 'relevance':
+      default:
+        return query.q
+          ? { value: sql<number>`ts_rank(${offerDocument}, ${searchQuery(query.q)})::float8`, direction: 'desc' }
+          : { value: sql<number>`${offers.id}::float8`, direction: 'desc' };
+    }
+  }
+
+  // Offers without a content type can be delivered on any platform
+  private offerFitsPlatforms(platformIds: string[]): SQL {
+    const contentTypes = Array.from(new Set(
+      PLATFORM_LIST.filter(platform => platformIds.includes(platform.id)).flatMap(platform => platform.contentTypes)
+    ));
+    return contentTypes.length > 0
+      ? or(isNull(offers.contentType), inArray(sql`lower(${offers.contentType})`, contentTypes))!
+      : isNull(offers.contentType);
+  }
+
+  // Every tier in order, including empty ones
+  private toTierFacet(rows: { value: string; count: number }[]): FacetCount[] {
+    return FOLLOWER_TIERS.map(tier => ({
+      value: tier.id,
+      label: tier.label,
+      count: Number(rows.find(row => row.value === tier.id)?.count ?? 0)
+    }));
+  }
+
+  // Creator CRM methods
+  async getShortlistsByBusinessId(businessId: number): Promise<Shortlist[]> {
+    return await db
+      .select()
+      .from(shortlists)
+      .where(eq(shortlists.businessId, businessId))
+      .orderBy(desc(shortlists.updatedAt));
+  }
+
+  async getShortlistById(id: number): Promise<Shortlist | undefined> {
+    const [shortlist] = await db.select().from(shortlists).where(eq(shortlists.id, id));
+    return shortlist;
+  }
+
+  async createShortlist(shortlist: InsertShortlist): Promise<Shortlist> {
+    const [created] = await db
+      .insert(shortlists)
+      .values({
+        businessId: shortlist.businessId,
+        name: shortlist.name,
+        description: shortlist.description ?? null
+      })
+      .returning();
+    return created;
+  }
+
+  async updateShortlist(id: number, changes: Pick<InsertShortlist, 'name' | 'description'>): Promise<Shortlist | undefined> {
+    const [updated] = await db
+      .update(shortlists)
+      .set({ name: changes.name, description: changes.description ?? null, updatedAt: new Date() })
+      .where(eq(shortlists.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteShortlist(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(shortlistMembers).where(eq(shortlistMembers.shortlistId, id));
+      await tx.delete(shortlists).where(eq(shortlists.id, id));
+    });
+  }
+
+  async getShortlistMembers(shortlistIds: number[]): Promise<ShortlistMember[]> {
+    if (shortlistIds.length === 0) return [];
+    return await db
+      .select()
+      .from(shortlistMembers)
+      .where(inArray(shortlistMembers.shortlistId, shortlistIds))
+      .orderBy(desc(shortlistMembers.addedAt));
+  }
+
+  async addShortlistMember(shortlistId: number, influencerId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(shortlistMembers)
+        .values({ shortlistId, influencerId })
+        .onConflictDoNothing();
+      await tx.update(shortlists).set({ updatedAt: new Date() }).where(eq(shortlists.id, shortlistId));
+    });
+  }
+
+  async removeShortlistMember(shortlistId: number, influencerId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(shortlistMembers)
+        .where(
+          and(
+            eq(shortlistMembers.shortlistId, shortlistId),
+            eq(shortlistMembers.influencerId, influencerId)
+          )
+        );
+      await tx.update(shortlists).set({ updatedAt: new Date() }).where(eq(shortlists.id, shortlistId));
+    });
+  }
+
+  async getInfluencerProfilesByIds(ids: number[]): Promise<InfluencerProfile[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(influencerProfiles).where(inArray(influencerProfiles.id, ids));
+  }
+
+  async getCreatorNote(businessId: number, influencerId: number): Promise<CreatorNote | undefined> {
+    const [note] = await db
+      .select()
+      .from(creatorNotes)
+      .where(and(eq(creatorNotes.businessId, businessId), eq(creatorNotes.influencerId, influencerId)));
+    return note;
+  }
+
+  async getCreatorNotesByInfluencerIds(businessId: number, influencerIds: number[]): Promise<CreatorNote[]> {
+    if (influencerIds.length === 0) return [];
+    return await db
+      .select()
+      .from(creatorNotes)
+      .where(and(eq(creatorNotes.businessId, businessId), inArray(creatorNotes.influencerId, influencerIds)));
+  }
+
+  async upsertCreatorNote(note: InsertCreatorNote): Promise<CreatorNote> {
+    const values = {
+      notes: note.notes ?? null,
+      tags: note.tags ?? [],
+      rating: note.rating ?? null,
+      updatedAt: new Date()
+    };
+    const [saved] = await db
+      .insert(creatorNotes)
+      .values({ businessId: note.businessId, influencerId: note.influencerId, ...values })
+      .onConflictDoUpdate({
+        target: [creatorNotes.businessId, creatorNotes.influencerId],
+        set: values
+      })
+      .returning();
+    return saved;
+  }
+
+  async getClaimsByBusinessAndInfluencer(businessId: number, influencerId: number): Promise<{ claim: OfferClaim; offer: Offer }[]> {
+    const rows = await db
+      .select({ claim: offerClaims, offer: offers })
+      .from(offerClaims)
+      .innerJoin(offers, eq(offers.id, offerClaims.offerId))
+      .where(and(eq(offers.businessId, businessId), eq(offerClaims.influencerId, influencerId)))
+      .orderBy(desc(offerClaims.createdAt));
+    return rows.map(({ claim, offer }) => ({
+      claim,
+      offer: { ...offer, minEngagement: offer.minEngagement / 10 }
+    }));
+  }
+
+  async getMessagesByClaimIds(claimIds: number[]): Promise<Message[]> {
+    if (claimIds.length === 0) return [];
+    return await db
+      .select()
+      .from(messages)
+      .where(inArray(messages.claimId, claimIds))
+      .orderBy(desc(messages.timestamp));
+  }
+
+  async getOfferInvitationsByBusinessAndInfluencer(
+    businessId: number,
+    influencerId: number
+  ): Promise<{ invitation: OfferInvitation; offer: Offer }[]> {
+    const rows = await db
+      .select({ invitation: offerInvitations, offer: offers })
+      .from(offerInvitations)
+      .innerJoin(offers, eq(offers.id, offerInvitations.offerId))
+      .where(and(eq(offerInvitations.businessId, businessId), eq(offerInvitations.influencerId, influencerId)))
+      .orderBy(desc(offerInvitations.createdAt));
+    return rows.map(({ invitation, offer }) => ({
+      invitation,
+      offer: { ...offer, minEngagement: offer.minEngagement / 10 }
+    }));
+  }
+
+  // Offer invitation methods
+  async createOfferInvitation(invitation: InsertOfferInvitation): Promise<OfferInvitation | undefined> {
+    const values = {
+      offerId: invitation.offerId,
+      businessId: invitation.businessId,
+      influencerId: invitation.influencerId,
+      message: invitation.message ?? null,
+      expiresAt: invitation.expiresAt ?? null
+    };
+
+    // An invitation that ran out can be sent again; anything else is left alone
+    const [created] = await db
+      .insert(offerInvitations)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [offerInvitations.offerId, offerInvitations.influencerId],
+        set: {
+          ...values,
+          status: 'pending',
+          declineReason: null,
+          createdAt: new Date(),
+          respondedAt: null
+        },
+        setWhere: or(
+          eq(offerInvitations.status, 'expired'),
+          and(eq(offerInvitations.status, 'pending'), lte(offerInvitations.expiresAt, new Date()))
+        )
+      })
+      .returning();
+    return created;
+  }
+
+  async getOfferInvitationById(id: number): Promise<OfferInvitation | undefined> {
+    const [invitation] = await db.select().from(offerInvitations).where(eq(offerInvitations.id, id));
+    return invitation;
+  }
+
+  async getOfferInvitationByOfferAndInfluencer(offerId: number, influencerId: number): Promise<OfferInvitation | undefined> {
+    const [invitation] = await db
+      .select()
+      .from(offerInvitations)
+      .where(and(eq(offerInvitations.offerId, offerId), eq(offerInvitations.influencerId, influencerId)));
+    return invitation;
+  }
+
+  async getOfferInvitationsByInfluencerId(
+    influencerId: number
+  ): Promise<{ invitation: OfferInvitation; offer: Offer; business: BusinessProfile | null }[]> {
+    const rows = await db
+      .select({ invitation: offerInvitations, offer: offers, business: businessProfiles })
+      .from(offerInvitations)
+      .innerJoin(offers, eq(offers.id, offerInvitations.offerId))
+      .leftJoin(businessProfiles, eq(businessProfiles.id, offerInvitations.businessId))
+      .where(eq(offerInvitations.influencerId, influencerId))
+      .orderBy(desc(offerInvitations.createdAt));
+    return rows.map(({ invitation, offer, business }) => ({
+      invitation,
+      offer: { ...offer, minEngagement: offer.minEngagement / 10 },
+      business
+    }));
+  }
+
+  async getPendingOfferInvitationsByInfluencerId(influencerId: number): Promise<{ invitation: OfferInvitation; offer: Offer }[]> {
+    const rows = await db
+      .select({ invitation: offerInvitations, offer: offers })
+      .from(offerInvitations)
+      .innerJoin(offers, eq(offers.id, offerInvitations.offerId))
+      .where(
+        and(
+          eq(offerInvitations.influencerId, influencerId),
+          eq(offerInvitations.status, 'pending'),
+          or(isNull(offerInvitations.expiresAt), gt(offerInvitations.expiresAt, new Date())),
+          eq(offers.status, 'active')
+        )
+      )
+      .orderBy(desc(offerInvitations.createdAt));
+    return rows.map(({ invitation, offer }) => ({
+      invitation,
+      offer: { ...offer, minEngagement: offer.minEngagement / 10 }
+    }));
+  }
+
+  async respondToOfferInvitation(
+    id: number,
+    status: 'declined' | 'expired',
+    declineReason: string | null = null
+  ): Promise<OfferInvitation | undefined> {
+    const [updated] = await db
+      .update(offerInvitations)
+      .set({ status, declineReason, respondedAt: status === 'declined' ? new Date() : null })
+      .where(and(eq(offerInvitations.id, id), eq(offerInvitations.status, 'pending')))
+      .returning();
+    return updated;
+  }
+
+  async expireOfferInvitations(now: Date): Promise<OfferInvitation[]> {
+    return await db
+      .update(offerInvitations)
+      .set({ status: 'expired' })
+      .where(and(eq(offerInvitations.status, 'pending'), lte(offerInvitations.expiresAt, now)))
+      .returning();
+  }
+
+  // Deal negotiation methods
+  async getCurrentDealTerms(claimId: number): Promise<DealTerms | undefined> {
+    const [terms] = await db
+      .select()
+      .from(dealTerms)
+      .where(eq(dealTerms.claimId, claimId))
+      .orderBy(desc(dealTerms.version))
+      .limit(1);
+    return terms;
+  }
+
+  async getDealProposalById(id: number): Promise<DealProposal | undefined> {
+    const [proposal] = await db
+      .select()
+      .from(dealProposals)
+      .where(eq(dealProposals.id, id));
+    return proposal;
+  }
+
+  async getDealProposalsByClaimId(claimId: number): Promise<DealProposal[]> {
+    return await db
+      .select()
+      .from(dealProposals)
+      .where(eq(dealProposals.claimId, claimId))
+      .orderBy(asc(dealProposals.createdAt), asc(dealProposals.id));
+  }
+
+  async createDealProposal(proposal: InsertDealProposal, counteredProposalId?: number): Promise<DealProposal | undefined> {
+    return await db.transaction(async (tx) => {
+      if (counteredProposalId !== undefined) {
+        const [countered] = await tx
+          .update(dealProposals)
+          .set({ status: 'countered', respondedAt: new Date() })
+          .where(and(eq(dealProposals.id, counteredProposalId), eq(dealProposals.status, 'pending')))
+          .returning();
+        if (!countered) return undefined;
+      }
+
+      const [created] = await tx
+        .insert(dealProposals)
+        .values({ ...proposal, status: 'pending', createdAt: new Date() })
+        .returning();
+      return created;
+    });
+  }
+
+  async respondToDealProposal(id: number, status: 'declined' | 'withdrawn'): Promise<DealProposal | undefined> {
+    const [proposal] = await db
+      .update(dealProposals)
+      .set({ status, respondedAt: new Date() })
+      .where(and(eq(dealProposals.id, id), eq(dealProposals.status, 'pending')))
+      .returning();
+    return proposal;
+  }
+
+  async updateDealProposalStatus(
+    id: number,
+    fromStatus: DealProposalStatus,
+    toStatus: DealProposalStatus
+  ): Promise<DealProposal | undefined> {
+    const [proposal] = await db
+      .update(dealProposals)
+      .set({ status: toStatus })
+      .where(and(eq(dealProposals.id, id), eq(dealProposals.status, fromStatus)))
+      .returning();
+    return proposal;
+  }
+
+  async acceptDealProposal(id: number, terms: DealTermsSnapshot): Promise<DealTerms | undefined> {
+    return await db.transaction(async (tx) => {
+      const [proposal] = await tx
+        .update(dealProposals)
+        .set({ status: 'accepted', respondedAt: new Date() })
+        .where(and(eq(dealProposals.id, id), eq(dealProposals.status, 'accepting')))
+        .returning();
+      if (!proposal) return undefined;
+
+      const [{ version }] = await tx
+        .select({ version: sql<number>`coalesce(max(${dealTerms.version}), 0)` })
+        .from(dealTerms)
+        .where(eq(dealTerms.claimId, proposal.claimId));
+
+      const [agreed] = await tx
+        .insert(dealTerms)
+        .values({
+          claimId: proposal.claimId,
+          version: Number(version) + 1,
+          ...termsFromOffer(terms),
+          proposalId: proposal.id,
+          agreedAt: new Date()
+        })
+        .returning();
+      return agreed;
+    });
+  }
+
+  // Campaign methods
+  async createCampaign(campaign: InsertCampaign): Promise<Campaign> {
+    const [created] = await db
+      .insert(campaigns)
+      .values({ ...campaign, createdAt: new Date(), updatedAt: new Date() })
+      .returning();
+    return created;
+  }
+
+  async getCampaignById(id: number): Promise<Campaign | undefined> {
+    const [campaign] = await db
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.id, id));
+    return campaign;
+  }
+
+  async getCampaignsByBusinessId(businessId: number): Promise<Campaign[]> {
+    return await db
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.businessId, businessId))
+      .orderBy(desc(campaigns.startsAt), desc(campaigns.id));
+  }
+
+  async updateCampaign(id: number, updates: Omit<InsertCampaign, "businessId">): Promise<Campaign | undefined> {
+    const [updated] = await db
+      .update(campaigns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(campaigns.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteCampaign(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(offers)
+        .set({ campaignId: null, status: this.unpacedOfferStatus() })
+        .where(eq(offers.campaignId, id));
+      await tx.delete(campaigns).where(eq(campaigns.id, id));
+    });
+  }
+
+  async setOfferCampaign(offerId: number, campaignId: number | null): Promise<Offer | undefined> {
+    const [updated] = await db
+      .update(offers)
+      .set(campaignId === null ? { campaignId, status: this.unpacedOfferStatus() } : { campaignId })
+      .where(eq(offers.id, offerId))
+      .returning();
+    return updated && { ...updated, minEngagement: updated.minEngagement / 10 };
+  }
+
+  async getOffersByCampaignIds(campaignIds: number[]): Promise<Offer[]> {
+    if (campaignIds.length === 0) return [];
+    const offerResults = await db
+      .select()
+      .from(offers)
+      .where(inArray(offers.campaignId, campaignIds))
+      .orderBy(asc(offers.id));
+
+    return offerResults.map(offer => ({
+      ...offer,
+      minEngagement: offer.minEngagement / 10
+    }));
+  }
+
+  async getEscrowSpendByOfferIds(offerIds: number[]): Promise<{ offerId: number; held: number; released: number }[]> {
+    if (offerIds.length === 0) return [];
+    const rows = await db
+      .select({
+        offerId: escrowHolds.offerId,
+        held: sql<number>`coalesce(sum(${escrowHolds.amount}) filter (where ${escrowHolds.status} = 'held'), 0)`,
+        released: sql<number>`coalesce(sum(${escrowHolds.amount}) filter (where ${escrowHolds.status} = 'released'), 0)`,
+      })
+      .from(escrowHolds)
+      .where(inArray(escrowHolds.offerId, offerIds))
+      .groupBy(escrowHolds.offerId);
+
+    return rows.map(row => ({ offerId: row.offerId, held: Number(row.held), released: Number(row.released) }));
+  }
+
+  async getCampaignKpiActuals(campaignIds: number[]): Promise<{ campaignId: number; creators: number; reach: number; posts: number }[]> {
+    if (campaignIds.length === 0) return [];
+
+    // Each creator counts once per campaign, however many of its offers they took
+    const creatorRows = await db
+      .selectDistinct({
+        campaignId: offers.campaignId,
+        influencerId: offerClaims.influencerId,
+        followerCount: influencerProfiles.followerCount,
+      })
+      .from(offerClaims)
+      .innerJoin(offers, eq(offerClaims.offerId, offers.id))
+      .innerJoin(influencerProfiles, eq(offerClaims.influencerId, influencerProfiles.id))
+      .where(and(inArray(offers.campaignId, campaignIds), inArray(offerClaims.status, ACCEPTED_CLAIM_STATUSES)));
+
+    const postRows = await db
+      .select({ campaignId: offers.campaignId, posts: sql<number>`count(*)` })
+      .from(postSubmissions)
+      .innerJoin(offerClaims, eq(postSubmissions.claimId, offerClaims.id))
+      .innerJoin(offers, eq(offerClaims.offerId, offers.id))
+      .where(and(inArray(offers.campaignId, campaignIds), eq(postSubmissions.verificationStatus, "completed")))
+      .groupBy(offers.campaignId);
+
+    return campaignIds.map(campaignId => {
+      const creators = creatorRows.filter(row => row.campaignId === campaignId);
+      return {
+        campaignId,
+        creators: creators.length,
+        reach: creators.reduce((sum, row) => sum + row.followerCount, 0),
+        posts: Number(postRows.find(row => row.campaignId === campaignId)?.posts ?? 0),
+      };
+    });
+  }
+
+  async getPacedCampaigns(): Promise<Campaign[]> {
+    const rows = await db
+      .selectDistinct({ campaign: campaigns })
+      .from(campaigns)
+      .innerJoin(offers, eq(offers.campaignId, campaigns.id))
+      .where(inArray(offers.status, ["active", "paused"]));
+    return rows.map(row => row.campaign);
+  }
+
+  // Pausing is only ever done by campaign pacing, so an offer leaving its campaign reopens
+  private unpacedOfferStatus(): SQL<string> {
+    return sql<string>`case when ${offers.status} = 'paused' then 'active' else ${offers.status} end`;
+  }
+
+  // Checks a campaign offer's extra spend against the campaign budget. The
+  // campaign row is locked so concurrent holds on its offers are counted one
+  // at a time; pacing keeps offers closed well before this hard limit.
+  private async campaignBudgetCovers(tx: DbTransaction, offerId: number, additional: number): Promise<boolean> {
+    if (additional <= 0) return true;
+
+    const [offer] = await tx
+      .select({ campaignId: offers.campaignId })
+      .from(offers)
+      .where(eq(offers.id, offerId));
+    if (!offer?.campaignId) return true;
+
+    const [campaign] = await tx
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.id, offer.campaignId))
+      .for("update");
+    if (!campaign) return true;
+
+    const [{ spent }] = await tx
+      .select({ spent: sql<number>`coalesce(sum(${escrowHolds.amount}), 0)` })
+      .from(escrowHolds)
+      .innerJoin(offers, eq(escrowHolds.offerId, offers.id))
+      .where(and(eq(offers.campaignId, campaign.id), inArray(escrowHolds.status, ["held", "released"])));
+
+    return Number(spent) + additional <= campaign.budget * 100;
+  }
+
+  // Moves a hold out of the "held" state. The status guard in the WHERE clause
+  // makes sure a hold can only ever be released or refunded once.
+  private async settleEscrowHold(
+    tx: DbTransaction,
+    holdId: number,
+    status: "released" | "refunded"
+  ): Promise<EscrowHold> {
+    const [hold] = await tx
+      .update(escrowHolds)
+      .set({ status, updatedAt: new Date() })
+      .where(and(eq(escrowHolds.id, holdId), eq(escrowHolds.status, "held")))
+      .returning();
+
+    if (!hold) {
+      throw new Error(`Escrow hold ${holdId} is not in the held state`);
+    }
+    return hold;
+  }
+
+  // Writes a balanced set of ledger entries and updates the account balances
+  private async applyLedgerPostings(
+    tx: DbTransaction,
+    entryType: string,
+    reference: LedgerReference,
+    postings: LedgerPosting[]
+  ): Promise<void> {
+    const total = postings.reduce((sum, posting) => sum + posting.amount, 0);
+    if (postings.length < 2 || total !== 0) {
+      throw new Error(`Unbalanced ${entryType} ledger transaction: ${total}`);
+    }
+
+    const transactionId = randomUUID();
+    await tx.insert(ledgerEntries).values(
+      postings.map(posting => ({
+        transactionId,
+        accountId: posting.accountId,
+        amount: posting.amount,
+        entryType,
+        holdId: reference.holdId ?? null,
+        payoutId: reference.payoutId ?? null,
+        description: posting.description || null,
+        createdAt: new Date(),
+      }))
+    );
+
+    for (const posting of postings) {
+      await tx
+        .update(ledgerAccounts)
+        .set({ balance: sql`${ledgerAccounts.balance} + ${posting.amount}` })
+        .where(eq(ledgerAccounts.id, posting.accountId));
+    }
+  }
 }
 
 export const storage = new DatabaseStorage();
\ No newline at end of file
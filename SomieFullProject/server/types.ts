@@ -5,6 +5,7 @@ import type {
   InfluencerProfile,
   Offer,
   OfferClaim,
+  ClaimEvent,
   PostSubmission,
   InsertPostSubmission,
   BusinessNotification,
@@ -13,6 +14,8 @@ import type {
   Deliverable,
   InsertDeliverable,
 } from "@shared/schema";
+import type { ClaimStatus } from "@shared/claim-lifecycle";
+import type { ClaimCapacity, ClaimEventActor } from "./storage";
 
 export interface IStorage {
   sessionStore: Store;
@@ -39,12 +42,18 @@ export interface IStorage {
   getOfferById(id: number): Promise<Offer | undefined>;
 
   // Offer Claims methods
-  createOfferClaim(claim: Omit<OfferClaim, "id">): Promise<OfferClaim>;
+  createOfferClaim(claim: Omit<OfferClaim, "id">, event: ClaimEventActor, invitationId?: number): Promise<OfferClaim | undefined>;
   getClaimsByOfferId(offerId: number): Promise<OfferClaim[]>;
   getClaimsByInfluencerId(influencerId: number): Promise<OfferClaim[]>;
-  updateOfferClaimStatus(id: number, status: string): Promise<OfferClaim | undefined>;
+  transitionOfferClaimStatus(
+    id: number,
+    fromStatus: ClaimStatus,
+    event: ClaimEventActor & { toStatus: ClaimStatus },
+    capacity?: ClaimCapacity
+  ): Promise<OfferClaim | undefined>;
   getOfferClaimById(id: number): Promise<OfferClaim | undefined>;
   getOfferClaimByInfluencerAndOffer(influencerId: number, offerId: number): Promise<OfferClaim | undefined>;
+  getClaimEventsByClaimId(claimId: number): Promise<ClaimEvent[]>;
 
   // Business Notification methods
   createNotification(notification: Omit<BusinessNotification, "id">): Promise<BusinessNotification>;
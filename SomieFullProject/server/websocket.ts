@@ -2,6 +2,7 @@ import WebSocket, { WebSocketServer } from 'ws';
 import http from 'http';
 import { validateAuthToken } from './auth';
 import { storage } from './storage';
+import { platformLinkingService } from './services/platform-linking';
 import { log } from './vite';
 
 // Define the shape of WebSocket message
@@ -245,7 +246,8 @@ async function handleSyncRequest(client: ConnectedClient) {
         syncData.influencerProfile = influencerProfile;
         
         // Get social platforms
-        syncData.socialPlatforms = await storage.getSocialPlatformsByInfluencerId(influencerProfile.id);
+        syncData.socialPlatforms = (await storage.getSocialPlatformsByInfluencerId(influencerProfile.id))
+          .map(platform => platformLinkingService.toPublic(platform));
         
         // Get matching offers
         syncData.offers = await storage.getMatchingOffers(influencerProfile);
@@ -0,0 +1,212 @@
+/**
+ * Audience authenticity signals and the credibility score built from them
+ *
+ * Bought followers and engagement leave patterns in an account's metrics:
+ * engagement far below (or suspiciously above) what accounts of the same size
+ * get, follower counts that jump overnight, follower growth that engagement
+ * does not keep up with, and likes that arrive without conversation. Each
+ * signal scores 0-100 and the credibility score is their weighted average.
+ * Signals without enough data are reported but left out of the average, and
+ * the score stays closer to the default the less of the evidence is available.
+ */
+
+export type CredibilitySignalKey =
+  | 'engagement_ratio'
+  | 'follower_spikes'
+  | 'growth_divergence'
+  | 'comment_ratio';
+
+export interface CredibilitySignal {
+  key: CredibilitySignalKey;
+  label: string;
+  score: number | null; // null when there was not enough data to judge
+  weight: number;
+  detail: string;
+}
+
+export interface CredibilityAssessment {
+  score: number;
+  flagged: boolean;
+  signals: CredibilitySignal[];
+}
+
+export interface AuthenticitySnapshot {
+  capturedAt: Date | string;
+  followers: number;
+  engagementRate: number;
+}
+
+export interface AuthenticityInput {
+  followers: number;
+  engagementRate: number;
+  averageLikes: number | null;
+  averageComments: number | null;
+  // Readings for the account in any order
+  history: AuthenticitySnapshot[];
+}
+
+// Score given to accounts with no usable signals yet
+export const DEFAULT_CREDIBILITY_SCORE = 50;
+
+// Accounts below this score, or with any one signal this low, are flagged for review
+export const CREDIBILITY_FLAG_THRESHOLD = 40;
+export const SIGNAL_FLAG_THRESHOLD = 25;
+
+const SIGNAL_WEIGHTS: Record<CredibilitySignalKey, number> = {
+  engagement_ratio: 0.35,
+  follower_spikes: 0.3,
+  growth_divergence: 0.2,
+  comment_ratio: 0.15,
+};
+
+// Typical engagement rate range (%) by account size; larger accounts engage less
+const ENGAGEMENT_BANDS: { maxFollowers: number; min: number; max: number }[] = [
+  { maxFollowers: 10_000, min: 2, max: 12 },
+  { maxFollowers: 100_000, min: 1.2, max: 8 },
+  { maxFollowers: 1_000_000, min: 0.8, max: 5 },
+  { maxFollowers: Infinity, min: 0.4, max: 3.5 },
+];
+
+// A gain of more than this share of followers within SPIKE_WINDOW_DAYS counts as a spike
+const SPIKE_GROWTH = 0.2;
+const SPIKE_MIN_FOLLOWERS = 500;
+const SPIKE_WINDOW_DAYS = 7;
+const SPIKE_PENALTY = 35;
+
+// Comments as a share of likes; organic posts usually sit between these
+const MIN_COMMENT_RATIO = 0.005;
+const MAX_COMMENT_RATIO = 0.2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const clamp = (value: number): number => Math.max(0, Math.min(100, Math.round(value)));
+
+const formatPercent = (value: number): string => `${Math.round(value * 1000) / 10}%`;
+
+function scoreEngagementRatio(input: AuthenticityInput): CredibilitySignal {
+  const base = { key: 'engagement_ratio' as const, label: 'Engagement for account size', weight: SIGNAL_WEIGHTS.engagement_ratio };
+  if (input.followers <= 0) {
+    return { ...base, score: null, detail: 'No follower count recorded' };
+  }
+  if (input.engagementRate <= 0) {
+    return { ...base, score: null, detail: 'No engagement rate recorded' };
+  }
+
+  const band = ENGAGEMENT_BANDS.find(candidate => input.followers <= candidate.maxFollowers)!;
+  const rate = input.engagementRate;
+
+  if (rate < band.min) {
+    // Falls to zero at a quarter of the expected minimum
+    const score = clamp(((rate - band.min / 4) / (band.min * 0.75)) * 100);
+    return { ...base, score, detail: `${rate}% engagement is below the ${band.min}% expected for this account size, which suggests inactive or bought followers` };
+  }
+  if (rate > band.max) {
+    // Unusually high engagement points to pods or bought likes, but is weaker evidence
+    const score = clamp(100 - ((rate - band.max) / (band.max * 2)) * 60);
+    return { ...base, score, detail: `${rate}% engagement is above the ${band.max}% usually seen for this account size` };
+  }
+  return { ...base, score: 100, detail: `${rate}% engagement is typical for this account size` };
+}
+
+function scoreFollowerSpikes(history: AuthenticitySnapshot[]): CredibilitySignal {
+  const base = { key: 'follower_spikes' as const, label: 'Sudden follower jumps', weight: SIGNAL_WEIGHTS.follower_spikes };
+  if (history.length < 2) {
+    return { ...base, score: null, detail: 'Not enough follower history yet' };
+  }
+
+  let spikes = 0;
+  let largest = 0;
+  for (let i = 1; i < history.length; i++) {
+    const previous = history[i - 1];
+    const current = history[i];
+    const days = (new Date(current.capturedAt).getTime() - new Date(previous.capturedAt).getTime()) / DAY_MS;
+    const gained = current.followers - previous.followers;
+    if (previous.followers <= 0 || days > SPIKE_WINDOW_DAYS) continue;
+
+    const growth = gained / previous.followers;
+    if (growth > SPIKE_GROWTH && gained >= SPIKE_MIN_FOLLOWERS) {
+      spikes++;
+      largest = Math.max(largest, growth);
+    }
+  }
+
+  return spikes === 0
+    ? { ...base, score: 100, detail: 'Follower growth has been gradual' }
+    : {
+        ...base,
+        score: clamp(100 - spikes * SPIKE_PENALTY),
+        detail: `${spikes} jump${spikes === 1 ? '' : 's'} of more than ${formatPercent(SPIKE_GROWTH)} within ${SPIKE_WINDOW_DAYS} days (largest ${formatPercent(largest)})`
+      };
+}
+
+function scoreGrowthDivergence(history: AuthenticitySnapshot[]): CredibilitySignal {
+  const base = { key: 'growth_divergence' as const, label: 'Engagement keeping up with growth', weight: SIGNAL_WEIGHTS.growth_divergence };
+  if (history.length < 2) {
+    return { ...base, score: null, detail: 'Not enough history yet' };
+  }
+
+  const first = history[0];
+  const last = history[history.length - 1];
+  if (first.followers <= 0 || first.engagementRate <= 0) {
+    return { ...base, score: null, detail: 'Not enough history yet' };
+  }
+
+  const followerGrowth = (last.followers - first.followers) / first.followers;
+  const engagementChange = (last.engagementRate - first.engagementRate) / first.engagementRate;
+
+  // Real new followers engage; bought ones dilute the rate
+  if (followerGrowth > 0.3 && engagementChange < -0.4) {
+    const score = clamp(100 + engagementChange * 120);
+    return { ...base, score, detail: `Followers grew ${formatPercent(followerGrowth)} while engagement fell ${formatPercent(-engagementChange)}` };
+  }
+  return { ...base, score: 100, detail: 'Engagement has kept pace with follower growth' };
+}
+
+function scoreCommentRatio(input: AuthenticityInput): CredibilitySignal {
+  const base = { key: 'comment_ratio' as const, label: 'Comments relative to likes', weight: SIGNAL_WEIGHTS.comment_ratio };
+  if (input.averageLikes === null || input.averageComments === null || input.averageLikes <= 0) {
+    return { ...base, score: null, detail: 'Likes and comments are not available for this account' };
+  }
+
+  const ratio = input.averageComments / input.averageLikes;
+  if (ratio < MIN_COMMENT_RATIO) {
+    return { ...base, score: clamp((ratio / MIN_COMMENT_RATIO) * 60), detail: `Only ${formatPercent(ratio)} as many comments as likes, a common sign of bought likes` };
+  }
+  if (ratio > MAX_COMMENT_RATIO) {
+    return { ...base, score: clamp(100 - ((ratio - MAX_COMMENT_RATIO) / MAX_COMMENT_RATIO) * 50), detail: `${formatPercent(ratio)} as many comments as likes, which is typical of engagement pods` };
+  }
+  return { ...base, score: 100, detail: `${formatPercent(ratio)} as many comments as likes is typical` };
+}
+
+/**
+ * Score how authentic an account's audience looks
+ *
+ * @param input Current metrics and the account's snapshot history
+ * @returns The credibility score, whether it should be flagged, and every signal
+ */
+export function assessAudienceAuthenticity(input: AuthenticityInput): CredibilityAssessment {
+  const history = [...input.history].sort(
+    (a, b) => new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime()
+  );
+
+  const signals = [
+    scoreEngagementRatio(input),
+    scoreFollowerSpikes(history),
+    scoreGrowthDivergence(history),
+    scoreCommentRatio(input),
+  ];
+
+  const scored = signals.filter(signal => signal.score !== null);
+  // Weights add up to 1, so this is the share of the evidence that was available
+  const totalWeight = scored.reduce((sum, signal) => sum + signal.weight, 0);
+  const average = totalWeight === 0
+    ? DEFAULT_CREDIBILITY_SCORE
+    : scored.reduce((sum, signal) => sum + signal.score! * signal.weight, 0) / totalWeight;
+  const score = clamp(DEFAULT_CREDIBILITY_SCORE + (average - DEFAULT_CREDIBILITY_SCORE) * totalWeight);
+
+  return {
+    score,
+    flagged: score < CREDIBILITY_FLAG_THRESHOLD || scored.some(signal => signal.score! <= SIGNAL_FLAG_THRESHOLD),
+    signals
+  };
+}
@@ -0,0 +1,215 @@
+/**
+ * Audience demographics and how well they overlap an offer's target audience
+ *
+ * Influencers describe who follows them (age, gender, where they live and
+ * what they're into) and businesses describe who they want to reach. The
+ * overlap between the two feeds the audience factor of the match score.
+ */
+import { z } from "zod";
+
+export const AGE_BUCKETS = ['13-17', '18-24', '25-34', '35-44', '45-54', '55+'] as const;
+export type AgeBucket = typeof AGE_BUCKETS[number];
+
+export const AUDIENCE_GENDERS = ['female', 'male', 'other'] as const;
+export type AudienceGender = typeof AUDIENCE_GENDERS[number];
+
+export const AUDIENCE_GENDER_LABELS: Record<AudienceGender, string> = {
+  female: 'Women',
+  male: 'Men',
+  other: 'Other',
+};
+
+export const AUDIENCE_DIMENSIONS = ['age', 'gender', 'location', 'interests'] as const;
+export type AudienceDimension = typeof AUDIENCE_DIMENSIONS[number];
+
+export const AUDIENCE_DIMENSION_LABELS: Record<AudienceDimension, string> = {
+  age: 'Age',
+  gender: 'Gender',
+  location: 'Location',
+  interests: 'Interests',
+};
+
+// Percentage of the audience
+const share = z.number().min(0).max(100);
+
+// Shares may be rounded, so allow a little over 100 in total
+const SHARE_TOLERANCE = 1;
+const addsUpTo100 = (shares: (number | undefined)[]) =>
+  shares.reduce<number>((sum, value) => sum + (value ?? 0), 0) <= 100 + SHARE_TOLERANCE;
+
+const placeShareSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  share,
+});
+
+export const audienceDataSchema = z.object({
+  ageBuckets: z.record(z.enum(AGE_BUCKETS), share)
+    .refine(buckets => addsUpTo100(Object.values(buckets)), { message: 'Age shares add up to more than 100%' })
+    .optional(),
+  genderSplit: z.record(z.enum(AUDIENCE_GENDERS), share)
+    .refine(split => addsUpTo100(Object.values(split)), { message: 'Gender shares add up to more than 100%' })
+    .optional(),
+  // Largest audiences only; places not listed are assumed to be a small share
+  topCountries: z.array(placeShareSchema).max(10)
+    .refine(places => addsUpTo100(places.map(place => place.share)), { message: 'Country shares add up to more than 100%' })
+    .optional(),
+  topCities: z.array(placeShareSchema).max(10)
+    .refine(places => addsUpTo100(places.map(place => place.share)), { message: 'City shares add up to more than 100%' })
+    .optional(),
+  interests: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+});
+
+export type AudienceData = z.infer<typeof audienceDataSchema>;
+
+// Who an offer wants to reach; dimensions left empty are not targeted
+export const audienceRequirementsSchema = z.object({
+  ageBuckets: z.array(z.enum(AGE_BUCKETS)).optional(),
+  genders: z.array(z.enum(AUDIENCE_GENDERS)).optional(),
+  countries: z.array(z.string().trim().min(1).max(100)).max(20).optional(),
+  cities: z.array(z.string().trim().min(1).max(100)).max(20).optional(),
+  interests: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+});
+
+export type AudienceRequirements = z.infer<typeof audienceRequirementsSchema>;
+
+export interface AudienceOverlapComponent {
+  dimension: AudienceDimension;
+  // 0-100, or null when the influencer hasn't described this part of their audience
+  score: number | null;
+  // Percentage of the audience (or of the requested interests) that matches
+  share: number | null;
+  detail: string;
+}
+
+export interface AudienceOverlap {
+  // Average of the components that could be scored; null when none could
+  score: number | null;
+  components: AudienceOverlapComponent[];
+}
+
+/**
+ * Read stored audience data, ignoring anything that doesn't fit the schema
+ */
+export function parseAudienceData(value: unknown): AudienceData | null {
+  const parsed = audienceDataSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Read stored audience requirements, ignoring anything that doesn't fit the schema
+ */
+export function parseAudienceRequirements(value: unknown): AudienceRequirements | null {
+  const parsed = audienceRequirementsSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Whether the requirements target anything at all
+ */
+export function hasAudienceTargeting(requirements: AudienceRequirements | null | undefined): requirements is AudienceRequirements {
+  return !!requirements && Object.values(requirements).some(values => values && values.length > 0);
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+const round = (value: number) => Math.round(value);
+
+/**
+ * Score how much of an influencer's audience falls within an offer's target
+ *
+ * @param data The influencer's audience
+ * @param requirements The offer's target audience
+ * @param fullOverlapShare Share of the audience (%) inside the target that earns full marks
+ */
+export function calculateAudienceOverlap(
+  data: AudienceData | null,
+  requirements: AudienceRequirements,
+  fullOverlapShare: number
+): AudienceOverlap {
+  const components: AudienceOverlapComponent[] = [];
+  const fromShare = (value: number) => Math.min(100, round((value / fullOverlapShare) * 100));
+
+  if (requirements.ageBuckets?.length) {
+    const buckets = data?.ageBuckets;
+    const total = buckets ? Object.values(buckets).reduce<number>((sum, value) => sum + (value ?? 0), 0) : 0;
+    if (!buckets || total <= 0) {
+      components.push({ dimension: 'age', score: null, share: null, detail: 'No age breakdown on the profile' });
+    } else {
+      // Scale partial breakdowns up to the whole audience
+      const inTarget = round((requirements.ageBuckets.reduce((sum, bucket) => sum + (buckets[bucket] ?? 0), 0) / total) * 100);
+      components.push({
+        dimension: 'age',
+        score: fromShare(inTarget),
+        share: inTarget,
+        detail: `${inTarget}% of the audience is aged ${requirements.ageBuckets.join(', ')}`,
+      });
+    }
+  }
+
+  if (requirements.genders?.length) {
+    const split = data?.genderSplit;
+    const total = split ? Object.values(split).reduce<number>((sum, value) => sum + (value ?? 0), 0) : 0;
+    if (!split || total <= 0) {
+      components.push({ dimension: 'gender', score: null, share: null, detail: 'No gender split on the profile' });
+    } else {
+      const inTarget = round((requirements.genders.reduce((sum, gender) => sum + (split[gender] ?? 0), 0) / total) * 100);
+      components.push({
+        dimension: 'gender',
+        score: fromShare(inTarget),
+        share: inTarget,
+        detail: `${inTarget}% of the audience is ${requirements.genders.map(gender => AUDIENCE_GENDER_LABELS[gender].toLowerCase()).join(' or ')}`,
+      });
+    }
+  }
+
+  const targetCountries = requirements.countries ?? [];
+  const targetCities = requirements.cities ?? [];
+  if (targetCountries.length > 0 || targetCities.length > 0) {
+    const shareIn = (places: { name: string; share: number }[] | undefined, targets: string[]) => {
+      const wanted = new Set(targets.map(normalizeName));
+      return (places ?? []).filter(place => wanted.has(normalizeName(place.name))).reduce((sum, place) => sum + place.share, 0);
+    };
+    const known = (targetCountries.length > 0 && !!data?.topCountries?.length) || (targetCities.length > 0 && !!data?.topCities?.length);
+    if (!known) {
+      components.push({ dimension: 'location', score: null, share: null, detail: 'No audience locations on the profile' });
+    } else {
+      // Cities are more specific, so the better of the two counts
+      const inTarget = round(Math.max(
+        targetCountries.length > 0 ? shareIn(data?.topCountries, targetCountries) : 0,
+        targetCities.length > 0 ? shareIn(data?.topCities, targetCities) : 0
+      ));
+      components.push({
+        dimension: 'location',
+        score: fromShare(inTarget),
+        share: inTarget,
+        detail: `${inTarget}% of the audience is in ${[...targetCities, ...targetCountries].join(', ')}`,
+      });
+    }
+  }
+
+  if (requirements.interests?.length) {
+    const interests = (data?.interests ?? []).map(normalizeName);
+    if (interests.length === 0) {
+      components.push({ dimension: 'interests', score: null, share: null, detail: 'No audience interests on the profile' });
+    } else {
+      const matched = requirements.interests.filter(wanted => {
+        const target = normalizeName(wanted);
+        return interests.some(interest => interest.includes(target) || target.includes(interest));
+      });
+      const inTarget = round((matched.length / requirements.interests.length) * 100);
+      components.push({
+        dimension: 'interests',
+        score: inTarget,
+        share: inTarget,
+        detail: matched.length > 0
+          ? `Audience shares ${matched.length} of ${requirements.interests.length} interests: ${matched.join(', ')}`
+          : `Audience shares none of the interests ${requirements.interests.join(', ')}`,
+      });
+    }
+  }
+
+  const scored = components.filter(component => component.score !== null);
+  return {
+    score: scored.length > 0 ? round(scored.reduce((sum, component) => sum + component.score!, 0) / scored.length) : null,
+    components,
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Campaigns shared by the server and client
+ *
+ * A campaign groups a business's offers, often one per platform, under a
+ * single objective, date range and budget. Its offers only take creators
+ * between the start and end dates. Money committed to creators on any of its
+ * offers counts against the budget; once spend reaches the pacing threshold
+ * the campaign's offers are paused so the cap is not overrun, and they reopen
+ * if refunds bring spend back down. KPI targets are tracked against what the
+ * campaign's creators actually delivered.
+ */
+import { z } from "zod";
+
+/**
+ * A marketing objective a campaign can be built around
+ */
+export interface CampaignObjective {
+  name: string;
+  description: string;
+  suitableFor: string[];
+  recommendedKPIs: string[];
+  suggestedContentTypes: string[];
+  suggestedPlatforms: string[];
+  timeframeRecommendation: number;
+}
+
+export const CAMPAIGN_OBJECTIVE_IDS = [
+  'brand_awareness',
+  'product_education',
+  'social_proof',
+  'conversion',
+  'content_creation',
+] as const;
+export type CampaignObjectiveId = typeof CAMPAIGN_OBJECTIVE_IDS[number];
+
+export const CAMPAIGN_OBJECTIVES: Record<CampaignObjectiveId, CampaignObjective> = {
+  brand_awareness: {
+    name: 'Brand Awareness',
+    description: 'Introduce your brand to new audiences and increase overall visibility',
+    suitableFor: ['new brands', 'product launches', 'rebranding'],
+    recommendedKPIs: ['reach', 'impressions', 'profile visits', 'follower growth'],
+    suggestedContentTypes: ['image', 'reel', 'story'],
+    suggestedPlatforms: ['instagram', 'tiktok'],
+    timeframeRecommendation: 14
+  },
+  product_education: {
+    name: 'Product Education',
+    description: 'Explain product features, benefits, and use cases to potential customers',
+    suitableFor: ['complex products', 'new technology', 'unique selling propositions'],
+    recommendedKPIs: ['engagement rate', 'video completion rate', 'saved posts', 'comments'],
+    suggestedContentTypes: ['video', 'carousel', 'tutorial'],
+    suggestedPlatforms: ['instagram', 'youtube'],
+    timeframeRecommendation: 21
+  },
+  social_proof: {
+    name: 'Social Proof & Credibility',
+    description: 'Build trust through authentic reviews and demonstrations',
+    suitableFor: ['premium products', 'competitive markets', 'trust-sensitive niches'],
+    recommendedKPIs: ['engagement quality', 'comments sentiment', 'saved posts', 'shares'],
+    suggestedContentTypes: ['review', 'testimonial', 'before/after'],
+    suggestedPlatforms: ['instagram', 'youtube', 'tiktok'],
+    timeframeRecommendation: 30
+  },
+  conversion: {
+    name: 'Direct Conversion',
+    description: 'Drive immediate sales or sign-ups through strong calls-to-action',
+    suitableFor: ['limited-time offers', 'promotions', 'seasonal products'],
+    recommendedKPIs: ['click-through rate', 'conversion rate', 'sales', 'cost per acquisition'],
+    suggestedContentTypes: ['promotional', 'demo', 'tutorial with offer'],
+    suggestedPlatforms: ['instagram', 'tiktok'],
+    timeframeRecommendation: 14
+  },
+  content_creation: {
+    name: 'Content Creation',
+    description: 'Generate high-quality content that can be repurposed across marketing channels',
+    suitableFor: ['brands with limited content resources', 'visual products', 'multi-channel marketing'],
+    recommendedKPIs: ['content quality', 'repurposing potential', 'usage rights value'],
+    suggestedContentTypes: ['high-production image', 'professional video', 'diverse assets'],
+    suggestedPlatforms: ['instagram', 'youtube'],
+    timeframeRecommendation: 30
+  }
+};
+
+// KPIs Somie can measure from claims and verified posts
+export const CAMPAIGN_KPI_METRICS = ['creators', 'posts', 'reach'] as const;
+export type CampaignKpiMetric = typeof CAMPAIGN_KPI_METRICS[number];
+
+export const CAMPAIGN_KPI_LABELS: Record<CampaignKpiMetric, string> = {
+  creators: 'Creators',
+  posts: 'Posts',
+  reach: 'Reach',
+};
+
+export const campaignKpiTargetsSchema = z.object({
+  creators: z.number().int().positive().optional(),
+  posts: z.number().int().positive().optional(),
+  reach: z.number().int().positive().optional(),
+});
+
+export type CampaignKpiTargets = z.infer<typeof campaignKpiTargetsSchema>;
+
+// Percent of the budget at which the campaign's offers stop taking creators
+export const DEFAULT_PACING_THRESHOLD = 90;
+export const MIN_PACING_THRESHOLD = 50;
+
+export const campaignInputSchema = z.object({
+  name: z.string().trim().min(1, "Name your campaign").max(100),
+  description: z.string().trim().max(1000).nullable().optional(),
+  objective: z.enum(CAMPAIGN_OBJECTIVE_IDS),
+  // Whole dollars, like offers.rewardAmount
+  budget: z.number().int().positive("Set a budget for the campaign"),
+  pacingThreshold: z.number().int().min(MIN_PACING_THRESHOLD).max(100).default(DEFAULT_PACING_THRESHOLD),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  kpiTargets: campaignKpiTargetsSchema.default({}),
+}).refine(input => input.endsAt > input.startsAt, {
+  message: "The end date must be after the start date",
+  path: ["endsAt"],
+});
+
+export type CampaignInput = z.infer<typeof campaignInputSchema>;
+
+// on_track while under the pacing threshold, near_cap once offers are paused, capped at or over budget
+export type CampaignPacingStatus = 'on_track' | 'near_cap' | 'capped';
+
+/**
+ * Where a campaign's spend stands against its budget
+ *
+ * @param spent Committed spend in cents
+ * @param budget Budget in whole dollars
+ * @param pacingThreshold Percent of the budget at which offers pause
+ */
+export function getPacingStatus(spent: number, budget: number, pacingThreshold: number): CampaignPacingStatus {
+  const budgetCents = budget * 100;
+  if (spent >= budgetCents) return 'capped';
+  if (spent >= budgetCents * pacingThreshold / 100) return 'near_cap';
+  return 'on_track';
+}
+
+export interface CampaignKpiProgress {
+  metric: CampaignKpiMetric;
+  target: number | null;
+  actual: number;
+}
+
+/**
+ * A campaign with its spend, offers and KPI progress, as the business sees it
+ */
+export interface CampaignRollup {
+  id: number;
+  name: string;
+  description: string | null;
+  objectiveId: CampaignObjectiveId;
+  objective: CampaignObjective;
+  startsAt: string;
+  endsAt: string;
+  budget: number;
+  pacingThreshold: number;
+  // Cents; held is committed to creators still working, released has been paid out
+  spend: {
+    held: number;
+    released: number;
+    total: number;
+    remaining: number;
+  };
+  pacingStatus: CampaignPacingStatus;
+  offers: {
+    id: number;
+    title: string;
+    status: string;
+    spent: number;
+  }[];
+  kpis: CampaignKpiProgress[];
+}
@@ -0,0 +1,152 @@
+/**
+ * Offer claim lifecycle shared by the server and client
+ *
+ * Every claim status change goes through this state machine: the server
+ * rejects transitions that are not listed here, and the UI uses the same
+ * table to decide which actions to offer.
+ */
+
+export const CLAIM_STATUSES = [
+  'applied',
+  'accepted',
+  'in_progress',
+  'submitted',
+  'under_review',
+  'revision_requested',
+  'completed',
+  'rejected',
+  'expired',
+  'cancelled',
+] as const;
+
+export type ClaimStatus = typeof CLAIM_STATUSES[number];
+
+/**
+ * Who triggered a status change; "system" covers scheduled jobs and automated verification
+ */
+export type ClaimActorType = 'influencer' | 'business' | 'admin' | 'system';
+
+/**
+ * Legal transitions and the actors allowed to make them
+ * Admins may perform any legal transition.
+ */
+export const CLAIM_TRANSITIONS: Record<ClaimStatus, Partial<Record<ClaimStatus, ClaimActorType[]>>> = {
+  applied: {
+    accepted: ['business'],
+    rejected: ['business'],
+    cancelled: ['influencer'],
+    expired: ['system'],
+  },
+  accepted: {
+    in_progress: ['influencer'],
+    submitted: ['influencer'],
+    cancelled: ['influencer', 'business', 'system'],
+    expired: ['system'],
+  },
+  in_progress: {
+    submitted: ['influencer'],
+    cancelled: ['influencer', 'business'],
+    expired: ['system'],
+  },
+  submitted: {
+    under_review: ['business', 'system'],
+    revision_requested: ['business', 'system'],
+    completed: ['business', 'system'],
+    rejected: ['business'],
+  },
+  under_review: {
+    revision_requested: ['business', 'system'],
+    completed: ['business', 'system'],
+    rejected: ['business'],
+  },
+  revision_requested: {
+    in_progress: ['influencer'],
+    submitted: ['influencer'],
+    cancelled: ['influencer', 'business'],
+    expired: ['system'],
+  },
+  completed: {},
+  rejected: {},
+  expired: {},
+  cancelled: {},
+};
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  applied: 'Applied',
+  accepted: 'Accepted',
+  in_progress: 'In Progress',
+  submitted: 'Submitted',
+  under_review: 'Under Review',
+  revision_requested: 'Revision Requested',
+  completed: 'Completed',
+  rejected: 'Rejected',
+  expired: 'Expired',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Free-text statuses written before the state machine existed, mapped to their replacements
+ */
+export const LEGACY_CLAIM_STATUSES: Record<string, ClaimStatus> = {
+  incomplete: 'accepted',
+  approved: 'accepted',
+  pending: 'submitted',
+  changes_needed: 'revision_requested',
+};
+
+/**
+ * Claims that are still being worked on (not yet submitted)
+ */
+export const ACTIVE_CLAIM_STATUSES: ClaimStatus[] = ['accepted', 'in_progress', 'revision_requested'];
+
+/**
+ * Claims that hold one of the offer's creator slots
+ */
+export const ACCEPTED_CLAIM_STATUSES: ClaimStatus[] = [
+  'accepted',
+  'in_progress',
+  'submitted',
+  'under_review',
+  'revision_requested',
+  'completed',
+];
+
+/**
+ * Claims that count against an offer's maxClaims capacity (open applications included)
+ */
+export const SLOT_HOLDING_CLAIM_STATUSES: ClaimStatus[] = ['applied', ...ACCEPTED_CLAIM_STATUSES];
+
+/**
+ * Claims waiting on the business or on verification
+ */
+export const AWAITING_REVIEW_CLAIM_STATUSES: ClaimStatus[] = ['submitted', 'under_review'];
+
+export function isClaimStatus(value: unknown): value is ClaimStatus {
+  return typeof value === 'string' && (CLAIM_STATUSES as readonly string[]).includes(value);
+}
+
+export function isTerminalClaimStatus(status: ClaimStatus): boolean {
+  return Object.keys(CLAIM_TRANSITIONS[status]).length === 0;
+}
+
+/**
+ * Check whether a claim may move from one status to another
+ *
+ * @param from Current status
+ * @param to Requested status
+ * @param actor Who is making the change; omit to check only that the transition exists
+ */
+export function canTransitionClaim(from: ClaimStatus, to: ClaimStatus, actor?: ClaimActorType): boolean {
+  const actors = CLAIM_TRANSITIONS[from][to];
+  if (!actors) return false;
+  if (!actor || actor === 'admin') return true;
+  return actors.includes(actor);
+}
+
+/**
+ * List the statuses an actor can move a claim to from its current status
+ */
+export function getAllowedClaimTransitions(from: ClaimStatus, actor: ClaimActorType): ClaimStatus[] {
+  return (Object.keys(CLAIM_TRANSITIONS[from]) as ClaimStatus[])
+    .filter(to => canTransitionClaim(from, to, actor));
+}
@@ -0,0 +1,109 @@
+/**
+ * Creator CRM: a business's shortlists, private notes and history with creators
+ *
+ * Everything here is private to the business that wrote it; creators never
+ * see which lists they are on or what was noted about them. Invitations
+ * (see offer-invitations.ts) are the one thing here a creator is shown.
+ */
+import { z } from "zod";
+import type { ClaimStatus } from "./claim-lifecycle";
+import type { OfferInvitationStatus } from "./offer-invitations";
+
+export const MAX_SHORTLIST_NAME_LENGTH = 80;
+export const MAX_CREATOR_TAGS = 20;
+export const MAX_CREATOR_NOTES_LENGTH = 5000;
+
+// Messages shown per creator in relationship history
+export const RECENT_MESSAGE_LIMIT = 20;
+
+export const shortlistInputSchema = z.object({
+  name: z.string().trim().min(1, "Give the list a name").max(MAX_SHORTLIST_NAME_LENGTH),
+  description: z.string().trim().max(500).nullable().optional(),
+});
+
+export type ShortlistInput = z.infer<typeof shortlistInputSchema>;
+
+export const creatorNotesInputSchema = z.object({
+  notes: z.string().max(MAX_CREATOR_NOTES_LENGTH).nullable().optional(),
+  tags: z.array(z.string().trim().toLowerCase().min(1).max(40))
+    .max(MAX_CREATOR_TAGS)
+    .transform(tags => Array.from(new Set(tags)))
+    .optional(),
+  // The business's own 1-5 rating of working with the creator
+  rating: z.number().int().min(1).max(5).nullable().optional(),
+});
+
+export type CreatorNotesInput = z.infer<typeof creatorNotesInputSchema>;
+
+export interface ShortlistSummary {
+  id: number;
+  name: string;
+  description: string | null;
+  influencerIds: number[];
+  updatedAt: string | null;
+}
+
+export interface CreatorSummary {
+  id: number;
+  displayName: string;
+  platform: string;
+  niche: string | null;
+  location: string | null;
+  followerCount: number;
+  engagementRate: number;
+  credibilityScore: number;
+}
+
+// A shortlisted creator with the business's notes about them
+export interface ShortlistMemberView {
+  creator: CreatorSummary;
+  tags: string[];
+  rating: number | null;
+  addedAt: string | null;
+}
+
+export interface CreatorClaimHistory {
+  claimId: number;
+  offerId: number;
+  offerTitle: string;
+  status: ClaimStatus;
+  createdAt: string | null;
+  completedAt: string | null;
+  messageCount: number;
+  lastMessageAt: string | null;
+}
+
+export interface CreatorMessageHistory {
+  id: number;
+  claimId: number;
+  offerTitle: string;
+  // Sent by the business rather than the creator
+  fromBusiness: boolean;
+  content: string;
+  sentAt: string | null;
+}
+
+export interface CreatorInvitationHistory {
+  id: number;
+  offerId: number;
+  offerTitle: string;
+  status: OfferInvitationStatus;
+  createdAt: string | null;
+  expiresAt: string | null;
+}
+
+export interface CreatorRelationship {
+  creator: CreatorSummary;
+  notes: string | null;
+  tags: string[];
+  rating: number | null;
+  shortlistIds: number[];
+  claims: CreatorClaimHistory[];
+  recentMessages: CreatorMessageHistory[];
+  invitations: CreatorInvitationHistory[];
+  stats: {
+    totalClaims: number;
+    completedClaims: number;
+    totalMessages: number;
+  };
+}
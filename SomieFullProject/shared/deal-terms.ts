@@ -0,0 +1,107 @@
+/**
+ * Claim negotiation and deal terms shared by the server and client
+ *
+ * Before work starts, the creator and the business can trade proposals for a
+ * different reward, number of posts or timeframe on a claim. Only one
+ * proposal is open at a time: answering it with new terms counters it, and
+ * accepting it freezes the terms into the next deal terms version. The
+ * latest version, not the offer row, is what escrow holds and post
+ * monitoring go by. Version 1 is a copy of the offer taken when the claim
+ * was made.
+ */
+import { z } from "zod";
+import type { ClaimStatus } from "./claim-lifecycle";
+
+// accepting holds a proposal while escrow is resized for it, so nobody else can answer it meanwhile
+export const DEAL_PROPOSAL_STATUSES = ['pending', 'accepting', 'accepted', 'countered', 'declined', 'withdrawn'] as const;
+export type DealProposalStatus = typeof DEAL_PROPOSAL_STATUSES[number];
+
+// Proposals still waiting on an outcome
+export const OPEN_PROPOSAL_STATUSES: DealProposalStatus[] = ['pending', 'accepting'];
+
+export const DEAL_PARTIES = ['influencer', 'business'] as const;
+export type DealParty = typeof DEAL_PARTIES[number];
+
+// Terms are fixed once the creator starts working
+export const NEGOTIABLE_CLAIM_STATUSES: ClaimStatus[] = ['applied', 'accepted'];
+
+export const MAX_PROPOSAL_NOTE_LENGTH = 1000;
+export const MAX_NEGOTIATED_POSTS = 50;
+export const MAX_NEGOTIATED_TIMEFRAME_DAYS = 365;
+
+export const dealProposalInputSchema = z.object({
+  reward: z.string().trim().min(1).max(200).optional(),
+  // Whole dollars, like offers.rewardAmount; only for monetary offers
+  rewardAmount: z.number().int().positive().optional(),
+  postsRequired: z.number().int().min(1).max(MAX_NEGOTIATED_POSTS).optional(),
+  timeframe: z.number().int().min(1).max(MAX_NEGOTIATED_TIMEFRAME_DAYS).optional(),
+  note: z.string().trim().max(MAX_PROPOSAL_NOTE_LENGTH).nullable().optional(),
+}).refine(
+  input => input.reward !== undefined || input.rewardAmount !== undefined
+    || input.postsRequired !== undefined || input.timeframe !== undefined,
+  { message: "Propose a change to at least one term" }
+);
+
+export type DealProposalInput = z.infer<typeof dealProposalInputSchema>;
+
+/**
+ * The negotiable part of an offer
+ */
+export interface DealTermsSnapshot {
+  reward: string;
+  rewardType: string;
+  rewardAmount: number | null;
+  postsRequired: number;
+  timeframe: number;
+}
+
+/**
+ * The terms a claim starts with, before anything is negotiated
+ */
+export function termsFromOffer(offer: DealTermsSnapshot): DealTermsSnapshot {
+  return {
+    reward: offer.reward,
+    rewardType: offer.rewardType,
+    rewardAmount: offer.rewardAmount,
+    postsRequired: offer.postsRequired,
+    timeframe: offer.timeframe,
+  };
+}
+
+export interface DealProposalView {
+  id: number;
+  proposedBy: DealParty;
+  status: DealProposalStatus;
+  reward: string | null;
+  rewardAmount: number | null;
+  postsRequired: number | null;
+  timeframe: number | null;
+  note: string | null;
+  createdAt: string | null;
+  respondedAt: string | null;
+}
+
+// What the rate calculator suggests for the creator, so both sides have a reference point
+export interface DealRateReference {
+  platform: string;
+  currency: string;
+  minRate: number;
+  idealRate: number;
+  maxRate: number;
+  // The ideal rate multiplied by the posts in the current terms
+  idealTotal: number;
+}
+
+/**
+ * A claim's negotiation as either party sees it
+ */
+export interface NegotiationView {
+  claimId: number;
+  terms: DealTermsSnapshot & { version: number; agreedAt: string | null };
+  proposals: DealProposalView[];
+  // Whether proposals can still be made on the claim
+  open: boolean;
+  // The party who has to answer the pending proposal, if there is one
+  awaitingResponseFrom: DealParty | null;
+  rateReference: DealRateReference | null;
+}
@@ -0,0 +1,171 @@
+/**
+ * Sponsorship disclosure rules and the caption checker built on them
+ *
+ * Creators must label paid posts clearly and where the audience sees them
+ * before tapping "more". Only hashtags and explicit labels such as "Ad:" or
+ * "Paid partnership with" count; the same words in running text ("not
+ * sponsored") do not. The US (FTC) and UK (ASA) accept different labels:
+ * the ASA does not consider "#sponsored" or "paid partnership" on their own
+ * to be clear enough, so UK offers need "#ad" or an "Advert:" label. The
+ * jurisdiction comes from the offer's location.
+ */
+
+import { getPlatform } from "./platforms";
+
+export const DISCLOSURE_STATUSES = ['pending', 'passed', 'failed', 'overridden'] as const;
+export type DisclosureStatus = typeof DISCLOSURE_STATUSES[number];
+
+// A claim can only be completed from one of these disclosure statuses
+export const CLEARED_DISCLOSURE_STATUSES: DisclosureStatus[] = ['passed', 'overridden'];
+
+export const DISCLOSURE_STATUS_LABELS: Record<DisclosureStatus, string> = {
+  pending: 'Not checked yet',
+  passed: 'Disclosed',
+  failed: 'Missing disclosure',
+  overridden: 'Approved by business',
+};
+
+export type DisclosureJurisdiction = 'US' | 'UK';
+
+// first_line and above_fold pass; a buried marker is hidden behind "more"
+export type DisclosurePosition = 'first_line' | 'above_fold' | 'buried' | 'missing';
+
+export interface DisclosureCheck {
+  jurisdiction: DisclosureJurisdiction;
+  authority: string;
+  platform: string;
+  passed: boolean;
+  marker: string | null;
+  position: DisclosurePosition;
+  issues: string[];
+}
+
+interface JurisdictionRules {
+  authority: string;
+  // Hashtags, or labels that only read as a disclosure in this exact form
+  accepted: string[];
+  // Labels creators use that the regulator says are too vague on their own
+  insufficient: string[];
+}
+
+const JURISDICTION_RULES: Record<DisclosureJurisdiction, JurisdictionRules> = {
+  US: {
+    authority: 'FTC',
+    accepted: [
+      '#ad', '#advertisement', '#sponsored', '#paidpartnership',
+      'ad:', 'ad |', 'advertisement:', 'sponsored by', 'paid partnership with'
+    ],
+    insufficient: ['#sp', '#spon', '#collab', '#partner', '#ambassador', '#thanks'],
+  },
+  UK: {
+    authority: 'ASA',
+    accepted: ['#ad', '#advert', '#advertisement', 'ad:', 'ad |', 'advert:', 'advert |', 'advertisement:'],
+    insufficient: ['#sp', '#spon', '#sponsored', '#collab', '#partner', '#ambassador', '#gifted', 'sponsored by', 'paid partnership with'],
+  },
+};
+
+// Characters shown before a caption is truncated behind "more" on unknown platforms
+const DEFAULT_FOLD_LENGTH = 125;
+
+const UK_LOCATION_PATTERN = /\b(uk|u\.k\.|united kingdom|great britain|britain|england|scotland|wales|northern ireland|london|manchester|birmingham|glasgow|edinburgh|liverpool|bristol|leeds|cardiff|belfast)\b/i;
+
+/**
+ * Work out which regulator's rules apply from an offer location
+ * Anywhere not recognised as the UK uses the FTC rules.
+ */
+export function getDisclosureJurisdiction(location: string | null | undefined): DisclosureJurisdiction {
+  return location && UK_LOCATION_PATTERN.test(location) ? 'UK' : 'US';
+}
+
+// A marker right after one of these denies the sponsorship instead of disclosing it
+const NEGATION_PATTERN = /\b(?:not|no|non|never|isn'?t|wasn'?t|aren'?t)[\s-]*$/i;
+
+// Whole-word match so #ad does not match #adventure and "ad:" does not match
+// "bad:"; negated markers ("not #sponsored") are skipped
+const findMarker = (caption: string, marker: string): number => {
+  const escaped = marker.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+');
+  const prefix = marker.startsWith('#') ? '' : '(?:^|[^\\w#])';
+  const suffix = /\w$/.test(marker) ? '(?![\\w])' : '';
+  const pattern = new RegExp(`${prefix}(${escaped})${suffix}`, 'gi');
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(caption)) !== null) {
+    const index = match.index + match[0].length - match[1].length;
+    if (!NEGATION_PATTERN.test(caption.slice(0, index))) return index;
+  }
+  return -1;
+};
+
+/**
+ * Check that a caption discloses the sponsorship clearly and prominently
+ *
+ * @param caption The post caption
+ * @param platform Platform the post is on, used for the truncation length
+ * @param location The offer location, used to pick the jurisdiction
+ */
+export function checkDisclosure(caption: string, platform: string, location: string | null | undefined): DisclosureCheck {
+  const jurisdiction = getDisclosureJurisdiction(location);
+  const rules = JURISDICTION_RULES[jurisdiction];
+  const foldLength = getPlatform(platform)?.captionFoldLength ?? DEFAULT_FOLD_LENGTH;
+  const issues: string[] = [];
+
+  // Use the earliest accepted marker, since that is the one the audience sees
+  let marker: string | null = null;
+  let index = -1;
+  for (const candidate of rules.accepted) {
+    const found = findMarker(caption, candidate);
+    if (found !== -1 && (index === -1 || found < index)) {
+      marker = candidate;
+      index = found;
+    }
+  }
+
+  let position: DisclosurePosition = 'missing';
+  if (index !== -1) {
+    const firstLineEnd = caption.indexOf('\n');
+    if (index >= foldLength) {
+      position = 'buried';
+      issues.push(`${marker} appears after the first ${foldLength} characters, where ${platform} hides it behind "more". Move it to the start of the caption.`);
+    } else {
+      position = firstLineEnd === -1 || index < firstLineEnd ? 'first_line' : 'above_fold';
+    }
+  } else {
+    const vague = rules.insufficient.filter(label => findMarker(caption, label) !== -1);
+    issues.push(vague.length > 0
+      ? `${vague.join(', ')} is not a clear enough disclosure under ${rules.authority} guidance. Use #ad at the start of the caption.`
+      : `The caption does not disclose the sponsorship. Add #ad at the start of the caption.`);
+  }
+
+  return {
+    jurisdiction,
+    authority: rules.authority,
+    platform,
+    passed: position === 'first_line' || position === 'above_fold',
+    marker,
+    position,
+    issues
+  };
+}
+
+/**
+ * Make sure a suggested caption would pass the disclosure check
+ * Captions that would fail get #ad added to the front.
+ */
+export function ensureDisclosure(caption: string, platform: string, location: string | null | undefined): string {
+  return checkDisclosure(caption, platform, location).passed ? caption : `#ad ${caption}`;
+}
+
+/**
+ * Plain-language disclosure guidance for a content brief
+ */
+export function getDisclosureGuidance(platform: string, location: string | null | undefined): string[] {
+  const jurisdiction = getDisclosureJurisdiction(location);
+  const rules = JURISDICTION_RULES[jurisdiction];
+  const foldLength = getPlatform(platform)?.captionFoldLength ?? DEFAULT_FOLD_LENGTH;
+
+  return [
+    `Label the post with ${jurisdiction === 'UK' ? '#ad or "Advert:"' : '#ad or #sponsored'} (${rules.authority} rules apply)`,
+    `Put the label in the first ${foldLength} characters so it shows before "more"`,
+    `Don't rely on ${rules.insufficient.slice(0, 4).join(', ')} alone`,
+  ];
+}
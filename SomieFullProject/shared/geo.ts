@@ -0,0 +1,76 @@
+/**
+ * Coordinates and distances for location matching
+ *
+ * Business addresses, influencer locations and targeted offers are geocoded
+ * into coordinates when they are saved; matching compares those instead of
+ * the place names people typed.
+ */
+
+export interface GeoCoordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// How much of the place was resolved; a region or country is only its centre
+export type GeoPrecision = 'address' | 'city' | 'region' | 'country';
+
+export interface GeocodeResult extends GeoCoordinates {
+  label: string;
+  precision: GeoPrecision;
+  source: 'gazetteer' | 'nominatim';
+}
+
+// Largest radius a business can target around its location
+export const MAX_OFFER_RADIUS_KM = 500;
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export function distanceKm(from: GeoCoordinates, to: GeoCoordinates): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Read stored coordinates off a profile or offer
+ *
+ * @returns null unless both latitude and longitude are set
+ */
+export function getStoredCoordinates(record: {
+  latitude?: number | null;
+  longitude?: number | null;
+}): GeoCoordinates | null {
+  if (record.latitude == null || record.longitude == null) return null;
+  return { latitude: record.latitude, longitude: record.longitude };
+}
+
+/**
+ * Whether an influencer is known to be outside a radius-targeted offer's area
+ *
+ * Influencers without coordinates still see the offer; matching scores their
+ * location as missing instead.
+ */
+export function isOutsideOfferRadius(
+  offer: { latitude?: number | null; longitude?: number | null; radiusKm?: number | null },
+  influencer: { latitude?: number | null; longitude?: number | null }
+): boolean {
+  const offerPoint = getStoredCoordinates(offer);
+  const influencerPoint = getStoredCoordinates(influencer);
+  if (!offer.radiusKm || !offerPoint || !influencerPoint) return false;
+  return distanceKm(offerPoint, influencerPoint) > offer.radiusKm;
+}
+
+/**
+ * Format a distance for display, e.g. "800 m" or "24 km"
+ */
+export function formatDistance(km: number): string {
+  if (km < 1) return `${Math.round(km * 1000)} m`;
+  return km < 10 ? `${km.toFixed(1)} km` : `${Math.round(km)} km`;
+}
@@ -0,0 +1,129 @@
+/**
+ * Marketplace search: query parameters, facets and result pages
+ *
+ * Businesses search influencers and influencers search offers. Both searches
+ * take the same query string shape, return facet counts for the filters the
+ * marketplace sidebar shows, and page through results with an opaque cursor
+ * so new profiles and offers don't shift later pages.
+ */
+import { z } from "zod";
+
+// The marketplace's existing sort options; what each sorts by depends on what is searched
+export const MARKETPLACE_SORTS = ['relevance', 'engagement', 'followers', 'rating'] as const;
+export type MarketplaceSort = typeof MARKETPLACE_SORTS[number];
+
+export const FOLLOWER_TIERS = [
+  { id: 'nano', label: 'Nano (under 10K)', min: 0 },
+  { id: 'micro', label: 'Micro (10K-100K)', min: 10000 },
+  { id: 'mid', label: 'Mid-tier (100K-500K)', min: 100000 },
+  { id: 'macro', label: 'Macro (500K-1M)', min: 500000 },
+  { id: 'mega', label: 'Mega (1M+)', min: 1000000 },
+] as const;
+export type FollowerTier = typeof FOLLOWER_TIERS[number]['id'];
+
+export const REWARD_TYPE_LABELS: Record<string, string> = {
+  monetary: 'Cash',
+  product: 'Products/Services',
+  exposure: 'Exposure',
+};
+
+export const MARKETPLACE_PAGE_SIZE = 12;
+export const MAX_MARKETPLACE_PAGE_SIZE = 50;
+
+/**
+ * Tier a follower count falls in
+ */
+export function getFollowerTier(followers: number): FollowerTier {
+  let tier: FollowerTier = FOLLOWER_TIERS[0].id;
+  for (const candidate of FOLLOWER_TIERS) {
+    if (followers >= candidate.min) tier = candidate.id;
+  }
+  return tier;
+}
+
+// Repeated query parameters arrive as arrays, single ones as strings
+const listParam = <T extends z.ZodTypeAny>(item: T) => z.preprocess(
+  value => value === undefined || value === '' ? [] : Array.isArray(value) ? value : String(value).split(','),
+  z.array(item).max(20)
+);
+
+const baseQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  category: listParam(z.string().trim().min(1).max(100)),
+  platform: listParam(z.string().trim().toLowerCase().min(1).max(30)),
+  location: z.string().trim().max(100).optional(),
+  tier: listParam(z.enum(FOLLOWER_TIERS.map(tier => tier.id) as [FollowerTier, ...FollowerTier[]])),
+  sortBy: z.enum(MARKETPLACE_SORTS).default('relevance'),
+  cursor: z.string().max(500).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_MARKETPLACE_PAGE_SIZE).default(MARKETPLACE_PAGE_SIZE),
+});
+
+export const influencerSearchQuerySchema = baseQuerySchema.extend({
+  minFollowers: z.coerce.number().int().min(0).optional(),
+  maxFollowers: z.coerce.number().int().min(0).optional(),
+  minEngagement: z.coerce.number().min(0).max(100).optional(),
+  maxEngagement: z.coerce.number().min(0).max(100).optional(),
+});
+
+export type InfluencerSearchQuery = z.infer<typeof influencerSearchQuerySchema>;
+
+export const offerSearchQuerySchema = baseQuerySchema.extend({
+  rewardType: listParam(z.string().trim().min(1).max(30)),
+  tags: listParam(z.string().trim().toLowerCase().min(1).max(50)),
+});
+
+export type OfferSearchQuery = z.infer<typeof offerSearchQuerySchema>;
+
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export type InfluencerFacetName = 'category' | 'platform' | 'location' | 'tier';
+export type OfferFacetName = InfluencerFacetName | 'rewardType' | 'tags';
+
+export interface MarketplacePage<T, F extends string> {
+  items: T[];
+  // Counts for each filter's values, with every other active filter applied
+  facets: Record<F, FacetCount[]>;
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface InfluencerSearchResult {
+  id: number;
+  displayName: string;
+  platform: string;
+  platforms: string[];
+  niche: string | null;
+  location: string | null;
+  bio: string | null;
+  followerCount: number;
+  engagementRate: number;
+  credibilityScore: number;
+  followerTier: FollowerTier;
+  contentTypes: string[];
+  verified: boolean;
+}
+
+export interface OfferSearchResult {
+  id: number;
+  title: string;
+  description: string;
+  category: string;
+  reward: string;
+  rewardType: string;
+  rewardAmount: number | null;
+  contentType: string | null;
+  location: string | null;
+  tags: string[];
+  minFollowers: number;
+  createdAt: string | null;
+  business: { id: number; businessName: string; industry: string | null } | null;
+  // Only for influencers, scored against their own profile
+  matchScore: number | null;
+}
+
+export type InfluencerSearchPage = MarketplacePage<InfluencerSearchResult, InfluencerFacetName>;
+export type OfferSearchPage = MarketplacePage<OfferSearchResult, OfferFacetName>;
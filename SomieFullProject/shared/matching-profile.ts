@@ -0,0 +1,202 @@
+/**
+ * Matching profile: the weights and rule scores behind every match score
+ *
+ * Admins edit the profile in the system settings; each save bumps its version
+ * so a stored explanation can be traced back to the rules that produced it.
+ * Businesses can override the weights (but not the rules) per offer.
+ */
+import { z } from "zod";
+
+export const MATCH_FACTORS = ['metricsMatch', 'locationMatch', 'nicheMatch', 'audienceMatch', 'contentTypeMatch', 'credibilityMatch'] as const;
+export type MatchFactor = typeof MATCH_FACTORS[number];
+
+export const MATCH_FACTOR_LABELS: Record<MatchFactor, string> = {
+  metricsMatch: 'Metrics',
+  locationMatch: 'Location',
+  nicheMatch: 'Niche',
+  audienceMatch: 'Audience',
+  contentTypeMatch: 'Content Type',
+  credibilityMatch: 'Credibility',
+};
+
+// Relative weights; they are normalised, so they need not add up to 100
+const weight = z.number().min(0).max(100);
+
+export const matchWeightsSchema = z.object({
+  metricsMatch: weight,
+  locationMatch: weight,
+  nicheMatch: weight,
+  // Added after the first profiles were saved, which get the default share
+  audienceMatch: weight.default(10),
+  contentTypeMatch: weight,
+  credibilityMatch: weight,
+}).refine(weights => Object.values(weights).some(value => value > 0), {
+  message: 'At least one weight must be above zero',
+});
+
+export type MatchWeights = z.infer<typeof matchWeightsSchema>;
+
+// Per-offer override; factors left out keep the profile's weight
+export const matchWeightsOverrideSchema = z.object({
+  metricsMatch: weight.optional(),
+  locationMatch: weight.optional(),
+  nicheMatch: weight.optional(),
+  audienceMatch: weight.optional(),
+  contentTypeMatch: weight.optional(),
+  credibilityMatch: weight.optional(),
+});
+
+export type MatchWeightsOverride = z.infer<typeof matchWeightsOverrideSchema>;
+
+// Factor score (0-100) given when a rule fires
+const points = z.number().min(0).max(100);
+
+export const matchingRulesSchema = z.object({
+  metrics: z.object({
+    // Follower count treated as ideal, as a multiple of the offer's minimum
+    idealFollowerMultiple: z.number().min(1).max(20),
+    // Score lost per multiple of the ideal count above it, down to the floor
+    oversizePenalty: z.number().min(0).max(1),
+    oversizeFloor: z.number().min(0).max(1),
+    // How follower fit and engagement split the metrics score
+    followerShare: z.number().min(0).max(1),
+    engagementShare: z.number().min(0).max(1),
+    // Engagement above this multiple of the minimum earns nothing more
+    maxEngagementMultiple: z.number().min(1).max(10),
+  }),
+  location: z.object({
+    // Used when both sides are geocoded: the score falls from exact towards
+    // mismatch, halving every decayKm kilometres
+    decayKm: z.number().min(1).max(1000).default(50),
+    // Influencers beyond a radius-targeted offer's area
+    outsideRadius: points.default(0),
+    // Scores for place names when either side has no coordinates; exact and
+    // mismatch also bound the distance score
+    exact: points,
+    // Set to false to treat "Austin" and "Austin, TX" as different places
+    allowPartial: z.boolean(),
+    partial: points,
+    mismatch: points,
+    missing: points,
+  }),
+  niche: z.object({
+    category: points,
+    // Set to false to ignore the offer's tags when the category differs
+    matchTags: z.boolean(),
+    tag: points,
+    mismatch: points,
+    missing: points,
+    // Compare embeddings of the influencer's bio and posts with the offer's
+    // description; the better of this and the name match counts
+    semantic: z.boolean().default(true),
+    // Similarity (0-1) that scores like a mismatch, and like a category match
+    similarityFloor: z.number().min(0).max(1).default(0.15),
+    similarityCeiling: z.number().min(0).max(1).default(0.6),
+  }),
+  audience: z.object({
+    // Share of the audience (%) inside the offer's target that earns full marks
+    fullOverlapShare: z.number().min(1).max(100),
+    // The offer doesn't target an audience
+    untargeted: points,
+    // The offer targets an audience but the influencer hasn't described theirs
+    unknown: points,
+  }).default({ fullOverlapShare: 60, untargeted: 50, unknown: 25 }),
+  contentType: z.object({
+    // One of the influencer's platforms is built for the requested content
+    preferred: points,
+    // The influencer's platforms can carry it, but it isn't their main format
+    supported: points,
+    missing: points,
+  }),
+});
+
+export type MatchingRules = z.infer<typeof matchingRulesSchema>;
+
+export const matchingProfileSchema = z.object({
+  version: z.number().int().positive(),
+  weights: matchWeightsSchema,
+  rules: matchingRulesSchema,
+});
+
+export type MatchingProfile = z.infer<typeof matchingProfileSchema>;
+
+// What an admin submits; the server assigns the version
+export const matchingProfileInputSchema = matchingProfileSchema.omit({ version: true });
+export type MatchingProfileInput = z.infer<typeof matchingProfileInputSchema>;
+
+export const DEFAULT_MATCHING_PROFILE: MatchingProfile = {
+  version: 1,
+  weights: {
+    metricsMatch: 40,
+    locationMatch: 15,
+    nicheMatch: 15,
+    audienceMatch: 10,
+    contentTypeMatch: 10,
+    credibilityMatch: 10,
+  },
+  rules: {
+    metrics: {
+      idealFollowerMultiple: 2,
+      oversizePenalty: 0.3,
+      oversizeFloor: 0.7,
+      followerShare: 0.6,
+      engagementShare: 0.4,
+      maxEngagementMultiple: 2,
+    },
+    location: { decayKm: 50, outsideRadius: 0, exact: 100, allowPartial: true, partial: 70, mismatch: 30, missing: 0 },
+    niche: { category: 100, matchTags: true, tag: 75, mismatch: 20, missing: 0, semantic: true, similarityFloor: 0.15, similarityCeiling: 0.6 },
+    audience: { fullOverlapShare: 60, untargeted: 50, unknown: 25 },
+    contentType: { preferred: 100, supported: 40, missing: 0 },
+  },
+};
+
+export interface MatchRuleResult {
+  factor: MatchFactor;
+  // Stable identifier, e.g. "location.partial"
+  rule: string;
+  detail: string;
+}
+
+export interface MatchFactorContribution {
+  factor: MatchFactor;
+  score: number;
+  // Share of the final score, as a percentage
+  weight: number;
+  // Points this factor added to the final score
+  points: number;
+}
+
+export interface MatchExplanation {
+  profileVersion: number;
+  weightSource: 'profile' | 'offer';
+  factors: MatchFactorContribution[];
+  rules: MatchRuleResult[];
+}
+
+/**
+ * Combine the profile's weights with an offer's overrides and scale them to add up to 100
+ */
+export function resolveMatchWeights(
+  profile: MatchingProfile,
+  override?: MatchWeightsOverride | null
+): { weights: MatchWeights; source: 'profile' | 'offer' } {
+  const overridden = !!override && MATCH_FACTORS.some(factor => override[factor] !== undefined);
+  const merged = { ...profile.weights, ...(overridden ? stripUndefined(override!) : {}) };
+
+  let total = MATCH_FACTORS.reduce((sum, factor) => sum + merged[factor], 0);
+  // An override that zeroes every factor falls back to the profile
+  const base = total > 0 ? merged : profile.weights;
+  if (total <= 0) total = MATCH_FACTORS.reduce((sum, factor) => sum + base[factor], 0);
+
+  const weights = Object.fromEntries(
+    MATCH_FACTORS.map(factor => [factor, Math.round((base[factor] / total) * 10000) / 100])
+  ) as MatchWeights;
+
+  return { weights, source: overridden && base === merged ? 'offer' : 'profile' };
+}
+
+function stripUndefined(override: MatchWeightsOverride): Partial<MatchWeights> {
+  return Object.fromEntries(
+    Object.entries(override).filter(([, value]) => value !== undefined)
+  ) as Partial<MatchWeights>;
+}
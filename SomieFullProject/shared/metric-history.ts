@@ -0,0 +1,90 @@
+/**
+ * Follower and engagement history types and growth calculations
+ *
+ * Shared by the history endpoint and the dashboards that chart it, so growth
+ * figures read the same everywhere.
+ */
+
+export const HISTORY_METRICS = ['followers', 'engagement'] as const;
+export type HistoryMetric = typeof HISTORY_METRICS[number];
+
+export const HISTORY_RANGES = ['7d', '30d', '90d', '1y', 'all'] as const;
+export type HistoryRange = typeof HISTORY_RANGES[number];
+
+export const HISTORY_GRANULARITIES = ['day', 'week', 'month'] as const;
+export type HistoryGranularity = typeof HISTORY_GRANULARITIES[number];
+
+// How a snapshot was taken
+export const METRIC_SNAPSHOT_SOURCES = ['connect', 'refresh', 'schedule', 'lookup'] as const;
+export type MetricSnapshotSource = typeof METRIC_SNAPSHOT_SOURCES[number];
+
+const RANGE_DAYS: Record<Exclude<HistoryRange, 'all'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MetricHistoryPoint {
+  date: string;
+  value: number;
+}
+
+export interface MetricHistorySeries {
+  platform: string;
+  handle: string;
+  points: MetricHistoryPoint[];
+}
+
+export interface MetricGrowth {
+  startValue: number;
+  endValue: number;
+  change: number;
+  percentChange: number | null; // null when the series starts at zero
+  dailyChange: number;
+  days: number;
+}
+
+export interface MetricHistory {
+  metric: HistoryMetric;
+  range: HistoryRange;
+  granularity: HistoryGranularity;
+  points: MetricHistoryPoint[];
+  series: MetricHistorySeries[];
+  growth: MetricGrowth | null;
+}
+
+/**
+ * Get the first date included in a history range
+ *
+ * @returns The start date, or null for the whole history
+ */
+export function getHistoryRangeStart(range: HistoryRange, now: Date = new Date()): Date | null {
+  return range === 'all' ? null : new Date(now.getTime() - RANGE_DAYS[range] * DAY_MS);
+}
+
+/**
+ * Calculate growth between the first and last points of a series
+ *
+ * @param points Points in date order
+ * @returns Growth figures, or null if there are fewer than two points
+ */
+export function calculateGrowth(points: MetricHistoryPoint[]): MetricGrowth | null {
+  if (points.length < 2) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const change = last.value - first.value;
+  const days = Math.max(1, Math.round((new Date(last.date).getTime() - new Date(first.date).getTime()) / DAY_MS));
+
+  return {
+    startValue: first.value,
+    endValue: last.value,
+    change,
+    percentChange: first.value === 0 ? null : Math.round((change / first.value) * 10000) / 100,
+    dailyChange: Math.round((change / days) * 100) / 100,
+    days
+  };
+}
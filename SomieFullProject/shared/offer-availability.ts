@@ -0,0 +1,79 @@
+/**
+ * Offer availability shared by the server and client
+ *
+ * An offer accepts new claims only while it is active, inside its start/end
+ * window, before its application deadline and while it has free slots.
+ * The server applies the same rules atomically when creating a claim.
+ */
+
+export type OfferAvailabilityStatus =
+  | 'open'
+  | 'not_started'
+  | 'applications_closed'
+  | 'full'
+  | 'ended'
+  | 'closed';
+
+export interface OfferAvailability {
+  status: OfferAvailabilityStatus;
+  open: boolean;
+  slotsTaken: number;
+  remainingSlots: number | null; // null when the offer has no claim limit
+  message: string | null;
+}
+
+/**
+ * The offer fields availability depends on; dates may arrive as ISO strings on the client
+ */
+export interface OfferScheduleFields {
+  status: string;
+  maxClaims: number | null;
+  startsAt: Date | string | null;
+  endsAt: Date | string | null;
+  applicationDeadline: Date | string | null;
+}
+
+const toDate = (value: Date | string | null): Date | null => value ? new Date(value) : null;
+
+/**
+ * Work out whether an offer can take new claims
+ *
+ * @param offer The offer's status, capacity and schedule
+ * @param slotsTaken Claims currently holding a slot
+ * @param now Reference time (defaults to the current time)
+ */
+export function getOfferAvailability(
+  offer: OfferScheduleFields,
+  slotsTaken: number,
+  now: Date = new Date()
+): OfferAvailability {
+  const remainingSlots = offer.maxClaims ? Math.max(0, offer.maxClaims - slotsTaken) : null;
+  const result = (status: OfferAvailabilityStatus, message: string | null): OfferAvailability => ({
+    status,
+    open: status === 'open',
+    slotsTaken,
+    remainingSlots,
+    message
+  });
+
+  const startsAt = toDate(offer.startsAt);
+  const endsAt = toDate(offer.endsAt);
+  const applicationDeadline = toDate(offer.applicationDeadline);
+
+  if (endsAt && endsAt <= now) {
+    return result('ended', 'This offer has ended');
+  }
+  if (offer.status !== 'active') {
+    return result('closed', 'This offer is no longer accepting creators');
+  }
+  if (startsAt && startsAt > now) {
+    return result('not_started', `This offer opens on ${startsAt.toLocaleDateString()}`);
+  }
+  if (applicationDeadline && applicationDeadline <= now) {
+    return result('applications_closed', 'The deadline to join this offer has passed');
+  }
+  if (remainingSlots === 0) {
+    return result('full', 'All slots for this offer have been filled');
+  }
+  return result('open', null);
+}
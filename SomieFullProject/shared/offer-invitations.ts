@@ -0,0 +1,67 @@
+/**
+ * Direct offer invitations shared by the server and client
+ *
+ * A business can invite chosen creators to any of its active offers.
+ * Invite-only offers never appear in matching or marketplace search, so an
+ * invitation is the only way a creator can see or claim one. An invitation
+ * is a pre-approval: accepting it claims the offer straight away, even on
+ * application-mode offers.
+ */
+import { z } from "zod";
+
+export const OFFER_VISIBILITIES = ['public', 'invite_only'] as const;
+export type OfferVisibility = typeof OFFER_VISIBILITIES[number];
+
+// Pending until the creator accepts, declines or lets it run out; claiming
+// the offer any other way also counts as accepting
+export const OFFER_INVITATION_STATUSES = ['pending', 'accepted', 'declined', 'expired'] as const;
+export type OfferInvitationStatus = typeof OFFER_INVITATION_STATUSES[number];
+
+export const MAX_INVITATION_MESSAGE_LENGTH = 1000;
+export const DEFAULT_INVITATION_EXPIRY_DAYS = 7;
+export const MAX_INVITATION_EXPIRY_DAYS = 30;
+export const INVITATION_EXPIRY_OPTIONS = [3, 7, 14, 30] as const;
+
+export const offerInvitationInputSchema = z.object({
+  offerId: z.number().int().positive(),
+  message: z.string().trim().max(MAX_INVITATION_MESSAGE_LENGTH).nullable().optional(),
+  expiresInDays: z.number().int().min(1).max(MAX_INVITATION_EXPIRY_DAYS).default(DEFAULT_INVITATION_EXPIRY_DAYS),
+});
+
+export type OfferInvitationInput = z.infer<typeof offerInvitationInputSchema>;
+
+export const declineInvitationSchema = z.object({
+  reason: z.string().trim().max(500).nullable().optional(),
+});
+
+/**
+ * An invitation as the invited creator sees it
+ */
+export interface InvitationView {
+  id: number;
+  status: OfferInvitationStatus;
+  message: string | null;
+  createdAt: string | null;
+  expiresAt: string | null;
+  offer: {
+    id: number;
+    title: string;
+    description: string;
+    reward: string;
+    category: string;
+    claimMode: string;
+  };
+  businessName: string | null;
+}
+
+/**
+ * Whether a pending invitation has run out; invitations without a date never do
+ */
+export function isInvitationExpired(
+  invitation: { status: string; expiresAt: Date | string | null },
+  now: Date = new Date()
+): boolean {
+  return invitation.status === 'pending'
+    && invitation.expiresAt !== null
+    && new Date(invitation.expiresAt) <= now;
+}
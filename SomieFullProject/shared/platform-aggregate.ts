@@ -0,0 +1,141 @@
+/**
+ * Combined audience metrics across all of an influencer's platforms
+ *
+ * The profile's own follower count and engagement rate describe its main
+ * platform only; matching and pricing read these figures instead so creators
+ * with several accounts are judged on their whole audience. Only accounts
+ * whose ownership has been verified count, since an unverified handle could
+ * belong to anyone.
+ */
+
+import { getPlatform } from "./platforms";
+
+// Share of each smaller account's followers assumed to also follow a larger one.
+// Cross-platform surveys put the overlap between a creator's accounts at 25-35%.
+export const CROSS_PLATFORM_OVERLAP = 0.3;
+
+export interface PlatformMetricsBreakdown {
+  platformId: number;
+  platform: string;
+  handle: string;
+  followers: number;
+  engagementRate: number | null;
+  // Percentage of total reach held by this account
+  reachShare: number;
+  isPrimary: boolean;
+  isVerified: boolean;
+}
+
+export interface AggregatePlatformMetrics {
+  // Sum of followers across every account
+  totalReach: number;
+  // Estimated distinct people reached, after removing cross-platform overlap
+  uniqueAudience: number;
+  // Engagement rate weighted by each account's followers
+  weightedEngagementRate: number;
+  platformCount: number;
+  platforms: PlatformMetricsBreakdown[];
+  computedAt: string;
+}
+
+// The subset of a social platform record the aggregate is built from
+export interface AggregateSource {
+  id: number;
+  platform: string;
+  handle: string;
+  followers: number | null;
+  engagementRate: string | number | null;
+  isPrimary: boolean;
+  isVerified: boolean;
+}
+
+// Metrics matching and pricing should use for a profile
+export interface AudienceMetrics {
+  followers: number;
+  engagementRate: number;
+  platforms: string[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Combine an influencer's accounts into one set of audience metrics
+ *
+ * @returns null when no verified account has a follower count yet
+ */
+export function aggregatePlatformMetrics(accounts: AggregateSource[], now: Date = new Date()): AggregatePlatformMetrics | null {
+  const measured = accounts
+    .filter(account => account.isVerified && account.followers !== null && account.followers > 0)
+    .sort((a, b) => b.followers! - a.followers!);
+  if (measured.length === 0) return null;
+
+  const totalReach = measured.reduce((sum, account) => sum + account.followers!, 0);
+
+  // The largest account counts in full; smaller ones only for the part of
+  // their audience not already reached elsewhere
+  const uniqueAudience = Math.round(measured.reduce(
+    (sum, account, index) => sum + account.followers! * (index === 0 ? 1 : 1 - CROSS_PLATFORM_OVERLAP),
+    0
+  ));
+
+  // Accounts without an engagement reading don't dilute the weighted rate
+  let engagedFollowers = 0;
+  let weightedEngagement = 0;
+  for (const account of measured) {
+    const rate = account.engagementRate === null ? NaN : Number(account.engagementRate);
+    if (Number.isFinite(rate) && rate > 0) {
+      engagedFollowers += account.followers!;
+      weightedEngagement += rate * account.followers!;
+    }
+  }
+
+  return {
+    totalReach,
+    uniqueAudience,
+    weightedEngagementRate: engagedFollowers > 0 ? round2(weightedEngagement / engagedFollowers) : 0,
+    platformCount: measured.length,
+    platforms: measured.map(account => {
+      const rate = account.engagementRate === null ? NaN : Number(account.engagementRate);
+      return {
+        platformId: account.id,
+        platform: getPlatform(account.platform)?.id ?? account.platform.toLowerCase(),
+        handle: account.handle,
+        followers: account.followers!,
+        engagementRate: Number.isFinite(rate) ? rate : null,
+        reachShare: round2((account.followers! / totalReach) * 100),
+        isPrimary: account.isPrimary,
+        isVerified: account.isVerified
+      };
+    }),
+    computedAt: now.toISOString()
+  };
+}
+
+/**
+ * Get the audience figures to match and price a profile on
+ *
+ * Uses the cross-platform aggregate when there is one, and the main
+ * platform's figures otherwise.
+ */
+export function getAudienceMetrics(profile: {
+  followerCount: number;
+  engagementRate: string | number;
+  platform: string;
+  aggregateMetrics?: AggregatePlatformMetrics | null;
+}): AudienceMetrics {
+  const aggregate = profile.aggregateMetrics;
+  if (aggregate && aggregate.platformCount > 0) {
+    return {
+      followers: aggregate.uniqueAudience,
+      // Accounts with no engagement reading yet fall back to the profile's rate
+      engagementRate: aggregate.weightedEngagementRate || Number(profile.engagementRate),
+      platforms: aggregate.platforms.map(platform => platform.platform)
+    };
+  }
+
+  return {
+    followers: profile.followerCount,
+    engagementRate: Number(profile.engagementRate),
+    platforms: [getPlatform(profile.platform)?.id ?? profile.platform.toLowerCase()]
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Supported social platforms and everything the app needs to know about each
+ *
+ * Profile URLs, content types, rate factors and display details all come from
+ * here, so adding a platform is one entry rather than a change in every
+ * component and service that switches on the platform name.
+ */
+
+export const PLATFORM_IDS = ['instagram', 'tiktok', 'youtube', 'twitch', 'x', 'pinterest', 'linkedin', 'snapchat'] as const;
+export type PlatformId = typeof PLATFORM_IDS[number];
+
+// Influencer profile columns holding the main account URL; newer platforms use profileUrl
+export type ProfileUrlField = 'instagramUrl' | 'tiktokUrl' | 'youtubeUrl' | 'profileUrl';
+
+export interface PlatformDefinition {
+  id: PlatformId;
+  label: string;
+  // react-icons/si component name
+  icon: string;
+  // Tailwind text color class for the icon
+  color: string;
+  // What the platform calls an account's audience
+  audienceLabel: string;
+  // Hostnames the platform serves profiles from
+  hosts: string[];
+  // Older names still found in stored data
+  aliases?: string[];
+  // Path segments before the handle, e.g. /add/<handle> on Snapchat
+  pathPrefixes?: string[];
+  profileUrl: (handle: string) => string;
+  profileField: ProfileUrlField;
+  // Content formats creators can deliver; the first few are the platform's strongest
+  contentTypes: string[];
+  // Characters shown before a caption is cut off behind "more"
+  captionFoldLength: number;
+  // Rate multiplier relative to Instagram
+  rateFactor: number;
+  // Per-format rates relative to the platform's standard post
+  contentTypeRates: { post: number; story: number; reel: number; video: number };
+  // Industry average rate as a share of followers, with floor and ceiling (USD)
+  benchmark: { perFollower: number; min: number; max: number };
+}
+
+export const PLATFORMS: Record<PlatformId, PlatformDefinition> = {
+  instagram: {
+    id: 'instagram',
+    label: 'Instagram',
+    icon: 'SiInstagram',
+    color: 'text-pink-500',
+    audienceLabel: 'followers',
+    hosts: ['instagram.com'],
+    profileUrl: (handle) => `https://instagram.com/${handle}`,
+    profileField: 'instagramUrl',
+    contentTypes: ['image', 'carousel', 'story', 'reel', 'video'],
+    captionFoldLength: 125,
+    rateFactor: 1.0, // Baseline platform
+    contentTypeRates: { post: 1, story: 0.5, reel: 1.5, video: 1.8 },
+    benchmark: { perFollower: 0.008, min: 25, max: 10000 },
+  },
+  tiktok: {
+    id: 'tiktok',
+    label: 'TikTok',
+    icon: 'SiTiktok',
+    color: 'text-black',
+    audienceLabel: 'followers',
+    hosts: ['tiktok.com'],
+    profileUrl: (handle) => `https://tiktok.com/@${handle}`,
+    profileField: 'tiktokUrl',
+    contentTypes: ['video', 'short', 'live'],
+    captionFoldLength: 100,
+    rateFactor: 0.9, // Slightly lower than Instagram on average
+    contentTypeRates: { post: 1, story: 0.5, reel: 1, video: 1.5 },
+    benchmark: { perFollower: 0.007, min: 20, max: 8000 },
+  },
+  youtube: {
+    id: 'youtube',
+    label: 'YouTube',
+    icon: 'SiYoutube',
+    color: 'text-red-600',
+    audienceLabel: 'subscribers',
+    hosts: ['youtube.com', 'youtu.be'],
+    pathPrefixes: ['c', 'user'],
+    profileUrl: (handle) => `https://youtube.com/@${handle}`,
+    profileField: 'youtubeUrl',
+    contentTypes: ['video', 'short', 'livestream'],
+    captionFoldLength: 100,
+    rateFactor: 1.5, // Long-form video carries more value per view
+    contentTypeRates: { post: 0.7, story: 0.5, reel: 0.8, video: 1 },
+    benchmark: { perFollower: 0.012, min: 50, max: 20000 },
+  },
+  twitch: {
+    id: 'twitch',
+    label: 'Twitch',
+    icon: 'SiTwitch',
+    color: 'text-purple-600',
+    audienceLabel: 'followers',
+    hosts: ['twitch.tv'],
+    profileUrl: (handle) => `https://twitch.tv/${handle}`,
+    profileField: 'profileUrl',
+    contentTypes: ['livestream', 'video', 'clip'],
+    captionFoldLength: 140,
+    rateFactor: 1.2, // Live sponsorship segments hold attention for longer
+    contentTypeRates: { post: 0.6, story: 0.4, reel: 0.7, video: 1.3 },
+    benchmark: { perFollower: 0.01, min: 40, max: 15000 },
+  },
+  x: {
+    id: 'x',
+    label: 'X',
+    icon: 'SiX',
+    color: 'text-black',
+    audienceLabel: 'followers',
+    hosts: ['x.com', 'twitter.com'],
+    aliases: ['twitter'],
+    profileUrl: (handle) => `https://x.com/${handle}`,
+    profileField: 'profileUrl',
+    contentTypes: ['post', 'thread', 'image', 'video'],
+    captionFoldLength: 280,
+    rateFactor: 0.6, // Posts scroll past quickly
+    contentTypeRates: { post: 1, story: 0.5, reel: 1.2, video: 1.4 },
+    benchmark: { perFollower: 0.004, min: 15, max: 6000 },
+  },
+  pinterest: {
+    id: 'pinterest',
+    label: 'Pinterest',
+    icon: 'SiPinterest',
+    color: 'text-red-500',
+    audienceLabel: 'followers',
+    hosts: ['pinterest.com'],
+    profileUrl: (handle) => `https://pinterest.com/${handle}`,
+    profileField: 'profileUrl',
+    contentTypes: ['pin', 'image', 'idea_pin', 'video'],
+    captionFoldLength: 100,
+    rateFactor: 0.7, // Pins keep driving traffic long after posting, but reach is lower
+    contentTypeRates: { post: 1, story: 0.6, reel: 1.3, video: 1.5 },
+    benchmark: { perFollower: 0.005, min: 20, max: 5000 },
+  },
+  linkedin: {
+    id: 'linkedin',
+    label: 'LinkedIn',
+    icon: 'SiLinkedin',
+    color: 'text-blue-700',
+    audienceLabel: 'followers',
+    hosts: ['linkedin.com'],
+    pathPrefixes: ['in'],
+    profileUrl: (handle) => `https://linkedin.com/in/${handle}`,
+    profileField: 'profileUrl',
+    contentTypes: ['post', 'article', 'carousel', 'video'],
+    captionFoldLength: 210,
+    rateFactor: 1.4, // Professional audiences are expensive to reach
+    contentTypeRates: { post: 1, story: 0.5, reel: 1.2, video: 1.5 },
+    benchmark: { perFollower: 0.012, min: 50, max: 12000 },
+  },
+  snapchat: {
+    id: 'snapchat',
+    label: 'Snapchat',
+    icon: 'SiSnapchat',
+    color: 'text-yellow-400',
+    audienceLabel: 'subscribers',
+    hosts: ['snapchat.com'],
+    pathPrefixes: ['add'],
+    profileUrl: (handle) => `https://snapchat.com/add/${handle}`,
+    profileField: 'profileUrl',
+    contentTypes: ['story', 'spotlight', 'video'],
+    captionFoldLength: 80,
+    rateFactor: 0.8, // Stories disappear after a day
+    contentTypeRates: { post: 0.8, story: 1, reel: 1.2, video: 1.3 },
+    benchmark: { perFollower: 0.006, min: 20, max: 6000 },
+  },
+};
+
+export const PLATFORM_LIST: PlatformDefinition[] = PLATFORM_IDS.map(id => PLATFORMS[id]);
+
+/**
+ * Look up a platform by id or alias, case-insensitively
+ */
+export function getPlatform(platform: string | null | undefined): PlatformDefinition | undefined {
+  if (!platform) return undefined;
+  const key = platform.trim().toLowerCase();
+  return PLATFORMS[key as PlatformId] ?? PLATFORM_LIST.find(definition => definition.aliases?.includes(key));
+}
+
+export function isPlatformId(platform: string): platform is PlatformId {
+  return (PLATFORM_IDS as readonly string[]).includes(platform);
+}
+
+/**
+ * Work out the platform and handle from a profile URL
+ *
+ * @returns The platform and handle (without @), or null for unknown hosts or URLs without a handle
+ */
+export function parseProfileUrl(url: string): { platform: PlatformId; handle: string } | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(/^https?:\/\//i.test(url.trim()) ? url.trim() : `https://${url.trim()}`);
+  } catch {
+    return null;
+  }
+
+  const hostname = parsed.hostname.toLowerCase().replace(/^(www|m|mobile)\./, '');
+  const definition = PLATFORM_LIST.find(candidate =>
+    candidate.hosts.some(host => hostname === host || hostname.endsWith(`.${host}`))
+  );
+  if (!definition) return null;
+
+  const segments = parsed.pathname.split('/').filter(segment => segment.length > 0);
+  const index = segments.length > 1 && definition.pathPrefixes?.includes(segments[0].toLowerCase()) ? 1 : 0;
+  const handle = (segments[index] || '').replace(/^@/, '');
+
+  return handle ? { platform: definition.id, handle } : null;
+}
+
+/**
+ * Get the main account URL stored on an influencer profile
+ */
+export function getProfileUrl(
+  profile: { platform: string } & Partial<Record<ProfileUrlField, string | null>>
+): string | null {
+  const definition = getPlatform(profile.platform);
+  return definition ? profile[definition.profileField] || null : null;
+}
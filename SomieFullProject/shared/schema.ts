@@ -1,6 +1,19 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb, primaryKey, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, doublePrecision, jsonb, primaryKey, pgEnum, unique, index, vector } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { CLAIM_STATUSES } from "./claim-lifecycle";
+import { verificationRequirementsSchema, type VerificationRequirements } from "./verification-requirements";
+import { DISCLOSURE_STATUSES, type DisclosureCheck } from "./disclosure-compliance";
+import { METRIC_SNAPSHOT_SOURCES } from "./metric-history";
+import type { CredibilitySignal } from "./audience-authenticity";
+import type { AggregatePlatformMetrics } from "./platform-aggregate";
+import { getPlatform } from "./platforms";
+import { matchWeightsOverrideSchema, type MatchWeightsOverride } from "./matching-profile";
+import { MAX_OFFER_RADIUS_KM } from "./geo";
+import { audienceRequirementsSchema, type AudienceData, type AudienceRequirements } from "./audience-demographics";
+import { OFFER_INVITATION_STATUSES, OFFER_VISIBILITIES } from "./offer-invitations";
+import { DEAL_PARTIES, DEAL_PROPOSAL_STATUSES } from "./deal-terms";
+import { CAMPAIGN_OBJECTIVE_IDS, campaignKpiTargetsSchema, type CampaignKpiTargets } from "./campaigns";
 
 // Define enums
 export const userRoleEnum = pgEnum('user_role', ['user', 'influencer', 'business', 'admin', 'super_admin']);
@@ -38,6 +51,10 @@ export const businessProfiles = pgTable("business_profiles", {
   city: text("city"),
   state: text("state"),
   postalCode: text("postal_code"),
+  // Geocoded from the address, or the location when there is no address
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  geocodedAt: timestamp("geocoded_at"), // Set on every attempt, including ones that found nothing
   // For brand products
   productUrl: text("product_url"),
   productCategory: text("product_category"),
@@ -63,18 +80,29 @@ export const influencerProfiles = pgTable("influencer_profiles", {
   followerCount: integer("follower_count").notNull(),
   engagementRate: decimal("engagement_rate", { precision: 5, scale: 2 }).notNull(),
   credibilityScore: integer("credibility_score").notNull().default(50),
+  // Audience authenticity signals behind the latest credibility score
+  credibilitySignals: jsonb("credibility_signals").$type<CredibilitySignal[]>(),
+  credibilityFlagged: boolean("credibility_flagged").notNull().default(false),
+  credibilityAssessedAt: timestamp("credibility_assessed_at"),
+  // Reach and engagement across every linked social platform
+  aggregateMetrics: jsonb("aggregate_metrics").$type<AggregatePlatformMetrics>(),
   strikes: integer("strikes").notNull().default(0),
   // Social media URLs (not handles)
   instagramUrl: text("instagram_url"),
   tiktokUrl: text("tiktok_url"),
   youtubeUrl: text("youtube_url"),
+  // Main account URL for platforms without a column of their own
+  profileUrl: text("profile_url"),
   bio: text("bio"),
   // Main platform for the influencer
   platform: text("platform").notNull(),
   // Enhanced profile fields for better matching
   niche: text("niche"),
   location: text("location"),
-  audienceData: jsonb("audience_data"), // Age, gender, geography distribution
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  geocodedAt: timestamp("geocoded_at"),
+  audienceData: jsonb("audience_data").$type<AudienceData>(), // Age, gender, geography and interests of the audience
   contentTypes: text("content_types").array(),
   performanceMetrics: jsonb("performance_metrics"), // Historical metrics
   isTest: boolean("is_test").notNull().default(false),
@@ -101,13 +129,27 @@ export const offers = pgTable("offers", {
   minEngagement: integer("min_engagement").notNull(),
   postsRequired: integer("posts_required").notNull(),
   timeframe: integer("timeframe").notNull(),
-  status: text("status").notNull().default("active"),
+  status: text("status").notNull().default("active"), // pending, active, paused (campaign budget), rejected, closed, expired
+  closedBySchedule: boolean("closed_by_schedule").notNull().default(false), // Closed for its deadline or capacity rather than by hand; only these reopen on their own
   category: text("category").notNull().default("Uncategorized"),
   contentType: text("content_type"), // Type of content requested (image, video, story, etc.)
   location: text("location"), // Geographic targeting
-  audienceRequirements: jsonb("audience_requirements"), // Desired audience characteristics
+  latitude: doublePrecision("latitude"), // Business's location for physical locations, otherwise the geocoded offer location
+  longitude: doublePrecision("longitude"),
+  radiusKm: integer("radius_km"), // Only influencers within this distance can see the offer; physical locations only
+  audienceRequirements: jsonb("audience_requirements").$type<AudienceRequirements>(), // Audience the business wants to reach
   tags: text("tags").array(),
   optimizationData: jsonb("optimization_data"), // Data from the metrics optimizer
+  claimMode: text("claim_mode").notNull().default("instant"), // instant, application (business approves each creator)
+  maxAcceptedCreators: integer("max_accepted_creators"), // null means no limit
+  maxClaims: integer("max_claims"), // Total creator slots, including open applications; null means no limit
+  startsAt: timestamp("starts_at"), // Claims open at this time
+  endsAt: timestamp("ends_at"), // The offer expires at this time
+  applicationDeadline: timestamp("application_deadline"), // Last moment to claim or apply
+  verificationRequirements: jsonb("verification_requirements").$type<VerificationRequirements>(), // Rules each post is checked against
+  matchWeights: jsonb("match_weights").$type<MatchWeightsOverride>(), // Business's own match weights; null uses the matching profile
+  visibility: text("visibility", { enum: OFFER_VISIBILITIES }).notNull().default("public"), // invite_only offers are hidden from matching and search
+  campaignId: integer("campaign_id"), // The campaign whose budget this offer spends from, if any
   createdAt: timestamp("created_at").defaultNow(),
   isTest: boolean("is_test").notNull().default(false),
 });
@@ -116,10 +158,33 @@ export const offerClaims = pgTable("offer_claims", {
   id: serial("id").primaryKey(),
   offerId: integer("offer_id").notNull(),
   influencerId: integer("influencer_id").notNull(),
-  status: text("status").notNull().default("incomplete"),
+  status: text("status", { enum: CLAIM_STATUSES }).notNull().default("applied"),
+  pitch: text("pitch"), // Influencer's application pitch for application-mode offers
+  flaggedAt: timestamp("flagged_at"), // Set when post monitoring finds a removed or edited post
+  flagReason: text("flag_reason"),
+  // Completion is blocked until disclosure passes or the business overrides it
+  disclosureStatus: text("disclosure_status", { enum: DISCLOSURE_STATUSES }).notNull().default("pending"),
+  disclosureOverrideReason: text("disclosure_override_reason"),
+  disclosureOverriddenAt: timestamp("disclosure_overridden_at"),
+  disclosureOverriddenBy: integer("disclosure_overridden_by"), // User who approved the override
   completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow(),
   isTest: boolean("is_test").notNull().default(false),
+}, (table) => ({
+  // A creator holds at most one claim per offer
+  offerInfluencerUnique: unique("offer_claims_offer_influencer_unique").on(table.offerId, table.influencerId),
+}));
+
+// Audit trail of every claim status change
+export const claimEvents = pgTable("claim_events", {
+  id: serial("id").primaryKey(),
+  claimId: integer("claim_id").notNull(),
+  fromStatus: text("from_status", { enum: CLAIM_STATUSES }), // null for the event that created the claim
+  toStatus: text("to_status", { enum: CLAIM_STATUSES }).notNull(),
+  actorType: text("actor_type").notNull(), // influencer, business, admin, system
+  actorUserId: integer("actor_user_id"),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const businessNotifications = pgTable("business_notifications", {
@@ -141,10 +206,25 @@ export const postSubmissions = pgTable("post_submissions", {
   platform: text("platform").notNull(),
   verificationStatus: text("verification_status").default("pending"),
   verificationDetails: text("verification_details"),
+  disclosureCheck: jsonb("disclosure_check").$type<DisclosureCheck>(), // Latest disclosure check of the caption
   lastVerified: timestamp("last_verified"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// One row per check of a submitted post, from the first verification to the end of its live window
+export const postVerificationSnapshots = pgTable("post_verification_snapshots", {
+  id: serial("id").primaryKey(),
+  submissionId: integer("submission_id").notNull(),
+  status: text("status").notNull(), // live, removed, edited, unreachable
+  caption: text("caption"),
+  hashtags: text("hashtags").array().notNull().default([]),
+  mentions: text("mentions").array().notNull().default([]),
+  missingHashtags: text("missing_hashtags").array().notNull().default([]),
+  missingMentions: text("missing_mentions").array().notNull().default([]),
+  details: text("details"),
+  checkedAt: timestamp("checked_at").defaultNow(),
+});
+
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
   claimId: integer("claim_id").notNull(),
@@ -172,13 +252,54 @@ export const socialPlatforms = pgTable("social_platforms", {
   profileUrl: text("profile_url").notNull(),
   followers: integer("followers"),
   engagementRate: decimal("engagement_rate", { precision: 5, scale: 2 }),
+  // Only set by the server, once ownership is proven through OAuth or a bio code
   isVerified: boolean("is_verified").notNull().default(false),
+  verificationMethod: text("verification_method"), // "oauth" or "bio_code"
   isPrimary: boolean("is_primary").notNull().default(false),
   lastVerified: timestamp("last_verified"),
+  // The platform's own ID for the account, from OAuth
+  accountId: text("account_id"),
+  // OAuth tokens, encrypted at rest
+  accessToken: text("access_token"),
+  refreshToken: text("refresh_token"),
+  tokenExpiresAt: timestamp("token_expires_at"),
+  tokenScopes: text("token_scopes"),
+  // One-time code the creator places in their bio to prove ownership
+  bioCode: text("bio_code"),
+  bioCodeExpiresAt: timestamp("bio_code_expires_at"),
   createdAt: timestamp("created_at").defaultNow(),
   isTest: boolean("is_test").notNull().default(false),
 });
 
+// Pending OAuth account links, looked up by the state parameter on callback
+export const platformLinkStates = pgTable("platform_link_states", {
+  id: serial("id").primaryKey(),
+  state: text("state").notNull().unique(),
+  userId: integer("user_id").notNull(),
+  influencerId: integer("influencer_id").notNull(),
+  platform: text("platform").notNull(),
+  codeVerifier: text("code_verifier"), // PKCE verifier, for platforms that support it
+  redirectUri: text("redirect_uri").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Follower and engagement readings taken every time an account's metrics are fetched
+export const platformMetricSnapshots = pgTable("platform_metric_snapshots", {
+  id: serial("id").primaryKey(),
+  platform: text("platform").notNull(),
+  handle: text("handle").notNull(), // Lowercase, without a leading @
+  influencerId: integer("influencer_id"), // Set when the fetch was for a known profile
+  followers: integer("followers").notNull(),
+  engagementRate: decimal("engagement_rate", { precision: 5, scale: 2 }).notNull(),
+  mediaCount: integer("media_count"),
+  // Per-post averages, when the platform exposes them
+  averageLikes: integer("average_likes"),
+  averageComments: integer("average_comments"),
+  source: text("source", { enum: METRIC_SNAPSHOT_SOURCES }).notNull(),
+  capturedAt: timestamp("captured_at").notNull().defaultNow(),
+});
+
 export const insertBusinessProfileSchema = createInsertSchema(businessProfiles).pick({
   businessName: true,
   industry: true,
@@ -239,7 +360,9 @@ export const insertInfluencerProfileSchema = createInsertSchema(influencerProfil
   instagramUrl: true,
   tiktokUrl: true,
   youtubeUrl: true,
+  profileUrl: true,
   bio: true,
+  location: true,
 }).extend({
   // These fields are for form convenience only and will be transformed
   socialHandle: z.string().optional(),
@@ -248,6 +371,7 @@ export const insertInfluencerProfileSchema = createInsertSchema(influencerProfil
   followerCount: z.number().int().positive().optional(),
   engagementRate: z.number().positive().optional(),
   bio: z.string().nullable().optional(),
+  location: z.string().nullable().optional(),
 }).transform((data) => {
   // Store the URL in the appropriate field based on platform
   const updatedData: any = {
@@ -260,32 +384,16 @@ export const insertInfluencerProfileSchema = createInsertSchema(influencerProfil
   };
   
   // Set the URL in the appropriate field based on platform
-  if (data.platform === "instagram") {
+  const platform = getPlatform(data.platform);
+  if (platform) {
+    updatedData.platform = platform.id;
     if (data.socialUrl) {
-      updatedData.instagramUrl = data.socialUrl;
+      updatedData[platform.profileField] = data.socialUrl;
     } else if (data.socialHandle) {
-      updatedData.instagramUrl = `https://instagram.com/${data.socialHandle}`;
+      updatedData[platform.profileField] = platform.profileUrl(data.socialHandle.replace(/^@/, ''));
     } else {
       // Default URL to prevent validation errors
-      updatedData.instagramUrl = "https://instagram.com/";
-    }
-  } else if (data.platform === "tiktok") {
-    if (data.socialUrl) {
-      updatedData.tiktokUrl = data.socialUrl;
-    } else if (data.socialHandle) {
-      updatedData.tiktokUrl = `https://tiktok.com/@${data.socialHandle}`;
-    } else {
-      // Default URL to prevent validation errors
-      updatedData.tiktokUrl = "https://tiktok.com/";
-    }
-  } else if (data.platform === "youtube") {
-    if (data.socialUrl) {
-      updatedData.youtubeUrl = data.socialUrl;
-    } else if (data.socialHandle) {
-      updatedData.youtubeUrl = `https://youtube.com/@${data.socialHandle}`;
-    } else {
-      // Default URL to prevent validation errors
-      updatedData.youtubeUrl = "https://youtube.com/";
+      updatedData[platform.profileField] = `https://${platform.hosts[0]}/`;
     }
   }
   
@@ -299,6 +407,17 @@ export const insertInfluencerProfileSchema = createInsertSchema(influencerProfil
 export const insertOfferSchema = createInsertSchema(offers, {
   // The minEngagement field is a decimal in the database schema
   minEngagement: z.number().positive(),
+  claimMode: z.enum(["instant", "application"]).default("instant"),
+  maxAcceptedCreators: z.number().int().positive().nullable().optional(),
+  maxClaims: z.number().int().positive().nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  applicationDeadline: z.coerce.date().nullable().optional(),
+  verificationRequirements: verificationRequirementsSchema.nullable().optional(),
+  matchWeights: matchWeightsOverrideSchema.nullable().optional(),
+  radiusKm: z.number().int().positive().max(MAX_OFFER_RADIUS_KM).nullable().optional(),
+  audienceRequirements: audienceRequirementsSchema.nullable().optional(),
+  visibility: z.enum(OFFER_VISIBILITIES).default("public"),
 }).pick({
   title: true,
   description: true,
@@ -313,6 +432,17 @@ export const insertOfferSchema = createInsertSchema(offers, {
   contentType: true,
   location: true,
   tags: true,
+  claimMode: true,
+  maxAcceptedCreators: true,
+  maxClaims: true,
+  startsAt: true,
+  endsAt: true,
+  applicationDeadline: true,
+  verificationRequirements: true,
+  matchWeights: true,
+  radiusKm: true,
+  audienceRequirements: true,
+  visibility: true,
 });
 
 export const insertNotificationSchema = createInsertSchema(businessNotifications).pick({
@@ -324,12 +454,32 @@ export const insertNotificationSchema = createInsertSchema(businessNotifications
   relatedInfluencerId: true,
 });
 
+export const insertClaimEventSchema = createInsertSchema(claimEvents).pick({
+  claimId: true,
+  fromStatus: true,
+  toStatus: true,
+  actorType: true,
+  actorUserId: true,
+  reason: true,
+});
+
 export const insertPostSubmissionSchema = createInsertSchema(postSubmissions).pick({
   claimId: true,
   postUrl: true,
   platform: true,
 });
 
+export const insertPostVerificationSnapshotSchema = createInsertSchema(postVerificationSnapshots).pick({
+  submissionId: true,
+  status: true,
+  caption: true,
+  hashtags: true,
+  mentions: true,
+  missingHashtags: true,
+  missingMentions: true,
+  details: true,
+});
+
 export const insertMessageSchema = createInsertSchema(messages).pick({
   claimId: true,
   senderId: true,
@@ -344,20 +494,15 @@ export const insertDeliverableSchema = createInsertSchema(deliverables).pick({
 export const insertPreviewTokenSchema = createInsertSchema(previewTokens);
 
 // Schema for inserting a new social platform
+// Followers and engagement are measured by the server, never taken from the client
 export const insertSocialPlatformSchema = createInsertSchema(socialPlatforms).pick({
   influencerId: true,
   platform: true,
   handle: true,
   profileUrl: true,
-  followers: true,
-  engagementRate: true,
-  isVerified: true,
   isPrimary: true,
 }).extend({
   // Make some fields optional with validation
-  followers: z.number().int().optional(),
-  engagementRate: z.number().optional(),
-  isVerified: z.boolean().default(false),
   isPrimary: z.boolean().default(false),
   // Virtual fields for UI convenience
   id: z.string().optional(), // For client-side identification before DB insert
@@ -376,15 +521,26 @@ export const insertSocialPlatformSchema = createInsertSchema(socialPlatforms).pi
   return cleanData;
 });
 
+// Fields a creator can change on a platform they added; verification is server-side only
+export const updateSocialPlatformSchema = createInsertSchema(socialPlatforms).pick({
+  handle: true,
+  profileUrl: true,
+  isPrimary: true,
+}).partial();
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type BusinessProfile = typeof businessProfiles.$inferSelect;
 export type InfluencerProfile = typeof influencerProfiles.$inferSelect;
 export type Offer = typeof offers.$inferSelect;
 export type OfferClaim = typeof offerClaims.$inferSelect;
+export type ClaimEvent = typeof claimEvents.$inferSelect;
+export type InsertClaimEvent = z.infer<typeof insertClaimEventSchema>;
 export type BusinessNotification = typeof businessNotifications.$inferSelect;
 export type PostSubmission = typeof postSubmissions.$inferSelect;
 export type InsertPostSubmission = z.infer<typeof insertPostSubmissionSchema>;
+export type PostVerificationSnapshot = typeof postVerificationSnapshots.$inferSelect;
+export type InsertPostVerificationSnapshot = z.infer<typeof insertPostVerificationSnapshotSchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Deliverable = typeof deliverables.$inferSelect;
@@ -453,6 +609,37 @@ export const insertReportedContentSchema = createInsertSchema(reportedContent).p
 
 export type SocialPlatform = typeof socialPlatforms.$inferSelect;
 export type InsertSocialPlatform = z.infer<typeof insertSocialPlatformSchema>;
+// Social platform as sent to clients, without its OAuth tokens
+export type PublicSocialPlatform = Omit<SocialPlatform, 'accessToken' | 'refreshToken'>;
+
+export const insertPlatformLinkStateSchema = createInsertSchema(platformLinkStates).pick({
+  state: true,
+  userId: true,
+  influencerId: true,
+  platform: true,
+  codeVerifier: true,
+  redirectUri: true,
+  expiresAt: true,
+});
+
+export type PlatformLinkState = typeof platformLinkStates.$inferSelect;
+export type InsertPlatformLinkState = z.infer<typeof insertPlatformLinkStateSchema>;
+
+export const insertPlatformMetricSnapshotSchema = createInsertSchema(platformMetricSnapshots).pick({
+  platform: true,
+  handle: true,
+  influencerId: true,
+  followers: true,
+  engagementRate: true,
+  mediaCount: true,
+  averageLikes: true,
+  averageComments: true,
+  source: true,
+});
+
+export type PlatformMetricSnapshot = typeof platformMetricSnapshots.$inferSelect;
+export type InsertPlatformMetricSnapshot = z.infer<typeof insertPlatformMetricSnapshotSchema>;
+
 export type PreviewToken = typeof previewTokens.$inferSelect;
 export type InsertPreviewToken = z.infer<typeof insertPreviewTokenSchema>;
 export type AdminLog = typeof adminLogs.$inferSelect;
@@ -460,4 +647,367 @@ export type InsertAdminLog = z.infer<typeof insertAdminLogSchema>;
 export type SystemSetting = typeof systemSettings.$inferSelect;
 export type InsertSystemSetting = z.infer<typeof insertSystemSettingSchema>;
 export type ReportedContent = typeof reportedContent.$inferSelect;
-export type InsertReportedContent = z.infer<typeof insertReportedContentSchema>;
\ No newline at end of file
+export type InsertReportedContent = z.infer<typeof insertReportedContentSchema>;
+
+// Payment Ledger Tables
+// All amounts are stored in minor units (cents) so ledger math stays exact.
+export const ledgerAccounts = pgTable("ledger_accounts", {
+  id: serial("id").primaryKey(),
+  ownerType: text("owner_type").notNull(), // business, influencer
+  ownerId: integer("owner_id").notNull(),
+  accountType: text("account_type").notNull(), // funding, escrow, balance
+  currency: text("currency").notNull().default("USD"),
+  balance: integer("balance").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  ownerAccountUnique: unique("ledger_accounts_owner_unique").on(table.ownerType, table.ownerId, table.accountType, table.currency),
+}));
+
+// Every ledger transaction writes two or more entries whose amounts sum to zero
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  transactionId: text("transaction_id").notNull(),
+  accountId: integer("account_id").notNull(),
+  amount: integer("amount").notNull(), // positive = credit, negative = debit
+  entryType: text("entry_type").notNull(), // hold, hold_adjustment, release, refund, payout_request, payout, payout_rejected
+  holdId: integer("hold_id"),
+  payoutId: integer("payout_id"),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const escrowHolds = pgTable("escrow_holds", {
+  id: serial("id").primaryKey(),
+  claimId: integer("claim_id").notNull().unique(),
+  offerId: integer("offer_id").notNull(),
+  businessId: integer("business_id").notNull(),
+  influencerId: integer("influencer_id").notNull(),
+  amount: integer("amount").notNull(),
+  currency: text("currency").notNull().default("USD"),
+  status: text("status").notNull().default("held"), // held, released, refunded
+  provider: text("provider").notNull(),
+  providerReference: text("provider_reference"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  isTest: boolean("is_test").notNull().default(false),
+});
+
+export const escrowReleases = pgTable("escrow_releases", {
+  id: serial("id").primaryKey(),
+  holdId: integer("hold_id").notNull(),
+  amount: integer("amount").notNull(),
+  providerReference: text("provider_reference"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const escrowRefunds = pgTable("escrow_refunds", {
+  id: serial("id").primaryKey(),
+  holdId: integer("hold_id").notNull(),
+  amount: integer("amount").notNull(),
+  reason: text("reason").notNull(),
+  providerReference: text("provider_reference"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const payoutRequests = pgTable("payout_requests", {
+  id: serial("id").primaryKey(),
+  influencerId: integer("influencer_id").notNull(),
+  amount: integer("amount").notNull(),
+  currency: text("currency").notNull().default("USD"),
+  status: text("status").notNull().default("requested"), // requested, processing, paid, rejected, failed
+  provider: text("provider"),
+  providerReference: text("provider_reference"),
+  failureReason: text("failure_reason"),
+  processedBy: integer("processed_by"),
+  requestedAt: timestamp("requested_at").defaultNow(),
+  processedAt: timestamp("processed_at"),
+});
+
+export const insertEscrowHoldSchema = createInsertSchema(escrowHolds).pick({
+  claimId: true,
+  offerId: true,
+  businessId: true,
+  influencerId: true,
+  amount: true,
+  currency: true,
+  provider: true,
+  providerReference: true,
+  isTest: true,
+});
+
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type EscrowHold = typeof escrowHolds.$inferSelect;
+export type InsertEscrowHold = z.infer<typeof insertEscrowHoldSchema>;
+export type EscrowRelease = typeof escrowReleases.$inferSelect;
+export type EscrowRefund = typeof escrowRefunds.$inferSelect;
+export type PayoutRequest = typeof payoutRequests.$inferSelect;
+// Background job queue
+export const JOB_STATUSES = ['queued', 'running', 'completed', 'dead'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(),
+  payload: jsonb("payload").notNull().default({}),
+  status: text("status", { enum: JOB_STATUSES }).notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at").notNull().defaultNow(), // Not picked up before this time
+  lockedAt: timestamp("locked_at"), // When a worker started the current attempt
+  lastError: text("last_error"),
+  scheduleName: text("schedule_name"), // Set when enqueued by a recurring schedule
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Cron-style recurring jobs; nextRunAt is advanced when a run is enqueued
+export const jobSchedules = pgTable("job_schedules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  cron: text("cron").notNull(), // minute hour day-of-month month day-of-week
+  jobType: text("job_type").notNull(),
+  payload: jsonb("payload").notNull().default({}),
+  enabled: boolean("enabled").notNull().default(true),
+  lastRunAt: timestamp("last_run_at"),
+  nextRunAt: timestamp("next_run_at").notNull(),
+});
+
+export const insertJobSchema = createInsertSchema(jobs).pick({
+  type: true,
+  payload: true,
+  maxAttempts: true,
+  runAt: true,
+  scheduleName: true,
+});
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type JobSchedule = typeof jobSchedules.$inferSelect;
+
+// One row per LLM call so token usage and spend can be tracked per provider and task
+export const aiUsage = pgTable("ai_usage", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull(), // "openai", "ollama" or "stub"
+  model: text("model").notNull(),
+  task: text("task").notNull(), // e.g. "verify_post", "content_brief"
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  costUsd: decimal("cost_usd", { precision: 12, scale: 6 }).notNull().default("0"),
+  durationMs: integer("duration_ms").notNull().default(0),
+  success: boolean("success").notNull(),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAIUsageSchema = createInsertSchema(aiUsage).pick({
+  provider: true,
+  model: true,
+  task: true,
+  promptTokens: true,
+  completionTokens: true,
+  costUsd: true,
+  durationMs: true,
+  success: true,
+  error: true,
+});
+
+export type AIUsage = typeof aiUsage.$inferSelect;
+export type InsertAIUsage = z.infer<typeof insertAIUsageSchema>;
+
+
+// Vectors for semantic matching of influencer content and offer descriptions.
+// Requires the pgvector extension (CREATE EXTENSION vector) before the schema is pushed.
+export const EMBEDDING_ENTITY_TYPES = ['influencer', 'offer'] as const;
+export type EmbeddingEntityType = typeof EMBEDDING_ENTITY_TYPES[number];
+
+// Every provider is asked for vectors of this size so one column fits them all
+export const EMBEDDING_DIMENSIONS = 256;
+
+export const embeddings = pgTable("embeddings", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type", { enum: EMBEDDING_ENTITY_TYPES }).notNull(),
+  entityId: integer("entity_id").notNull(),
+  provider: text("provider").notNull(), // Vectors are only compared with others from the same provider
+  contentHash: text("content_hash").notNull(), // Hash of the embedded text, to skip unchanged content
+  embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }).notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  entityUnique: unique("embeddings_entity_unique").on(table.entityType, table.entityId),
+  embeddingIndex: index("embeddings_embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+}));
+
+export const insertEmbeddingSchema = createInsertSchema(embeddings).pick({
+  entityType: true,
+  entityId: true,
+  provider: true,
+  contentHash: true,
+  embedding: true,
+});
+
+export type Embedding = typeof embeddings.$inferSelect;
+export type InsertEmbedding = z.infer<typeof insertEmbeddingSchema>;
+
+// Creator CRM: a business's shortlists of creators and private notes about them
+export const shortlists = pgTable("shortlists", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  businessNameUnique: unique("shortlists_business_name_unique").on(table.businessId, table.name),
+}));
+
+export const shortlistMembers = pgTable("shortlist_members", {
+  id: serial("id").primaryKey(),
+  shortlistId: integer("shortlist_id").notNull(),
+  influencerId: integer("influencer_id").notNull(),
+  addedAt: timestamp("added_at").defaultNow(),
+}, (table) => ({
+  memberUnique: unique("shortlist_members_unique").on(table.shortlistId, table.influencerId),
+}));
+
+// One row per business and creator; only the business that wrote it can read it
+export const creatorNotes = pgTable("creator_notes", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  influencerId: integer("influencer_id").notNull(),
+  notes: text("notes"),
+  tags: text("tags").array().notNull().default([]),
+  rating: integer("rating"), // 1-5, the business's own rating of working with the creator
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  creatorUnique: unique("creator_notes_business_influencer_unique").on(table.businessId, table.influencerId),
+}));
+
+// A business inviting a creator to an offer; the offer shows in the creator's
+// Available tab even when it wouldn't otherwise match them
+export const offerInvitations = pgTable("offer_invitations", {
+  id: serial("id").primaryKey(),
+  offerId: integer("offer_id").notNull(),
+  businessId: integer("business_id").notNull(),
+  influencerId: integer("influencer_id").notNull(),
+  message: text("message"),
+  status: text("status", { enum: OFFER_INVITATION_STATUSES }).notNull().default("pending"),
+  declineReason: text("decline_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at"), // null never expires
+  respondedAt: timestamp("responded_at"),
+}, (table) => ({
+  invitationUnique: unique("offer_invitations_offer_influencer_unique").on(table.offerId, table.influencerId),
+}));
+
+export const insertShortlistSchema = createInsertSchema(shortlists).pick({
+  businessId: true,
+  name: true,
+  description: true,
+});
+
+export const insertCreatorNoteSchema = createInsertSchema(creatorNotes).pick({
+  businessId: true,
+  influencerId: true,
+  notes: true,
+  tags: true,
+  rating: true,
+});
+
+export const insertOfferInvitationSchema = createInsertSchema(offerInvitations).pick({
+  offerId: true,
+  businessId: true,
+  influencerId: true,
+  message: true,
+  expiresAt: true,
+});
+
+export type Shortlist = typeof shortlists.$inferSelect;
+export type InsertShortlist = z.infer<typeof insertShortlistSchema>;
+export type ShortlistMember = typeof shortlistMembers.$inferSelect;
+export type CreatorNote = typeof creatorNotes.$inferSelect;
+export type InsertCreatorNote = z.infer<typeof insertCreatorNoteSchema>;
+export type OfferInvitation = typeof offerInvitations.$inferSelect;
+export type InsertOfferInvitation = z.infer<typeof insertOfferInvitationSchema>;
+
+// Claim negotiation: proposals traded on a claim and the terms both sides agreed to
+export const dealProposals = pgTable("deal_proposals", {
+  id: serial("id").primaryKey(),
+  claimId: integer("claim_id").notNull(),
+  proposedBy: text("proposed_by", { enum: DEAL_PARTIES }).notNull(),
+  proposedByUserId: integer("proposed_by_user_id").notNull(),
+  // null leaves the term as it currently stands
+  reward: text("reward"),
+  rewardAmount: integer("reward_amount"),
+  postsRequired: integer("posts_required"),
+  timeframe: integer("timeframe"),
+  note: text("note"),
+  status: text("status", { enum: DEAL_PROPOSAL_STATUSES }).notNull().default("pending"),
+  createdAt: timestamp("created_at").defaultNow(),
+  respondedAt: timestamp("responded_at"),
+}, (table) => ({
+  claimIdx: index("deal_proposals_claim_idx").on(table.claimId),
+}));
+
+// Versioned snapshots of a claim's agreed terms; the highest version is current
+export const dealTerms = pgTable("deal_terms", {
+  id: serial("id").primaryKey(),
+  claimId: integer("claim_id").notNull(),
+  version: integer("version").notNull(),
+  reward: text("reward").notNull(),
+  rewardType: text("reward_type").notNull(),
+  rewardAmount: integer("reward_amount"),
+  postsRequired: integer("posts_required").notNull(),
+  timeframe: integer("timeframe").notNull(),
+  proposalId: integer("proposal_id"), // null for the version copied from the offer
+  agreedAt: timestamp("agreed_at").defaultNow(),
+}, (table) => ({
+  claimVersionUnique: unique("deal_terms_claim_version_unique").on(table.claimId, table.version),
+}));
+
+export const insertDealProposalSchema = createInsertSchema(dealProposals).pick({
+  claimId: true,
+  proposedBy: true,
+  proposedByUserId: true,
+  reward: true,
+  rewardAmount: true,
+  postsRequired: true,
+  timeframe: true,
+  note: true,
+});
+
+export type DealProposal = typeof dealProposals.$inferSelect;
+export type InsertDealProposal = z.infer<typeof insertDealProposalSchema>;
+export type DealTerms = typeof dealTerms.$inferSelect;
+
+// Campaigns: offers grouped under one budget, objective and date range
+export const campaigns = pgTable("campaigns", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  objective: text("objective", { enum: CAMPAIGN_OBJECTIVE_IDS }).notNull(),
+  budget: integer("budget").notNull(), // Whole dollars
+  pacingThreshold: integer("pacing_threshold").notNull().default(90), // Percent of budget at which offers pause
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  kpiTargets: jsonb("kpi_targets").$type<CampaignKpiTargets>().notNull().default({}),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertCampaignSchema = createInsertSchema(campaigns, {
+  kpiTargets: campaignKpiTargetsSchema,
+}).pick({
+  businessId: true,
+  name: true,
+  description: true,
+  objective: true,
+  budget: true,
+  pacingThreshold: true,
+  startsAt: true,
+  endsAt: true,
+  kpiTargets: true,
+});
+
+export type Campaign = typeof campaigns.$inferSelect;
+export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
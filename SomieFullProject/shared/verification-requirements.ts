@@ -0,0 +1,162 @@
+/**
+ * Per-offer post requirements and the deterministic checks run against them
+ *
+ * Businesses set these when creating an offer. Post verification checks every
+ * rule it can measure before asking the AI for a judgment on the rest, and
+ * stores the per-rule report in the submission's verificationDetails.
+ */
+import { z } from "zod";
+
+const normalizeTag = (prefix: '#' | '@') => (value: string) => {
+  const trimmed = value.trim().toLowerCase();
+  return trimmed.startsWith(prefix) ? trimmed : `${prefix}${trimmed}`;
+};
+
+export const verificationRequirementsSchema = z.object({
+  hashtags: z.array(z.string().trim().min(1).transform(normalizeTag('#'))).max(20).default([]),
+  mentions: z.array(z.string().trim().min(1).transform(normalizeTag('@'))).max(20).default([]),
+  // Any one of these satisfies the disclosure rule, e.g. #ad or #sponsored
+  disclosureTags: z.array(z.string().trim().min(1).transform(normalizeTag('#'))).max(10).default([]),
+  // URL or domain that must appear in the creator's bio while the post is live
+  linkInBio: z.string().trim().min(1).nullable().default(null),
+  minVideoSeconds: z.number().int().positive().nullable().default(null),
+  brandName: z.string().trim().min(1).nullable().default(null),
+});
+
+export type VerificationRequirements = z.infer<typeof verificationRequirementsSchema>;
+
+export type RequirementRule =
+  | 'hashtags'
+  | 'mentions'
+  | 'disclosure'
+  | 'link_in_bio'
+  | 'min_video_length'
+  | 'brand_name'
+  | 'sponsorship_disclosure';
+
+export interface RuleResult {
+  rule: RequirementRule;
+  label: string;
+  passed: boolean | null; // null when the rule could not be checked automatically
+  detail: string;
+}
+
+/**
+ * What was scraped from the post; fields the platform did not expose are null
+ */
+export interface PostEvidence {
+  caption: string;
+  videoSeconds: number | null;
+  bio: string | null;
+}
+
+export const EMPTY_VERIFICATION_REQUIREMENTS: VerificationRequirements = {
+  hashtags: [],
+  mentions: [],
+  disclosureTags: [],
+  linkInBio: null,
+  minVideoSeconds: null,
+  brandName: null,
+};
+
+/**
+ * Check whether an offer has any requirements to verify
+ */
+export function hasVerificationRequirements(requirements: VerificationRequirements | null | undefined): boolean {
+  if (!requirements) return false;
+  return requirements.hashtags.length > 0
+    || requirements.mentions.length > 0
+    || requirements.disclosureTags.length > 0
+    || !!requirements.linkInBio
+    || !!requirements.minVideoSeconds
+    || !!requirements.brandName;
+}
+
+// Match whole tags so #ad is not satisfied by #adventure
+const containsTag = (caption: string, tag: string): boolean => {
+  const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`${escaped}(?![\\w])`, 'i').test(caption);
+};
+
+const stripProtocol = (url: string): string =>
+  url.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/$/, '');
+
+/**
+ * Run the deterministic checks for an offer's requirements
+ *
+ * @param requirements The offer's requirements
+ * @param evidence What was scraped from the post and the creator's profile
+ * @returns One result per configured rule
+ */
+export function checkVerificationRequirements(
+  requirements: VerificationRequirements,
+  evidence: PostEvidence
+): RuleResult[] {
+  const results: RuleResult[] = [];
+  const caption = evidence.caption;
+
+  if (requirements.hashtags.length > 0) {
+    const missing = requirements.hashtags.filter(tag => !containsTag(caption, tag));
+    results.push({
+      rule: 'hashtags',
+      label: 'Required hashtags',
+      passed: missing.length === 0,
+      detail: missing.length === 0 ? 'All required hashtags found' : `Missing ${missing.join(', ')}`
+    });
+  }
+
+  if (requirements.mentions.length > 0) {
+    const missing = requirements.mentions.filter(mention => !containsTag(caption, mention));
+    results.push({
+      rule: 'mentions',
+      label: 'Required mentions',
+      passed: missing.length === 0,
+      detail: missing.length === 0 ? 'All required mentions found' : `Missing ${missing.join(', ')}`
+    });
+  }
+
+  if (requirements.disclosureTags.length > 0) {
+    const found = requirements.disclosureTags.find(tag => containsTag(caption, tag));
+    results.push({
+      rule: 'disclosure',
+      label: 'Sponsorship disclosure',
+      passed: !!found,
+      detail: found ? `Disclosed with ${found}` : `Add one of ${requirements.disclosureTags.join(', ')}`
+    });
+  }
+
+  if (requirements.linkInBio) {
+    const expected = stripProtocol(requirements.linkInBio);
+    results.push(evidence.bio === null
+      ? { rule: 'link_in_bio', label: 'Link in bio', passed: null, detail: 'The creator bio could not be read' }
+      : {
+          rule: 'link_in_bio',
+          label: 'Link in bio',
+          passed: evidence.bio.toLowerCase().includes(expected),
+          detail: evidence.bio.toLowerCase().includes(expected) ? `Bio links to ${expected}` : `Bio does not link to ${expected}`
+        });
+  }
+
+  if (requirements.minVideoSeconds) {
+    results.push(evidence.videoSeconds === null
+      ? { rule: 'min_video_length', label: 'Minimum video length', passed: null, detail: 'The video length could not be read' }
+      : {
+          rule: 'min_video_length',
+          label: 'Minimum video length',
+          passed: evidence.videoSeconds >= requirements.minVideoSeconds,
+          detail: `Video is ${evidence.videoSeconds}s; at least ${requirements.minVideoSeconds}s required`
+        });
+  }
+
+  if (requirements.brandName) {
+    const mentioned = caption.toLowerCase().includes(requirements.brandName.toLowerCase());
+    results.push({
+      rule: 'brand_name',
+      label: 'Brand name in caption',
+      passed: mentioned,
+      detail: mentioned ? `Caption mentions ${requirements.brandName}` : `Caption does not mention ${requirements.brandName}`
+    });
+  }
+
+  return results;
+}